@@ -0,0 +1,141 @@
+/**
+ * aiRateLimiter 单元测试
+ *
+ * 覆盖：Retry-After 解析（毫秒头、秒数、HTTP 日期）；按每分钟请求数与 Token 排队等待；
+ * Retry-After 使所有请求一起暂停；连续服务端失败后熔断、冷却后恢复、成功清零计数、配置变化时重置；
+ * AIReviewer 熔断后停止重试并以一条 ai_review_error 快速结束审查。
+ */
+
+import { AxiosError, AxiosHeaders } from 'axios';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AIRateLimiter, CircuitOpenError, parseRetryAfterMs } from '../../ai/aiRateLimiter';
+import { AIReviewer } from '../../ai/aiReviewer';
+import { createMockConfigManager } from '../helpers/mockConfigManager';
+
+const httpError = (status: number, headers: Record<string, string> = {}): AxiosError =>
+    new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', undefined, undefined, {
+        status,
+        statusText: '',
+        headers,
+        config: { headers: new AxiosHeaders() },
+        data: {},
+    });
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('aiRateLimiter', () => {
+    it('解析 retry-after-ms、Retry-After 秒数与 HTTP 日期，无响应头时返回 null', () => {
+        const now = Date.parse('2026-01-01T00:00:00Z');
+        expect(parseRetryAfterMs(httpError(429, { 'retry-after-ms': '1500', 'retry-after': '9' }), now)).toBe(1500);
+        expect(parseRetryAfterMs(httpError(429, { 'retry-after': '3' }), now)).toBe(3000);
+        expect(parseRetryAfterMs(httpError(503, { 'retry-after': 'Thu, 01 Jan 2026 00:00:10 GMT' }), now)).toBe(10_000);
+        expect(parseRetryAfterMs(httpError(429), now)).toBeNull();
+        expect(parseRetryAfterMs(new Error('boom'), now)).toBeNull();
+    });
+
+    it('超过每分钟请求数与 Token 上限时排队等待，窗口滑出后放行', async () => {
+        vi.useFakeTimers();
+        const limiter = new AIRateLimiter();
+        limiter.configure({ requestsPerMinute: 2, tokensPerMinute: 1000 });
+
+        await limiter.acquire(100);
+        await limiter.acquire(100);
+        let acquired = false;
+        const pending = limiter.acquire(100).then(() => { acquired = true; });
+        await vi.advanceTimersByTimeAsync(0);
+        expect(limiter.getState()).toMatchObject({ status: 'throttled', reason: 'rpm', waiting: 1 });
+        await vi.advanceTimersByTimeAsync(59_000);
+        expect(acquired).toBe(false);
+        await vi.advanceTimersByTimeAsync(1_000);
+        await pending;
+        expect(limiter.getState()).toMatchObject({ status: 'ready', waiting: 0 });
+
+        limiter.configure({ tokensPerMinute: 1000 });
+        const tokenLimited = limiter.acquire(950);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(limiter.getState()).toMatchObject({ status: 'throttled', reason: 'tpm' });
+        await vi.advanceTimersByTimeAsync(60_000);
+        await tokenLimited;
+    });
+
+    it('Retry-After 使后续请求一起暂停到指定时间', async () => {
+        vi.useFakeTimers();
+        const limiter = new AIRateLimiter();
+        limiter.configure({});
+        const states: string[] = [];
+        limiter.onDidChangeState(state => states.push(state.status));
+
+        expect(limiter.recordFailure(httpError(429, { 'retry-after': '2' }))).toBe(2000);
+        const first = limiter.acquire(10);
+        const second = limiter.acquire(10);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(limiter.getState()).toMatchObject({ status: 'throttled', reason: 'retry_after', waiting: 2 });
+        await vi.advanceTimersByTimeAsync(2_000);
+        await Promise.all([first, second]);
+        expect(states).toContain('throttled');
+        expect(states.at(-1)).toBe('ready');
+    });
+
+    it('连续服务端失败达到阈值后熔断，冷却后恢复；成功清零计数，请求错误不计入', async () => {
+        vi.useFakeTimers();
+        const limiter = new AIRateLimiter();
+        limiter.configure({ circuitBreakerThreshold: 2, circuitBreakerCooldownMs: 1_000 });
+
+        limiter.recordFailure(httpError(503));
+        limiter.recordSuccess();
+        limiter.recordFailure(httpError(503));
+        limiter.recordFailure(httpError(400));
+        expect(limiter.getState()).toMatchObject({ status: 'ready', consecutiveFailures: 1 });
+
+        limiter.recordFailure(httpError(500));
+        expect(limiter.getState()).toMatchObject({ status: 'open', consecutiveFailures: 2 });
+        await expect(limiter.acquire(10)).rejects.toBeInstanceOf(CircuitOpenError);
+
+        // 相同配置再次应用不重置熔断
+        limiter.configure({ circuitBreakerThreshold: 2, circuitBreakerCooldownMs: 1_000 });
+        expect(limiter.getState().status).toBe('open');
+
+        await vi.advanceTimersByTimeAsync(1_000);
+        expect(limiter.getState().status).toBe('ready');
+        await expect(limiter.acquire(10)).resolves.toBeUndefined();
+
+        limiter.recordFailure(httpError(503));
+        expect(limiter.getState().status).toBe('open');
+        limiter.configure({ circuitBreakerThreshold: 3, circuitBreakerCooldownMs: 1_000 });
+        expect(limiter.getState()).toMatchObject({ status: 'ready', consecutiveFailures: 0 });
+    });
+
+    it('AIReviewer 熔断后不再重试，以一条 ai_review_error 结束审查', async () => {
+        const aiReviewer = new AIReviewer(createMockConfigManager({
+            ai_review: {
+                enabled: true,
+                api_format: 'openai',
+                api_endpoint: 'https://api.example.com/v1',
+                api_key: 'rate-limit-test-key',
+                model: 'test-model',
+                timeout: 1000,
+                action: 'warning',
+                retry_count: 3,
+                retry_delay: 1,
+                disk_cache: false,
+                circuit_breaker_threshold: 2,
+                circuit_breaker_cooldown_ms: 60_000,
+            },
+        }));
+        await aiReviewer.initialize();
+        const postMock = vi.fn(async () => {
+            throw httpError(503);
+        });
+        (aiReviewer as unknown as { axiosInstance: { post: typeof postMock } }).axiosInstance.post = postMock;
+
+        const issues = await aiReviewer.review({ files: [{ path: 'src/a.ts', content: 'export const a = 1;' }] });
+
+        expect(postMock).toHaveBeenCalledTimes(2);
+        expect(issues).toHaveLength(1);
+        expect(issues[0]).toMatchObject({ rule: 'ai_review_error', severity: 'warning' });
+        expect(issues[0].message).toContain('AI 服务连续失败 2 次');
+        expect(AIRateLimiter.getInstance().getState().status).toBe('open');
+    });
+});
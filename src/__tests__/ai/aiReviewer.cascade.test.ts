@@ -0,0 +1,233 @@
+/**
+ * aiReviewer.cascade 单元测试
+ *
+ * 覆盖：分诊响应解析（漏判视为需审查）；风险改动不经分诊直接升级、琐碎单元跳过、分诊失败整批兜底升级，
+ * 风险改动按归一化路径匹配 diff；分诊批次受单元数与 Token 预算约束，超预算单元直接升级；
+ * 分诊调用以 triage 层写入 Token；AIReviewer 配置 triage_model 后只把升级的单元交给主模型，Azure 分诊发往 triage_model 部署。
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+    TRIAGE_BATCH_SIZE,
+    buildTriageRequest,
+    parseTriageResponse,
+    splitTriageBatches,
+    triageReviewUnits,
+} from '../../ai/aiReviewer.cascade';
+import { estimateFilesTokens } from '../../ai/aiReviewer.tokens';
+import type { AIReviewConfig, ReviewUnit } from '../../ai/aiReviewer.types';
+import type { FileDiff } from '../../utils/diffTypes';
+import { AIReviewer } from '../../ai/aiReviewer';
+import { RuntimeTraceLogger } from '../../utils/runtimeTraceLogger';
+import { createMockConfigManager } from '../helpers/mockConfigManager';
+
+const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } as any;
+
+const config: AIReviewConfig = {
+    enabled: true,
+    api_format: 'openai',
+    apiEndpoint: 'https://api.example.com/v1',
+    model: 'strong-model',
+    triage_model: 'fast-model',
+    timeout: 1000,
+    retry_count: 0,
+    action: 'warning',
+};
+
+const unit = (id: number, content = `const v${id} = ${id};`): ReviewUnit => ({
+    unitId: `u${id}`,
+    path: `src/f${id}.ts`,
+    content,
+    snippetCount: 1,
+    sourceType: 'diff',
+});
+
+const diff = (filePath: string, lines: string[]): FileDiff => ({
+    path: filePath,
+    hunks: [{ newStart: 1, newCount: lines.length, lines }],
+    addedContentLines: lines,
+});
+
+const triageReply = (units: Array<{ index: number; needs_review: boolean }>) => ({
+    data: {
+        choices: [{ message: { content: JSON.stringify({ units }) } }],
+        usage: { prompt_tokens: 120, completion_tokens: 30 },
+    },
+});
+
+const createDeps = (post: (...args: unknown[]) => Promise<unknown>) => {
+    const runtimeTraceLogger = { addLlmCall: vi.fn(), addCascadeTriage: vi.fn() };
+    return {
+        runtimeTraceLogger,
+        deps: {
+            config,
+            axiosInstance: { post } as any,
+            logger,
+            runtimeTraceLogger: runtimeTraceLogger as any,
+            shouldRetry: () => false,
+        },
+    };
+};
+
+describe('aiReviewer.cascade', () => {
+    it('分诊请求使用 triage_model，响应未覆盖的单元视为需审查', () => {
+        const body = buildTriageRequest(config, [unit(1), unit(2)]);
+        expect(body.model).toBe('fast-model');
+        expect(body.messages[1].content).toContain('### 单元 1: src/f2.ts');
+
+        const { needsReview, unjudged } = parseTriageResponse(
+            '```json\n{"units":[{"index":0,"needs_review":false},{"index":1,"needs_review":true}]}\n```',
+            3,
+            logger
+        );
+        expect([...needsReview]).toEqual([1]);
+        expect([...unjudged]).toEqual([2]);
+        expect(() => parseTriageResponse('not json', 1, logger)).toThrow();
+    });
+
+    it('风险改动直接升级，其余按分诊结果升级或跳过，并按 triage 层记录 Token', async () => {
+        const post = vi.fn(async () => triageReply([
+            { index: 0, needs_review: false },
+            { index: 1, needs_review: true },
+        ]));
+        const { deps, runtimeTraceLogger } = createDeps(post);
+        const units = [unit(1, 'if (a) { run(); }'), unit(2), unit(3), unit(4)];
+        const diffByFile = new Map([['src/f1.ts', diff('src/f1.ts', ['if (a) { run(); }'])]]);
+
+        const result = await triageReviewUnits(deps, units, { diffByFile }, { runId: 'run-1' } as any);
+
+        expect(result.escalated.map(u => u.unitId)).toEqual(['u1', 'u3', 'u4']);
+        expect(result.stats).toEqual({
+            units: 4, escalatedByRisk: 1, escalatedByTriage: 1, escalatedByFallback: 1, skipped: 1,
+        });
+        const [, requestBody] = post.mock.calls[0] as unknown as [string, { model: string; messages: Array<{ content: string }> }];
+        expect(requestBody.model).toBe('fast-model');
+        expect(requestBody.messages[1].content).not.toContain('src/f1.ts');
+        expect(runtimeTraceLogger.addLlmCall).toHaveBeenCalledWith(
+            'run-1',
+            expect.objectContaining({ tier: 'triage', prompt_tokens: 120, completion_tokens: 30 })
+        );
+        expect(runtimeTraceLogger.addCascadeTriage).toHaveBeenCalledWith('run-1', result.stats);
+    });
+
+    it('风险改动按归一化路径匹配 diff', async () => {
+        const post = vi.fn(async () => triageReply([]));
+        const { deps } = createDeps(post);
+        const riskyUnit = { ...unit(5, 'if (a) { run(); }'), path: 'src/./f5.ts' };
+        const diffByFile = new Map([['src/f5.ts', diff('src/f5.ts', ['if (a) { run(); }'])]]);
+
+        const result = await triageReviewUnits(deps, [riskyUnit], { diffByFile });
+
+        expect(result.stats).toMatchObject({ escalatedByRisk: 1, skipped: 0 });
+        expect(post).not.toHaveBeenCalled();
+    });
+
+    it('分诊批次受单元数与 Token 预算约束，超出预算的单元不发分诊直接升级', async () => {
+        const many = Array.from({ length: TRIAGE_BATCH_SIZE + 2 }, (_, i) => unit(i + 1));
+        expect(splitTriageBatches(many, 10_000).batches.map(batch => batch.length)).toEqual([TRIAGE_BATCH_SIZE, 2]);
+
+        const large = unit(99, 'const value = compute(input);\n'.repeat(40));
+        const pairBudget = estimateFilesTokens([unit(1), unit(2)]);
+        const { batches, oversized } = splitTriageBatches([unit(1), large, unit(2), unit(3)], pairBudget);
+        expect(oversized.map(u => u.unitId)).toEqual(['u99']);
+        expect(batches.map(batch => batch.map(u => u.unitId))).toEqual([['u1', 'u2'], ['u3']]);
+
+        const post = vi.fn(async () => triageReply([{ index: 0, needs_review: false }]));
+        const { deps } = createDeps(post);
+        const result = await triageReviewUnits(
+            { ...deps, config: { ...config, model_profiles: { 'fast-model': { context_window: 1500 } } } },
+            [unit(1), large],
+            {}
+        );
+        expect(post).toHaveBeenCalledTimes(1);
+        expect((post.mock.calls[0] as unknown as [string, { messages: Array<{ content: string }> }])[1].messages[1].content)
+            .not.toContain('compute(input)');
+        expect(result.escalated.map(u => u.unitId)).toEqual(['u99']);
+        expect(result.stats).toMatchObject({ escalatedByFallback: 1, skipped: 1 });
+    });
+
+    it('分诊请求失败时整批交给主模型', async () => {
+        const { deps } = createDeps(vi.fn(async () => {
+            throw new Error('boom');
+        }));
+
+        const result = await triageReviewUnits(deps, [unit(1), unit(2)], {});
+
+        expect(result.escalated).toHaveLength(2);
+        expect(result.stats).toMatchObject({ escalatedByFallback: 2, skipped: 0 });
+    });
+
+    it('AIReviewer 配置 triage_model 后只把升级的单元交给主模型', async () => {
+        const aiReviewer = new AIReviewer(createMockConfigManager({
+            ai_review: {
+                enabled: true,
+                api_format: 'openai',
+                api_endpoint: 'https://api.example.com/v1',
+                api_key: 'test-api-key',
+                model: 'strong-model',
+                triage_model: 'fast-model',
+                timeout: 1000,
+                action: 'warning',
+                retry_count: 0,
+                batching_mode: 'file_count',
+            },
+        }));
+        await aiReviewer.initialize();
+        const postMock = vi.fn(async () => triageReply([
+            { index: 0, needs_review: false },
+            { index: 1, needs_review: true },
+        ]));
+        (aiReviewer as unknown as { axiosInstance: { post: typeof postMock } }).axiosInstance.post = postMock;
+        const callApiSpy = vi
+            .spyOn(aiReviewer as unknown as { callAPI: (input: { files: Array<{ path: string }> }) => Promise<{ issues: [] }> }, 'callAPI')
+            .mockResolvedValue({ issues: [] });
+        const addCascadeTriage = vi.spyOn(RuntimeTraceLogger.getInstance(), 'addCascadeTriage').mockImplementation(() => undefined);
+
+        await aiReviewer.review({
+            files: [
+                { path: 'src/a.ts', content: '// 注释调整' },
+                { path: 'src/b.ts', content: 'export const total = items.reduce((s, i) => s + i.price, 0);' },
+            ],
+        }, { runId: 'run-1', trigger: 'manual', startedAt: 0 });
+
+        expect(postMock).toHaveBeenCalledTimes(1);
+        expect(callApiSpy).toHaveBeenCalledTimes(1);
+        expect(callApiSpy.mock.calls[0][0].files.map(file => file.path)).toEqual(['src/b.ts']);
+        expect(addCascadeTriage).toHaveBeenCalledWith('run-1', expect.objectContaining({ units: 2, skipped: 1 }));
+        addCascadeTriage.mockRestore();
+    });
+
+    it('Azure 分诊请求发往 triage_model 部署，完整部署地址时忽略 triage_model', async () => {
+        const createReviewer = async (apiEndpoint: string) => {
+            const aiReviewer = new AIReviewer(createMockConfigManager({
+                ai_review: {
+                    enabled: true,
+                    api_format: 'azure_openai',
+                    api_endpoint: apiEndpoint,
+                    api_key: 'test-api-key',
+                    model: 'strong-model',
+                    triage_model: 'fast-model',
+                    timeout: 1000,
+                    action: 'warning',
+                    retry_count: 0,
+                    batching_mode: 'file_count',
+                },
+            }));
+            await aiReviewer.initialize();
+            const postMock = vi.fn(async () => triageReply([{ index: 0, needs_review: true }]));
+            (aiReviewer as unknown as { axiosInstance: { post: typeof postMock } }).axiosInstance.post = postMock;
+            vi.spyOn(aiReviewer as unknown as { callAPI: () => Promise<{ issues: [] }> }, 'callAPI').mockResolvedValue({ issues: [] });
+            await aiReviewer.review({ files: [{ path: 'src/b.ts', content: 'export const b = load();' }] });
+            return postMock;
+        };
+
+        const resourcePost = await createReviewer('https://res.openai.azure.com');
+        expect(resourcePost).toHaveBeenCalledTimes(1);
+        expect((resourcePost.mock.calls[0] as unknown[])[0]).toMatch(
+            /^https:\/\/res\.openai\.azure\.com\/openai\/deployments\/fast-model\/chat\/completions\?api-version=/
+        );
+
+        const deploymentPost = await createReviewer('https://res.openai.azure.com/openai/deployments/strong-model');
+        expect(deploymentPost).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,166 @@
+/**
+ * aiReviewer.diskCache 单元测试
+ *
+ * 覆盖：按命名空间 + 请求体读写、过期与损坏条目失效、容量超限按最近使用淘汰、首次写入生成 .gitignore；
+ * AIReviewer 重建实例（模拟重启）后命中磁盘缓存不再请求，规则配置变化后失效，并写入命中统计。
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createAIResponseDiskCache } from '../../ai/aiReviewer.diskCache';
+import { AIReviewer } from '../../ai/aiReviewer';
+import { RuntimeTraceLogger } from '../../utils/runtimeTraceLogger';
+import { createMockConfigManager } from '../helpers/mockConfigManager';
+import { createDefaultConfig } from '../helpers/testFixtures';
+
+const tempDirs: string[] = [];
+const makeTempDir = async (): Promise<string> => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'agentreview-ai-cache-'));
+    tempDirs.push(dir);
+    return dir;
+};
+
+const response = (file: string) => ({
+    issues: [{ file, line: 2, column: 1, message: 'm', severity: 'warning' as const }],
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 缓存条目文件名（不含 .gitignore） */
+const readEntryNames = async (dir: string): Promise<string[]> =>
+    (await fs.promises.readdir(dir)).filter(name => name.endsWith('.json'));
+
+afterEach(async () => {
+    vi.useRealTimers();
+    await Promise.all(tempDirs.splice(0).map(dir => fs.promises.rm(dir, { recursive: true, force: true })));
+});
+
+describe('aiReviewer.diskCache', () => {
+    it('同一命名空间与请求体命中，任一变化则未命中', async () => {
+        const dir = await makeTempDir();
+        const cache = createAIResponseDiskCache({ dir, namespace: 'ns-1', maxSizeBytes: 1024 * 1024, maxAgeMs: DAY_MS });
+        const body = { model: 'm', messages: [{ role: 'user', content: 'a' }] };
+
+        await cache.set(body, response('a.ts'));
+
+        expect(await cache.get({ model: 'm', messages: [{ role: 'user', content: 'a' }] })).toEqual(response('a.ts'));
+        expect(await cache.get({ ...body, model: 'other' })).toBeNull();
+        const otherNamespace = createAIResponseDiskCache({ dir, namespace: 'ns-2', maxSizeBytes: 1024 * 1024, maxAgeMs: DAY_MS });
+        expect(await otherNamespace.get(body)).toBeNull();
+    });
+
+    it('首次写入时在缓存目录生成忽略全部内容的 .gitignore，已有文件不覆盖', async () => {
+        const dir = path.join(await makeTempDir(), '.vscode', 'agentreview-cache');
+        const cache = createAIResponseDiskCache({ dir, namespace: 'ns-1', maxSizeBytes: 1024 * 1024, maxAgeMs: DAY_MS });
+
+        await cache.set({ model: 'm' }, response('a.ts'));
+
+        const gitignorePath = path.join(dir, '.gitignore');
+        expect((await fs.promises.readFile(gitignorePath, 'utf8')).split('\n')).toContain('*');
+        await fs.promises.writeFile(gitignorePath, '*\n!keep.json\n', 'utf8');
+        const restarted = createAIResponseDiskCache({ dir, namespace: 'ns-1', maxSizeBytes: 1024 * 1024, maxAgeMs: DAY_MS });
+        await restarted.set({ model: 'n' }, response('b.ts'));
+        expect(await fs.promises.readFile(gitignorePath, 'utf8')).toBe('*\n!keep.json\n');
+        expect(await restarted.get({ model: 'm' })).toEqual(response('a.ts'));
+    });
+
+    it('过期或损坏的条目不命中并被删除', async () => {
+        const dir = await makeTempDir();
+        const cache = createAIResponseDiskCache({ dir, namespace: 'ns', maxSizeBytes: 1024 * 1024, maxAgeMs: DAY_MS });
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+        await cache.set({ id: 1 }, response('a.ts'));
+        vi.setSystemTime(new Date('2026-01-03T00:00:00Z'));
+
+        expect(await cache.get({ id: 1 })).toBeNull();
+        expect(await readEntryNames(dir)).toEqual([]);
+
+        await cache.set({ id: 2 }, response('b.ts'));
+        const [name] = await readEntryNames(dir);
+        await fs.promises.writeFile(path.join(dir, name), '{"version":1,', 'utf8');
+        expect(await cache.get({ id: 2 })).toBeNull();
+    });
+
+    it('总大小超限时按最近使用时间从旧到新淘汰', async () => {
+        const dir = await makeTempDir();
+        const cache = createAIResponseDiskCache({ dir, namespace: 'ns', maxSizeBytes: 1024 * 1024, maxAgeMs: DAY_MS });
+        for (const id of [1, 2, 3]) {
+            await cache.set({ id }, response(`${id}.ts`));
+        }
+        const names = await readEntryNames(dir);
+        const entrySize = (await fs.promises.stat(path.join(dir, names[0]))).size;
+        const base = Date.now() / 1000;
+        const ages = new Map<number, number>([[1, 300], [2, 200], [3, 100]]);
+        for (const id of [1, 2, 3]) {
+            const filePath = names.map(n => path.join(dir, n)).find(p => fs.readFileSync(p, 'utf8').includes(`"${id}.ts"`))!;
+            await fs.promises.utimes(filePath, base - ages.get(id)!, base - ages.get(id)!);
+        }
+        // 命中 1 号条目会刷新其访问时间，淘汰时应先删 2 号
+        expect(await cache.get({ id: 1 })).not.toBeNull();
+
+        const limited = createAIResponseDiskCache({ dir, namespace: 'ns', maxSizeBytes: entrySize * 2, maxAgeMs: DAY_MS });
+        await limited.prune();
+
+        expect(await limited.get({ id: 2 })).toBeNull();
+        expect(await limited.get({ id: 1 })).not.toBeNull();
+        expect(await limited.get({ id: 3 })).not.toBeNull();
+    });
+
+    const createReviewer = (globalStorageDir: string, rules = createDefaultConfig().rules) => {
+        const configManager = createMockConfigManager({
+            rules,
+            ai_review: {
+                enabled: true,
+                api_format: 'openai',
+                api_endpoint: 'https://api.example.com/v1',
+                api_key: 'test-api-key',
+                model: 'test-model',
+                timeout: 1000,
+                action: 'warning',
+                retry_count: 0,
+            },
+        });
+        vi.spyOn(configManager, 'getGlobalStoragePath').mockReturnValue(globalStorageDir);
+        const aiReviewer = new AIReviewer(configManager);
+        const postMock = vi.fn(async () => ({
+            data: { choices: [{ message: { content: JSON.stringify(response('src/a.ts')) } }] },
+        }));
+        (aiReviewer as unknown as { axiosInstance: { post: typeof postMock } }).axiosInstance.post = postMock;
+        const callAPI = (aiReviewer as unknown as {
+            callAPI: (
+                input: { files: Array<{ path: string; content: string }> },
+                options: undefined,
+                traceSession: { runId: string }
+            ) => Promise<{ issues: Array<{ file: string }> }>
+        }).callAPI.bind(aiReviewer);
+        return { aiReviewer, postMock, callAPI };
+    };
+
+    it('AIReviewer 重建后命中磁盘缓存，规则配置变化后重新请求', async () => {
+        const storageDir = await makeTempDir();
+        const input = { files: [{ path: 'src/a.ts', content: 'const a = 1;' }] };
+        const addLlmCacheLookup = vi.spyOn(RuntimeTraceLogger.getInstance(), 'addLlmCacheLookup').mockImplementation(() => undefined);
+
+        const first = createReviewer(storageDir);
+        await first.aiReviewer.initialize();
+        await first.callAPI(input, undefined, { runId: 'run-1' });
+        expect(first.postMock).toHaveBeenCalledTimes(1);
+        expect(addLlmCacheLookup).toHaveBeenLastCalledWith('run-1', { hit: false });
+
+        const second = createReviewer(storageDir);
+        await second.aiReviewer.initialize();
+        const cached = await second.callAPI(input, undefined, { runId: 'run-2' });
+        expect(second.postMock).not.toHaveBeenCalled();
+        expect(cached.issues.map(issue => issue.file)).toEqual(['src/a.ts']);
+        expect(addLlmCacheLookup).toHaveBeenLastCalledWith('run-2', { hit: true });
+
+        const rules = { ...createDefaultConfig().rules, strict_mode: !createDefaultConfig().rules.strict_mode };
+        const third = createReviewer(storageDir, rules);
+        await third.aiReviewer.initialize();
+        await third.callAPI(input, undefined, { runId: 'run-3' });
+        expect(third.postMock).toHaveBeenCalledTimes(1);
+        addLlmCacheLookup.mockRestore();
+    });
+});
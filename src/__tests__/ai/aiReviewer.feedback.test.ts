@@ -0,0 +1,133 @@
+/**
+ * aiReviewer.feedback 单元测试
+ *
+ * 覆盖：描述归一化（去掉引号内标识符与数字）；同规则相似描述聚类、按次数排序、AI 失败记录不参与；
+ * 提示段落受类型数上限约束并带放行原因；按忽略文件 mtime 缓存；AIReviewer 把反馈追加到系统提示词，关闭后不追加。
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    IgnoreFeedback,
+    buildFeedbackPrompt,
+    clusterFeedbackEntries,
+    normalizeFeedbackMessage,
+} from '../../ai/aiReviewer.feedback';
+import { AIReviewer } from '../../ai/aiReviewer';
+import { createMockConfigManager } from '../helpers/mockConfigManager';
+
+const mocked = vi.hoisted(() => ({ workspaceRoot: undefined as string | undefined }));
+
+vi.mock('../../utils/workspaceRoot', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../../utils/workspaceRoot')>()),
+    getEffectiveWorkspaceRoot: () => (mocked.workspaceRoot
+        ? { uri: { fsPath: mocked.workspaceRoot }, name: 'repo', index: 0 }
+        : undefined),
+}));
+
+const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } as any;
+
+const STORE = {
+    version: 2,
+    items: [
+        { fingerprint: 'fp1', file: 'src/a.ts', line: 3, rule: 'ai_review', message: '建议为函数 `loadUser` 添加 JSDoc 注释' },
+        { fingerprint: 'fp2', file: 'src/b.ts', line: 9, rule: 'ai_review', message: '建议为函数 `saveOrder` 添加 JSDoc 注释' },
+        { fingerprint: 'fp3', file: 'src/c.ts', line: 1, rule: 'ai_review_error', message: 'AI 审查失败: timeout' },
+    ],
+    allowed: [
+        { file: 'src/c.ts', line: 4, rule: 'ai_review', message: '建议为函数 `init` 添加 JSDoc 注释', reason: '内部函数无需注释' },
+        { file: 'src/d.ts', line: 20, rule: 'ai_review', message: '魔法数字 86400 应提取为常量', reason: '含义已在变量名中体现' },
+    ],
+};
+
+const tempDirs: string[] = [];
+const makeWorkspace = async (store: unknown): Promise<string> => {
+    const root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'agentreview-feedback-'));
+    tempDirs.push(root);
+    await fs.promises.mkdir(path.join(root, '.vscode'), { recursive: true });
+    await fs.promises.writeFile(path.join(root, '.vscode', 'agentreview-ignore.json'), JSON.stringify(store), 'utf8');
+    return root;
+};
+
+afterEach(async () => {
+    mocked.workspaceRoot = undefined;
+    await Promise.all(tempDirs.splice(0).map(dir => fs.promises.rm(dir, { recursive: true, force: true })));
+});
+
+describe('aiReviewer.feedback', () => {
+    it('同规则相似描述归为一类并按次数排序，AI 失败记录不参与', () => {
+        expect(normalizeFeedbackMessage('变量 `userId` 在第 12 行未使用')).toBe('变量 在第 行未使用');
+
+        const clusters = clusterFeedbackEntries([
+            ...STORE.items.map(item => ({ rule: item.rule, message: item.message, file: item.file })),
+            ...STORE.allowed,
+            { rule: 'no_todo', message: '建议为函数 `x` 添加 JSDoc 注释', file: 'src/e.ts' },
+        ]);
+        expect(clusters).toEqual([
+            { rule: 'ai_review', message: '建议为函数 `loadUser` 添加 JSDoc 注释', count: 3, files: 3, reasons: ['内部函数无需注释'] },
+            { rule: 'ai_review', message: '魔法数字 86400 应提取为常量', count: 1, files: 1, reasons: ['含义已在变量名中体现'] },
+            { rule: 'no_todo', message: '建议为函数 `x` 添加 JSDoc 注释', count: 1, files: 1, reasons: [] },
+        ]);
+    });
+
+    it('提示段落受类型数上限约束', () => {
+        const clusters = clusterFeedbackEntries(STORE.allowed);
+        const prompt = buildFeedbackPrompt(clusters, 1);
+        expect(prompt).toBe([
+            '**本项目开发者已忽略或放行的问题类型（不要报告与下列相似的问题）：**',
+            '- [ai_review] 建议为函数 `init` 添加 JSDoc 注释（已忽略或放行 1 次，原因：内部函数无需注释）',
+        ].join('\n'));
+        expect(buildFeedbackPrompt(clusters, 0)).toBe('');
+        expect(buildFeedbackPrompt([], 5)).toBe('');
+    });
+
+    it('按忽略文件 mtime 缓存聚类，文件变化后重新聚类', async () => {
+        const root = await makeWorkspace(STORE);
+        const feedback = new IgnoreFeedback(logger);
+        const first = await feedback.load(root);
+        expect(first.map(cluster => cluster.count)).toEqual([3, 1]);
+        expect(await feedback.load(root)).toBe(first);
+
+        const storePath = path.join(root, '.vscode', 'agentreview-ignore.json');
+        await fs.promises.writeFile(storePath, JSON.stringify({ version: 2, items: [] }), 'utf8');
+        const future = new Date(Date.now() + 5000);
+        await fs.promises.utimes(storePath, future, future);
+        expect(await feedback.load(root)).toEqual([]);
+        expect(await new IgnoreFeedback(logger).load(path.join(root, 'missing'))).toEqual([]);
+    });
+
+    it('AIReviewer 把忽略反馈追加到系统提示词，feedback_from_ignores=false 时不追加', async () => {
+        mocked.workspaceRoot = await makeWorkspace(STORE);
+        const createReviewer = async (aiOverrides: Record<string, unknown>) => {
+            const aiReviewer = new AIReviewer(createMockConfigManager({
+                ai_review: {
+                    enabled: true,
+                    api_format: 'openai',
+                    api_endpoint: 'https://api.example.com/v1',
+                    api_key: 'test-api-key',
+                    model: 'test-model',
+                    timeout: 1000,
+                    action: 'warning',
+                    retry_count: 0,
+                    disk_cache: false,
+                    ...aiOverrides,
+                },
+            }));
+            await aiReviewer.initialize();
+            const postMock = vi.fn(async () => ({ data: { choices: [{ message: { content: '{"issues":[]}' } }] } }));
+            (aiReviewer as unknown as { axiosInstance: { post: typeof postMock } }).axiosInstance.post = postMock;
+            await aiReviewer.review({ files: [{ path: 'src/a.ts', content: 'export const a = 1;' }] });
+            const [, requestBody] = postMock.mock.calls[0] as unknown as [string, { messages: Array<{ content: string }> }];
+            return requestBody.messages[0].content;
+        };
+
+        const systemPrompt = await createReviewer({ feedback_max_patterns: 1 });
+        expect(systemPrompt).toContain('不要报告与下列相似的问题');
+        expect(systemPrompt).toContain('- [ai_review] 建议为函数 `loadUser` 添加 JSDoc 注释（已忽略或放行 3 次');
+        expect(systemPrompt).not.toContain('魔法数字');
+
+        expect(await createReviewer({ feedback_from_ignores: false })).not.toContain('不要报告与下列相似的问题');
+    });
+});
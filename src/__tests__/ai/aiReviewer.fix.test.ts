@@ -0,0 +1,64 @@
+/**
+ * aiReviewer.fix 单元测试
+ *
+ * 覆盖：片段截取（astRange 优先、越界截断、上下文）、修复请求内容、响应解析（JSON / 代码块兜底 / 无效）。
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { buildFixRequest, buildFixSnippet, parseFixResponse } from '../../ai/aiReviewer.fix';
+import type { AIReviewConfig } from '../../ai/aiReviewer.types';
+
+const lines = Array.from({ length: 10 }, (_, index) => `line${index + 1}`);
+const logger = { debug: vi.fn(), warn: vi.fn(), error: vi.fn() } as any;
+
+const toResponse = (content: string) => ({ choices: [{ message: { content } }] });
+
+describe('aiReviewer.fix', () => {
+    it('有覆盖问题行的 astRange 时按 astRange 截取片段', () => {
+        const snippet = buildFixSnippet(lines, { line: 5, astRange: { startLine: 4, endLine: 6 } }, 2);
+        expect(snippet).toEqual({
+            startLine: 4,
+            endLine: 6,
+            code: 'line4\nline5\nline6',
+            contextBefore: 'line2\nline3',
+            contextAfter: 'line7\nline8',
+        });
+    });
+
+    it('无 astRange 或 astRange 不含问题行时取问题行前后两行，并截断到文件范围', () => {
+        expect(buildFixSnippet(lines, { line: 1 })).toMatchObject({ startLine: 1, endLine: 3, contextBefore: '' });
+        expect(buildFixSnippet(lines, { line: 10, astRange: { startLine: 1, endLine: 2 } })).toMatchObject({
+            startLine: 8,
+            endLine: 10,
+            contextAfter: '',
+        });
+    });
+
+    it('修复请求包含问题、片段行号与上下文', () => {
+        const body = buildFixRequest({ model: 'm', max_tokens: 100 } as AIReviewConfig, {
+            filePath: '/repo/src/a.ts',
+            issue: { line: 5, rule: 'no_todo', message: '发现 TODO', severity: 'warning' },
+            snippet: buildFixSnippet(lines, { line: 5 }, 1),
+        });
+        expect(body).toMatchObject({ model: 'm', temperature: 0, max_tokens: 100 });
+        const userContent = body.messages[1].content;
+        expect(userContent).toContain('规则 no_todo');
+        expect(userContent).toContain('待修复片段（第 3-7 行）');
+        expect(userContent).toContain('```typescript\nline2\n```');
+    });
+
+    it('解析 JSON 响应，去掉 replacement 末尾换行', () => {
+        const result = parseFixResponse(
+            toResponse('```json\n{"replacement": "const a = 1;\\n", "explanation": "去掉 TODO"}\n```'),
+            logger
+        );
+        expect(result).toEqual({ replacement: 'const a = 1;', explanation: '去掉 TODO' });
+    });
+
+    it('非 JSON 时取代码块内容，否则抛错', () => {
+        expect(parseFixResponse(toResponse('修改如下：\n```ts\nconst a = 1;\n```'), logger)).toEqual({
+            replacement: 'const a = 1;',
+        });
+        expect(() => parseFixResponse(toResponse('无法修复'), logger)).toThrow('缺少 replacement');
+    });
+});
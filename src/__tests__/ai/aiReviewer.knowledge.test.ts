@@ -0,0 +1,236 @@
+/**
+ * aiReviewer.knowledge 单元测试
+ *
+ * 覆盖：按标题切块（代码块内 # 不视为标题）与驼峰/中文分词；BM25 检索最相关段落；
+ * 文档 glob 展开与按 mtime 重建索引；附加到已有外部引用上下文、受字符与 Token 预算约束；
+ * AIReviewer 按 knowledge 配置把规范段落随审查内容发送；整文件单元规范放在代码块之外，问题行号与修改建议不错位。
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    KnowledgeBase,
+    KnowledgeIndex,
+    attachKnowledgeToUnits,
+    chunkKnowledgeDocument,
+    resolveKnowledgeDocuments,
+    tokenizeForRetrieval,
+} from '../../ai/aiReviewer.knowledge';
+import { buildStructuredReviewContent } from '../../ai/aiReviewer.snippets';
+import type { ReviewUnit } from '../../ai/aiReviewer.types';
+import { AIReviewer } from '../../ai/aiReviewer';
+import { createMockConfigManager } from '../helpers/mockConfigManager';
+
+const mocked = vi.hoisted(() => ({ workspaceRoot: undefined as string | undefined }));
+
+vi.mock('../../utils/workspaceRoot', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../../utils/workspaceRoot')>()),
+    getEffectiveWorkspaceRoot: () => (mocked.workspaceRoot
+        ? { uri: { fsPath: mocked.workspaceRoot }, name: 'repo', index: 0 }
+        : undefined),
+}));
+
+const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } as any;
+
+const CONVENTIONS = [
+    '# 前端约定',
+    '',
+    '## 日期处理',
+    '',
+    '统一使用 dayjs 处理日期，禁止直接 new Date() 解析字符串。',
+    '',
+    '```ts',
+    '# 这不是标题',
+    '```',
+    '',
+    '## 请求',
+    '',
+    '所有 HTTP 请求通过 apiClient 发出，不要直接使用 fetch 或 axios。',
+].join('\n');
+
+const ADR = [
+    '# ADR-7 错误上报',
+    '',
+    '捕获的异常必须调用 reportError 上报，不允许空 catch 吞掉错误。',
+].join('\n');
+
+const tempDirs: string[] = [];
+const makeWorkspace = async (files: Record<string, string>): Promise<string> => {
+    const root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'agentreview-knowledge-'));
+    tempDirs.push(root);
+    for (const [name, content] of Object.entries(files)) {
+        const filePath = path.join(root, name);
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, content, 'utf8');
+    }
+    return root;
+};
+
+const unit = (filePath: string, content: string): ReviewUnit => ({
+    unitId: `${filePath}#unit#1`,
+    path: filePath,
+    content,
+    snippetCount: 1,
+    sourceType: 'diff',
+});
+
+afterEach(async () => {
+    mocked.workspaceRoot = undefined;
+    await Promise.all(tempDirs.splice(0).map(dir => fs.promises.rm(dir, { recursive: true, force: true })));
+});
+
+describe('aiReviewer.knowledge', () => {
+    it('按标题切块并拆分驼峰与中文分词', () => {
+        const passages = chunkKnowledgeDocument('docs/conventions/web.md', CONVENTIONS);
+        expect(passages.map(p => p.heading)).toEqual(['前端约定 › 日期处理', '前端约定 › 请求']);
+        expect(passages[0].text).toContain('# 这不是标题');
+
+        expect(tokenizeForRetrieval('const apiClient = getHTTPClient();')).toEqual(
+            ['api', 'client', 'apiclient', 'get', 'http', 'client', 'gethttpclient']
+        );
+        expect(tokenizeForRetrieval('日期处理')).toEqual(['日期', '期处', '处理']);
+    });
+
+    it('BM25 检索与当前代码最相关的段落', () => {
+        const index = new KnowledgeIndex([
+            ...chunkKnowledgeDocument('docs/conventions/web.md', CONVENTIONS),
+            ...chunkKnowledgeDocument('docs/adr/0007.md', ADR),
+        ]);
+        expect(index.size).toBe(3);
+        const [top] = index.search('const res = await fetch(url).then(r => r.json());', 2);
+        expect(top.heading).toBe('前端约定 › 请求');
+        expect(index.search('try { run(); } catch (e) { reportError(e); }', 1)[0].source).toBe('docs/adr/0007.md');
+        expect(index.search('const a = 1;', 3)).toEqual([]);
+    });
+
+    it('展开文档 glob，文档修改后重建索引', async () => {
+        const root = await makeWorkspace({
+            'CONTRIBUTING.md': '# 贡献\n\n提交信息使用中文。',
+            'docs/conventions/web.md': CONVENTIONS,
+            'docs/adr/2024/0007.md': ADR,
+            'docs/adr/notes.txt': 'ignored',
+        });
+        expect(resolveKnowledgeDocuments(root, ['CONTRIBUTING.md', 'docs/conventions/*.md', './docs/adr/**/*.md', 'missing.md']))
+            .toEqual(['CONTRIBUTING.md', 'docs/adr/2024/0007.md', 'docs/conventions/web.md']);
+
+        const knowledgeBase = new KnowledgeBase(logger);
+        const first = knowledgeBase.load(root, ['docs/**/*.md']);
+        expect(first.size).toBe(3);
+        expect(knowledgeBase.load(root, ['docs/**/*.md'])).toBe(first);
+
+        const adrPath = path.join(root, 'docs/adr/2024/0007.md');
+        await fs.promises.writeFile(adrPath, `${ADR}\n\n## 补充\n\n上报时附带 traceId。`, 'utf8');
+        const future = new Date(Date.now() + 5000);
+        await fs.promises.utimes(adrPath, future, future);
+        expect(knowledgeBase.load(root, ['docs/**/*.md']).size).toBe(4);
+    });
+
+    it('规范追加到已有外部引用上下文，并受字符与 Token 预算约束', () => {
+        const index = new KnowledgeIndex(chunkKnowledgeDocument('docs/conventions/web.md', CONVENTIONS));
+        const structured = buildStructuredReviewContent('文件: src/api.ts\n# 行 3\nfetch(url);', '## 依赖定义 (Definitions)\nfoo');
+        const { units, attached } = attachKnowledgeToUnits(
+            [unit('src/api.ts', structured), unit('src/date.ts', 'const d = new Date(text); // 日期')],
+            index,
+            { maxPassages: 1, tokenBudget: 10_000 }
+        );
+        expect(attached).toBe(2);
+        expect(units[0].content.startsWith(structured)).toBe(true);
+        expect(units[0].content).toContain('## 项目规范参考 (Project Conventions)\n### docs/conventions/web.md › 前端约定 › 请求');
+        // 整文件单元不改动内容，规范单独放在 knowledgeContext
+        expect(units[1].content).toBe('const d = new Date(text); // 日期');
+        expect(units[1].knowledgeContext).toContain('日期处理');
+
+        const truncated = attachKnowledgeToUnits([unit('src/api.ts', 'fetch(url);')], index, { maxChars: 60, tokenBudget: 10_000 });
+        expect(truncated.units[0].knowledgeContext?.endsWith('…')).toBe(true);
+
+        const overBudget = attachKnowledgeToUnits([unit('src/api.ts', 'fetch(url);')], index, { tokenBudget: 20 });
+        expect(overBudget).toEqual({ units: [unit('src/api.ts', 'fetch(url);')], attached: 0 });
+    });
+
+    it('AIReviewer 按 knowledge 配置把规范段落随审查内容发送', async () => {
+        mocked.workspaceRoot = await makeWorkspace({ 'docs/conventions/web.md': CONVENTIONS });
+        const aiReviewer = new AIReviewer(createMockConfigManager({
+            ai_review: {
+                enabled: true,
+                api_format: 'openai',
+                api_endpoint: 'https://api.example.com/v1',
+                api_key: 'test-api-key',
+                model: 'test-model',
+                timeout: 1000,
+                action: 'warning',
+                retry_count: 0,
+                disk_cache: false,
+            },
+            knowledge: { documents: ['docs/conventions/*.md'], max_passages: 1 },
+        }));
+        await aiReviewer.initialize();
+        const callApiSpy = vi
+            .spyOn(aiReviewer as unknown as {
+                callAPI: (input: { files: Array<{ path: string; content: string; knowledgeContext?: string }> }) => Promise<{ issues: [] }>;
+            }, 'callAPI')
+            .mockResolvedValue({ issues: [] });
+
+        await aiReviewer.review({ files: [{ path: 'src/api.ts', content: 'export const load = () => fetch("/a");' }] });
+
+        const [file] = callApiSpy.mock.calls[0][0].files;
+        expect(file.content).toBe('export const load = () => fetch("/a");');
+        expect(file.knowledgeContext).toContain('## 项目规范参考 (Project Conventions)');
+        expect(file.knowledgeContext).toContain('apiClient');
+        expect(file.knowledgeContext).not.toContain('dayjs');
+    });
+
+    it('整文件审查附加规范后行号与修改建议不错位，规范放在代码块之外', async () => {
+        mocked.workspaceRoot = await makeWorkspace({ 'docs/conventions/web.md': CONVENTIONS });
+        const aiReviewer = new AIReviewer(createMockConfigManager({
+            ai_review: {
+                enabled: true,
+                api_format: 'openai',
+                api_endpoint: 'https://api.example.com/v1',
+                api_key: 'test-api-key',
+                model: 'test-model',
+                timeout: 1000,
+                action: 'warning',
+                retry_count: 0,
+                disk_cache: false,
+            },
+            knowledge: { documents: ['docs/conventions/*.md'], max_passages: 1 },
+        }));
+        await aiReviewer.initialize();
+        const source = ['import { apiClient } from "./client";', 'export const load = () => fetch("/a");', ''].join('\n');
+        const postMock = vi.fn(async () => ({
+            data: {
+                choices: [{
+                    message: {
+                        content: JSON.stringify({
+                            issues: [{
+                                file: 'src/api.ts',
+                                line: 2,
+                                column: 1,
+                                snippet: 'fetch("/a")',
+                                message: '应通过 apiClient 发请求',
+                                severity: 'warning',
+                                suggestion: {
+                                    start_line: 2,
+                                    end_line: 2,
+                                    original: 'export const load = () => fetch("/a");',
+                                    replacement: 'export const load = () => apiClient.get("/a");',
+                                },
+                            }],
+                        }),
+                    },
+                }],
+            },
+        }));
+        (aiReviewer as unknown as { axiosInstance: { post: typeof postMock } }).axiosInstance.post = postMock;
+
+        const issues = await aiReviewer.review({ files: [{ path: 'src/api.ts', content: source }] });
+
+        const [, requestBody] = postMock.mock.calls[0] as unknown as [string, { messages: Array<{ content: string }> }];
+        expect(requestBody.messages[1].content).toContain(`\`\`\`typescript\n${source}\n\`\`\`\n\n## 项目规范参考 (Project Conventions)`);
+        expect(issues).toHaveLength(1);
+        expect(issues[0].line).toBe(2);
+        expect(issues[0].suggestion).toMatchObject({ startLine: 2, endLine: 2 });
+    });
+});
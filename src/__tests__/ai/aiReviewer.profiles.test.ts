@@ -0,0 +1,118 @@
+/**
+ * aiReviewer.profiles 单元测试
+ *
+ * 覆盖：按 glob 顺序取第一个命中的审查配置；buildReviewUnits 按配置分组、AIReviewer 切批不混用配置并附带配置提示词；
+ * 严重程度下限与按配置的问题数上限。
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { applySeverityFloor, capIssuesByProfile, resolveReviewProfile } from '../../ai/aiReviewer.profiles';
+import { buildReviewUnits } from '../../ai/aiReviewer.batching';
+import { buildOpenAIRequest } from '../../ai/aiReviewer.prompts';
+import type { AIReviewConfig, ReviewProfile } from '../../ai/aiReviewer.types';
+import type { ReviewIssue } from '../../types/review';
+import { AIReviewer } from '../../ai/aiReviewer';
+import { createMockConfigManager } from '../helpers/mockConfigManager';
+
+const profiles: ReviewProfile[] = [
+    { name: 'security', paths: ['server/**/auth*'], prompt: '重点检查鉴权绕过', min_severity: 'warning', max_issues: 1 },
+    { name: 'a11y', paths: ['*.vue'], prompt: '重点检查可访问性' },
+    { name: 'server', paths: ['server/**'] },
+];
+
+const config: AIReviewConfig = {
+    enabled: true,
+    apiEndpoint: 'https://api.example.com',
+    model: 'test-model',
+    timeout: 1000,
+    action: 'warning',
+    review_profiles: profiles,
+};
+
+const issue = (file: string, severity: ReviewIssue['severity'], line = 1): ReviewIssue => ({
+    file, line, column: 1, message: `${severity}-${line}`, rule: 'ai_review', severity,
+});
+
+describe('aiReviewer.profiles', () => {
+    it('按声明顺序取第一个 glob 命中的配置', () => {
+        expect(resolveReviewProfile(profiles, '/repo/server/api/authGuard.ts')?.name).toBe('security');
+        expect(resolveReviewProfile(profiles, '/repo/server/api/user.ts')?.name).toBe('server');
+        expect(resolveReviewProfile(profiles, 'src\\components\\Button.vue')?.name).toBe('a11y');
+        expect(resolveReviewProfile(profiles, 'src/main.ts')).toBeUndefined();
+        expect(resolveReviewProfile(undefined, 'src/main.ts')).toBeUndefined();
+    });
+
+    it('buildReviewUnits 标注配置并按配置分组，配置提示词追加到系统提示词', () => {
+        const units = buildReviewUnits(config, [
+            { path: 'server/auth.ts', content: 'a' },
+            { path: 'src/A.vue', content: 'b' },
+            { path: 'server/authz.ts', content: 'c' },
+            { path: 'src/main.ts', content: 'd' },
+        ], { useAstSnippets: false, useDiffMode: false });
+
+        expect(units.map(unit => [unit.path, unit.profile])).toEqual([
+            ['server/auth.ts', 'security'],
+            ['server/authz.ts', 'security'],
+            ['src/A.vue', 'a11y'],
+            ['src/main.ts', undefined],
+        ]);
+        const body = buildOpenAIRequest(config, { files: [] }, { profile: profiles[0] });
+        expect(body.messages[0].content).toContain('**本批审查侧重（security）：**\n重点检查鉴权绕过');
+        expect(body.messages[0].content).toContain('最多报告 1 个问题');
+        expect(buildOpenAIRequest(config, { files: [] }, { profile: profiles[2] }).messages[0].content)
+            .toBe(buildOpenAIRequest(config, { files: [] }).messages[0].content);
+    });
+
+    it('严重程度下限按模型原始 severity 过滤，问题数上限按配置保留最严重的问题', () => {
+        const floored = applySeverityFloor({
+            issues: [
+                { file: 'a', line: 1, column: 1, message: 'x', severity: 'info' },
+                { file: 'a', line: 2, column: 1, message: 'y', severity: 'error' },
+            ],
+        }, profiles[0]);
+        expect(floored.issues.map(i => i.line)).toEqual([2]);
+
+        const capped = capIssuesByProfile([
+            issue('server/auth.ts', 'warning', 1),
+            issue('src/main.ts', 'info', 2),
+            issue('server/auth.ts', 'error', 3),
+            issue('server/authz.ts', 'warning', 4),
+        ], profiles);
+        expect(capped.map(i => i.line)).toEqual([2, 3]);
+    });
+
+    it('AIReviewer 按配置切批，同一批次不混用配置且携带该配置', async () => {
+        const aiReviewer = new AIReviewer(createMockConfigManager({
+            ai_review: {
+                enabled: true,
+                api_format: 'openai',
+                api_endpoint: 'https://api.example.com',
+                api_key: 'test-api-key',
+                model: 'test-model',
+                timeout: 1000,
+                action: 'warning',
+                batching_mode: 'file_count',
+                review_profiles: profiles,
+            },
+        }));
+        await aiReviewer.initialize();
+        const callApiSpy = vi
+            .spyOn(aiReviewer as unknown as {
+                callAPI: (input: { files: Array<{ path: string }> }, options: { profile?: ReviewProfile }) => Promise<{ issues: [] }>;
+            }, 'callAPI')
+            .mockResolvedValue({ issues: [] });
+
+        await aiReviewer.review({
+            files: [
+                { path: 'server/auth.ts', content: 'const a = 1;' },
+                { path: 'src/main.ts', content: 'const b = 2;' },
+                { path: 'server/authz.ts', content: 'const c = 3;' },
+            ],
+        });
+
+        expect(callApiSpy.mock.calls.map(call => [call[0].files.map(file => file.path), call[1].profile?.name])).toEqual([
+            [['server/auth.ts', 'server/authz.ts'], 'security'],
+            [['src/main.ts'], undefined],
+        ]);
+    });
+});
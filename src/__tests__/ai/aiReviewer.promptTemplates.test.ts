@@ -0,0 +1,156 @@
+/**
+ * aiReviewer.promptTemplates 单元测试
+ *
+ * 覆盖：模板占位符渲染（代码中的 {{...}} 不展开）；加载器校验输出约定、缺约定时回退内置模板、按 mtime 重新加载；
+ * AIReviewer 使用仓库 review.md 发送请求，并把模板哈希写入运行汇总。
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    PromptTemplateLoader,
+    getDefaultPromptTemplateSet,
+    validatePromptTemplate,
+} from '../../ai/aiReviewer.promptTemplates';
+import { buildContinuationOpenAIRequest, buildOpenAIRequest, renderPromptTemplate } from '../../ai/aiReviewer.prompts';
+import type { AIReviewConfig } from '../../ai/aiReviewer.types';
+import { AIReviewer } from '../../ai/aiReviewer';
+import { RuntimeTraceLogger } from '../../utils/runtimeTraceLogger';
+import { createMockConfigManager } from '../helpers/mockConfigManager';
+
+const mocked = vi.hoisted(() => ({ workspaceRoot: undefined as string | undefined }));
+
+vi.mock('../../utils/workspaceRoot', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../../utils/workspaceRoot')>()),
+    getEffectiveWorkspaceRoot: () => (mocked.workspaceRoot
+        ? { uri: { fsPath: mocked.workspaceRoot }, name: 'repo', index: 0 }
+        : undefined),
+}));
+
+const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } as any;
+
+const CUSTOM_REVIEW = [
+    '语言：{{ language }}',
+    '{{files}}',
+    '{{knownDiagnostics}}{{lineHint}}',
+    '只返回 {"issues":[{"file":"","line":1,"column":1,"snippet":"","message":"","severity":"warning"}]}',
+].join('\n');
+
+const tempDirs: string[] = [];
+const makeTemplateDir = async (templates: Record<string, string>): Promise<string> => {
+    const root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'agentreview-prompts-'));
+    tempDirs.push(root);
+    const dir = path.join(root, '.agentreview', 'prompts');
+    await fs.promises.mkdir(dir, { recursive: true });
+    for (const [name, content] of Object.entries(templates)) {
+        await fs.promises.writeFile(path.join(dir, name), content, 'utf8');
+    }
+    return root;
+};
+
+const baseConfig: AIReviewConfig = {
+    enabled: true,
+    apiEndpoint: 'https://api.example.com',
+    model: 'test-model',
+    timeout: 1000,
+    action: 'warning',
+};
+
+afterEach(async () => {
+    mocked.workspaceRoot = undefined;
+    logger.warn.mockClear();
+    await Promise.all(tempDirs.splice(0).map(dir => fs.promises.rm(dir, { recursive: true, force: true })));
+});
+
+describe('aiReviewer.promptTemplates', () => {
+    it('渲染已知占位符，未知占位符与代码中的 {{...}} 保持原样', () => {
+        expect(renderPromptTemplate('{{a}}-{{ b }}-{{c}}', { a: '{{b}}', b: '2' })).toBe('{{b}}-2-{{c}}');
+
+        const templates = { ...getDefaultPromptTemplateSet(), review: CUSTOM_REVIEW };
+        const body = buildOpenAIRequest(
+            { ...baseConfig, promptTemplates: templates },
+            { files: [{ path: 'src/a.vue', content: '<p>{{ msg }}</p>' }, { path: 'src/b.ts', content: 'x' }] },
+            { isDiffContent: true }
+        );
+        const user = body.messages[1].content;
+        expect(user).toContain('语言：vue、typescript');
+        expect(user).toContain('<p>{{ msg }}</p>');
+        expect(user).toContain('**行号说明：**');
+
+        const continuation = buildContinuationOpenAIRequest(
+            { ...baseConfig, promptTemplates: { ...templates, continuation: '已有 {{issueCount}} 条，继续返回 "issues"' } },
+            { baseMessages: [], partialContent: '{', cachedIssues: [] }
+        );
+        expect(continuation.messages[continuation.messages.length - 1].content).toBe('已有 0 条，继续返回 "issues"');
+    });
+
+    it('校验输出约定：缺少 {{files}} 或 issues 字段时不通过', () => {
+        expect(validatePromptTemplate('review', getDefaultPromptTemplateSet().review)).toEqual([]);
+        expect(validatePromptTemplate('review', CUSTOM_REVIEW)).toEqual([]);
+        expect(validatePromptTemplate('review', '请审查代码并返回 JSON')).toEqual(
+            ['{{files}}', '"issues"', '"file"', '"line"', '"message"', '"severity"']
+        );
+        expect(validatePromptTemplate('continuation', 'continue')).toEqual(['"issues"']);
+    });
+
+    it('加载器按文件覆盖模板、缺约定时回退内置，文件修改后重新加载', async () => {
+        const root = await makeTemplateDir({ 'review.md': CUSTOM_REVIEW, 'continuation.md': 'continue' });
+        const dir = path.join(root, '.agentreview', 'prompts');
+        const loader = new PromptTemplateLoader(logger);
+        const defaults = getDefaultPromptTemplateSet();
+
+        const first = loader.load(dir);
+        expect(first.review).toBe(CUSTOM_REVIEW);
+        expect(first.continuation).toBe(defaults.continuation);
+        expect(first.overrides).toEqual(['review']);
+        expect(first.hash).not.toBe(defaults.hash);
+        expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('continuation.md 缺少输出约定 "issues"'));
+
+        const reviewPath = path.join(dir, 'review.md');
+        await fs.promises.writeFile(reviewPath, `${CUSTOM_REVIEW}\n补充要求`, 'utf8');
+        const future = new Date(Date.now() + 5000);
+        await fs.promises.utimes(reviewPath, future, future);
+        const second = loader.load(dir);
+        expect(second.review).toContain('补充要求');
+        expect(second.hash).not.toBe(first.hash);
+        expect(loader.load(path.join(root, 'missing')).hash).toBe(defaults.hash);
+    });
+
+    it('AIReviewer 使用仓库 review.md 发送请求并记录模板哈希', async () => {
+        mocked.workspaceRoot = await makeTemplateDir({ 'review.md': CUSTOM_REVIEW });
+        const aiReviewer = new AIReviewer(createMockConfigManager({
+            ai_review: {
+                enabled: true,
+                api_format: 'openai',
+                api_endpoint: 'https://api.example.com/v1',
+                api_key: 'test-api-key',
+                model: 'test-model',
+                timeout: 1000,
+                action: 'warning',
+                retry_count: 0,
+                disk_cache: false,
+            },
+        }));
+        await aiReviewer.initialize();
+        const postMock = vi.fn(async () => ({ data: { choices: [{ message: { content: '{"issues":[]}' } }] } }));
+        (aiReviewer as unknown as { axiosInstance: { post: typeof postMock } }).axiosInstance.post = postMock;
+        const setRunPromptTemplate = vi
+            .spyOn(RuntimeTraceLogger.getInstance(), 'setRunPromptTemplate')
+            .mockImplementation(() => undefined);
+
+        await aiReviewer.review(
+            { files: [{ path: 'src/a.ts', content: 'const a = 1;' }] },
+            { runId: 'run-1', trigger: 'manual', startedAt: 0 }
+        );
+
+        const [, requestBody] = postMock.mock.calls[0] as unknown as [string, { messages: Array<{ content: string }> }];
+        expect(requestBody.messages[1].content).toContain('语言：typescript');
+        expect(setRunPromptTemplate).toHaveBeenCalledWith('run-1', {
+            hash: expect.not.stringMatching(getDefaultPromptTemplateSet().hash),
+            overrides: ['review'],
+        });
+        setRunPromptTemplate.mockRestore();
+    });
+});
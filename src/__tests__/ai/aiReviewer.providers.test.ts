@@ -0,0 +1,130 @@
+/**
+ * aiReviewer.providers 单元测试
+ *
+ * 覆盖：各提供方端点推导、认证头、请求体转换、响应还原为 OpenAI 兼容结构（含 Token 用量），
+ * 以及 AIReviewer 按 Anthropic 协议发送请求并把用量写入 addLlmCall。
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { getProviderAdapter, ANTHROPIC_API_VERSION } from '../../ai/aiReviewer.providers';
+import type { OpenAIRequestBody } from '../../ai/aiReviewer.prompts';
+import { AIReviewer } from '../../ai/aiReviewer';
+import { RuntimeTraceLogger } from '../../utils/runtimeTraceLogger';
+import { createMockConfigManager } from '../helpers/mockConfigManager';
+
+const logger = { debug: vi.fn(), warn: vi.fn(), error: vi.fn() } as any;
+
+const body: OpenAIRequestBody = {
+    model: 'm',
+    messages: [
+        { role: 'system', content: 'sys' },
+        { role: 'user', content: 'review' },
+        { role: 'assistant', content: '{"issues": [' },
+        { role: 'user', content: 'continue' },
+    ],
+    temperature: 1.5,
+    max_tokens: 100,
+};
+
+describe('aiReviewer.providers', () => {
+    it('按提供方推导端点', () => {
+        expect(getProviderAdapter('openai').resolveEndpoint('https://api.x.com/v1', {})).toBe('https://api.x.com/v1/chat/completions');
+        expect(getProviderAdapter('custom').resolveEndpoint('https://api.x.com/review', {})).toBe('https://api.x.com/review');
+        expect(getProviderAdapter('anthropic').resolveEndpoint('https://api.anthropic.com', {})).toBe('https://api.anthropic.com/v1/messages');
+        expect(getProviderAdapter('anthropic').resolveEndpoint('https://api.anthropic.com/v1', {})).toBe('https://api.anthropic.com/v1/messages');
+        expect(getProviderAdapter('ollama').resolveEndpoint('http://localhost:11434', {})).toBe('http://localhost:11434/api/chat');
+        expect(getProviderAdapter('azure_openai').resolveEndpoint('https://res.openai.azure.com', { model: 'gpt-4o' }))
+            .toBe('https://res.openai.azure.com/openai/deployments/gpt-4o/chat/completions?api-version=2024-06-01');
+        expect(getProviderAdapter('azure_openai').resolveEndpoint(
+            'https://res.openai.azure.com/openai/deployments/d1?api-version=2025-01-01',
+            { model: 'ignored', api_version: '2024-02-01' }
+        )).toBe('https://res.openai.azure.com/openai/deployments/d1/chat/completions?api-version=2025-01-01');
+    });
+
+    it('各提供方使用各自的认证头', () => {
+        expect(getProviderAdapter('openai').buildAuthHeaders('k')).toEqual({ Authorization: 'Bearer k' });
+        expect(getProviderAdapter('azure_openai').buildAuthHeaders('k')).toEqual({ 'api-key': 'k' });
+        expect(getProviderAdapter('anthropic').buildAuthHeaders('k')).toEqual({ 'x-api-key': 'k', 'anthropic-version': ANTHROPIC_API_VERSION });
+        expect(getProviderAdapter('ollama').buildAuthHeaders()).toEqual({});
+        expect(getProviderAdapter('ollama').requiresApiKey).toBe(false);
+    });
+
+    it('Anthropic 请求体：system 单独传，temperature 截断到 1', () => {
+        expect(getProviderAdapter('anthropic').buildRequestBody(body)).toEqual({
+            model: 'm',
+            system: 'sys',
+            messages: body.messages.slice(1),
+            max_tokens: 100,
+            temperature: 1,
+        });
+    });
+
+    it('Ollama 与 Azure 请求体', () => {
+        expect(getProviderAdapter('ollama').buildRequestBody(body)).toEqual({
+            model: 'm',
+            messages: body.messages,
+            stream: false,
+            options: { temperature: 1.5, num_predict: 100 },
+        });
+        expect(getProviderAdapter('azure_openai').buildRequestBody(body)).not.toHaveProperty('model');
+    });
+
+    it('响应还原为 OpenAI 兼容结构并带用量', () => {
+        expect(getProviderAdapter('anthropic').toOpenAIResponse({
+            content: [{ type: 'text', text: '{"issues"' }, { type: 'text', text: ': []}' }],
+            stop_reason: 'end_turn',
+            usage: { input_tokens: 10, output_tokens: 5 },
+        }, logger)).toEqual({
+            choices: [{ message: { content: '{"issues": []}' }, finish_reason: 'stop' }],
+            usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+        });
+        expect(getProviderAdapter('ollama').toOpenAIResponse({
+            message: { role: 'assistant', content: '{"issues": []}' },
+            done: true,
+            prompt_eval_count: 7,
+            eval_count: 3,
+        }, logger)).toMatchObject({ usage: { prompt_tokens: 7, completion_tokens: 3, total_tokens: 10 } });
+        expect(() => getProviderAdapter('anthropic').toOpenAIResponse({ error: 'x' }, logger)).toThrow('Anthropic 响应格式验证失败');
+    });
+
+    it('AIReviewer 按 Anthropic 协议请求，并把 Token 用量写入运行汇总', async () => {
+        const aiReviewer = new AIReviewer(createMockConfigManager({
+            ai_review: {
+                enabled: true,
+                api_format: 'anthropic',
+                api_endpoint: 'https://api.anthropic.com',
+                api_key: 'test-api-key',
+                model: 'claude-test',
+                timeout: 1000,
+                action: 'warning',
+                retry_count: 0,
+            },
+        }));
+        await aiReviewer.initialize();
+        const postMock = vi.fn(async () => ({
+            data: {
+                content: [{ type: 'text', text: '{"issues":[{"file":"src/a.ts","line":1,"column":1,"message":"m","severity":"warning"}]}' }],
+                stop_reason: 'end_turn',
+                usage: { input_tokens: 12, output_tokens: 8 },
+            },
+        }));
+        (aiReviewer as unknown as { axiosInstance: { post: typeof postMock } }).axiosInstance.post = postMock;
+        const addLlmCall = vi.spyOn(RuntimeTraceLogger.getInstance(), 'addLlmCall').mockImplementation(() => undefined);
+
+        const response = await (aiReviewer as unknown as {
+            callAPI: (
+                input: { files: Array<{ path: string; content: string }> },
+                options: undefined,
+                traceSession: { runId: string }
+            ) => Promise<{ issues: Array<{ file: string }> }>
+        }).callAPI({ files: [{ path: 'src/a.ts', content: 'const a = 1;' }] }, undefined, { runId: 'run-1' });
+
+        expect(response.issues.map(issue => issue.file)).toEqual(['src/a.ts']);
+        const [url, requestBody] = postMock.mock.calls[0] as unknown as [string, { system?: string; messages: unknown[] }];
+        expect(url).toBe('https://api.anthropic.com/v1/messages');
+        expect(requestBody.system).toBeTruthy();
+        expect(requestBody.messages).toHaveLength(1);
+        expect(addLlmCall).toHaveBeenCalledWith('run-1', expect.objectContaining({ prompt_tokens: 12, completion_tokens: 8 }));
+        addLlmCall.mockRestore();
+    });
+});
@@ -0,0 +1,168 @@
+/**
+ * aiReviewer.stream 单元测试
+ *
+ * 覆盖：SSE 分片跨行/跨多字节字符、[DONE] 与末尾 usage、流内错误；issues 对象闭合即回调；
+ * AIReviewer 流式请求时逐条回调、拼回整段响应并写入 Token 用量，取消时不再重试。
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+    createIssueStreamParser,
+    readChatCompletionStream,
+    supportsStreaming,
+    type StreamedIssue,
+} from '../../ai/aiReviewer.stream';
+import { AIReviewer } from '../../ai/aiReviewer';
+import { RuntimeTraceLogger } from '../../utils/runtimeTraceLogger';
+import { createMockConfigManager } from '../helpers/mockConfigManager';
+
+const sseEvent = (payload: unknown): string => `data: ${JSON.stringify(payload)}\n\n`;
+const contentEvent = (content: string): string => sseEvent({ choices: [{ delta: { content } }] });
+
+async function* toStream(chunks: Array<string | Buffer>): AsyncGenerator<string | Buffer> {
+    for (const chunk of chunks) {
+        yield chunk;
+    }
+}
+
+describe('aiReviewer.stream', () => {
+    it('仅 OpenAI 兼容格式且开启 stream 时走流式', () => {
+        expect(supportsStreaming({ stream: true })).toBe(true);
+        expect(supportsStreaming({ stream: true, api_format: 'azure_openai' })).toBe(true);
+        expect(supportsStreaming({ stream: true, api_format: 'anthropic' })).toBe(false);
+        expect(supportsStreaming({ stream: false, api_format: 'openai' })).toBe(false);
+    });
+
+    it('SSE 分片拆在行中间与多字节字符中间时仍能拼回内容与 usage', async () => {
+        const raw = Buffer.from(
+            contentEvent('{"issues":[') +
+            ': keep-alive\n\n' +
+            contentEvent('{"message":"空指针"}') +
+            sseEvent({ choices: [{ delta: {}, finish_reason: 'stop' }] }) +
+            sseEvent({ choices: [], usage: { prompt_tokens: 9, completion_tokens: 4, total_tokens: 13 } }) +
+            'data: [DONE]\n\n',
+            'utf8'
+        );
+        const splitAt = raw.indexOf(Buffer.from('指', 'utf8')) + 1;
+        const deltas: string[] = [];
+
+        const completion = await readChatCompletionStream(
+            toStream([raw.subarray(0, 7), raw.subarray(7, splitAt), raw.subarray(splitAt)]),
+            delta => deltas.push(delta)
+        );
+
+        expect(deltas).toEqual(['{"issues":[', '{"message":"空指针"}']);
+        expect(completion).toEqual({
+            choices: [{ message: { content: '{"issues":[{"message":"空指针"}' }, finish_reason: 'stop' }],
+            usage: { prompt_tokens: 9, completion_tokens: 4, total_tokens: 13 },
+        });
+    });
+
+    it('流内返回 error 时抛错', async () => {
+        await expect(readChatCompletionStream(
+            toStream([sseEvent({ error: { message: 'rate limited' } })]),
+            () => undefined
+        )).rejects.toThrow('AI 流式响应错误: rate limited');
+    });
+
+    it('issues 数组中的对象闭合即回调，字符串内的括号不影响切分', () => {
+        const issues: StreamedIssue[] = [];
+        const parser = createIssueStreamParser(issue => issues.push(issue));
+        const text = '```json\n{"issues": [{"file":"a.ts","line":2,"column":1,"message":"缺少 } 与 \\"引号\\"","severity":"warning"},'
+            + '{"file":"b.ts","message":"","severity":"error"},{"file":"c.ts","line":5,"column":3,"message":"m","severity":"info"}]}\n```';
+
+        const pushInChunks = (part: string): void => {
+            for (let i = 0; i < part.length; i += 7) {
+                parser.push(part.slice(i, i + 7));
+            }
+        };
+        const firstIssueEnd = text.indexOf('},') + 1;
+        pushInChunks(text.slice(0, firstIssueEnd));
+        expect(issues.map(issue => issue.file)).toEqual(['a.ts']);
+        pushInChunks(text.slice(firstIssueEnd));
+
+        expect(issues).toEqual([
+            { file: 'a.ts', line: 2, column: 1, message: '缺少 } 与 "引号"', severity: 'warning' },
+            { file: 'c.ts', line: 5, column: 3, message: 'm', severity: 'info' },
+        ]);
+    });
+
+    const createStreamingReviewer = async () => {
+        const aiReviewer = new AIReviewer(createMockConfigManager({
+            ai_review: {
+                enabled: true,
+                api_format: 'openai',
+                api_endpoint: 'https://api.example.com/v1',
+                api_key: 'test-api-key',
+                model: 'test-model',
+                timeout: 1000,
+                action: 'warning',
+                retry_count: 2,
+                retry_delay: 1,
+                stream: true,
+            },
+        }));
+        await aiReviewer.initialize();
+        return aiReviewer;
+    };
+
+    type CallAPI = (
+        input: { files: Array<{ path: string; content: string }> },
+        options: { onIssue?: (issue: StreamedIssue) => void; signal?: AbortSignal },
+        traceSession: { runId: string } | null
+    ) => Promise<{ issues: Array<{ file: string }> }>;
+
+    it('AIReviewer 流式请求：逐条回调、整段解析并写入 Token 用量', async () => {
+        const aiReviewer = await createStreamingReviewer();
+        const onIssue = vi.fn();
+        const issueJson = (file: string) => `{"file":"${file}","line":1,"column":1,"message":"m","severity":"warning"}`;
+        let issuesBeforeEnd = 0;
+        async function* body(): AsyncGenerator<string> {
+            yield contentEvent(`{"issues":[${issueJson('src/a.ts')},`);
+            yield contentEvent(issueJson('src/b.ts'));
+            issuesBeforeEnd = onIssue.mock.calls.length;
+            yield contentEvent(']}');
+            yield sseEvent({ choices: [], usage: { prompt_tokens: 20, completion_tokens: 10 } });
+            yield 'data: [DONE]\n\n';
+        }
+        const postMock = vi.fn(async () => ({ data: body() }));
+        (aiReviewer as unknown as { axiosInstance: { post: typeof postMock } }).axiosInstance.post = postMock;
+        const addLlmCall = vi.spyOn(RuntimeTraceLogger.getInstance(), 'addLlmCall').mockImplementation(() => undefined);
+
+        const response = await (aiReviewer as unknown as { callAPI: CallAPI }).callAPI(
+            { files: [{ path: 'src/a.ts', content: 'const a = 1;' }] },
+            { onIssue },
+            { runId: 'run-1' }
+        );
+
+        expect(issuesBeforeEnd).toBe(2);
+        expect(response.issues.map(issue => issue.file)).toEqual(['src/a.ts', 'src/b.ts']);
+        const [, requestBody, requestConfig] = postMock.mock.calls[0] as unknown as [string, Record<string, unknown>, Record<string, unknown>];
+        expect(requestBody).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+        expect(requestConfig).toMatchObject({ responseType: 'stream' });
+        expect(addLlmCall).toHaveBeenCalledWith('run-1', expect.objectContaining({ prompt_tokens: 20, completion_tokens: 10 }));
+        addLlmCall.mockRestore();
+    });
+
+    it('取消后保留已回调的问题且不再重试', async () => {
+        const aiReviewer = await createStreamingReviewer();
+        const controller = new AbortController();
+        const onIssue = vi.fn();
+        async function* body(): AsyncGenerator<string> {
+            yield contentEvent('{"issues":[{"file":"src/a.ts","line":1,"column":1,"message":"m","severity":"error"},');
+            controller.abort();
+            throw new Error('canceled');
+        }
+        const postMock = vi.fn(async () => ({ data: body() }));
+        (aiReviewer as unknown as { axiosInstance: { post: typeof postMock } }).axiosInstance.post = postMock;
+
+        await expect((aiReviewer as unknown as { callAPI: CallAPI }).callAPI(
+            { files: [{ path: 'src/a.ts', content: 'const a = 1;' }] },
+            { onIssue, signal: controller.signal },
+            null
+        )).rejects.toThrow('canceled');
+
+        expect(postMock).toHaveBeenCalledTimes(1);
+        expect(onIssue).toHaveBeenCalledWith(expect.objectContaining({ file: 'src/a.ts', severity: 'error' }));
+    });
+});
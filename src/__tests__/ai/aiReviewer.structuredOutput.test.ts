@@ -0,0 +1,125 @@
+/**
+ * aiReviewer.structuredOutput 单元测试
+ *
+ * 覆盖：由 AIReviewResponseSchema 推导 strict JSON Schema；按配置与提供方能力选择输出方式；
+ * 各提供方的 json_schema / 工具调用请求体与工具参数还原；AIReviewer 按输出方式写入解析统计。
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+    REVIEW_RESPONSE_JSON_SCHEMA,
+    REVIEW_RESPONSE_SCHEMA_NAME,
+    resolveStructuredOutputMode,
+} from '../../ai/aiReviewer.structuredOutput';
+import { getProviderAdapter } from '../../ai/aiReviewer.providers';
+import type { OpenAIRequestBody } from '../../ai/aiReviewer.prompts';
+import { AIReviewer } from '../../ai/aiReviewer';
+import { RuntimeTraceLogger } from '../../utils/runtimeTraceLogger';
+import { createMockConfigManager } from '../helpers/mockConfigManager';
+
+const logger = { debug: vi.fn(), warn: vi.fn(), error: vi.fn() } as any;
+
+const body: OpenAIRequestBody = {
+    model: 'm',
+    messages: [
+        { role: 'system', content: 'sys' },
+        { role: 'user', content: 'review' },
+    ],
+    temperature: 0.2,
+    max_tokens: 100,
+};
+
+const issuesJson = '{"issues":[{"file":"src/a.ts","line":3,"column":1,"snippet":"","message":"m","severity":"error"}]}';
+
+describe('aiReviewer.structuredOutput', () => {
+    it('推导的 Schema 满足 strict 约束：属性全部必填、无额外字段、无默认值', () => {
+        const issueSchema = (REVIEW_RESPONSE_JSON_SCHEMA.properties as any).issues.items;
+        expect(REVIEW_RESPONSE_JSON_SCHEMA).toMatchObject({ type: 'object', required: ['issues'], additionalProperties: false });
+        expect(issueSchema.required).toEqual(['file', 'line', 'column', 'snippet', 'message', 'severity', 'suggestion']);
+        expect(issueSchema.properties.suggestion.anyOf[1]).toEqual({ type: 'null' });
+        expect(issueSchema.properties.suggestion.anyOf[0]).toMatchObject({
+            required: ['start_line', 'end_line', 'original', 'replacement'],
+            additionalProperties: false,
+        });
+        expect(issueSchema.additionalProperties).toBe(false);
+        expect(issueSchema.properties.severity.enum).toEqual(['error', 'warning', 'info']);
+        expect(JSON.stringify(REVIEW_RESPONSE_JSON_SCHEMA)).not.toMatch(/"(default|minLength|\$schema)"/);
+    });
+
+    it('按配置与提供方能力选择输出方式', () => {
+        expect(resolveStructuredOutputMode(undefined, ['json_schema', 'tool'])).toBeNull();
+        expect(resolveStructuredOutputMode('off', ['json_schema', 'tool'])).toBeNull();
+        expect(resolveStructuredOutputMode('auto', ['json_schema', 'tool'])).toBe('json_schema');
+        expect(resolveStructuredOutputMode('tool', ['json_schema', 'tool'])).toBe('tool');
+        expect(resolveStructuredOutputMode('json_schema', ['tool'])).toBe('tool');
+        expect(resolveStructuredOutputMode('auto', [])).toBeNull();
+    });
+
+    it('OpenAI：json_schema 与工具调用请求体，工具参数还原为 content', () => {
+        const openai = getProviderAdapter('openai');
+        expect(openai.buildRequestBody(body, 'json_schema')).toMatchObject({
+            response_format: { type: 'json_schema', json_schema: { name: REVIEW_RESPONSE_SCHEMA_NAME, strict: true } },
+        });
+        expect(openai.buildRequestBody(body, 'tool')).toMatchObject({
+            tools: [{ type: 'function', function: { name: REVIEW_RESPONSE_SCHEMA_NAME, parameters: REVIEW_RESPONSE_JSON_SCHEMA } }],
+            tool_choice: { type: 'function', function: { name: REVIEW_RESPONSE_SCHEMA_NAME } },
+        });
+        expect(openai.buildRequestBody(body, null)).toEqual(body);
+        expect(openai.toOpenAIResponse({
+            choices: [{ message: { content: null, tool_calls: [{ function: { name: REVIEW_RESPONSE_SCHEMA_NAME, arguments: issuesJson } }] } }],
+        }, logger)).toMatchObject({ choices: [{ message: { content: issuesJson } }] });
+    });
+
+    it('Anthropic 以工具调用、Ollama 以 format 约束输出', () => {
+        const anthropic = getProviderAdapter('anthropic');
+        expect(anthropic.structuredOutputModes).toEqual(['tool']);
+        expect(anthropic.buildRequestBody(body, 'tool')).toMatchObject({
+            tools: [{ name: REVIEW_RESPONSE_SCHEMA_NAME, input_schema: REVIEW_RESPONSE_JSON_SCHEMA }],
+            tool_choice: { type: 'tool', name: REVIEW_RESPONSE_SCHEMA_NAME },
+        });
+        expect(anthropic.toOpenAIResponse({
+            content: [{ type: 'tool_use', id: 't1', name: REVIEW_RESPONSE_SCHEMA_NAME, input: JSON.parse(issuesJson) }],
+            stop_reason: 'tool_use',
+        }, logger)).toMatchObject({ choices: [{ message: { content: issuesJson }, finish_reason: 'stop' }] });
+        expect(getProviderAdapter('ollama').buildRequestBody(body, 'json_schema')).toMatchObject({ format: REVIEW_RESPONSE_JSON_SCHEMA });
+        expect(getProviderAdapter('custom').structuredOutputModes).toEqual([]);
+    });
+
+    it('AIReviewer 以工具调用请求，并按输出方式记录解析结果', async () => {
+        const aiReviewer = new AIReviewer(createMockConfigManager({
+            ai_review: {
+                enabled: true,
+                api_format: 'openai',
+                api_endpoint: 'https://api.example.com/v1',
+                api_key: 'test-api-key',
+                model: 'test-model',
+                timeout: 1000,
+                action: 'warning',
+                retry_count: 0,
+                structured_output: 'tool',
+            },
+        }));
+        await aiReviewer.initialize();
+        const postMock = vi.fn(async () => ({
+            data: {
+                choices: [{ message: { content: '', tool_calls: [{ function: { arguments: issuesJson } }] } }],
+            },
+        }));
+        (aiReviewer as unknown as { axiosInstance: { post: typeof postMock } }).axiosInstance.post = postMock;
+        const addLlmOutputParse = vi.spyOn(RuntimeTraceLogger.getInstance(), 'addLlmOutputParse').mockImplementation(() => undefined);
+
+        const response = await (aiReviewer as unknown as {
+            callAPI: (
+                input: { files: Array<{ path: string; content: string }> },
+                options: undefined,
+                traceSession: { runId: string }
+            ) => Promise<{ issues: Array<{ file: string; line: number }> }>
+        }).callAPI({ files: [{ path: 'src/a.ts', content: 'const a = 1;' }] }, undefined, { runId: 'run-1' });
+
+        expect(response.issues).toEqual([expect.objectContaining({ file: 'src/a.ts', line: 3 })]);
+        const [, requestBody] = postMock.mock.calls[0] as unknown as [string, { tool_choice?: unknown }];
+        expect(requestBody.tool_choice).toEqual({ type: 'function', function: { name: REVIEW_RESPONSE_SCHEMA_NAME } });
+        expect(addLlmOutputParse).toHaveBeenCalledWith('run-1', { mode: 'tool', partial: false, failed: false });
+        addLlmOutputParse.mockRestore();
+    });
+});
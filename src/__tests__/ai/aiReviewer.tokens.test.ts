@@ -0,0 +1,158 @@
+/**
+ * aiReviewer.tokens 单元测试
+ *
+ * 覆盖：CJK 与代码的 Token 估算、model_profiles 精确/前缀匹配、上下文窗口推导的批次预算与成本计算；
+ * splitUnitsBySnippetBudget 与二分降载按 Token 预算生效；单次调用写入估算 Token 与成本。
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+    DEFAULT_CONTEXT_WINDOW,
+    calculateCost,
+    estimateTokens,
+    getRequestTokenBudget,
+    resolveModelProfile,
+} from '../../ai/aiReviewer.tokens';
+import { splitUnitsBySnippetBudget } from '../../ai/aiReviewer.batching';
+import type { AIReviewConfig, ReviewUnit } from '../../ai/aiReviewer.types';
+import { AIReviewer } from '../../ai/aiReviewer';
+import { RuntimeTraceLogger } from '../../utils/runtimeTraceLogger';
+import { createMockConfigManager } from '../helpers/mockConfigManager';
+
+const baseConfig: AIReviewConfig = {
+    enabled: true,
+    apiEndpoint: 'https://api.example.com',
+    model: 'test-model',
+    timeout: 1000,
+    max_tokens: 1000,
+    action: 'warning',
+};
+
+const unit = (id: number, content: string, snippetCount = 1): ReviewUnit => ({
+    unitId: `u${id}`,
+    path: `src/f${id}.ts`,
+    content,
+    snippetCount,
+    sourceType: 'full',
+});
+
+describe('aiReviewer.tokens', () => {
+    it('CJK 按字、英文单词按约 4 字符、标点与换行段各记 1', () => {
+        expect(estimateTokens('const a = 1;')).toBe(6);
+        expect(estimateTokens('你好，世界')).toBe(5);
+        expect(estimateTokens('hello world')).toBe(4);
+        expect(estimateTokens('a\n    b')).toBe(3);
+        // 同样字符数下，中文的估算 Token 远高于英文
+        expect(estimateTokens('审'.repeat(400))).toBeGreaterThan(estimateTokens('x'.repeat(400)) * 3);
+    });
+
+    it('model_profiles 先精确匹配再取最长前缀', () => {
+        const config = {
+            model: 'gpt-4o-mini-2024',
+            model_profiles: {
+                'gpt-4o': { context_window: 128000 },
+                'gpt-4o-mini': { context_window: 64000, input_price_per_1m: 0.15 },
+                'gpt-4o-mini-2024': { context_window: 32000 },
+            },
+        };
+        expect(resolveModelProfile(config)).toEqual({ context_window: 32000 });
+        expect(resolveModelProfile(config, 'gpt-4o-mini-2025')).toEqual({ context_window: 64000, input_price_per_1m: 0.15 });
+        expect(resolveModelProfile(config, 'claude')).toEqual({});
+    });
+
+    it('批次预算由上下文窗口扣除输出与提示词开销，未配置按默认窗口', () => {
+        const defaultBudget = getRequestTokenBudget(baseConfig);
+        expect(defaultBudget).toBeLessThan((DEFAULT_CONTEXT_WINDOW - 1000) * 0.9);
+        expect(defaultBudget).toBeGreaterThan((DEFAULT_CONTEXT_WINDOW - 1000) * 0.9 - 2000);
+        const large = getRequestTokenBudget({ ...baseConfig, model_profiles: { 'test-model': { context_window: 200000 } } });
+        expect(large - defaultBudget).toBe(Math.floor((200000 - 1000) * 0.9) - Math.floor((DEFAULT_CONTEXT_WINDOW - 1000) * 0.9));
+    });
+
+    it('按每百万 Token 价格计算成本，未配置价格时为 undefined', () => {
+        expect(calculateCost({ input_price_per_1m: 2, output_price_per_1m: 8 }, { input: 500_000, output: 100_000 })).toBeCloseTo(1.8);
+        expect(calculateCost({ context_window: 1000 }, { input: 1, output: 1 })).toBeUndefined();
+    });
+
+    it('splitUnitsBySnippetBudget：片段预算未满时仍按 Token 预算切批', () => {
+        const config = { ...baseConfig, model_profiles: { 'test-model': { context_window: 6000 } } };
+        const budget = getRequestTokenBudget(config);
+        const cjkContent = '注'.repeat(Math.floor(budget / 2.5));
+        const batches = splitUnitsBySnippetBudget([unit(1, cjkContent), unit(2, cjkContent), unit(3, cjkContent)], 25, config);
+        expect(batches.map(batch => batch.length)).toEqual([2, 1]);
+
+        const tokenWeighted = splitUnitsBySnippetBudget(
+            [unit(1, cjkContent), unit(2, cjkContent)],
+            25,
+            { ...config, ast_chunk_weight_by: 'tokens' }
+        );
+        expect(tokenWeighted.map(batch => batch.length)).toEqual([2]);
+    });
+
+    it('中文内容未超 max_request_chars 但超 Token 预算时二分降载', async () => {
+        const aiReviewer = new AIReviewer(createMockConfigManager({
+            ai_review: {
+                enabled: true,
+                api_format: 'openai',
+                api_endpoint: 'https://api.example.com',
+                api_key: 'test-api-key',
+                model: 'test-model',
+                timeout: 1000,
+                action: 'warning',
+                batching_mode: 'file_count',
+                max_request_chars: 50000,
+                model_profiles: { 'test-model': { context_window: 12000 } },
+            },
+        }));
+        await aiReviewer.initialize();
+        const files = [
+            { path: 'src/a.ts', content: `// ${'中'.repeat(1500)}` },
+            { path: 'src/b.ts', content: `// ${'文'.repeat(1500)}` },
+        ];
+        const callApiSpy = vi
+            .spyOn(aiReviewer as unknown as { callAPI: (input: { files: Array<{ path: string }> }) => Promise<{ issues: [] }> }, 'callAPI')
+            .mockResolvedValue({ issues: [] });
+
+        await aiReviewer.review({ files });
+
+        expect(callApiSpy).toHaveBeenCalledTimes(2);
+        expect(callApiSpy.mock.calls.map(call => call[0].files.map(file => file.path))).toEqual([['src/a.ts'], ['src/b.ts']]);
+    });
+
+    it('单次调用写入估算 Token、估算成本与按 usage 计算的实际成本', async () => {
+        const aiReviewer = new AIReviewer(createMockConfigManager({
+            ai_review: {
+                enabled: true,
+                api_format: 'openai',
+                api_endpoint: 'https://api.example.com/v1',
+                api_key: 'test-api-key',
+                model: 'test-model',
+                timeout: 1000,
+                action: 'warning',
+                retry_count: 0,
+                model_profiles: { 'test-model': { input_price_per_1m: 1, output_price_per_1m: 4 } },
+            },
+        }));
+        await aiReviewer.initialize();
+        const postMock = vi.fn(async () => ({
+            data: {
+                choices: [{ message: { content: '{"issues":[]}' } }],
+                usage: { prompt_tokens: 1000, completion_tokens: 500 },
+            },
+        }));
+        (aiReviewer as unknown as { axiosInstance: { post: typeof postMock } }).axiosInstance.post = postMock;
+        const addLlmCall = vi.spyOn(RuntimeTraceLogger.getInstance(), 'addLlmCall').mockImplementation(() => undefined);
+
+        await (aiReviewer as unknown as {
+            callAPI: (input: { files: Array<{ path: string; content: string }> }, options: undefined, traceSession: { runId: string }) => Promise<unknown>
+        }).callAPI({ files: [{ path: 'src/a.ts', content: 'const a = 1;' }] }, undefined, { runId: 'run-1' });
+
+        const [, recorded] = addLlmCall.mock.calls[0];
+        expect(recorded.estimated_prompt_tokens).toBeGreaterThan(0);
+        expect(recorded.estimated_completion_tokens).toBe(estimateTokens('{"issues":[]}'));
+        expect(recorded.estimated_cost).toBeCloseTo(
+            (recorded.estimated_prompt_tokens! * 1 + recorded.estimated_completion_tokens! * 4) / 1_000_000
+        );
+        expect(recorded.actual_cost).toBeCloseTo((1000 * 1 + 500 * 4) / 1_000_000);
+        addLlmCall.mockRestore();
+    });
+});
@@ -1,6 +1,8 @@
 import { describe, expect, it } from 'vitest';
+import { AIReviewResponseSchema } from '../../ai/aiReviewer.types';
 import {
     actionToSeverity,
+    buildReviewedLineMap,
     mapSeverity,
     normalizeLineEndings,
     resolveIssuePositionFromSnippet,
@@ -123,4 +125,53 @@ describe('aiReviewer.transform', () => {
         } as any);
         expect(issues.length).toBe(0);
     });
+
+    it('修改建议按送审内容校验：范围原文与 original/snippet 一致才保留，结构不合法按 null 处理', () => {
+        const config = { action: 'warning' } as any;
+        const diffContent = [
+            '文件: a.ts',
+            '以下为变更片段，行号为新文件中的行号。',
+            '',
+            '# 行 4',
+            '  if (a == b) {',
+            '# 行 5',
+            '    run();',
+            '',
+            '# 行 9',
+            '  return x;',
+        ].join('\n');
+        expect([...buildReviewedLineMap(diffContent, true).entries()]).toEqual([
+            [4, '  if (a == b) {'], [5, '    run();'], [6, ''], [9, '  return x;'],
+        ]);
+
+        const base = { file: 'a.ts', line: 4, column: 1, message: 'm', severity: 'warning' as const };
+        const response = AIReviewResponseSchema.parse({
+            issues: [
+                { ...base, snippet: 'if (a == b) {', suggestion: { start_line: 4, end_line: 4, replacement: '  if (a === b) {' } },
+                { ...base, suggestion: { start_line: 4, end_line: 5, original: 'if (a == b) {\nrun();', replacement: 'run();' } },
+                { ...base, snippet: 'if (a == b) {', suggestion: { start_line: 5, end_line: 5, replacement: 'x' } },
+                { ...base, snippet: 'return x;', suggestion: { start_line: 8, end_line: 9, replacement: 'return y;' } },
+                { ...base, snippet: 'run();', suggestion: { start_line: 5, end_line: 5, replacement: '  run();' } },
+                { ...base, snippet: 'run();', suggestion: { start_line: 5 } },
+            ],
+        });
+        expect(response.issues[5].suggestion).toBeNull();
+
+        const issues = transformToReviewIssues(config, response, [{ path: 'a.ts', content: diffContent }], {
+            useDiffLineNumbers: true,
+        });
+        expect(issues.map(issue => issue.suggestion)).toEqual([
+            { startLine: 4, endLine: 4, original: '  if (a == b) {', replacement: '  if (a === b) {' },
+            { startLine: 4, endLine: 5, original: '  if (a == b) {\n    run();', replacement: 'run();' },
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+        ]);
+
+        const [fullFileIssue] = transformToReviewIssues(config, {
+            issues: [{ ...base, line: 2, snippet: 'var x = 1;', suggestion: { start_line: 2, end_line: 2, replacement: 'const x = 1;' } }],
+        }, [{ path: 'a.ts', content: '// head\r\nvar x = 1;\r\n' }]);
+        expect(fullFileIssue.suggestion).toEqual({ startLine: 2, endLine: 2, original: 'var x = 1;', replacement: 'const x = 1;' });
+    });
 });
@@ -0,0 +1,224 @@
+/**
+ * aiReviewer.verifier 单元测试
+ *
+ * 覆盖：按送审内容为问题取原代码行与上下文、校验响应解析；驳回与低置信问题被丢弃、漏判与未命中级别的问题保留，
+ * 校验调用以 verify 层写入 Token；校验失败时整批保留；AIReviewer 配置 verify_severities 后只返回通过校验的问题，
+ * Azure 校验请求发往 verify_model 部署。
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import {
+    buildVerificationItems,
+    buildVerificationRequest,
+    parseVerificationResponse,
+    verifyReviewIssues,
+} from '../../ai/aiReviewer.verifier';
+import type { AIReviewConfig, ReviewUnit } from '../../ai/aiReviewer.types';
+import type { ReviewIssue } from '../../types/review';
+import { AIReviewer } from '../../ai/aiReviewer';
+import { RuntimeTraceLogger } from '../../utils/runtimeTraceLogger';
+import { createMockConfigManager } from '../helpers/mockConfigManager';
+
+const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } as any;
+
+const config: AIReviewConfig = {
+    enabled: true,
+    api_format: 'openai',
+    apiEndpoint: 'https://api.example.com/v1',
+    model: 'strong-model',
+    verify_severities: ['error', 'warning'],
+    timeout: 1000,
+    retry_count: 0,
+    action: 'block_commit',
+};
+
+const unit: ReviewUnit = {
+    unitId: 'u1',
+    path: 'src/a.ts',
+    content: ['# 行 10', 'const a = load();', 'if (a == null) {', '    run(a.value);', '}'].join('\n'),
+    snippetCount: 1,
+    sourceType: 'diff',
+};
+
+const issue = (line: number, severity: ReviewIssue['severity'], message = `问题 ${line}`): ReviewIssue => ({
+    file: 'src/a.ts',
+    line,
+    column: 1,
+    message,
+    rule: 'ai_review',
+    severity,
+});
+
+const verifyReply = (verdicts: Array<{ index: number; verdict: 'confirm' | 'reject'; confidence: number }>) => ({
+    data: {
+        choices: [{ message: { content: JSON.stringify({ verdicts }) } }],
+        usage: { prompt_tokens: 200, completion_tokens: 40 },
+    },
+});
+
+const createDeps = (post: (...args: unknown[]) => Promise<unknown>) => {
+    const runtimeTraceLogger = { addLlmCall: vi.fn(), addVerification: vi.fn() };
+    return {
+        runtimeTraceLogger,
+        deps: {
+            config,
+            axiosInstance: { post } as any,
+            logger,
+            runtimeTraceLogger: runtimeTraceLogger as any,
+            shouldRetry: () => false,
+        },
+    };
+};
+
+describe('aiReviewer.verifier', () => {
+    it('为问题附带原代码行与上下文，并解析校验判定', () => {
+        const [item] = buildVerificationItems([issue(11, 'warning')], [unit], true);
+        expect(item.code).toBe('if (a == null) {');
+        expect(item.context).toBe(['  10 | const a = load();', '> 11 | if (a == null) {', '  12 |     run(a.value);', '  13 | }'].join('\n'));
+        expect(buildVerificationItems([issue(30, 'error')], [unit], true)[0]).toMatchObject({ code: '', context: '' });
+
+        const body = buildVerificationRequest({ ...config, verify_model: 'verify-model' }, [item]);
+        expect(body.model).toBe('verify-model');
+        expect(body.messages[1].content).toContain('### 问题 0: src/a.ts:11 [warning]');
+        expect(body.messages[1].content).toContain('问题行：if (a == null) {');
+
+        const verdicts = parseVerificationResponse(
+            '```json\n{"verdicts":[{"index":0,"verdict":"reject","confidence":0.9,"reason":"已判空"}]}\n```',
+            logger
+        );
+        expect(verdicts.get(0)).toEqual({ verdict: 'reject', confidence: 0.9, reason: '已判空' });
+        expect(() => parseVerificationResponse('{"verdicts":[{"index":0,"verdict":"maybe","confidence":1}]}', logger)).toThrow();
+    });
+
+    it('丢弃驳回与低置信的问题，保留确认、漏判与未命中级别的问题，并按 verify 层记录 Token', async () => {
+        const post = vi.fn(async () => verifyReply([
+            { index: 0, verdict: 'confirm', confidence: 0.9 },
+            { index: 1, verdict: 'reject', confidence: 0.8 },
+            { index: 2, verdict: 'confirm', confidence: 0.3 },
+        ]));
+        const { deps, runtimeTraceLogger } = createDeps(post);
+        const issues = [issue(10, 'error'), issue(11, 'warning'), issue(12, 'warning'), issue(13, 'info'), issue(14, 'error')];
+
+        const result = await verifyReviewIssues(deps, issues, { units: [unit], useDiffLineNumbers: true }, { runId: 'run-1' } as any);
+
+        expect(result.issues.map(i => i.line)).toEqual([10, 13, 14]);
+        expect(result.stats).toEqual({ candidates: 4, confirmed: 1, rejected: 1, lowConfidence: 1, unverified: 1 });
+        expect((post.mock.calls[0] as unknown[])[1]).toMatchObject({ model: 'strong-model', temperature: 0 });
+        expect(runtimeTraceLogger.addLlmCall).toHaveBeenCalledWith(
+            'run-1',
+            expect.objectContaining({ tier: 'verify', prompt_tokens: 200, completion_tokens: 40 })
+        );
+        expect(runtimeTraceLogger.addVerification).toHaveBeenCalledWith('run-1', result.stats);
+    });
+
+    it('校验请求失败时问题原样保留，未命中级别时不发请求', async () => {
+        const post = vi.fn(async () => {
+            throw new Error('boom');
+        });
+        const { deps } = createDeps(post);
+        const issues = [issue(10, 'error'), issue(11, 'warning')];
+
+        const result = await verifyReviewIssues(deps, issues, { units: [unit], useDiffLineNumbers: true });
+        expect(result.issues).toEqual(issues);
+        expect(result.stats).toMatchObject({ candidates: 2, unverified: 2 });
+
+        post.mockClear();
+        const infoOnly = await verifyReviewIssues(deps, [issue(10, 'info')], { units: [unit], useDiffLineNumbers: true });
+        expect(infoOnly.stats.candidates).toBe(0);
+        expect(post).not.toHaveBeenCalled();
+    });
+
+    it('AIReviewer 配置 verify_severities 后只返回通过校验的问题', async () => {
+        const aiReviewer = new AIReviewer(createMockConfigManager({
+            ai_review: {
+                enabled: true,
+                api_format: 'openai',
+                api_endpoint: 'https://api.example.com/v1',
+                api_key: 'test-api-key',
+                model: 'strong-model',
+                verify_severities: ['warning'],
+                timeout: 1000,
+                action: 'warning',
+                retry_count: 0,
+                disk_cache: false,
+            },
+        }));
+        await aiReviewer.initialize();
+        const reviewIssue = (line: number, severity: string, message: string) => ({
+            file: 'src/a.ts', line, column: 1, snippet: '', message, severity,
+        });
+        const postMock = vi.fn()
+            .mockResolvedValueOnce({
+                data: {
+                    choices: [{
+                        message: {
+                            content: JSON.stringify({
+                                issues: [
+                                    reviewIssue(1, 'warning', '可能为空'),
+                                    reviewIssue(2, 'warning', '缺少错误处理'),
+                                    reviewIssue(3, 'info', '命名可以更清晰'),
+                                ],
+                            }),
+                        },
+                    }],
+                },
+            })
+            .mockResolvedValueOnce(verifyReply([
+                { index: 0, verdict: 'reject', confidence: 0.9 },
+                { index: 1, verdict: 'confirm', confidence: 0.8 },
+            ]));
+        (aiReviewer as unknown as { axiosInstance: { post: typeof postMock } }).axiosInstance.post = postMock;
+        const addVerification = vi.spyOn(RuntimeTraceLogger.getInstance(), 'addVerification').mockImplementation(() => undefined);
+
+        const issues = await aiReviewer.review(
+            { files: [{ path: 'src/a.ts', content: 'const a = load();\nrun(a);\nconst x = 1;' }] },
+            { runId: 'run-1', trigger: 'manual', startedAt: 0 }
+        );
+
+        expect(postMock).toHaveBeenCalledTimes(2);
+        const [, verifyBody] = postMock.mock.calls[1] as [string, { messages: Array<{ content: string }> }];
+        expect(verifyBody.messages[1].content).toContain('问题行：const a = load();');
+        expect(issues.map(i => i.message)).toEqual(['缺少错误处理', '命名可以更清晰']);
+        expect(addVerification).toHaveBeenCalledWith('run-1', expect.objectContaining({ candidates: 2, rejected: 1, confirmed: 1 }));
+        addVerification.mockRestore();
+    });
+
+    it('Azure 校验请求发往 verify_model 部署', async () => {
+        const aiReviewer = new AIReviewer(createMockConfigManager({
+            ai_review: {
+                enabled: true,
+                api_format: 'azure_openai',
+                api_endpoint: 'https://res.openai.azure.com',
+                api_key: 'test-api-key',
+                model: 'strong-model',
+                verify_model: 'verify-model',
+                verify_severities: ['warning'],
+                timeout: 1000,
+                action: 'warning',
+                retry_count: 0,
+                disk_cache: false,
+            },
+        }));
+        await aiReviewer.initialize();
+        const postMock = vi.fn()
+            .mockResolvedValueOnce({
+                data: {
+                    choices: [{
+                        message: {
+                            content: JSON.stringify({
+                                issues: [{ file: 'src/a.ts', line: 1, column: 1, snippet: '', message: '可能为空', severity: 'warning' }],
+                            }),
+                        },
+                    }],
+                },
+            })
+            .mockResolvedValueOnce(verifyReply([{ index: 0, verdict: 'confirm', confidence: 0.9 }]));
+        (aiReviewer as unknown as { axiosInstance: { post: typeof postMock } }).axiosInstance.post = postMock;
+
+        const issues = await aiReviewer.review({ files: [{ path: 'src/a.ts', content: 'const a = load();' }] });
+
+        expect(issues.map(i => i.message)).toEqual(['可能为空']);
+        expect(postMock.mock.calls[0][0]).toContain('/openai/deployments/strong-model/chat/completions');
+        expect(postMock.mock.calls[1][0]).toContain('/openai/deployments/verify-model/chat/completions');
+    });
+});
@@ -0,0 +1,142 @@
+/**
+ * agentreview 命令行单元测试
+ *
+ * 验证：
+ * 1. 参数解析（模式、range 区间、branch 基准、输出格式、错误参数）
+ * 2. 按模式调用 ReviewEngine 对应入口，passed 映射为退出码
+ * 3. text/json/sarif 报告格式
+ */
+
+import * as path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+import {
+    CLI_EXIT_FAILED,
+    CLI_EXIT_PASSED,
+    parseCliArgs,
+    runCliReview,
+    type CliOptions,
+} from '../../cli/agentreviewCli';
+import type { ReviewIssue, ReviewResult } from '../../types/review';
+
+const root = path.resolve('/repo');
+
+const createIssue = (overrides: Partial<ReviewIssue> = {}): ReviewIssue => ({
+    file: path.join(root, 'src', 'a.ts'),
+    line: 2,
+    column: 1,
+    message: '发现 TODO 注释',
+    rule: 'no_todo',
+    severity: 'warning',
+    ...overrides,
+});
+
+const createEngine = (result: ReviewResult, files: string[]) => ({
+    reviewStagedFilesWithContext: vi.fn(async () => ({ result, stagedFiles: files })),
+    reviewWorkingChangesWithContext: vi.fn(async () => ({ result, changedFiles: files })),
+    reviewRefRangeWithContext: vi.fn(async () => ({ result, changedFiles: files })),
+    reviewBranchWithContext: vi.fn(async () => ({ result, changedFiles: files, mergeBase: 'abc' })),
+});
+
+const parseOptions = (argv: string[]): CliOptions => {
+    const parsed = parseCliArgs(argv, root);
+    if (!('options' in parsed)) throw new Error('应解析成功');
+    return parsed.options;
+};
+
+describe('agentreview CLI', () => {
+    it('默认 staged 模式、text 格式、当前目录', () => {
+        expect(parseOptions([])).toMatchObject({
+            mode: 'staged',
+            format: 'text',
+            workspaceRoot: root,
+            verbose: false,
+        });
+    });
+
+    it('range 模式解析 base..head，head 缺省为 HEAD', () => {
+        expect(parseOptions(['range', 'origin/main..feature'])).toMatchObject({
+            mode: 'range',
+            baseRef: 'origin/main',
+            headRef: 'feature',
+        });
+        expect(parseOptions(['range', 'origin/main'])).toMatchObject({ baseRef: 'origin/main', headRef: 'HEAD' });
+        expect(parseOptions(['range', 'v1.0..', '--format=json', '--output', 'out/report.json'])).toMatchObject({
+            headRef: 'HEAD',
+            format: 'json',
+            outputPath: path.join(root, 'out', 'report.json'),
+        });
+    });
+
+    it('branch 模式解析基准分支与 --by-commit', () => {
+        expect(parseOptions(['branch', 'origin/main'])).toMatchObject({
+            mode: 'branch',
+            baseRef: 'origin/main',
+            byCommit: false,
+        });
+        expect(parseOptions(['branch', 'main', '--by-commit'])).toMatchObject({ byCommit: true });
+        expect(parseCliArgs(['branch'], root)).toHaveProperty('error');
+        expect(parseCliArgs(['working', '--by-commit'], root)).toHaveProperty('error');
+    });
+
+    it('错误参数返回 error，--help 返回 help', () => {
+        expect(parseCliArgs(['range'], root)).toHaveProperty('error');
+        expect(parseCliArgs(['unknown'], root)).toHaveProperty('error');
+        expect(parseCliArgs(['--format', 'xml'], root)).toHaveProperty('error');
+        expect(parseCliArgs(['--bogus'], root)).toHaveProperty('error');
+        expect(parseCliArgs(['staged', 'extra'], root)).toHaveProperty('error');
+        expect(parseCliArgs(['-h'], root)).toEqual({ help: true });
+    });
+
+    it('按模式调用对应审查入口并映射退出码', async () => {
+        const failed: ReviewResult = { passed: false, errors: [createIssue({ severity: 'error' })], warnings: [], info: [] };
+        const engine = createEngine(failed, [path.join(root, 'src', 'a.ts')]);
+        const io = { writeReport: vi.fn(async () => undefined), log: vi.fn() };
+
+        expect(await runCliReview(engine, parseOptions(['working']), io)).toBe(CLI_EXIT_FAILED);
+        expect(engine.reviewWorkingChangesWithContext).toHaveBeenCalledWith({ workspaceRoot: root });
+
+        await runCliReview(engine, parseOptions(['range', 'main..HEAD']), io);
+        expect(engine.reviewRefRangeWithContext).toHaveBeenCalledWith({
+            workspaceRoot: root,
+            baseRef: 'main',
+            headRef: 'HEAD',
+        });
+
+        await runCliReview(engine, parseOptions(['branch', 'main', '--by-commit']), io);
+        expect(engine.reviewBranchWithContext).toHaveBeenCalledWith({
+            workspaceRoot: root,
+            baseRef: 'main',
+            byCommit: true,
+        });
+
+        const passedEngine = createEngine({ passed: true, errors: [], warnings: [], info: [] }, []);
+        expect(await runCliReview(passedEngine, parseOptions([]), io)).toBe(CLI_EXIT_PASSED);
+        expect(passedEngine.reviewStagedFilesWithContext).toHaveBeenCalledWith({ workspaceRoot: root });
+    });
+
+    it('text 报告列出相对路径，json 报告带 summary 与 mode，sarif 报告带 run 元信息', async () => {
+        const result: ReviewResult = { passed: true, errors: [], warnings: [createIssue()], info: [] };
+        const engine = createEngine(result, [path.join(root, 'src', 'a.ts')]);
+        const writeReport = vi.fn(async (_content: string) => undefined);
+
+        await runCliReview(engine, parseOptions([]), { writeReport, log: vi.fn() });
+        const text = writeReport.mock.calls[0][0];
+        expect(text).toContain('审查通过（staged，1 个文件）');
+        expect(text).toContain('  src/a.ts:2:1 [no_todo] 发现 TODO 注释');
+
+        await runCliReview(engine, parseOptions(['--format', 'json']), { writeReport, log: vi.fn() });
+        const json = JSON.parse(writeReport.mock.calls[1][0]);
+        expect(json).toMatchObject({
+            mode: 'staged',
+            passed: true,
+            reviewedFiles: 1,
+            summary: { errors: 0, warnings: 1, info: 0 },
+        });
+        expect(json.warnings[0].file).toBe('src/a.ts');
+        await runCliReview(engine, parseOptions(['--format', 'sarif']), { writeReport, log: vi.fn() });
+        const sarif = JSON.parse(writeReport.mock.calls[2][0]);
+        expect(sarif.version).toBe('2.1.0');
+        expect(sarif.runs[0].properties).toMatchObject({ mode: 'staged', passed: true });
+        expect(sarif.runs[0].results[0]).toMatchObject({ ruleId: 'no_todo', level: 'warning' });
+    });
+});
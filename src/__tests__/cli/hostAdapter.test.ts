@@ -0,0 +1,98 @@
+/**
+ * hostAdapter 单元测试
+ *
+ * 验证宿主替身提供的 settings / diagnostics / workspaceFolders 行为，
+ * 以及 .vscode/settings.json（JSONC）与诊断文件的读取。
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+    createHostVscodeApi,
+    loadDiagnosticsFile,
+    loadWorkspaceSettings,
+    stripJsonComments,
+} from '../../cli/hostAdapter';
+
+type HostApi = {
+    workspace: {
+        workspaceFolders: Array<{ uri: { fsPath: string } }>;
+        getConfiguration: (section?: string) => {
+            get: <T>(key: string, defaultValue?: T) => T | undefined;
+            inspect: (key: string) => { workspaceValue?: unknown } | undefined;
+        };
+    };
+    languages: { getDiagnostics: (uri?: { fsPath: string }) => any };
+    Uri: { file: (p: string) => { fsPath: string } };
+};
+
+describe('hostAdapter', () => {
+    let root: string;
+
+    beforeEach(async () => {
+        root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'agentreview-host-'));
+    });
+
+    afterEach(async () => {
+        await fs.promises.rm(root, { recursive: true, force: true });
+    });
+
+    it('stripJsonComments 去掉注释与尾逗号，保留字符串内容', () => {
+        const text = [
+            '{',
+            '  // 行注释',
+            '  "a": "http://x/*y*/", /* 块注释 */',
+            '  "b": [1, 2,],',
+            '}',
+        ].join('\n');
+        expect(JSON.parse(stripJsonComments(text))).toEqual({ a: 'http://x/*y*/', b: [1, 2] });
+    });
+
+    it('loadWorkspaceSettings 只保留 agentreview.* 键，文件缺失时返回空对象', async () => {
+        expect(await loadWorkspaceSettings(root)).toEqual({});
+        await fs.promises.mkdir(path.join(root, '.vscode'));
+        await fs.promises.writeFile(
+            path.join(root, '.vscode', 'settings.json'),
+            '{ "editor.tabSize": 2, "agentreview.ai.enabled": true, // 注释\n}',
+            'utf8'
+        );
+        expect(await loadWorkspaceSettings(root)).toEqual({ 'agentreview.ai.enabled': true });
+    });
+
+    it('getConfiguration 按 section 读取设置，inspect 返回 workspaceValue', () => {
+        const api = createHostVscodeApi({
+            workspaceRoot: root,
+            settings: { 'agentreview.ai.model': 'gpt-x' },
+        }) as unknown as HostApi;
+        const settings = api.workspace.getConfiguration('agentreview');
+        expect(settings.get('ai.model')).toBe('gpt-x');
+        expect(settings.get('ai.timeout', 30000)).toBe(30000);
+        expect(settings.inspect('ai.model')).toEqual({ key: 'agentreview.ai.model', workspaceValue: 'gpt-x' });
+        expect(settings.inspect('ai.timeout')).toBeUndefined();
+        expect(api.workspace.workspaceFolders[0].uri.fsPath).toBe(path.resolve(root));
+    });
+
+    it('诊断文件按相对路径解析，并转换为 0-based 的 vscode 诊断', async () => {
+        const diagnosticsPath = path.join(root, 'diagnostics.json');
+        await fs.promises.writeFile(
+            diagnosticsPath,
+            JSON.stringify({ 'src/a.ts': [{ line: 3, column: 5, message: 'no-unused-vars', severity: 'warning', code: 'x' }] }),
+            'utf8'
+        );
+        const diagnosticsByFile = await loadDiagnosticsFile(diagnosticsPath, root);
+        const api = createHostVscodeApi({ workspaceRoot: root, diagnosticsByFile }) as unknown as HostApi;
+        const diagnostics = api.languages.getDiagnostics(api.Uri.file(path.join(root, 'src', 'a.ts')));
+        expect(diagnostics).toEqual([
+            {
+                range: { start: { line: 2, character: 4 }, end: { line: 2, character: 4 } },
+                message: 'no-unused-vars',
+                severity: 1,
+                code: 'x',
+                source: undefined,
+            },
+        ]);
+        expect(api.languages.getDiagnostics(api.Uri.file(path.join(root, 'b.ts')))).toEqual([]);
+    });
+});
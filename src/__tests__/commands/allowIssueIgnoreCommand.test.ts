@@ -1,6 +1,7 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import * as vscode from 'vscode';
 import { registerAllowIssueIgnoreCommand } from '../../commands/allowIssueIgnoreCommand';
+import { addAllowedIssue } from '../../config/ignoreStore';
 
 const mocked = vi.hoisted(() => ({
     handlers: new Map<string, (...args: unknown[]) => unknown>(),
@@ -16,6 +17,10 @@ const mocked = vi.hoisted(() => ({
     applyEdit: vi.fn(),
 }));
 
+vi.mock('../../config/ignoreStore', () => ({
+    addAllowedIssue: vi.fn(async () => {}),
+}));
+
 vi.mock('vscode', () => ({
     commands: {
         registerCommand: (id: string, handler: (...args: unknown[]) => unknown) => {
@@ -125,6 +130,39 @@ describe('allowIssueIgnoreCommand', () => {
         expect(saveMock).toHaveBeenCalledTimes(1);
         expect(syncAfterIssueIgnore).toHaveBeenCalledWith({ filePath: 'd:/ws/a.ts', insertedLine: 2 });
         expect(mocked.showInformationMessage).toHaveBeenCalledTimes(1);
+        expect(addAllowedIssue).not.toHaveBeenCalled();
+    });
+
+    it('有工作区时记录放行的问题与原因', async () => {
+        getActiveIssueForActions.mockReturnValue({
+            file: '/ws/src/a.ts',
+            line: 2,
+            rule: 'ai_review',
+            message: '建议添加注释',
+            severity: 'info',
+            workspaceRoot: '/ws',
+        });
+        mocked.showInputBox.mockResolvedValue(' 内部函数 ');
+        mocked.openTextDocument.mockResolvedValue({
+            uri: { fsPath: '/ws/src/a.ts' },
+            languageId: 'typescript',
+            lineCount: 2,
+            lineAt: () => ({ text: 'const x = 1;' }),
+            getText: () => 'line1\nconst x = 1;',
+            save: saveMock,
+        });
+        mocked.applyEdit.mockResolvedValue(true);
+
+        await runCommand();
+
+        expect(addAllowedIssue).toHaveBeenCalledWith('/ws', {
+            file: 'src/a.ts',
+            line: 2,
+            rule: 'ai_review',
+            message: '建议添加注释',
+            severity: 'info',
+            reason: '内部函数',
+        });
     });
 
     it('python 文件应插入井号注释', async () => {
@@ -0,0 +1,136 @@
+/**
+ * applySuggestionCommand 单元测试
+ *
+ * 覆盖：按原文定位建议范围（原行号优先，偏移后取最近的相同代码块）；无建议时提示；
+ * 应用 WorkspaceEdit、保存并按修改范围复审；原文已不存在时不修改。
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import * as vscode from 'vscode';
+import { locateSuggestionRange, registerApplySuggestionCommand } from '../../commands/applySuggestionCommand';
+import type { ReviewIssue } from '../../types/review';
+
+const handlers = new Map<string, (...args: unknown[]) => unknown>();
+
+vi.mock('vscode', () => {
+    class Range {
+        constructor(
+            public startLine: number,
+            public startCharacter: number,
+            public endLine: number,
+            public endCharacter: number
+        ) {}
+    }
+    class WorkspaceEdit {
+        public edits: Array<{ uri: unknown; range: Range; text: string }> = [];
+        replace(uri: unknown, range: Range, text: string): void {
+            this.edits.push({ uri, range, text });
+        }
+    }
+    return {
+        Range,
+        WorkspaceEdit,
+        commands: {
+            registerCommand: (id: string, handler: (...args: unknown[]) => unknown) => {
+                handlers.set(id, handler);
+                return { dispose: () => handlers.delete(id) };
+            },
+        },
+        window: {
+            showInformationMessage: vi.fn(),
+            showWarningMessage: vi.fn(),
+            showErrorMessage: vi.fn(),
+        },
+        workspace: {
+            openTextDocument: vi.fn(),
+            applyEdit: vi.fn(async () => true),
+        },
+        Uri: { file: (fsPath: string) => ({ fsPath, scheme: 'file' }) },
+    };
+});
+
+const createIssue = (suggestion?: ReviewIssue['suggestion']): ReviewIssue => ({
+    file: '/repo/src/a.ts',
+    line: 2,
+    column: 5,
+    message: '使用 == 比较',
+    rule: 'ai_review',
+    severity: 'warning',
+    suggestion,
+});
+
+const suggestion = { startLine: 2, endLine: 2, original: '    if (a == b) {', replacement: '    if (a === b) {' };
+
+describe('applySuggestionCommand', () => {
+    let deps: any;
+    let fileText: string;
+    let document: any;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        handlers.clear();
+        fileText = ['function f(a, b) {', '    if (a == b) {', '        run();', '    }', '}'].join('\n');
+        document = {
+            uri: { fsPath: '/repo/src/a.ts', scheme: 'file' },
+            getText: () => fileText,
+            lineAt: (index: number) => ({ text: fileText.split('\n')[index] }),
+            save: vi.fn(async () => true),
+        };
+        vi.mocked(vscode.workspace.openTextDocument).mockResolvedValue(document);
+        deps = {
+            reviewEngine: {
+                reviewSavedFileWithScopeHints: vi.fn(async () => ({ passed: true, errors: [], warnings: [], info: [] })),
+            },
+            reviewPanel: {
+                getActiveIssueForActions: vi.fn(() => createIssue(suggestion)),
+                applyFileReviewPatch: vi.fn(),
+                getCurrentResult: vi.fn(() => null),
+            },
+            statusBar: { updateWithResult: vi.fn() },
+            logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+        };
+        registerApplySuggestionCommand(deps);
+    });
+
+    it('原行号处一致时直接使用，偏移后取离原行号最近的相同代码块', () => {
+        const lines = ['x', 'if (a == b) {', 'y', 'z', '  if (a == b) {'];
+        expect(locateSuggestionRange(lines, { ...suggestion, startLine: 2, endLine: 2 })).toEqual({ startLine: 2, endLine: 2 });
+        expect(locateSuggestionRange(lines, { ...suggestion, startLine: 4, endLine: 4 })).toEqual({ startLine: 5, endLine: 5 });
+        expect(locateSuggestionRange(lines, { ...suggestion, original: 'if (a == b) {\nz' })).toBeNull();
+    });
+
+    it('问题没有修改建议时提示且不修改', async () => {
+        deps.reviewPanel.getActiveIssueForActions.mockReturnValue(createIssue());
+        await handlers.get('agentreview.applySuggestion')!();
+        expect(vscode.window.showInformationMessage).toHaveBeenCalledWith('该问题没有可直接应用的修改建议');
+        expect(vscode.workspace.openTextDocument).not.toHaveBeenCalled();
+    });
+
+    it('按参数中的问题应用建议、保存并复审修改范围', async () => {
+        fileText = `// moved\n${fileText}`;
+        const issue = createIssue({ ...suggestion, replacement: '    if (a === b) {\n        log();' });
+        await handlers.get('agentreview.applySuggestion')!({ issue });
+
+        const edit = vi.mocked(vscode.workspace.applyEdit).mock.calls[0][0] as any;
+        expect(edit.edits[0]).toMatchObject({
+            range: { startLine: 2, startCharacter: 0, endLine: 2, endCharacter: 17 },
+            text: '    if (a === b) {\n        log();',
+        });
+        expect(document.save).toHaveBeenCalled();
+        expect(deps.reviewPanel.getActiveIssueForActions).not.toHaveBeenCalled();
+        expect(deps.reviewEngine.reviewSavedFileWithScopeHints).toHaveBeenCalledWith('/repo/src/a.ts', [
+            { startLine: 3, endLine: 4, source: 'ast' },
+        ]);
+        expect(deps.reviewPanel.applyFileReviewPatch).toHaveBeenCalledWith(expect.objectContaining({
+            reviewedRanges: [{ startLine: 3, endLine: 4 }],
+            statusMessage: '修复已应用，复审确认问题已消除',
+        }));
+    });
+
+    it('文件中已找不到建议原文时不修改', async () => {
+        fileText = fileText.replace('a == b', 'a === b');
+        await handlers.get('agentreview.applySuggestion')!();
+        expect(vscode.window.showWarningMessage).toHaveBeenCalledWith('文件内容已变化，修改建议无法直接应用，可改用 AI 修复');
+        expect(vscode.workspace.applyEdit).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,83 @@
+/**
+ * explainIssueCommand 单元测试
+ *
+ * 覆盖：参数中的问题优先于面板激活问题；无问题时提示；解释详情包含规则、原因、状态与关联位置。
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import * as vscode from 'vscode';
+import { buildIssueExplanation, registerExplainIssueCommand } from '../../commands/explainIssueCommand';
+import type { ReviewIssue } from '../../types/review';
+
+const handlers = new Map<string, (...args: unknown[]) => unknown>();
+
+vi.mock('vscode', () => ({
+    commands: {
+        registerCommand: (id: string, handler: (...args: unknown[]) => unknown) => {
+            handlers.set(id, handler);
+            return { dispose: () => handlers.delete(id) };
+        },
+    },
+    window: {
+        showInformationMessage: vi.fn(),
+    },
+}));
+
+const createIssue = (overrides: Partial<ReviewIssue> = {}): ReviewIssue => ({
+    file: '/repo/src/a.ts',
+    line: 3,
+    column: 2,
+    message: '发现 TODO 注释',
+    reason: '遗留 TODO 会被遗忘',
+    rule: 'no_todo',
+    severity: 'warning',
+    ...overrides,
+});
+
+describe('explainIssueCommand', () => {
+    let getActiveIssueForActions: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        handlers.clear();
+        getActiveIssueForActions = vi.fn(() => null);
+        registerExplainIssueCommand({
+            reviewPanel: { getActiveIssueForActions },
+            logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+            getGitRoot: () => null,
+        } as any);
+    });
+
+    it('无问题时提示', async () => {
+        await handlers.get('agentreview.explainIssue')!();
+        expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+            '请先在审查结果中选中一个问题，或悬停到问题行后再查看解释'
+        );
+    });
+
+    it('使用参数中的问题弹出模态解释', async () => {
+        const issue = createIssue();
+        await handlers.get('agentreview.explainIssue')!({ issue });
+        expect(getActiveIssueForActions).not.toHaveBeenCalled();
+        expect(vscode.window.showInformationMessage).toHaveBeenCalledWith('发现 TODO 注释', {
+            modal: true,
+            detail: buildIssueExplanation(issue),
+        });
+    });
+
+    it('解释详情包含规则、原因、状态与关联位置', () => {
+        const detail = buildIssueExplanation(createIssue({
+            stale: true,
+            astRange: { startLine: 1, endLine: 9 },
+            contextLineRefs: { usages: [{ file: '/repo/src/b.ts', line: 12 }] },
+        }));
+        expect(detail.split('\n')).toEqual([
+            '位置: a.ts 第 3 行，第 2 列',
+            '规则: no_todo（警告）',
+            '原因: 遗留 TODO 会被遗忘',
+            'AST 范围: 第 1-9 行',
+            '状态: 已同步位置待复审，结论可能过期',
+            '调用方: b.ts:12',
+        ]);
+    });
+});
@@ -0,0 +1,188 @@
+/**
+ * fixIssueCommand 单元测试
+ *
+ * 覆盖：无 issue 时提示；生成修复后打开 diff 预览，未确认不修改；确认后应用 WorkspaceEdit、保存并按修改范围复审；
+ * 复审只把同规则且消息（或指纹）相同的问题视为未消除。
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import * as vscode from 'vscode';
+import { applySnippetReplacement, isIssueStillPresent, registerFixIssueCommand } from '../../commands/fixIssueCommand';
+import type { ReviewIssue } from '../../types/review';
+
+const handlers = new Map<string, (...args: unknown[]) => unknown>();
+
+vi.mock('vscode', () => {
+    class Range {
+        constructor(
+            public startLine: number,
+            public startCharacter: number,
+            public endLine: number,
+            public endCharacter: number
+        ) {}
+    }
+    class WorkspaceEdit {
+        public edits: Array<{ uri: unknown; range: Range; text: string }> = [];
+        replace(uri: unknown, range: Range, text: string): void {
+            this.edits.push({ uri, range, text });
+        }
+    }
+    return {
+        Range,
+        WorkspaceEdit,
+        ProgressLocation: { Notification: 15 },
+        Disposable: { from: (...items: unknown[]) => ({ items, dispose: () => {} }) },
+        commands: {
+            registerCommand: (id: string, handler: (...args: unknown[]) => unknown) => {
+                handlers.set(id, handler);
+                return { dispose: () => handlers.delete(id) };
+            },
+            executeCommand: vi.fn(async () => undefined),
+        },
+        window: {
+            showInformationMessage: vi.fn(),
+            showWarningMessage: vi.fn(),
+            showErrorMessage: vi.fn(),
+            withProgress: async (_options: unknown, task: () => Promise<unknown>) => task(),
+        },
+        workspace: {
+            openTextDocument: vi.fn(),
+            applyEdit: vi.fn(async () => true),
+            registerTextDocumentContentProvider: vi.fn(() => ({ dispose: () => {} })),
+        },
+        Uri: {
+            file: (fsPath: string) => ({ fsPath, scheme: 'file' }),
+            from: (parts: { scheme: string; path: string }) => parts,
+        },
+    };
+});
+
+const fileText = ['function a() {', '    // TODO: remove', '    return 1;', '}', ''].join('\n');
+
+const createIssue = (): ReviewIssue => ({
+    file: '/repo/src/a.ts',
+    line: 2,
+    column: 5,
+    message: '发现 TODO 注释',
+    rule: 'no_todo',
+    severity: 'warning',
+    astRange: { startLine: 1, endLine: 4 },
+});
+
+describe('fixIssueCommand', () => {
+    let deps: any;
+    let document: any;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        handlers.clear();
+        document = {
+            uri: { fsPath: '/repo/src/a.ts', scheme: 'file' },
+            version: 1,
+            getText: () => fileText,
+            lineAt: (index: number) => ({ text: fileText.split('\n')[index] }),
+            save: vi.fn(async () => true),
+        };
+        vi.mocked(vscode.workspace.openTextDocument).mockResolvedValue(document);
+        deps = {
+            reviewEngine: {
+                generateIssueFix: vi.fn(async () => ({
+                    replacement: 'function a() {\n    return 1;\n}',
+                    explanation: '删除 TODO 注释',
+                })),
+                reviewSavedFileWithScopeHints: vi.fn(async () => ({ passed: true, errors: [], warnings: [], info: [] })),
+            },
+            configManager: undefined,
+            reviewPanel: {
+                getActiveIssueForActions: vi.fn(() => createIssue()),
+                applyFileReviewPatch: vi.fn(),
+                getCurrentResult: vi.fn(() => null),
+            },
+            statusBar: { updateWithResult: vi.fn() },
+            logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+            getGitRoot: () => null,
+        };
+        registerFixIssueCommand(deps);
+    });
+
+    it('applySnippetReplacement 按行替换并保留换行风格', () => {
+        expect(applySnippetReplacement('a\r\nb\r\nc', 2, 2, 'x\ny')).toBe('a\r\nx\r\ny\r\nc');
+    });
+
+    it('范围内无关的 ai_review 问题不算原问题仍存在，消息相同才算', () => {
+        const original: ReviewIssue = { ...createIssue(), rule: 'ai_review', message: '未处理 null 返回值。' };
+        const range = { startLine: 1, endLine: 3 };
+        const unrelated: ReviewIssue = { ...original, line: 2, message: '函数命名不符合规范' };
+        const result = { passed: true, errors: [], warnings: [unrelated], info: [] };
+
+        expect(isIssueStillPresent(result, original, range)).toBe(false);
+        expect(isIssueStillPresent(
+            { ...result, warnings: [unrelated, { ...original, line: 3, message: '未处理 null 返回值' }] },
+            original,
+            range
+        )).toBe(true);
+        expect(isIssueStillPresent(
+            { ...result, warnings: [{ ...unrelated, fingerprint: 'fp-1' }] },
+            { ...original, fingerprint: 'fp-1' },
+            range
+        )).toBe(true);
+    });
+
+    it('无 issue 时提示并不调用 AI', async () => {
+        deps.reviewPanel.getActiveIssueForActions.mockReturnValue(null);
+        await handlers.get('agentreview.fixIssue')!();
+        expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+            '请先在审查结果中选中一个问题，或悬停到问题行上再点击修复'
+        );
+        expect(deps.reviewEngine.generateIssueFix).not.toHaveBeenCalled();
+    });
+
+    it('未确认时只预览不修改', async () => {
+        vi.mocked(vscode.window.showInformationMessage).mockResolvedValue(undefined);
+        await handlers.get('agentreview.fixIssue')!();
+
+        expect(deps.reviewEngine.generateIssueFix).toHaveBeenCalledWith(expect.objectContaining({
+            filePath: '/repo/src/a.ts',
+            snippet: expect.objectContaining({ startLine: 1, endLine: 4 }),
+        }));
+        expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+            'vscode.diff',
+            document.uri,
+            expect.objectContaining({ scheme: 'agentreview-fix' }),
+            expect.stringContaining('AI 修复预览'),
+            { preview: true }
+        );
+        expect(vscode.workspace.applyEdit).not.toHaveBeenCalled();
+    });
+
+    it('确认后应用修复、保存并复审修改范围', async () => {
+        vi.mocked(vscode.window.showInformationMessage).mockResolvedValueOnce('应用修复' as any);
+        await handlers.get('agentreview.fixIssue')!();
+
+        const edit = vi.mocked(vscode.workspace.applyEdit).mock.calls[0][0] as any;
+        expect(edit.edits[0]).toMatchObject({
+            range: { startLine: 0, startCharacter: 0, endLine: 3, endCharacter: 1 },
+            text: 'function a() {\n    return 1;\n}',
+        });
+        expect(document.save).toHaveBeenCalled();
+        expect(deps.reviewEngine.reviewSavedFileWithScopeHints).toHaveBeenCalledWith('/repo/src/a.ts', [
+            { startLine: 1, endLine: 3, source: 'ast' },
+        ]);
+        expect(deps.reviewPanel.applyFileReviewPatch).toHaveBeenCalledWith(expect.objectContaining({
+            filePath: '/repo/src/a.ts',
+            reviewedMode: 'diff',
+            reviewedRanges: [{ startLine: 1, endLine: 3 }],
+            statusMessage: '修复已应用，复审确认问题已消除',
+        }));
+    });
+
+    it('生成期间文件被修改时放弃应用', async () => {
+        vi.mocked(vscode.window.showInformationMessage).mockImplementationOnce(async () => {
+            document.version = 2;
+            return '应用修复' as any;
+        });
+        await handlers.get('agentreview.fixIssue')!();
+        expect(vscode.window.showWarningMessage).toHaveBeenCalledWith('文件在生成修复期间已被修改，请重新执行修复');
+        expect(vscode.workspace.applyEdit).not.toHaveBeenCalled();
+    });
+});
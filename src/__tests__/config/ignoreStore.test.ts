@@ -1,7 +1,8 @@
 /**
  * ignoreStore 单元测试（指纹文件 version 2 格式）
  *
- * 覆盖：loadIgnoredFingerprints 无文件/空/有效 items；addIgnoredFingerprint 写入可读 meta、不重复添加。
+ * 覆盖：loadIgnoredFingerprints 无文件/空/有效 items；addIgnoredFingerprint 写入可读 meta、不重复添加；
+ * addAllowedIssue 记录放行原因、不重复且与忽略指纹互不覆盖。
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
@@ -11,6 +12,8 @@ import {
     getIgnoreStorePath,
     loadIgnoredFingerprints,
     addIgnoredFingerprint,
+    addAllowedIssue,
+    loadIgnoreFeedbackItems,
     type IgnoreItemMeta,
 } from '../../config/ignoreStore';
 import { createTempFileSystem, TempFileSystem } from '../helpers/tempFileSystem';
@@ -99,4 +102,22 @@ describe('ignoreStore', () => {
             expect(data.items.length).toBe(1);
         });
     });
+
+    describe('addAllowedIssue', () => {
+        it('记录放行原因，不重复添加，且与忽略指纹互不覆盖', async () => {
+            const root = tempFs.getTempDir();
+            const allowed = { file: 'src/a.ts', line: 3, rule: 'ai_review', message: '建议添加注释', reason: '内部函数' };
+            await addIgnoredFingerprint(root, 'fp1', { file: 'src/b.ts', line: 1, rule: 'r' });
+            await addAllowedIssue(root, allowed);
+            await addAllowedIssue(root, allowed);
+            await addIgnoredFingerprint(root, 'fp2', { file: 'src/c.ts', line: 2, rule: 'r' });
+
+            const { ignored, allowed: allowedItems } = await loadIgnoreFeedbackItems(root);
+            expect(ignored.map(item => item.fingerprint)).toEqual(['fp1', 'fp2']);
+            expect(allowedItems).toHaveLength(1);
+            expect(allowedItems[0]).toMatchObject(allowed);
+            expect(typeof allowedItems[0].allowedAt).toBe('string');
+            expect(await loadIgnoredFingerprints(root)).toEqual(['fp1', 'fp2']);
+        });
+    });
 });
@@ -0,0 +1,135 @@
+/**
+ * ReviewEngine 语言服务诊断收集单元测试
+ *
+ * 覆盖：AgentReview 自身发布的诊断（source = AgentReview）不作为外部诊断再次输入审查——
+ * 不传给 AI 作为已知诊断，也不转成 project_rule 问题；其他来源的诊断照常收集。
+ */
+
+import * as path from 'path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockConfigManager } from '../helpers/mockConfigManager';
+import type { ReviewIssue } from '../../types/review';
+
+const { diagnosticsMock } = vi.hoisted(() => ({
+    diagnosticsMock: vi.fn<(uri?: { fsPath: string }) => unknown[]>(() => []),
+}));
+
+vi.mock('vscode', () => {
+    class MockOutputChannel {
+        appendLine(): void {}
+        append(): void {}
+        clear(): void {}
+        show(): void {}
+        hide(): void {}
+        dispose(): void {}
+    }
+    return {
+        window: {
+            createOutputChannel: () => new MockOutputChannel(),
+            showInformationMessage: async () => undefined,
+            showWarningMessage: async () => undefined,
+            showErrorMessage: async () => undefined,
+        },
+        workspace: {
+            workspaceFolders: [],
+            getConfiguration: () => ({
+                get: <T>(_key: string, defaultValue?: T): T | undefined => defaultValue,
+                inspect: () => undefined,
+            }),
+        },
+        languages: { getDiagnostics: diagnosticsMock },
+        DiagnosticSeverity: { Error: 0, Warning: 1, Information: 2, Hint: 3 },
+        Uri: { file: (fsPath: string) => ({ fsPath }) },
+    };
+});
+
+const ruleEngineCheckFilesMock = vi.fn<() => Promise<ReviewIssue[]>>(async () => []);
+const aiReviewerReviewMock = vi.fn<(...args: unknown[]) => Promise<ReviewIssue[]>>(async () => []);
+
+vi.mock('../../core/ruleEngine', () => ({
+    RuleEngine: class {
+        initialize = vi.fn();
+        checkFiles = ruleEngineCheckFilesMock;
+        hasProjectModeRules = () => false;
+    },
+}));
+
+vi.mock('../../ai/aiReviewer', () => ({
+    AIReviewer: class {
+        initialize = vi.fn();
+        review = aiReviewerReviewMock;
+    },
+}));
+
+vi.mock('../../utils/fileScanner', () => ({
+    FileScanner: class {
+        shouldExclude = vi.fn().mockReturnValue(false);
+        readFile = vi.fn(async () => '');
+    },
+}));
+
+import { ReviewEngine } from '../../core/reviewEngine';
+
+const diagnostic = (line: number, message: string, severity: number, source: string, code?: string) => ({
+    range: { start: { line: line - 1, character: 0 }, end: { line: line - 1, character: 10 } },
+    message,
+    severity,
+    source,
+    code,
+});
+
+const createConfigManager = () => createMockConfigManager({
+    rules: { enabled: true, strict_mode: false },
+    ai_review: {
+        enabled: true,
+        api_format: 'openai',
+        api_endpoint: 'https://api.example.com',
+        timeout: 1000,
+        action: 'warning',
+    },
+});
+
+describe('ReviewEngine 诊断收集', () => {
+    beforeEach(() => {
+        diagnosticsMock.mockReset();
+        ruleEngineCheckFilesMock.mockReset();
+        ruleEngineCheckFilesMock.mockResolvedValue([]);
+        aiReviewerReviewMock.mockReset();
+        aiReviewerReviewMock.mockResolvedValue([]);
+    });
+
+    it('AgentReview 自身的诊断不作为已知诊断传给 AI，其他来源照常传入', async () => {
+        diagnosticsMock.mockReturnValue([
+            diagnostic(3, '上次 AI 审查：可能为空', 0, 'AgentReview', 'ai_review'),
+            diagnostic(5, "'a' is defined but never used", 1, 'eslint', 'no-unused-vars'),
+        ]);
+        const reviewEngine = new ReviewEngine(createConfigManager());
+        await reviewEngine.initialize();
+
+        await reviewEngine.review(['src/demo.ts']);
+
+        expect(aiReviewerReviewMock).toHaveBeenCalledTimes(1);
+        const request = aiReviewerReviewMock.mock.calls[0][0] as {
+            diagnosticsByFile?: Map<string, Array<{ line: number; message: string }>>;
+        };
+        expect(request.diagnosticsByFile?.get(path.normalize('src/demo.ts'))).toEqual([
+            expect.objectContaining({ line: 5, message: "'a' is defined but never used" }),
+        ]);
+    });
+
+    it('只有 AgentReview 诊断时不生成 project_rule 问题', async () => {
+        diagnosticsMock.mockReturnValue([
+            diagnostic(3, '上次 AI 审查：可能为空', 0, 'AgentReview', 'ai_review'),
+        ]);
+        const configManager = createConfigManager();
+        vi.spyOn(configManager, 'getRuleSource').mockReturnValue('project');
+        const reviewEngine = new ReviewEngine(configManager);
+        await reviewEngine.initialize();
+
+        const result = await reviewEngine.review(['src/demo.ts']);
+
+        const issues = [...result.errors, ...result.warnings, ...result.info];
+        expect(issues.filter(issue => issue.rule.startsWith('project_rule/'))).toEqual([]);
+        expect(ruleEngineCheckFilesMock).toHaveBeenCalledTimes(1);
+    });
+});
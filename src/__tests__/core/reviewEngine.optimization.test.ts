@@ -5,6 +5,7 @@
  * 1. 早期跳出：blocking 错误时跳过 AI 审查
  * 2. 去重：规则引擎与 AI 审查重复问题合并
  * 3. 并发处理：规则引擎与 AI 审查并发触发
+ * 4. 阻断级密钥问题：不受 skip_on_blocking_errors 控制，始终跳过 AI（不上传）
  *
  * 说明：
  * - 为了聚焦优化逻辑，这里使用 mock 的 RuleEngine 和 AIReviewer
@@ -230,6 +231,40 @@ describe('ReviewEngine 优化逻辑', () => {
         expect(aiReviewerReviewMock).toHaveBeenCalledTimes(1);
     });
 
+    it('阻断级密钥问题即使关闭 skip_on_blocking_errors 也跳过 AI 审查', async () => {
+        const configManager = createMockConfigManager({
+            rules: {
+                enabled: true,
+                strict_mode: false,
+                security: { enabled: true, action: 'block_commit', scan_secrets: true },
+            },
+            ai_review: {
+                enabled: true,
+                api_format: 'openai',
+                api_endpoint: 'https://api.example.com',
+                timeout: 1000,
+                action: 'warning',
+                skip_on_blocking_errors: false,
+            } as any,
+        });
+        ruleEngineCheckFilesMock.mockResolvedValue([{
+            file: 'src/app.ts',
+            line: 1,
+            column: 1,
+            message: '疑似泄露AWS AccessKey: AKIA****MPLE',
+            rule: 'secret_cloud_access_key',
+            severity: 'error',
+        }]);
+
+        const reviewEngine = new ReviewEngine(configManager);
+        await reviewEngine.initialize();
+        const result = await reviewEngine.review(['src/app.ts']);
+
+        expect(aiReviewerReviewMock).not.toHaveBeenCalled();
+        expect(result.passed).toBe(false);
+        expect(result.errors.map(issue => issue.rule)).toEqual(['secret_cloud_access_key']);
+    });
+
     it('AI 审查调用应携带 diagnosticsByFile，用于去重白名单', async () => {
         const configManager = createMockConfigManager({
             rules: {
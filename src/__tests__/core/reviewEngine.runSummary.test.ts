@@ -3,6 +3,12 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 const mocked = vi.hoisted(() => ({
     execAsync: vi.fn(),
     getRunAggregates: vi.fn(),
+    getRulePluginStats: vi.fn(() => [] as unknown[]),
+    getLlmOutputModeStats: vi.fn(() => [] as unknown[]),
+    getCascadeStats: vi.fn(() => null as unknown),
+    getLlmTierStats: vi.fn(() => [] as unknown[]),
+    getVerificationStats: vi.fn(() => null as unknown),
+    getRunPromptTemplate: vi.fn(() => null as unknown),
     getIgnoreStoreCount: vi.fn(),
     formatTimeHms: vi.fn((ms: number) => `t-${ms}`),
     workspaceFolders: undefined as Array<{ name: string }> | undefined,
@@ -28,6 +34,12 @@ vi.mock('../../utils/runtimeTraceLogger', () => ({
     RuntimeTraceLogger: class {
         static getInstance = () => ({
             getRunAggregates: mocked.getRunAggregates,
+            getRulePluginStats: mocked.getRulePluginStats,
+            getLlmOutputModeStats: mocked.getLlmOutputModeStats,
+            getCascadeStats: mocked.getCascadeStats,
+            getLlmTierStats: mocked.getLlmTierStats,
+            getVerificationStats: mocked.getVerificationStats,
+            getRunPromptTemplate: mocked.getRunPromptTemplate,
         });
     },
 }));
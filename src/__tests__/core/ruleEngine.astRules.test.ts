@@ -0,0 +1,151 @@
+/**
+ * RuleEngine 基于 AST 的代码质量规则单元测试
+ *
+ * 覆盖：
+ * 1. no_debugger 不再被字符串与块注释误报；解析失败时回退为按行匹配
+ * 2. no_console（含放行方法）、no_empty_catch、no_floating_promise
+ * 3. Vue：script 块行号映射回源文件，模板 v-html
+ * 4. 有 fileDiff 时仅报告与变更行相交的节点
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RuleEngine } from '../../core/ruleEngine';
+import { createMockConfigManager } from '../helpers/mockConfigManager';
+import type { CodeQualityRuleConfig } from '../../types/config';
+import type { FileDiff } from '../../utils/diffTypes';
+
+const createEngine = (codeQuality: Partial<CodeQualityRuleConfig>): RuleEngine =>
+    new RuleEngine(createMockConfigManager({
+        rules: {
+            enabled: true,
+            strict_mode: false,
+            code_quality: { enabled: true, action: 'block_commit', ...codeQuality },
+        },
+    }));
+
+const summarize = (issues: Array<{ rule: string; line: number; column: number }>) =>
+    issues.map(issue => [issue.rule, issue.line, issue.column]);
+
+describe('RuleEngine AST 规则', () => {
+    it('no_debugger 只报告 debugger 语句，忽略字符串与块注释', async () => {
+        const content = [
+            "const hint = 'remove debugger before commit';",
+            '/*',
+            '  debugger;',
+            '*/',
+            'function run() { debugger; }',
+        ].join('\n');
+
+        const issues = await createEngine({ no_debugger: true }).checkFile('/repo/src/a.ts', content);
+
+        expect(summarize(issues)).toEqual([['no_debugger', 5, 18]]);
+        expect(issues[0].message).toBe('发现 debugger 语句: function run() { debugger; }');
+        expect(issues[0].severity).toBe('error');
+    });
+
+    it('不支持 AST 的文件回退为按行匹配 no_debugger', async () => {
+        const issues = await createEngine({ no_debugger: true }).checkFile('/repo/src/a.py', 'debugger;');
+        expect(summarize(issues)).toEqual([['no_debugger', 1, 1]]);
+    });
+
+    it('no_console 按方法放行', async () => {
+        const content = [
+            "console.log('a');",
+            "console.error('b');",
+            "logger.log('c');",
+        ].join('\n');
+
+        const issues = await createEngine({ no_console: true, no_console_allow: ['error'] }).checkFile('/repo/src/a.ts', content);
+
+        expect(summarize(issues)).toEqual([['no_console', 1, 1]]);
+        expect(issues[0].message).toBe('发现 console 调用: console.log()');
+    });
+
+    it('no_empty_catch 忽略带注释的 catch', async () => {
+        const content = [
+            'try { a(); } catch {}',
+            'try { b(); } catch (e) {',
+            '    // 有意忽略',
+            '}',
+            'try { c(); } catch (e) { report(e); }',
+        ].join('\n');
+
+        const issues = await createEngine({ no_empty_catch: true }).checkFile('/repo/src/a.ts', content);
+
+        expect(summarize(issues)).toEqual([['no_empty_catch', 1, 14]]);
+    });
+
+    it('no_floating_promise 识别同文件 async 调用、未处理的 then 与 Promise 组合器', async () => {
+        const content = [
+            'async function save() {}',
+            'class Panel {',
+            '    refresh = async () => {};',
+            '    run() {',
+            '        save();',
+            '        this.refresh();',
+            '        fetchData().then(render);',
+            '        fetchData().then(render, reportError);',
+            '        fetchData().then(render).catch(reportError);',
+            '        Promise.all([save()]);',
+            '        void save();',
+            '        sync();',
+            '    }',
+            '}',
+        ].join('\n');
+
+        const issues = await createEngine({ no_floating_promise: true }).checkFile('/repo/src/a.ts', content);
+
+        expect(summarize(issues)).toEqual([
+            ['no_floating_promise', 5, 9],
+            ['no_floating_promise', 6, 9],
+            ['no_floating_promise', 7, 9],
+            ['no_floating_promise', 10, 9],
+        ]);
+        expect(issues[2].message).toBe('Promise 未被 await 或处理: fetchData().then()');
+    });
+
+    it('Vue：script 块行号映射回源文件，模板报告 v-html', async () => {
+        const content = [
+            '<template>',
+            '  <div>',
+            '    <p v-html="html"></p>',
+            '  </div>',
+            '</template>',
+            '<script setup lang="ts">',
+            "console.log('x');",
+            '</script>',
+        ].join('\n');
+
+        const issues = await createEngine({ no_console: true, no_v_html: true }).checkFile('/repo/src/App.vue', content);
+
+        expect(summarize(issues)).toEqual([
+            ['no_v_html', 3, 8],
+            ['no_console', 7, 1],
+        ]);
+    });
+
+    it('有 fileDiff 时仅报告与变更行相交的节点', async () => {
+        const content = [
+            'function a() {',
+            "    console.log('old');",
+            '    try {',
+            '        a();',
+            '    } catch (e) {',
+            '    }',
+            "    console.log('new');",
+            '}',
+        ].join('\n');
+        const fileDiff: FileDiff = {
+            path: '/repo/src/a.ts',
+            hunks: [{ newStart: 5, newCount: 3, lines: ['    } catch (e) {', '    }', "    console.log('new');"] }],
+        };
+
+        const issues = await createEngine({ no_console: true, no_empty_catch: true })
+            .checkFile('/repo/src/a.ts', content, fileDiff);
+
+        expect(summarize(issues)).toEqual([
+            ['no_empty_catch', 5, 7],
+            ['no_console', 7, 5],
+        ]);
+    });
+});
@@ -0,0 +1,86 @@
+/**
+ * RuleEngine 业务逻辑规则组（模块引用约束）单元测试
+ *
+ * 覆盖：
+ * 1. 分层边界：相对引用解析后匹配 disallow；别名按原始模块名匹配；from 不匹配的文件不受约束
+ * 2. 禁止引用（含子路径）与弃用引用（固定 warning，给出替代模块）
+ * 3. 有 fileDiff 时仅检查变更行新增的 import
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RuleEngine } from '../../core/ruleEngine';
+import { createMockConfigManager } from '../helpers/mockConfigManager';
+import type { BusinessLogicRuleConfig } from '../../types/config';
+
+const createEngine = (businessLogic: Partial<BusinessLogicRuleConfig>): RuleEngine =>
+    new RuleEngine(createMockConfigManager({
+        rules: {
+            enabled: true,
+            strict_mode: false,
+            code_quality: { enabled: false, action: 'warning' },
+            business_logic: { enabled: true, action: 'block_commit', ...businessLogic },
+        },
+    }));
+
+const boundaryConfig: Partial<BusinessLogicRuleConfig> = {
+    layer_boundaries: [{ from: 'src/ui/**', disallow: ['src/core/internal/**', '@/core/internal/**'] }],
+};
+
+describe('RuleEngine 模块引用约束', () => {
+    it('UI 层引用 core/internal 时报告分层越界', async () => {
+        const content = [
+            "import { helper } from '../core/internal/helper';",
+            "import { api } from '@/core/internal/api';",
+            "import { ReviewEngine } from '../core/reviewEngine';",
+        ].join('\n');
+
+        const issues = await createEngine(boundaryConfig).checkFile('/repo/src/ui/panel.ts', content);
+
+        expect(issues.map(issue => [issue.rule, issue.line, issue.column, issue.severity])).toEqual([
+            ['import_layer_boundary', 1, 1, 'error'],
+            ['import_layer_boundary', 2, 1, 'error'],
+        ]);
+        expect(issues[0].message).toBe(
+            '分层越界: src/ui/** 不可引用 src/core/internal/**, @/core/internal/**（引用了 ../core/internal/helper）'
+        );
+    });
+
+    it('from 不匹配的文件不受边界约束', async () => {
+        const content = "import { helper } from './internal/helper';";
+        expect(await createEngine(boundaryConfig).checkFile('/repo/src/core/engine.ts', content)).toEqual([]);
+    });
+
+    it('禁止与弃用模块引用', async () => {
+        const content = [
+            "import zh from 'moment/locale/zh-cn';",
+            "const request = require('request');",
+            "import dayjs from 'dayjs';",
+        ].join('\n');
+
+        const issues = await createEngine({
+            forbidden_imports: [{ module: 'moment', message: '请使用 dayjs' }],
+            deprecated_imports: [{ module: 'request', replacement: 'axios' }],
+        }).checkFile('/repo/src/util.ts', content);
+
+        expect(issues.map(issue => [issue.rule, issue.line, issue.severity, issue.message])).toEqual([
+            ['import_forbidden', 1, 'error', '请使用 dayjs'],
+            ['import_deprecated', 2, 'warning', '模块已弃用: request，请改用 axios'],
+        ]);
+    });
+
+    it('有 fileDiff 时仅检查变更行新增的 import', async () => {
+        const filePath = '/repo/src/ui/panel.ts';
+        const content = [
+            "import { a } from '../core/internal/a';",
+            "import { b } from '../core/internal/b';",
+        ].join('\n');
+
+        const issues = await createEngine(boundaryConfig).checkFile(filePath, content, {
+            path: filePath,
+            hunks: [{ newStart: 2, newCount: 1, lines: ["import { b } from '../core/internal/b';"] }],
+            formatOnly: false,
+        });
+
+        expect(issues.map(issue => issue.line)).toEqual([2]);
+    });
+});
@@ -0,0 +1,140 @@
+/**
+ * RuleEngine 本地 JS 规则插件单元测试
+ *
+ * 覆盖：
+ * 1. 从 .agentreview/rules 加载插件，问题 rule 为 plugin/<id>，严重程度由 action 决定
+ * 2. 未开启、未传工作区根或未信任工作区时不执行插件
+ * 3. 插件文件加载失败、规则抛错或超时不影响其它规则，且计入失败统计
+ * 4. 插件在 Worker 中执行：同步死循环按超时终止，宿主线程不加载插件代码
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { RuleEngine } from '../../core/ruleEngine';
+import { RulePluginSession, type RulePluginTiming } from '../../core/ruleEngine.plugins';
+import { Logger } from '../../utils/logger';
+import { createMockConfigManager } from '../helpers/mockConfigManager';
+import type { RulePluginsConfig } from '../../types/config';
+import type { FileDiff } from '../../utils/diffTypes';
+
+const createEngine = (plugins: RulePluginsConfig): RuleEngine =>
+    new RuleEngine(createMockConfigManager({
+        rules: {
+            enabled: true,
+            strict_mode: false,
+            code_quality: { enabled: false, action: 'warning' },
+            plugins,
+        },
+    }));
+
+const AUTHORIZE_PLUGIN = `
+module.exports = {
+    rules: [{
+        id: 'require-authorize',
+        check: ({ content, changedLines }) => content.split('\\n')
+            .map((text, index) => ({ text, line: index + 1 }))
+            .filter(item => item.text.includes('export const handler') && (!changedLines || changedLines.has(item.line)))
+            .map(item => ({ line: item.line, message: 'handler 未调用 authorize()' })),
+    }],
+};
+`;
+
+describe('RuleEngine 规则插件', () => {
+    let workspaceRoot: string;
+    let sourceFile: string;
+
+    beforeEach(async () => {
+        workspaceRoot = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'agentreview-plugins-'));
+        await fs.promises.mkdir(path.join(workspaceRoot, '.agentreview', 'rules'), { recursive: true });
+        await fs.promises.writeFile(path.join(workspaceRoot, '.agentreview', 'rules', 'authorize.js'), AUTHORIZE_PLUGIN);
+        sourceFile = path.join(workspaceRoot, 'api.ts');
+        await fs.promises.writeFile(sourceFile, 'import { db } from "./db";\nexport const handler = () => db.query();\n');
+    });
+
+    afterEach(async () => {
+        await fs.promises.rm(workspaceRoot, { recursive: true, force: true });
+    });
+
+    it('加载插件规则，rule 为 plugin/<id>，严重程度由 action 决定', async () => {
+        const issues = await createEngine({
+            enabled: true,
+            rules: { 'require-authorize': { action: 'block_commit' } },
+        }).checkFiles([sourceFile], null, null, { workspaceRoot });
+
+        expect(issues).toEqual([{
+            file: sourceFile,
+            line: 2,
+            column: 1,
+            message: 'handler 未调用 authorize()',
+            reason: undefined,
+            rule: 'plugin/require-authorize',
+            severity: 'error',
+        }]);
+    });
+
+    it('有 fileDiff 时插件收到变更行号', async () => {
+        const fileDiff: FileDiff = { path: sourceFile, hunks: [{ newStart: 1, newCount: 1, lines: ['import { db } from "./db";'] }] };
+        const issues = await createEngine({ enabled: true })
+            .checkFiles([sourceFile], new Map([[sourceFile, fileDiff]]), null, { workspaceRoot });
+        expect(issues).toEqual([]);
+    });
+
+    it('未开启、未传工作区根或未信任工作区时不执行插件', async () => {
+        expect(await createEngine({ enabled: false }).checkFiles([sourceFile], null, null, { workspaceRoot })).toEqual([]);
+        expect(await createEngine({ enabled: true }).checkFiles([sourceFile])).toEqual([]);
+        expect(await createEngine({ enabled: true })
+            .checkFiles([sourceFile], null, null, { workspaceRoot, allowPlugins: false })).toEqual([]);
+    });
+
+    it('插件文件加载失败或单条规则禁用时其余规则照常执行', async () => {
+        await fs.promises.writeFile(path.join(workspaceRoot, '.agentreview', 'rules', 'broken.js'), 'module.exports = {;');
+        await fs.promises.writeFile(
+            path.join(workspaceRoot, '.agentreview', 'rules', 'todo.js'),
+            "module.exports = [{ id: 'no-db', check: () => [{ line: 1, message: 'x' }] }];"
+        );
+
+        const issues = await createEngine({ enabled: true, rules: { 'no-db': { enabled: false } } })
+            .checkFiles([sourceFile], null, null, { workspaceRoot });
+
+        expect(issues.map(issue => [issue.rule, issue.severity])).toEqual([['plugin/require-authorize', 'warning']]);
+    });
+
+    it('规则抛错、超时或同步死循环只记失败，超时规则本次不再执行，不影响其它规则', async () => {
+        const pluginDir = path.join(workspaceRoot, 'isolated-rules');
+        await fs.promises.mkdir(pluginDir);
+        await fs.promises.writeFile(path.join(pluginDir, 'rules.js'), `
+globalThis.__agentReviewPluginLoaded = true;
+module.exports = [
+    { id: 'throws', check: () => { throw new Error('boom'); } },
+    { id: 'hangs', check: () => new Promise(() => undefined) },
+    { id: 'loops', check: () => { for (;;) {} } },
+    { id: 'ok', check: ({ ast }) => [{ line: 1, message: ast ? 'ok' : 'no-ast', column: 3 }, { line: 0, message: 'invalid' }] },
+];
+`);
+        const timings: RulePluginTiming[] = [];
+        const session = new RulePluginSession(pluginDir, { enabled: true, timeout_ms: 300 }, new Logger('test'));
+
+        try {
+            const input = { filePath: 'a.ts', content: 'const a = 1;', fileDiff: null };
+            const first = await session.run(input, timing => timings.push(timing));
+            const second = await session.run(input, timing => timings.push(timing));
+
+            expect(first.map(issue => [issue.rule, issue.line, issue.column, issue.message])).toEqual([['plugin/ok', 1, 3, 'ok']]);
+            expect(second).toEqual(first);
+        } finally {
+            await session.dispose();
+        }
+
+        expect(timings.map(timing => [timing.ruleId, timing.failed, timing.issueCount])).toEqual([
+            ['throws', true, 0],
+            ['hangs', true, 0],
+            ['loops', true, 0],
+            ['ok', false, 1],
+            ['throws', true, 0],
+            ['ok', false, 1],
+        ]);
+        expect((globalThis as { __agentReviewPluginLoaded?: boolean }).__agentReviewPluginLoaded).toBeUndefined();
+    });
+});
@@ -8,6 +8,7 @@
  * - 3.4: 规则禁用
  * - 3.5: 多个文件批量检查
  * - 6.5: 大文件与二进制文件跳过
+ * - 3.6: 自定义正则规则（反向模式、文件 glob、消息模板、仅变更行、无效配置跳过）
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
@@ -269,6 +270,77 @@ describe('RuleEngine', () => {
         });
     });
 
+    describe('测试用例 3.6: 自定义正则规则', () => {
+        const createCustomRulesConfig = (customRules: unknown[]) => createMockConfigManager({
+            rules: {
+                enabled: true,
+                strict_mode: false,
+                code_quality: { enabled: false, action: 'warning' },
+                custom_rules: customRules as any,
+            },
+        });
+
+        it('按消息模板报告命中，反向模式命中的行不报告', async () => {
+            ruleEngine = new RuleEngine(createCustomRulesConfig([{
+                id: 'no_fetch_http',
+                pattern: 'fetch\\([\'"](http://[^\'"]+)',
+                negative_pattern: 'localhost',
+                message: '{file} 使用了明文地址 {1}',
+                action: 'block_commit',
+            }]));
+            const filePath = tempFs.getPath('api.ts');
+            const content = [
+                "fetch('http://example.com/a');",
+                "fetch('http://localhost:3000/b');",
+                "fetch('https://example.com/c');",
+            ].join('\n');
+
+            const issues = await ruleEngine.checkFile(filePath, content);
+
+            expect(issues).toEqual([{
+                file: filePath,
+                line: 1,
+                column: 1,
+                message: 'api.ts 使用了明文地址 http://example.com/a',
+                rule: 'no_fetch_http',
+                severity: 'error',
+            }]);
+        });
+
+        it('仅对 files glob 匹配的文件生效，有 fileDiff 时仅扫描变更行', async () => {
+            ruleEngine = new RuleEngine(createCustomRulesConfig([
+                { id: 'no_any', pattern: ':\\s*any\\b', files: ['src/**/*.ts'], action: 'warning' },
+            ]));
+            const content = 'let a: any;\nlet b: any;\n';
+            const srcFile = tempFs.getPath('src/a.ts');
+
+            expect(await ruleEngine.checkFile(tempFs.getPath('scripts/a.ts'), content)).toEqual([]);
+            const issues = await ruleEngine.checkFile(srcFile, content, {
+                path: srcFile,
+                hunks: [{ newStart: 2, newCount: 1, lines: ['let b: any;'] }],
+                formatOnly: false,
+            });
+            expect(issues.map(i => [i.rule, i.line, i.severity, i.message])).toEqual([
+                ['no_any', 2, 'warning', '违反自定义规则 no_any: let b: any;'],
+            ]);
+        });
+
+        it('缺少 id、与内置规则重名、重复或正则无效的规则被跳过', async () => {
+            ruleEngine = new RuleEngine(createCustomRulesConfig([
+                { pattern: 'x', action: 'warning' },
+                { id: 'no_todo', pattern: 'x', action: 'warning' },
+                { id: 'bad_regex', pattern: '(', action: 'warning' },
+                { id: 'disabled', pattern: 'x', action: 'warning', enabled: false },
+                { id: 'has_x', pattern: 'x', action: 'log' },
+                { id: 'has_x', pattern: 'y', action: 'block_commit' },
+            ]));
+
+            const issues = await ruleEngine.checkFile(tempFs.getPath('a.ts'), 'x y\n');
+
+            expect(issues.map(i => [i.rule, i.severity])).toEqual([['has_x', 'info']]);
+        });
+    });
+
     describe('测试用例 6.5: 大文件与二进制文件跳过', () => {
         it('应该跳过超过大小限制的文件', async () => {
             const configManager = createMockConfigManager();
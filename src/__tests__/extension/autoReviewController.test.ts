@@ -157,8 +157,10 @@ vi.mock('vscode', () => {
         Location,
         ProgressLocation: { Notification: 1 },
         DiagnosticSeverity: { Error: 0, Warning: 1, Information: 2, Hint: 3 },
+        CodeActionKind: { QuickFix: 'quickfix' },
         languages: {
             getDiagnostics: () => [],
+            registerCodeActionsProvider: () => ({ dispose: () => {} }),
         },
     };
 });
@@ -0,0 +1,133 @@
+/**
+ * gitHookInstaller 单元测试
+ *
+ * 在临时目录中 git init 真实仓库，验证：
+ * 1. 新装/更新 hook 的状态与脚本内容
+ * 2. 已存在第三方 hook 时不覆盖，允许覆盖时备份并链式执行
+ * 3. 卸载只删除带标记的 hook，并还原备份
+ * 4. 找不到运行器时 hook 阻止提交；插件更新后 refreshPreCommitHook 改写运行器路径
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execSync, spawnSync } from 'child_process';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+    AGENTREVIEW_HOOK_MARKER,
+    PRE_COMMIT_BACKUP_NAME,
+    buildPreCommitHookScript,
+    installPreCommitHook,
+    refreshPreCommitHook,
+    uninstallPreCommitHook,
+} from '../../hooks/gitHookInstaller';
+
+describe('gitHookInstaller', () => {
+    let gitRoot: string;
+    let hooksDir: string;
+    const runnerPath = '/ext/out/hooks/preCommitRunner.js';
+    // 运行环境可能通过 GIT_CONFIG_* 注入 core.hooksPath，测试期间屏蔽以使用仓库默认 hooks 目录
+    const savedGitConfigEnv: Record<string, string | undefined> = {};
+
+    beforeEach(async () => {
+        for (const key of Object.keys(process.env).filter(name => name.startsWith('GIT_CONFIG_'))) {
+            savedGitConfigEnv[key] = process.env[key];
+            delete process.env[key];
+        }
+        gitRoot = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'agentreview-hook-'));
+        execSync('git init -q', { cwd: gitRoot });
+        hooksDir = path.join(gitRoot, '.git', 'hooks');
+    });
+
+    afterEach(async () => {
+        Object.assign(process.env, savedGitConfigEnv);
+        await fs.promises.rm(gitRoot, { recursive: true, force: true });
+    });
+
+    it('脚本应包含标记、运行器路径与 workspace-root 参数', () => {
+        const script = buildPreCommitHookScript("C:\\Users\\o'neil\\ext\\preCommitRunner.js");
+        expect(script.startsWith('#!/bin/sh\n')).toBe(true);
+        expect(script).toContain(AGENTREVIEW_HOOK_MARKER);
+        expect(script).toContain("AGENTREVIEW_RUNNER='C:/Users/o'\\''neil/ext/preCommitRunner.js'");
+        expect(script).toContain('--workspace-root "$(git rev-parse --show-toplevel)"');
+    });
+
+    it('首次安装返回 installed，再次安装返回 updated', async () => {
+        const first = await installPreCommitHook({ gitRoot, runnerPath });
+        expect(first.status).toBe('installed');
+        expect(first.hookPath).toBe(path.join(hooksDir, 'pre-commit'));
+        const content = await fs.promises.readFile(first.hookPath, 'utf8');
+        expect(content).toContain(runnerPath);
+        if (process.platform !== 'win32') {
+            expect((await fs.promises.stat(first.hookPath)).mode & 0o111).not.toBe(0);
+        }
+
+        const second = await installPreCommitHook({ gitRoot, runnerPath });
+        expect(second.status).toBe('updated');
+    });
+
+    it('存在第三方 hook 时默认不覆盖，允许覆盖后备份原 hook', async () => {
+        const hookPath = path.join(hooksDir, 'pre-commit');
+        await fs.promises.mkdir(hooksDir, { recursive: true });
+        await fs.promises.writeFile(hookPath, '#!/bin/sh\necho lint\n', 'utf8');
+
+        const refused = await installPreCommitHook({ gitRoot, runnerPath });
+        expect(refused.status).toBe('foreign_hook_exists');
+        expect(await fs.promises.readFile(hookPath, 'utf8')).toBe('#!/bin/sh\necho lint\n');
+
+        const forced = await installPreCommitHook({ gitRoot, runnerPath, overwriteExisting: true });
+        expect(forced.status).toBe('installed');
+        expect(forced.backupPath).toBe(path.join(hooksDir, PRE_COMMIT_BACKUP_NAME));
+        expect(await fs.promises.readFile(forced.backupPath!, 'utf8')).toBe('#!/bin/sh\necho lint\n');
+
+        const removed = await uninstallPreCommitHook(gitRoot);
+        expect(removed).toMatchObject({ status: 'removed', restoredBackup: true });
+        expect(await fs.promises.readFile(hookPath, 'utf8')).toBe('#!/bin/sh\necho lint\n');
+        expect(fs.existsSync(forced.backupPath!)).toBe(false);
+    });
+
+    it('卸载时不删除第三方 hook，未安装时返回 not_installed', async () => {
+        expect((await uninstallPreCommitHook(gitRoot)).status).toBe('not_installed');
+
+        const hookPath = path.join(hooksDir, 'pre-commit');
+        await fs.promises.mkdir(hooksDir, { recursive: true });
+        await fs.promises.writeFile(hookPath, '#!/bin/sh\nexit 0\n', 'utf8');
+        expect((await uninstallPreCommitHook(gitRoot)).status).toBe('foreign_hook');
+        expect(fs.existsSync(hookPath)).toBe(true);
+    });
+
+    it('应尊重 core.hooksPath', async () => {
+        execSync('git config core.hooksPath .githooks', { cwd: gitRoot });
+        const result = await installPreCommitHook({ gitRoot, runnerPath });
+        expect(result.hookPath).toBe(path.join(gitRoot, '.githooks', 'pre-commit'));
+        expect(fs.existsSync(result.hookPath)).toBe(true);
+    });
+
+    it('找不到运行器时阻止提交并提示重新安装或跳过', async () => {
+        if (process.platform === 'win32') return;
+        const { hookPath } = await installPreCommitHook({ gitRoot, runnerPath: path.join(gitRoot, 'missing', 'preCommitRunner.js') });
+
+        const blocked = spawnSync('sh', [hookPath], { cwd: gitRoot, encoding: 'utf8' });
+        expect(blocked.status).toBe(1);
+        expect(blocked.stderr).toContain('未找到审查运行器');
+        expect(blocked.stderr).toContain('--no-verify');
+
+        const skipped = spawnSync('sh', [hookPath], { cwd: gitRoot, encoding: 'utf8', env: { ...process.env, AGENTREVIEW_SKIP_HOOK: '1' } });
+        expect(skipped.status).toBe(0);
+    });
+
+    it('插件更新后改写已安装 hook 的运行器路径，不改动第三方 hook', async () => {
+        const oldRunner = '/ext/agentreview-1.0.0/out/hooks/preCommitRunner.js';
+        const newRunner = '/ext/agentreview-1.1.0/out/hooks/preCommitRunner.js';
+        expect(await refreshPreCommitHook({ gitRoot, runnerPath: newRunner })).toBe(false);
+
+        const { hookPath } = await installPreCommitHook({ gitRoot, runnerPath: oldRunner });
+        expect(await refreshPreCommitHook({ gitRoot, runnerPath: newRunner })).toBe(true);
+        expect(await fs.promises.readFile(hookPath, 'utf8')).toBe(buildPreCommitHookScript(newRunner));
+        expect(await refreshPreCommitHook({ gitRoot, runnerPath: newRunner })).toBe(false);
+
+        await fs.promises.writeFile(hookPath, '#!/bin/sh\necho lint\n', 'utf8');
+        expect(await refreshPreCommitHook({ gitRoot, runnerPath: newRunner })).toBe(false);
+        expect(await fs.promises.readFile(hookPath, 'utf8')).toBe('#!/bin/sh\necho lint\n');
+    });
+});
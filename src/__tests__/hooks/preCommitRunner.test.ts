@@ -0,0 +1,64 @@
+/**
+ * preCommitRunner 单元测试
+ *
+ * 验证参数解析，以及 ReviewResult.passed 到退出码的映射。
+ */
+
+import * as path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+import {
+    PRE_COMMIT_EXIT_BLOCKED,
+    PRE_COMMIT_EXIT_PASSED,
+    parsePreCommitArgs,
+    runPreCommitReview,
+} from '../../hooks/preCommitRunner';
+import type { ReviewIssue, ReviewResult } from '../../types/review';
+
+const root = path.resolve('/repo');
+
+const createIssue = (overrides: Partial<ReviewIssue> = {}): ReviewIssue => ({
+    file: path.join(root, 'src', 'a.ts'),
+    line: 3,
+    column: 1,
+    message: '发现 debugger 语句',
+    rule: 'no_debugger',
+    severity: 'error',
+    ...overrides,
+});
+
+const createEngine = (result: ReviewResult, stagedFiles: string[]) => ({
+    reviewStagedFilesWithContext: vi.fn(async () => ({ result, stagedFiles })),
+});
+
+describe('preCommitRunner', () => {
+    it('parsePreCommitArgs 支持两种 workspace-root 写法与 verbose', () => {
+        expect(parsePreCommitArgs([], root)).toEqual({ workspaceRoot: root, verbose: false });
+        expect(parsePreCommitArgs(['--workspace-root', 'sub', '--verbose'], root)).toEqual({
+            workspaceRoot: path.join(root, 'sub'),
+            verbose: true,
+        });
+        expect(parsePreCommitArgs(['--workspace-root=/other'], root).workspaceRoot).toBe(path.resolve('/other'));
+    });
+
+    it('passed=false 时返回阻止提交的退出码', async () => {
+        const engine = createEngine({ passed: false, errors: [createIssue()], warnings: [], info: [] }, ['a.ts']);
+        const write = vi.fn();
+        const code = await runPreCommitReview(engine, root, write);
+        expect(code).toBe(PRE_COMMIT_EXIT_BLOCKED);
+        expect(engine.reviewStagedFilesWithContext).toHaveBeenCalledWith({ workspaceRoot: root });
+        expect(write.mock.calls.map(call => call[0]).join('\n')).toContain('审查未通过');
+    });
+
+    it('passed=true 或无 staged 文件时返回 0', async () => {
+        const passedEngine = createEngine(
+            { passed: true, errors: [], warnings: [createIssue({ severity: 'warning' })], info: [] },
+            ['a.ts']
+        );
+        expect(await runPreCommitReview(passedEngine, root, vi.fn())).toBe(PRE_COMMIT_EXIT_PASSED);
+
+        const emptyEngine = createEngine({ passed: true, errors: [], warnings: [], info: [] }, []);
+        const write = vi.fn();
+        expect(await runPreCommitReview(emptyEngine, root, write)).toBe(PRE_COMMIT_EXIT_PASSED);
+        expect(write).not.toHaveBeenCalled();
+    });
+});
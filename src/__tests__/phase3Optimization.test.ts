@@ -90,6 +90,21 @@ vi.mock('vscode', () => {
         }
     }
 
+    class Diagnostic {
+        public source?: string;
+        public code?: string;
+        public relatedInformation?: unknown[];
+        constructor(public range: Range, public message: string, public severity?: number) {}
+    }
+
+    class DiagnosticRelatedInformation {
+        constructor(public location: unknown, public message: string) {}
+    }
+
+    class Location {
+        constructor(public uri: unknown, public range: unknown) {}
+    }
+
     class Selection {
         constructor(public start: Position, public end: Position) {}
     }
@@ -241,7 +256,13 @@ vi.mock('vscode', () => {
     const languages = {
         registerCodeLensProvider: () => ({ dispose: () => {} }),
         registerHoverProvider: () => ({ dispose: () => {} }),
-        getDiagnostics: () => []
+        getDiagnostics: () => [],
+        registerCodeActionsProvider: () => ({ dispose: () => {} }),
+        createDiagnosticCollection: () => ({
+            set: () => {},
+            clear: () => {},
+            dispose: () => {}
+        })
     };
 
     const ProgressLocation = {
@@ -254,6 +275,9 @@ vi.mock('vscode', () => {
         ThemeColor,
         Position,
         Range,
+        Diagnostic,
+        DiagnosticRelatedInformation,
+        Location,
         Selection,
         WorkspaceEdit,
         EventEmitter,
@@ -266,6 +290,9 @@ vi.mock('vscode', () => {
         commands,
         languages,
         ProgressLocation,
+        CodeActionKind: {
+            QuickFix: 'quickfix'
+        },
         DiagnosticSeverity: {
             Error: 0,
             Warning: 1,
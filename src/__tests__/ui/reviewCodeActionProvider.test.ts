@@ -0,0 +1,107 @@
+/**
+ * ReviewCodeActionProvider 单元测试
+ *
+ * 覆盖：只为选区行上的问题提供快速修复；同一行多个问题各自一组动作且参数指向对应问题；
+ * error 不提供忽略、已放行不再提供放行；带修改建议时首选「应用修改建议」；关联同规则同行的 AgentReview 诊断。
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('vscode', () => {
+    class CodeAction {
+        public command?: { command: string; title: string; arguments?: unknown[] };
+        public diagnostics?: unknown[];
+        public isPreferred?: boolean;
+        constructor(public title: string, public kind: string) {}
+    }
+    return {
+        CodeAction,
+        CodeActionKind: { QuickFix: 'quickfix' },
+    };
+});
+
+import { ReviewCodeActionProvider } from '../../ui/reviewCodeActionProvider';
+import type { ReviewIssue, ReviewResult } from '../../types/review';
+
+const filePath = '/repo/src/a.ts';
+
+const createIssue = (overrides: Partial<ReviewIssue> = {}): ReviewIssue => ({
+    file: filePath,
+    line: 3,
+    column: 1,
+    message: '发现 TODO 注释',
+    rule: 'no_todo',
+    severity: 'warning',
+    ...overrides,
+});
+
+const document = { uri: { fsPath: filePath } } as any;
+const rangeAt = (line0: number) => ({ start: { line: line0 }, end: { line: line0 } }) as any;
+
+describe('ReviewCodeActionProvider', () => {
+    it('同一行多个问题各自提供动作，参数为对应问题', () => {
+        const todo = createIssue();
+        const debuggerIssue = createIssue({ rule: 'no_debugger', severity: 'error', message: '发现 debugger' });
+        const result: ReviewResult = {
+            passed: false,
+            errors: [debuggerIssue],
+            warnings: [todo, createIssue({ line: 8 })],
+            info: [],
+        };
+        const provider = new ReviewCodeActionProvider(() => result);
+        const actions = provider.provideCodeActions(document, rangeAt(2), { diagnostics: [] } as any);
+
+        const summary = actions.map(action => [action.command?.command, (action.command?.arguments?.[0] as any).issue]);
+        expect(summary).toEqual([
+            ['agentreview.fixIssue', debuggerIssue],
+            ['agentreview.allowIssueIgnore', debuggerIssue],
+            ['agentreview.explainIssue', debuggerIssue],
+            ['agentreview.fixIssue', todo],
+            ['agentreview.allowIssueIgnore', todo],
+            ['agentreview.ignoreIssue', todo],
+            ['agentreview.explainIssue', todo],
+        ]);
+        expect(actions[3].title).toBe('AgentReview: AI 修复 [no_todo] 发现 TODO 注释');
+        expect(actions.every(action => (action.kind as unknown) === 'quickfix')).toBe(true);
+    });
+
+    it('其它文件、其它行或无结果时不提供动作，已放行问题不再提供放行', () => {
+        const ignored = createIssue({ ignored: true });
+        const provider = new ReviewCodeActionProvider(() => ({
+            passed: true,
+            errors: [],
+            warnings: [ignored, createIssue({ file: '/repo/src/b.ts' })],
+            info: [],
+        }));
+        expect(provider.provideCodeActions(document, rangeAt(0), { diagnostics: [] } as any)).toEqual([]);
+        const commands = provider
+            .provideCodeActions(document, rangeAt(2), { diagnostics: [] } as any)
+            .map(action => action.command?.command);
+        expect(commands).toEqual(['agentreview.fixIssue', 'agentreview.ignoreIssue', 'agentreview.explainIssue']);
+        expect(new ReviewCodeActionProvider(() => null).provideCodeActions(document, rangeAt(2), { diagnostics: [] } as any))
+            .toEqual([]);
+    });
+
+    it('带修改建议的问题首选应用修改建议', () => {
+        const issue = createIssue({ suggestion: { startLine: 3, endLine: 3, original: '// TODO', replacement: '' } });
+        const provider = new ReviewCodeActionProvider(() => ({ passed: true, errors: [], warnings: [issue], info: [] }));
+        const actions = provider.provideCodeActions(document, rangeAt(2), { diagnostics: [] } as any);
+        expect(actions.map(action => action.command?.command)).toEqual([
+            'agentreview.applySuggestion',
+            'agentreview.fixIssue',
+            'agentreview.allowIssueIgnore',
+            'agentreview.ignoreIssue',
+            'agentreview.explainIssue',
+        ]);
+        expect(actions[0].isPreferred).toBe(true);
+        expect(actions.slice(1).some(action => action.isPreferred)).toBe(false);
+    });
+
+    it('关联同规则同行的 AgentReview 诊断', () => {
+        const diagnostic = { source: 'AgentReview', code: 'no_todo', range: { start: { line: 2 } } };
+        const otherSource = { source: 'eslint', code: 'no_todo', range: { start: { line: 2 } } };
+        const provider = new ReviewCodeActionProvider(() => ({ passed: true, errors: [], warnings: [createIssue()], info: [] }));
+        const [action] = provider.provideCodeActions(document, rangeAt(2), { diagnostics: [diagnostic, otherSource] } as any);
+        expect(action.diagnostics).toEqual([diagnostic]);
+    });
+});
@@ -0,0 +1,132 @@
+/**
+ * reviewDiagnostics 单元测试
+ *
+ * 验证审查问题到 VSCode 诊断的映射：严重程度、规则 code、stale/放行状态、关联上下文，
+ * 以及 ReviewDiagnostics 按结果整体替换诊断集合。
+ */
+
+import * as path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+
+const { collection } = vi.hoisted(() => ({
+    collection: {
+        set: vi.fn(),
+        clear: vi.fn(),
+        dispose: vi.fn(),
+    },
+}));
+
+vi.mock('vscode', () => {
+    class Range {
+        constructor(
+            public startLine: number,
+            public startCharacter: number,
+            public endLine: number,
+            public endCharacter: number
+        ) {}
+    }
+    class Diagnostic {
+        public source?: string;
+        public code?: string;
+        public relatedInformation?: unknown[];
+        constructor(public range: Range, public message: string, public severity: number) {}
+    }
+    class DiagnosticRelatedInformation {
+        constructor(public location: { uri: { fsPath: string }; range: Range }, public message: string) {}
+    }
+    class Location {
+        constructor(public uri: { fsPath: string }, public range: Range) {}
+    }
+    return {
+        Range,
+        Diagnostic,
+        DiagnosticRelatedInformation,
+        Location,
+        DiagnosticSeverity: { Error: 0, Warning: 1, Information: 2, Hint: 3 },
+        Uri: { file: (fsPath: string) => ({ fsPath }) },
+        languages: { createDiagnosticCollection: () => collection },
+    };
+});
+
+import { buildDiagnosticsByFile, buildIssueDiagnostic, ReviewDiagnostics } from '../../ui/reviewDiagnostics';
+import type { ReviewIssue, ReviewResult } from '../../types/review';
+
+const root = path.resolve('/repo');
+const filePath = path.join(root, 'src', 'a.vue');
+
+const createIssue = (overrides: Partial<ReviewIssue> = {}): ReviewIssue => ({
+    file: filePath,
+    line: 12,
+    column: 5,
+    message: '发现 TODO 注释',
+    rule: 'no_todo',
+    severity: 'warning',
+    ...overrides,
+});
+
+describe('reviewDiagnostics', () => {
+    it('映射位置、严重程度、规则 code 与来源', () => {
+        const diagnostic = buildIssueDiagnostic(createIssue({ severity: 'error' })) as any;
+        expect(diagnostic.range).toMatchObject({ startLine: 11, startCharacter: 4, endLine: 11 });
+        expect(diagnostic.severity).toBe(0);
+        expect(diagnostic.code).toBe('no_todo');
+        expect(diagnostic.source).toBe('AgentReview');
+        expect(diagnostic.relatedInformation).toBeUndefined();
+    });
+
+    it('stale 追加待复审标记，已放行降为 Hint', () => {
+        const stale = buildIssueDiagnostic(createIssue({ stale: true })) as any;
+        expect(stale.message).toBe('发现 TODO 注释（位置已同步，待复审）');
+        expect(stale.severity).toBe(1);
+
+        const ignored = buildIssueDiagnostic(createIssue({ ignored: true })) as any;
+        expect(ignored.message).toBe('[已放行] 发现 TODO 注释');
+        expect(ignored.severity).toBe(3);
+    });
+
+    it('contextLineRefs 映射为 relatedInformation', () => {
+        const diagnostic = buildIssueDiagnostic(createIssue({
+            contextLineRefs: {
+                definitions: [{ file: path.join(root, 'src', 'b.ts'), line: 3 }],
+                usages: [{ file: path.join(root, 'src', 'c.ts'), line: 8 }],
+                vueRelatedBlock: { script: [20, 40] },
+            },
+        })) as any;
+        expect(diagnostic.relatedInformation.map((info: any) => [
+            info.location.uri.fsPath,
+            info.location.range.startLine,
+            info.message,
+        ])).toEqual([
+            [path.join(root, 'src', 'b.ts'), 2, '依赖定义'],
+            [path.join(root, 'src', 'c.ts'), 7, '调用方'],
+            [filePath, 19, '同一 SFC 的 script 块'],
+        ]);
+    });
+
+    it('按文件分组，相对路径按 workspaceRoot 解析', () => {
+        const result: ReviewResult = {
+            passed: false,
+            errors: [createIssue({ severity: 'error' })],
+            warnings: [createIssue({ line: 3 })],
+            info: [createIssue({ file: 'src/b.ts', workspaceRoot: root, severity: 'info' })],
+        };
+        const byFile = buildDiagnosticsByFile(result);
+        expect([...byFile.keys()]).toEqual([filePath, path.join(root, 'src', 'b.ts')]);
+        expect(byFile.get(filePath)).toHaveLength(2);
+        expect(buildDiagnosticsByFile(null).size).toBe(0);
+    });
+
+    it('update 先清空再按文件写入，结果为空时只清空', () => {
+        const diagnostics = new ReviewDiagnostics();
+        diagnostics.update({ passed: true, errors: [], warnings: [createIssue()], info: [] });
+        expect(collection.clear).toHaveBeenCalledTimes(1);
+        expect(collection.set).toHaveBeenCalledWith({ fsPath: filePath }, [expect.objectContaining({ code: 'no_todo' })]);
+
+        collection.set.mockClear();
+        diagnostics.update(null);
+        expect(collection.clear).toHaveBeenCalledTimes(2);
+        expect(collection.set).not.toHaveBeenCalled();
+        diagnostics.dispose();
+        expect(collection.dispose).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,119 @@
+/**
+ * 逐提交审查相关测试
+ *
+ * 1. parseBlamePorcelain 解析 porcelain 输出并排除 boundary 提交
+ * 2. buildFileDiffFromLines 把行号合并为 hunk
+ * 3. FileScanner 在真实临时仓库中按 merge-base 拆分分支 diff
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { buildFileDiffFromLines, parseBlamePorcelain } from '../../utils/branchCommitDiff';
+import { FileScanner } from '../../utils/fileScanner';
+
+const shaA = 'a'.repeat(40);
+const shaB = 'b'.repeat(40);
+
+describe('branchCommitDiff', () => {
+    it('parseBlamePorcelain 排除 boundary 提交的行', () => {
+        const output = [
+            `${shaA} 1 1 1`,
+            'author x',
+            'boundary',
+            'filename a.ts',
+            '\tconst base = 1;',
+            `${shaB} 2 2 2`,
+            'author y',
+            'filename a.ts',
+            '\tconst a = 2;',
+            `${shaB} 3 3`,
+            '\tconst b = 3;',
+            '',
+        ].join('\n');
+        const lines = parseBlamePorcelain(output);
+        expect([...lines.keys()]).toEqual([2, 3]);
+        expect(lines.get(3)).toEqual({ sha: shaB, content: 'const b = 3;' });
+    });
+
+    it('buildFileDiffFromLines 合并连续行为同一 hunk', () => {
+        const diff = buildFileDiffFromLines('/repo/a.ts', [
+            { line: 5, content: 'e' },
+            { line: 2, content: 'b' },
+            { line: 3, content: 'c' },
+        ], { formatOnly: false, commentOnly: true });
+        expect(diff.hunks).toEqual([
+            { newStart: 2, newCount: 2, lines: ['b', 'c'] },
+            { newStart: 5, newCount: 1, lines: ['e'] },
+        ]);
+        expect(diff).toMatchObject({ addedLines: 3, deletedLines: 0, commentOnly: true });
+    });
+});
+
+describe('FileScanner branch diff', () => {
+    let gitRoot: string;
+    // 运行环境可能通过 GIT_CONFIG_* 注入配置，测试期间屏蔽以保证 git 行为一致
+    const savedGitConfigEnv: Record<string, string | undefined> = {};
+    const git = (command: string) => execSync(`git ${command}`, { cwd: gitRoot, encoding: 'utf-8' }).trim();
+    const writeFile = (name: string, lines: string[]) =>
+        fs.writeFileSync(path.join(gitRoot, name), `${lines.join('\n')}\n`, 'utf8');
+
+    beforeEach(async () => {
+        for (const key of Object.keys(process.env).filter(name => name.startsWith('GIT_CONFIG_'))) {
+            savedGitConfigEnv[key] = process.env[key];
+            delete process.env[key];
+        }
+        gitRoot = await fs.promises.realpath(await fs.promises.mkdtemp(path.join(os.tmpdir(), 'agentreview-branch-')));
+        git('init -q -b main');
+        git('config user.email test@example.com');
+        git('config user.name test');
+        git('config commit.gpgsign false');
+        writeFile('a.ts', ['const base = 1;']);
+        git('add -A');
+        git('commit -q -m base');
+        git('checkout -q -b feature');
+        writeFile('a.ts', ['const base = 1;', 'const first = 2;']);
+        git('commit -q -am first');
+        writeFile('a.ts', ['const base = 1;', 'const first = 2;', 'const second = 3;']);
+        git('commit -q -am second');
+        // 基准分支在分叉后的提交不应混入分支 diff
+        git('checkout -q main');
+        writeFile('b.ts', ['const onMain = 1;']);
+        git('add -A');
+        git('commit -q -m main-only');
+        git('checkout -q feature');
+    });
+
+    afterEach(async () => {
+        Object.assign(process.env, savedGitConfigEnv);
+        await fs.promises.rm(gitRoot, { recursive: true, force: true });
+    });
+
+    it('getBranchDiff 以 merge-base 为基准，不包含基准分支的新提交', async () => {
+        const scanner = new FileScanner();
+        const { mergeBase, diffByFile } = await scanner.getBranchDiff(gitRoot, 'main');
+        expect(mergeBase).toBe(git('rev-parse main~1'));
+        expect([...diffByFile.keys()]).toEqual([path.join(gitRoot, 'a.ts')]);
+        expect(diffByFile.get(path.join(gitRoot, 'a.ts'))?.addedLines).toBe(2);
+    });
+
+    it('getBranchDiffByCommit 按提交拆分各自引入的行', async () => {
+        const scanner = new FileScanner();
+        const { commits } = await scanner.getBranchDiffByCommit(gitRoot, 'main');
+        expect(commits.map(entry => entry.commit.subject)).toEqual(['first', 'second']);
+        const filePath = path.join(gitRoot, 'a.ts');
+        expect(commits[0].diffByFile.get(filePath)?.hunks).toEqual([
+            { newStart: 2, newCount: 1, lines: ['const first = 2;'] },
+        ]);
+        expect(commits[1].diffByFile.get(filePath)?.hunks).toEqual([
+            { newStart: 3, newCount: 1, lines: ['const second = 3;'] },
+        ]);
+    });
+
+    it('无法解析 merge-base 时抛出错误', async () => {
+        const scanner = new FileScanner();
+        await expect(scanner.getBranchDiff(gitRoot, 'no-such-branch')).rejects.toThrow('merge-base');
+    });
+});
@@ -217,3 +217,67 @@ describe('FileScanner pending diff', () => {
     });
 });
 
+
+describe('FileScanner ref range diff', () => {
+    const workspaceRoot = path.normalize('D:/workspace/repo');
+    const relativePath = 'src/sample.vue';
+    const absolutePath = path.normalize(path.join(workspaceRoot, relativePath));
+
+    beforeEach(() => {
+        execAsyncMock.mockReset();
+    });
+
+    it('应按 git diff <base> <head> 获取区间 diff 且不补充 untracked 文件', async () => {
+        execAsyncMock.mockImplementation(async (command: string) => {
+            if (command.startsWith('git diff origin/main HEAD')) {
+                return { stdout: createRawDiff(relativePath), stderr: '' };
+            }
+            return { stdout: '', stderr: '' };
+        });
+
+        const scanner = new FileScanner();
+        const result = await scanner.getRefRangeDiff(workspaceRoot, { baseRef: 'origin/main', headRef: 'HEAD' });
+
+        expect(result.has(absolutePath)).toBe(true);
+        expect(execAsyncMock).toHaveBeenCalledWith(
+            expect.stringContaining('git diff origin/main HEAD -U3 --no-color'),
+            expect.anything()
+        );
+        expect(execAsyncMock).not.toHaveBeenCalledWith(
+            expect.stringContaining('ls-files --others'),
+            expect.anything()
+        );
+    });
+
+    it('ref 含 shell 特殊字符时应拒绝执行', async () => {
+        const scanner = new FileScanner();
+        await expect(
+            scanner.getRefRangeDiff(workspaceRoot, { baseRef: 'main; rm -rf /', headRef: 'HEAD' })
+        ).rejects.toThrow('非法的 git ref');
+        expect(execAsyncMock).not.toHaveBeenCalled();
+    });
+
+    it('headRef 不是当前检出的提交时拒绝审查，与 HEAD 相同时照常取 diff', async () => {
+        execAsyncMock.mockImplementation(async (command: string) => {
+            if (command.startsWith('git rev-parse --verify --quiet HEAD~1^{commit}')) {
+                return { stdout: 'aaaaaaa\n', stderr: '' };
+            }
+            if (command.startsWith('git rev-parse --verify --quiet')) {
+                return { stdout: 'bbbbbbb\n', stderr: '' };
+            }
+            if (command.startsWith('git diff main feature')) {
+                return { stdout: createRawDiff(relativePath), stderr: '' };
+            }
+            return { stdout: '', stderr: '' };
+        });
+        const scanner = new FileScanner();
+
+        await expect(
+            scanner.getRefRangeDiff(workspaceRoot, { baseRef: 'main', headRef: 'HEAD~1' })
+        ).rejects.toThrow('HEAD~1 不是当前检出的提交');
+        expect(execAsyncMock).not.toHaveBeenCalledWith(expect.stringContaining('git diff'), expect.anything());
+
+        const result = await scanner.getRefRangeDiff(workspaceRoot, { baseRef: 'main', headRef: 'feature' });
+        expect(result.has(absolutePath)).toBe(true);
+    });
+});
@@ -0,0 +1,55 @@
+/**
+ * importDeclarations 单元测试
+ *
+ * 覆盖 extractImportDeclarations：静态 import、re-export、动态 import()、require()、TS import = require()；
+ * .vue 按 script 块解析并映射回源文件行号；不支持的扩展名返回空。
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractImportDeclarations, supportsImportExtraction } from '../../utils/importDeclarations';
+
+describe('extractImportDeclarations', () => {
+    it('收集各类模块引用及其位置', () => {
+        const content = [
+            "import { a } from './a';",
+            "export * from '../b';",
+            'const c = require("c");',
+            'import d = require("d");',
+            'const load = () => import(`./e`);',
+            'const dynamic = (name: string) => import(name);',
+        ].join('\n');
+
+        const imports = extractImportDeclarations('/repo/src/x.ts', content);
+
+        expect(imports.map(item => [item.source, item.kind, item.line, item.column])).toEqual([
+            ['./a', 'import', 1, 1],
+            ['../b', 'export', 2, 1],
+            ['c', 'require', 3, 11],
+            ['d', 'import_equals', 4, 1],
+            ['./e', 'dynamic_import', 5, 20],
+        ]);
+    });
+
+    it('多行 import 记录结束行', () => {
+        const content = 'import {\n  a,\n  b,\n} from "./ab";\n';
+        const [item] = extractImportDeclarations('/repo/src/x.tsx', content);
+        expect(item).toMatchObject({ source: './ab', line: 1, endLine: 4 });
+    });
+
+    it('.vue 按 script 块解析并返回源文件行号', () => {
+        const content = [
+            '<template><div /></template>',
+            '<script setup lang="ts">',
+            "import { api } from '@/core/internal/api';",
+            '</script>',
+        ].join('\n');
+        expect(extractImportDeclarations('/repo/src/ui/A.vue', content)).toMatchObject([
+            { source: '@/core/internal/api', line: 3, column: 1 },
+        ]);
+    });
+
+    it('不支持的扩展名返回空', () => {
+        expect(supportsImportExtraction('/repo/a.css')).toBe(false);
+        expect(extractImportDeclarations('/repo/a.css', "@import './b.css';")).toEqual([]);
+    });
+});
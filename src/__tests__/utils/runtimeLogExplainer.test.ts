@@ -55,6 +55,53 @@ describe('runtimeLogExplainer', () => {
         expect(text).toContain('error=0 warning=1 info=0');
     });
 
+    it('应输出估算 Token 与成本行', () => {
+        const text = formatRunSummaryPayload({
+            ...samplePayload,
+            estimatedInputTokensTotal: 1200,
+            estimatedOutputTokensTotal: 300,
+            estimatedCost: 0.0123,
+            actualCost: 0.0118,
+        });
+        expect(text).toContain('Token(估算): 输入=1200 输出=300');
+        expect(text).toContain('成本: 估算=0.0123 实际=0.0118');
+        expect(formatRunSummaryPayload(samplePayload)).not.toContain('成本:');
+    });
+
+    it('应输出模型分级与分层 Token 行', () => {
+        const text = formatRunSummaryPayload({
+            ...samplePayload,
+            cascadeStats: { units: 6, escalated: 2, escalatedByRisk: 1, escalatedByTriage: 1, escalatedByFallback: 0, skipped: 4 },
+            llmTierStats: [
+                { tier: 'triage', calls: 1, inputTokens: 300, outputTokens: 40, estimatedInputTokens: 280, estimatedOutputTokens: 35 },
+                { tier: 'review', calls: 1, inputTokens: 900, outputTokens: 120, estimatedInputTokens: 850, estimatedOutputTokens: 100 },
+            ],
+        });
+        expect(text).toContain('模型分级: 单元=6 升级=2（风险=1 分诊=1 兜底=0） 跳过=4');
+        expect(text).toContain('  triage: 调用=1 输入=300 输出=40');
+        expect(text).toContain('  review: 调用=1 输入=900 输出=120');
+        expect(formatRunSummaryPayload(samplePayload)).not.toContain('模型分级');
+    });
+
+    it('配置自我校验时应输出候选问题去向', () => {
+        const text = formatRunSummaryPayload({
+            ...samplePayload,
+            verificationStats: { candidates: 5, confirmed: 2, rejected: 2, lowConfidence: 1, unverified: 0 },
+        });
+        expect(text).toContain('自我校验: 候选=5 确认=2 驳回=2 低置信=1 未校验=0');
+        expect(formatRunSummaryPayload(samplePayload)).not.toContain('自我校验');
+    });
+
+    it('应输出提示词模板哈希与来源', () => {
+        expect(formatRunSummaryPayload({ ...samplePayload, promptTemplateHash: 'abc123def456' }))
+            .toContain('提示词模板: abc123def456（内置）');
+        expect(formatRunSummaryPayload({
+            ...samplePayload,
+            promptTemplateHash: 'abc123def456',
+            promptTemplateOverrides: ['review'],
+        })).toContain('提示词模板: abc123def456（自定义 review）');
+    });
+
     it('应生成 summary 文件（取最后一条汇总）', async () => {
         const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'agentreview-explainer-'));
         tempDirs.push(tempDir);
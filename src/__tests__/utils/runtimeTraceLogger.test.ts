@@ -182,15 +182,131 @@ describe('RuntimeTraceLogger', () => {
         expect(session).toBeTruthy();
         const runId = (session as RuntimeTraceSession).runId;
         runtimeTraceLogger.addLlmCall(runId, { durationMs: 100, prompt_tokens: 10, completion_tokens: 5 });
-        runtimeTraceLogger.addLlmCall(runId, { durationMs: 50, prompt_tokens: 20, completion_tokens: 8 });
+        runtimeTraceLogger.addLlmCall(runId, {
+            durationMs: 50,
+            prompt_tokens: 20,
+            completion_tokens: 8,
+            estimated_prompt_tokens: 25,
+            estimated_completion_tokens: 6,
+            estimated_cost: 0.002,
+            actual_cost: 0.0015,
+        });
+        runtimeTraceLogger.addLlmCacheLookup(runId, { hit: true });
+        runtimeTraceLogger.addLlmCacheLookup(runId, { hit: false });
+        runtimeTraceLogger.addLlmCacheLookup(runId, { hit: true });
 
         const agg = runtimeTraceLogger.getRunAggregates(runId);
         expect(agg).toBeTruthy();
         expect(agg!.llmTotalMs).toBe(150);
         expect(agg!.inputTokensTotal).toBe(30);
         expect(agg!.outputTokensTotal).toBe(13);
+        expect(agg!.llmCacheHits).toBe(2);
+        expect(agg!.llmCacheMisses).toBe(1);
+        expect(agg!.estimatedInputTokensTotal).toBe(25);
+        expect(agg!.estimatedOutputTokensTotal).toBe(6);
+        expect(agg!.estimatedCost).toBe(0.002);
+        expect(agg!.actualCost).toBe(0.0015);
 
         runtimeTraceLogger.endRunSession(session);
         expect(runtimeTraceLogger.getRunAggregates(runId)).toBeNull();
     });
+
+    it('addRulePluginCall 按规则聚合耗时并随 run 结束清理', async () => {
+        const baseDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'agentreview-runtime-'));
+        tempDirs.push(baseDir);
+        await runtimeTraceLogger.initialize({
+            baseDir,
+            config: { enabled: true, retention_days: 14 },
+        });
+
+        const session = runtimeTraceLogger.startRunSession('staged') as RuntimeTraceSession;
+        runtimeTraceLogger.addRulePluginCall(session.runId, { ruleId: 'require-authorize', durationMs: 5, issueCount: 1, failed: false });
+        runtimeTraceLogger.addRulePluginCall(session.runId, { ruleId: 'require-authorize', durationMs: 7, issueCount: 0, failed: true });
+        runtimeTraceLogger.addRulePluginCall(session.runId, { ruleId: 'fast-rule', durationMs: 1, issueCount: 0, failed: false });
+
+        expect(runtimeTraceLogger.getRulePluginStats(session.runId)).toEqual([
+            { ruleId: 'require-authorize', calls: 2, totalMs: 12, issues: 1, failures: 1 },
+            { ruleId: 'fast-rule', calls: 1, totalMs: 1, issues: 0, failures: 0 },
+        ]);
+
+        runtimeTraceLogger.endRunSession(session);
+        expect(runtimeTraceLogger.getRulePluginStats(session.runId)).toEqual([]);
+    });
+
+    it('addLlmOutputParse 按输出方式聚合响应、截断与解析失败', async () => {
+        const baseDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'agentreview-runtime-'));
+        tempDirs.push(baseDir);
+        await runtimeTraceLogger.initialize({
+            baseDir,
+            config: { enabled: true, retention_days: 14 },
+        });
+
+        const session = runtimeTraceLogger.startRunSession('manual') as RuntimeTraceSession;
+        runtimeTraceLogger.addLlmOutputParse(session.runId, { mode: 'json_schema', partial: false, failed: false });
+        runtimeTraceLogger.addLlmOutputParse(session.runId, { mode: 'json_schema', partial: true, failed: false });
+        runtimeTraceLogger.addLlmOutputParse(session.runId, { mode: 'text', partial: false, failed: true });
+
+        expect(runtimeTraceLogger.getLlmOutputModeStats(session.runId)).toEqual([
+            { mode: 'json_schema', responses: 2, partial: 1, parseFailures: 0 },
+            { mode: 'text', responses: 1, partial: 0, parseFailures: 1 },
+        ]);
+
+        runtimeTraceLogger.endRunSession(session);
+        expect(runtimeTraceLogger.getLlmOutputModeStats(session.runId)).toEqual([]);
+    });
+
+    it('addLlmCall 按层拆分 Token，addCascadeTriage 累加单元去向', async () => {
+        const baseDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'agentreview-runtime-'));
+        tempDirs.push(baseDir);
+        await runtimeTraceLogger.initialize({
+            baseDir,
+            config: { enabled: true, retention_days: 14 },
+        });
+
+        const session = runtimeTraceLogger.startRunSession('manual') as RuntimeTraceSession;
+        runtimeTraceLogger.addLlmCall(session.runId, { prompt_tokens: 500, completion_tokens: 80, estimated_prompt_tokens: 450 });
+        runtimeTraceLogger.addLlmCall(session.runId, { tier: 'triage', prompt_tokens: 100, completion_tokens: 10 });
+        runtimeTraceLogger.addCascadeTriage(session.runId, {
+            units: 5, escalatedByRisk: 1, escalatedByTriage: 1, escalatedByFallback: 0, skipped: 3,
+        });
+        runtimeTraceLogger.addCascadeTriage(session.runId, {
+            units: 2, escalatedByRisk: 0, escalatedByTriage: 0, escalatedByFallback: 2, skipped: 0,
+        });
+
+        expect(runtimeTraceLogger.getLlmTierStats(session.runId)).toEqual([
+            { tier: 'triage', calls: 1, inputTokens: 100, outputTokens: 10, estimatedInputTokens: 0, estimatedOutputTokens: 0 },
+            { tier: 'review', calls: 1, inputTokens: 500, outputTokens: 80, estimatedInputTokens: 450, estimatedOutputTokens: 0 },
+        ]);
+        expect(runtimeTraceLogger.getRunAggregates(session.runId)).toMatchObject({ inputTokensTotal: 600, outputTokensTotal: 90 });
+        expect(runtimeTraceLogger.getCascadeStats(session.runId)).toEqual({
+            units: 7, escalated: 4, escalatedByRisk: 1, escalatedByTriage: 1, escalatedByFallback: 2, skipped: 3,
+        });
+
+        runtimeTraceLogger.endRunSession(session);
+        expect(runtimeTraceLogger.getCascadeStats(session.runId)).toBeNull();
+        expect(runtimeTraceLogger.getLlmTierStats(session.runId)).toEqual([]);
+    });
+
+    it('addVerification 累加自我校验去向，verify 层排在最后', async () => {
+        const baseDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'agentreview-runtime-'));
+        tempDirs.push(baseDir);
+        await runtimeTraceLogger.initialize({
+            baseDir,
+            config: { enabled: true, retention_days: 14 },
+        });
+
+        const session = runtimeTraceLogger.startRunSession('manual') as RuntimeTraceSession;
+        runtimeTraceLogger.addLlmCall(session.runId, { tier: 'verify', prompt_tokens: 200, completion_tokens: 20 });
+        runtimeTraceLogger.addLlmCall(session.runId, { prompt_tokens: 500, completion_tokens: 80 });
+        runtimeTraceLogger.addVerification(session.runId, { candidates: 3, confirmed: 1, rejected: 1, lowConfidence: 1, unverified: 0 });
+        runtimeTraceLogger.addVerification(session.runId, { candidates: 2, confirmed: 0, rejected: 0, lowConfidence: 0, unverified: 2 });
+
+        expect(runtimeTraceLogger.getLlmTierStats(session.runId).map(stat => stat.tier)).toEqual(['review', 'verify']);
+        expect(runtimeTraceLogger.getVerificationStats(session.runId)).toEqual({
+            candidates: 5, confirmed: 1, rejected: 1, lowConfidence: 1, unverified: 2,
+        });
+
+        runtimeTraceLogger.endRunSession(session);
+        expect(runtimeTraceLogger.getVerificationStats(session.runId)).toBeNull();
+    });
 });
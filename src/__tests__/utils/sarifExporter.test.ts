@@ -0,0 +1,89 @@
+/**
+ * sarifExporter 单元测试
+ *
+ * 验证规则描述去重、severity → level、指纹、区域与关联位置、忽略态的映射。
+ */
+
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { buildSarifLog, SARIF_FINGERPRINT_KEY } from '../../utils/sarifExporter';
+import type { ReviewIssue, ReviewResult } from '../../types/review';
+
+const root = path.resolve('/repo');
+
+const createIssue = (overrides: Partial<ReviewIssue> = {}): ReviewIssue => ({
+    file: path.join(root, 'src', 'a.ts'),
+    line: 10,
+    column: 3,
+    message: '发现 TODO 注释',
+    rule: 'no_todo',
+    severity: 'warning',
+    ...overrides,
+});
+
+describe('sarifExporter', () => {
+    it('同一规则只生成一个描述，level 取最高严重程度', () => {
+        const result: ReviewResult = {
+            passed: false,
+            errors: [createIssue({ severity: 'error', rule: 'no_debugger' })],
+            warnings: [createIssue()],
+            info: [createIssue({ severity: 'info', line: 20 })],
+        };
+        const run = buildSarifLog(result, root, { toolVersion: '1.2.3' }).runs[0];
+        expect(run.tool.driver).toMatchObject({ name: 'AgentReview', version: '1.2.3' });
+        expect(run.tool.driver.rules.map(rule => [rule.id, rule.defaultConfiguration.level])).toEqual([
+            ['no_debugger', 'error'],
+            ['no_todo', 'warning'],
+        ]);
+        expect(run.results.map(item => [item.ruleIndex, item.level])).toEqual([
+            [0, 'error'],
+            [1, 'warning'],
+            [1, 'note'],
+        ]);
+        expect(run.properties).toEqual({ passed: false });
+    });
+
+    it('位置使用 %SRCROOT% 相对 URI，astRange 映射为 contextRegion', () => {
+        const issue = createIssue({
+            astRange: { startLine: 8, endLine: 14 },
+            fingerprint: 'abcdef0123456789',
+        });
+        const log = buildSarifLog({ passed: true, errors: [], warnings: [issue], info: [] }, root);
+        const [sarifResult] = log.runs[0].results;
+        expect(log.version).toBe('2.1.0');
+        expect(sarifResult.locations[0].physicalLocation).toEqual({
+            artifactLocation: { uri: 'src/a.ts', uriBaseId: '%SRCROOT%' },
+            region: { startLine: 10, startColumn: 3 },
+            contextRegion: { startLine: 8, endLine: 14 },
+        });
+        expect(sarifResult.partialFingerprints).toEqual({ [SARIF_FINGERPRINT_KEY]: 'abcdef0123456789' });
+        expect(log.runs[0].originalUriBaseIds?.['%SRCROOT%'].uri.endsWith('/')).toBe(true);
+    });
+
+    it('contextLineRefs 映射为 relatedLocations，忽略态映射为 suppressions', () => {
+        const issue = createIssue({
+            contextLineRefs: {
+                definitions: [{ file: path.join(root, 'src', 'b.ts'), line: 3 }],
+                usages: [{ file: path.join(root, 'src', 'c.ts'), line: 7 }],
+                vueRelatedBlock: { template: [1, 5] },
+            },
+            ignored: true,
+            ignoreReason: '历史代码',
+            stale: true,
+        });
+        const [sarifResult] = buildSarifLog({ passed: true, errors: [], warnings: [issue], info: [] }, root)
+            .runs[0].results;
+        expect(sarifResult.relatedLocations?.map(location => [
+            location.id,
+            location.physicalLocation.artifactLocation.uri,
+            location.physicalLocation.region,
+            location.message?.text,
+        ])).toEqual([
+            [0, 'src/b.ts', { startLine: 3 }, '定义'],
+            [1, 'src/c.ts', { startLine: 7 }, '调用方'],
+            [2, 'src/a.ts', { startLine: 1, endLine: 5 }, '关联 <template> 块'],
+        ]);
+        expect(sarifResult.suppressions).toEqual([{ kind: 'inSource', justification: '历史代码' }]);
+        expect(sarifResult.properties).toEqual({ stale: true });
+    });
+});
@@ -0,0 +1,284 @@
+/**
+ * AI 调用限流与熔断（进程内共享）
+ *
+ * 所有批次、工作区根与分诊/校验请求在发送前经同一个限流器排队：
+ * 按滑动 60 秒窗口限制请求数（rate_limit_rpm）与预估 Token（rate_limit_tpm），
+ * 服务端返回 Retry-After / retry-after-ms 时所有请求一起暂停到该时间，避免 429 时各批次各自退避、继续冲击端点。
+ * 连续 circuit_breaker_threshold 次服务端失败（无响应、5xx、429）后熔断：冷却期内的请求直接抛出 CircuitOpenError，
+ * 由调用方转为 ai_review_error 问题快速结束本次审查；冷却后放行，再失败立即重新熔断，成功一次即恢复计数。
+ * 状态变化通过 onDidChangeState 通知（状态栏展示）。
+ */
+
+import axios from 'axios';
+import { Logger } from '../utils/logger';
+
+/** 滑动窗口长度 */
+const RATE_WINDOW_MS = 60_000;
+/** 单次 Retry-After 最长遵循时间，超出按此值暂停 */
+const MAX_RETRY_AFTER_MS = 5 * 60_000;
+/** 默认连续失败多少次后熔断 */
+export const DEFAULT_CIRCUIT_BREAKER_THRESHOLD = 5;
+/** 默认熔断冷却时间 */
+export const DEFAULT_CIRCUIT_BREAKER_COOLDOWN_MS = 60_000;
+
+export interface RateLimiterOptions {
+    /** 每分钟最多请求数，0 为不限 */
+    requestsPerMinute?: number;
+    /** 每分钟最多预估 Token（输入 + max_tokens），0 为不限 */
+    tokensPerMinute?: number;
+    /** 连续失败多少次后熔断，0 为关闭 */
+    circuitBreakerThreshold?: number;
+    circuitBreakerCooldownMs?: number;
+}
+
+/** 限流器当前状态：ready=可直接发送，throttled=有请求在等待配额或 Retry-After，open=已熔断 */
+export interface RateLimiterState {
+    status: 'ready' | 'throttled' | 'open';
+    /** 正在排队等待的请求数 */
+    waiting: number;
+    /** throttled / open 时预计恢复的时间戳（ms） */
+    resumeAt?: number;
+    /** throttled 的原因 */
+    reason?: 'rpm' | 'tpm' | 'retry_after';
+    consecutiveFailures: number;
+}
+
+/** 熔断期间发起的请求抛出此错误 */
+export class CircuitOpenError extends Error {
+    constructor(failures: number, resumeAt: number) {
+        super(`AI 服务连续失败 ${failures} 次，已暂停调用 ${Math.ceil((resumeAt - Date.now()) / 1000)} 秒，请检查端点与配额后重试`);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+/** 从 429/503 响应头解析需要等待的毫秒数（retry-after-ms 优先，其次 Retry-After 秒数或 HTTP 日期）；无则返回 null */
+export const parseRetryAfterMs = (error: unknown, now: number = Date.now()): number | null => {
+    if (!axios.isAxiosError(error) || !error.response?.headers) return null;
+    const headers = error.response.headers as Record<string, unknown>;
+    const toText = (value: unknown): string | null =>
+        typeof value === 'string' || typeof value === 'number' ? String(value).trim() : null;
+    const retryAfterMs = toText(headers['retry-after-ms']);
+    if (retryAfterMs && Number.isFinite(Number(retryAfterMs))) {
+        return Math.max(0, Number(retryAfterMs));
+    }
+    const retryAfter = toText(headers['retry-after']);
+    if (!retryAfter) return null;
+    if (Number.isFinite(Number(retryAfter))) {
+        return Math.max(0, Number(retryAfter) * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+/** 计入熔断的服务端失败：无响应（网络、超时）、5xx 与 429；其余 4xx 多为请求本身的问题，不计入也不清零 */
+const isServiceFailure = (error: unknown): boolean => {
+    if (!axios.isAxiosError(error)) return false;
+    const status = error.response?.status;
+    return status === undefined || status >= 500 || status === 429;
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason ?? new Error('请求已取消'));
+            return;
+        }
+        const onAbort = (): void => {
+            clearTimeout(timer);
+            reject(signal?.reason ?? new Error('请求已取消'));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+export class AIRateLimiter {
+    private static instance: AIRateLimiter | undefined;
+    private logger = new Logger('AIRateLimiter');
+    private options: Required<RateLimiterOptions> = {
+        requestsPerMinute: 0,
+        tokensPerMinute: 0,
+        circuitBreakerThreshold: DEFAULT_CIRCUIT_BREAKER_THRESHOLD,
+        circuitBreakerCooldownMs: DEFAULT_CIRCUIT_BREAKER_COOLDOWN_MS,
+    };
+    private window: Array<{ at: number; tokens: number }> = [];
+    private blockedUntil = 0;
+    private throttle: { until: number; reason: NonNullable<RateLimiterState['reason']> } | null = null;
+    private openUntil = 0;
+    private consecutiveFailures = 0;
+    private waiting = 0;
+    private reopenTimer: ReturnType<typeof setTimeout> | null = null;
+    private listeners = new Set<(state: RateLimiterState) => void>();
+    private lastNotifiedState = '';
+    private settingsKey = '';
+
+    static getInstance = (): AIRateLimiter => {
+        if (!AIRateLimiter.instance) {
+            AIRateLimiter.instance = new AIRateLimiter();
+        }
+        return AIRateLimiter.instance;
+    };
+
+    /**
+     * 应用配置；每次审查前都会调用，仅在配置实际变化（如修正端点、密钥或阈值）时清零熔断状态与失败计数。
+     * settingsKey 为影响服务可用性的其他配置（端点、模型等）的摘要。
+     */
+    configure = (options: RateLimiterOptions, settingsKey = ''): void => {
+        const next: Required<RateLimiterOptions> = {
+            requestsPerMinute: Math.max(0, options.requestsPerMinute ?? 0),
+            tokensPerMinute: Math.max(0, options.tokensPerMinute ?? 0),
+            circuitBreakerThreshold: Math.max(0, options.circuitBreakerThreshold ?? DEFAULT_CIRCUIT_BREAKER_THRESHOLD),
+            circuitBreakerCooldownMs: Math.max(0, options.circuitBreakerCooldownMs ?? DEFAULT_CIRCUIT_BREAKER_COOLDOWN_MS),
+        };
+        const nextKey = JSON.stringify([next, settingsKey]);
+        this.options = next;
+        if (nextKey === this.settingsKey) return;
+        this.settingsKey = nextKey;
+        this.openUntil = 0;
+        this.consecutiveFailures = 0;
+        this.clearReopenTimer();
+        this.notify();
+    };
+
+    /**
+     * 发送请求前调用：等待窗口配额与 Retry-After 暂停结束后占用一个名额；
+     * 熔断中抛出 CircuitOpenError，signal 取消时抛出取消原因。
+     */
+    acquire = async (estimatedTokens: number, signal?: AbortSignal): Promise<void> => {
+        this.waiting++;
+        try {
+            while (true) {
+                if (signal?.aborted) {
+                    throw signal.reason ?? new Error('请求已取消');
+                }
+                const now = Date.now();
+                if (this.openUntil > now) {
+                    throw new CircuitOpenError(this.consecutiveFailures, this.openUntil);
+                }
+                const wait = this.computeWait(now, estimatedTokens);
+                if (!wait) {
+                    this.window.push({ at: now, tokens: estimatedTokens });
+                    this.throttle = null;
+                    return;
+                }
+                this.throttle = { until: now + wait.ms, reason: wait.reason };
+                this.notify();
+                await sleep(wait.ms, signal);
+            }
+        } finally {
+            this.waiting--;
+            this.notify();
+        }
+    };
+
+    /** 请求成功：清零连续失败计数 */
+    recordSuccess = (): void => {
+        if (this.consecutiveFailures === 0) return;
+        this.consecutiveFailures = 0;
+        this.notify();
+    };
+
+    /**
+     * 请求失败：遵循 Retry-After 暂停所有请求，服务端失败累计达到阈值时熔断。
+     * 返回 Retry-After 毫秒数（已按上限截断），供调用方代替指数退避延迟；无则返回 null。
+     */
+    recordFailure = (error: unknown): number | null => {
+        const now = Date.now();
+        const parsedRetryAfter = parseRetryAfterMs(error, now);
+        const retryAfterMs = parsedRetryAfter === null ? null : Math.min(parsedRetryAfter, MAX_RETRY_AFTER_MS);
+        if (retryAfterMs !== null) {
+            this.blockedUntil = Math.max(this.blockedUntil, now + retryAfterMs);
+        }
+        if (isServiceFailure(error)) {
+            this.consecutiveFailures++;
+            const { circuitBreakerThreshold, circuitBreakerCooldownMs } = this.options;
+            if (circuitBreakerThreshold > 0 && this.consecutiveFailures >= circuitBreakerThreshold && circuitBreakerCooldownMs > 0) {
+                this.openUntil = now + circuitBreakerCooldownMs;
+                this.logger.warn(`AI 服务连续失败 ${this.consecutiveFailures} 次，熔断 ${circuitBreakerCooldownMs}ms`);
+                this.clearReopenTimer();
+                this.reopenTimer = setTimeout(() => {
+                    this.reopenTimer = null;
+                    this.notify();
+                }, circuitBreakerCooldownMs);
+                this.reopenTimer.unref?.();
+            }
+        }
+        this.notify();
+        return retryAfterMs;
+    };
+
+    getState = (): RateLimiterState => {
+        const now = Date.now();
+        if (this.openUntil > now) {
+            return { status: 'open', waiting: this.waiting, resumeAt: this.openUntil, consecutiveFailures: this.consecutiveFailures };
+        }
+        if (this.waiting > 0 && this.throttle && this.throttle.until > now) {
+            return {
+                status: 'throttled',
+                waiting: this.waiting,
+                resumeAt: this.throttle.until,
+                reason: this.throttle.reason,
+                consecutiveFailures: this.consecutiveFailures,
+            };
+        }
+        return { status: 'ready', waiting: this.waiting, consecutiveFailures: this.consecutiveFailures };
+    };
+
+    /** 订阅状态变化（仅在状态实际变化时回调） */
+    onDidChangeState = (listener: (state: RateLimiterState) => void): { dispose: () => void } => {
+        this.listeners.add(listener);
+        return { dispose: () => this.listeners.delete(listener) };
+    };
+
+    /** 计算还需等待多久；可立即发送时返回 null */
+    private computeWait = (
+        now: number,
+        estimatedTokens: number
+    ): { ms: number; reason: NonNullable<RateLimiterState['reason']> } | null => {
+        this.window = this.window.filter(entry => entry.at > now - RATE_WINDOW_MS);
+        let wait: { ms: number; reason: NonNullable<RateLimiterState['reason']> } = {
+            ms: this.blockedUntil - now,
+            reason: 'retry_after',
+        };
+        const { requestsPerMinute, tokensPerMinute } = this.options;
+        if (requestsPerMinute > 0 && this.window.length >= requestsPerMinute) {
+            const ms = this.window[this.window.length - requestsPerMinute].at + RATE_WINDOW_MS - now;
+            if (ms > wait.ms) wait = { ms, reason: 'rpm' };
+        }
+        if (tokensPerMinute > 0 && this.window.length > 0) {
+            // 单次预估超过上限时等到窗口清空后放行，避免永远等待
+            let used = this.window.reduce((sum, entry) => sum + entry.tokens, 0);
+            let ms = 0;
+            for (const entry of this.window) {
+                if (used + estimatedTokens <= tokensPerMinute) break;
+                used -= entry.tokens;
+                ms = entry.at + RATE_WINDOW_MS - now;
+            }
+            if (ms > wait.ms) wait = { ms, reason: 'tpm' };
+        }
+        return wait.ms > 0 ? wait : null;
+    };
+
+    private clearReopenTimer = (): void => {
+        if (this.reopenTimer) {
+            clearTimeout(this.reopenTimer);
+            this.reopenTimer = null;
+        }
+    };
+
+    private notify = (): void => {
+        const state = this.getState();
+        const key = JSON.stringify(state);
+        if (key === this.lastNotifiedState) return;
+        this.lastNotifiedState = key;
+        for (const listener of this.listeners) {
+            try {
+                listener(state);
+            } catch (error) {
+                this.logger.warn('限流状态监听器执行失败', error);
+            }
+        }
+    };
+}
@@ -2,35 +2,44 @@
  * AI 调用重试逻辑
  *
  * 封装带次数与延迟的重试，供 AIReviewer 在单次 API 调用外包裹使用。
+ * 传入 rateLimit 时每次尝试前经共享限流器排队，失败时优先按 Retry-After 等待（见 aiRateLimiter）。
  */
 
+import type { AIRateLimiter } from './aiRateLimiter';
+
 export interface RetryOptions {
     maxRetries: number;
     baseDelay: number;
     /** 返回 true 时重试，false 时直接抛出 */
     shouldRetry: (error: unknown) => boolean;
+    /** 共享限流器与本次请求的预估 Token（输入 + max_tokens）；熔断时直接抛出 CircuitOpenError，不重试 */
+    rateLimit?: { limiter: AIRateLimiter; estimatedTokens: number; signal?: AbortSignal };
 }
 
 const sleep = (ms: number): Promise<void> =>
     new Promise(resolve => setTimeout(resolve, ms));
 
 /**
- * 使用指数退避执行异步函数，失败时按 shouldRetry 决定是否重试
+ * 使用指数退避执行异步函数，失败时按 shouldRetry 决定是否重试（有 Retry-After 时按其等待）
  */
 export const runWithRetry = async <T>(
     fn: () => Promise<T>,
     options: RetryOptions
 ): Promise<T> => {
-    const { maxRetries, baseDelay, shouldRetry } = options;
+    const { maxRetries, baseDelay, shouldRetry, rateLimit } = options;
     let lastError: unknown;
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        await rateLimit?.limiter.acquire(rateLimit.estimatedTokens, rateLimit.signal);
         try {
-            return await fn();
+            const result = await fn();
+            rateLimit?.limiter.recordSuccess();
+            return result;
         } catch (error) {
             lastError = error;
+            const retryAfterMs = rateLimit?.limiter.recordFailure(error) ?? null;
             if (attempt === maxRetries) break;
             if (!shouldRetry(error)) throw error;
-            const delay = baseDelay * Math.pow(2, attempt);
+            const delay = retryAfterMs ?? baseDelay * Math.pow(2, attempt);
             await sleep(delay);
         }
     }
@@ -1,16 +1,40 @@
 /**
  * AI 审查单次 HTTP 调用：构建请求体、发送请求、重试与续写、解析与合并缓存。
+ * 请求体与响应按 api_format 经 aiReviewer.providers 转换，Token 用量对所有提供方统一写入 addLlmCall。
+ * 开启 stream 时经 aiReviewer.stream 读取 SSE，issue 对象闭合即通过 onIssue 回调，流结束后按非流式同一路径解析。
+ * 开启 structured_output 时按提供方能力附加 json_schema / 工具调用参数，每次解析结果按输出方式写入 addLlmOutputParse。
+ * 每次调用按 aiReviewer.tokens 估算输入/输出 Token，并按 model_profiles 价格计算估算成本与（有 usage 时）实际成本。
+ * 配置磁盘缓存时先按请求体查缓存，命中则不发请求；完整（非截断）响应写回缓存，命中与未命中写入 addLlmCacheLookup。
+ * 每次发送（含重试与续写）前经共享限流器排队，失败时优先按 Retry-After 等待；熔断时抛出 CircuitOpenError 不再重试。
  *
  * 供 aiReviewer.ts 的 callAPI 委托调用，主文件只组 deps 并调用本模块。
  */
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import type { Logger } from '../utils/logger';
 import { RuntimeTraceLogger, type RuntimeTraceSession } from '../utils/runtimeTraceLogger';
-import type { AIReviewConfig, AIReviewResponse } from './aiReviewer.types';
+import type { AIReviewConfig, AIReviewResponse, ReviewProfile } from './aiReviewer.types';
 import { DEFAULT_MAX_RETRIES, DEFAULT_RETRY_DELAY, DEFAULT_MAX_TOKENS } from './aiReviewer.types';
 import { buildOpenAIRequest, buildCustomRequest, buildContinuationOpenAIRequest } from './aiReviewer.prompts';
 import { parseOpenAIResponse, parseCustomResponse } from './aiReviewer.responseParser';
 import { estimateRequestChars } from './aiReviewer.batching';
+import {
+    calculateCost,
+    estimateFilesTokens,
+    estimateMessagesTokens,
+    estimateTokens,
+    resolveModelProfile,
+} from './aiReviewer.tokens';
+import { getProviderAdapter } from './aiReviewer.providers';
+import { resolveStructuredOutputMode } from './aiReviewer.structuredOutput';
+import type { AIResponseDiskCache } from './aiReviewer.diskCache';
+import { CircuitOpenError, type AIRateLimiter } from './aiRateLimiter';
+import {
+    supportsStreaming,
+    buildStreamingRequestBody,
+    createIssueStreamParser,
+    readChatCompletionStream,
+    type StreamedIssue,
+} from './aiReviewer.stream';
 
 /** callReviewAPI 所需依赖，由 AIReviewer 注入 */
 export interface CallReviewAPIDeps {
@@ -21,6 +45,10 @@ export interface CallReviewAPIDeps {
     calculateRequestHash: (request: { files: Array<{ path: string; content: string }> }) => string;
     mergeCachedIssues: (requestHash: string, response: AIReviewResponse, isPartial: boolean) => AIReviewResponse;
     baseMessageCache: Map<string, Array<{ role: string; content: string }>>;
+    /** 跨会话磁盘缓存；未启用或无可用目录时为 null */
+    diskCache?: AIResponseDiskCache | null;
+    /** 跨批次、跨工作区根共享的限流器；未提供时不限流 */
+    rateLimiter?: AIRateLimiter;
     shouldRetry: (error: AxiosError) => boolean;
     getRetryReason: (error: unknown) => string;
     sleep: (ms: number) => Promise<void>;
@@ -31,16 +59,20 @@ export interface CallReviewAPIDeps {
  *
  * @param deps - 由 AIReviewer 提供的依赖
  * @param request - 待审查文件列表（含 content）
- * @param options - isDiffContent、diagnosticsByFile
+ * @param options - isDiffContent、diagnosticsByFile、profile（按路径的审查配置）、feedbackPrompt（忽略反馈）；onIssue 为流式模式下逐条回调，signal 用于取消请求（取消时不重试）
  * @param traceSession - 运行时打点会话
  * @returns API 响应（issues 列表）
  */
 export async function callReviewAPI(
     deps: CallReviewAPIDeps,
-    request: { files: Array<{ path: string; content: string }> },
+    request: { files: Array<{ path: string; content: string; knowledgeContext?: string }> },
     options?: {
         isDiffContent?: boolean;
         diagnosticsByFile?: Map<string, Array<{ line: number; message: string }>>;
+        onIssue?: (issue: StreamedIssue) => void;
+        signal?: AbortSignal;
+        profile?: ReviewProfile;
+        feedbackPrompt?: string;
     },
     traceSession?: RuntimeTraceSession | null
 ): Promise<AIReviewResponse> {
@@ -52,6 +84,8 @@ export async function callReviewAPI(
         calculateRequestHash,
         mergeCachedIssues,
         baseMessageCache,
+        diskCache,
+        rateLimiter,
         shouldRetry,
         getRetryReason,
         sleep,
@@ -72,61 +106,153 @@ export async function callReviewAPI(
 
     const requestHash = calculateRequestHash(request);
 
-    const requestBody = config.api_format === 'custom'
-        ? buildCustomRequest(request)
+    const providerAdapter = getProviderAdapter(config.api_format);
+    const structuredOutput = config.api_format === 'custom'
+        ? null
+        : resolveStructuredOutputMode(config.structured_output, providerAdapter.structuredOutputModes);
+    const openAIRequestBody = config.api_format === 'custom'
+        ? null
         : buildOpenAIRequest(config, request, {
             isDiffContent: options?.isDiffContent,
             diagnosticsByFile: options?.diagnosticsByFile,
+            profile: options?.profile,
+            feedbackPrompt: options?.feedbackPrompt,
             logger,
         });
+    const requestBody = openAIRequestBody
+        ? providerAdapter.buildRequestBody(openAIRequestBody, structuredOutput)
+        : buildCustomRequest(request);
 
     const callStartAt = Date.now();
-    const reportLlmCall = (opts: { durationMs: number; prompt_tokens?: number; completion_tokens?: number }): void => {
+    const modelProfile = resolveModelProfile(config);
+    const reportLlmCall = (opts: {
+        durationMs: number;
+        prompt_tokens?: number;
+        completion_tokens?: number;
+        estimatedInputTokens: number;
+        estimatedOutputTokens: number;
+    }): void => {
         if (traceSession) {
+            const hasUsage = typeof opts.prompt_tokens === 'number' || typeof opts.completion_tokens === 'number';
             runtimeTraceLogger.addLlmCall(traceSession.runId, {
                 durationMs: opts.durationMs,
                 prompt_tokens: opts.prompt_tokens,
                 completion_tokens: opts.completion_tokens,
+                estimated_prompt_tokens: opts.estimatedInputTokens,
+                estimated_completion_tokens: opts.estimatedOutputTokens,
+                estimated_cost: calculateCost(modelProfile, {
+                    input: opts.estimatedInputTokens,
+                    output: opts.estimatedOutputTokens,
+                }),
+                actual_cost: hasUsage
+                    ? calculateCost(modelProfile, { input: opts.prompt_tokens ?? 0, output: opts.completion_tokens ?? 0 })
+                    : undefined,
             });
         }
     };
+    const reportParsedLlmCall = (
+        parsedResult: ReturnType<typeof parseOpenAIResponse>,
+        messages: Array<{ role: string; content: string }>
+    ): void => {
+        reportLlmCall({
+            durationMs: Date.now() - callStartAt,
+            prompt_tokens: parsedResult.usage?.prompt_tokens,
+            completion_tokens: parsedResult.usage?.completion_tokens,
+            estimatedInputTokens: estimateMessagesTokens(messages),
+            estimatedOutputTokens: estimateTokens(parsedResult.cleanedContent),
+        });
+    };
 
-    if (config.api_format !== 'custom') {
-        const baseMessages = (requestBody as { messages: Array<{ role: string; content: string }> }).messages;
-        baseMessageCache.set(requestHash, baseMessages);
+    const reportOutputParse = (opts: { partial: boolean; failed: boolean }): void => {
+        if (traceSession) {
+            runtimeTraceLogger.addLlmOutputParse(traceSession.runId, { mode: structuredOutput ?? 'text', ...opts });
+        }
+    };
+
+    if (openAIRequestBody) {
+        baseMessageCache.set(requestHash, openAIRequestBody.messages);
+    }
+
+    // 重试与续写会重复输出已推送过的问题，按内容去重后再回调
+    const useStreaming = !!openAIRequestBody && supportsStreaming(config);
+    const streamedIssueKeys = new Set<string>();
+    const emitStreamedIssue = (issue: StreamedIssue): void => {
+        const key = JSON.stringify(issue);
+        if (streamedIssueKeys.has(key)) return;
+        streamedIssueKeys.add(key);
+        options?.onIssue?.(issue);
+    };
+    const postReviewRequest = async (body: unknown, estimatedTokens: number): Promise<unknown> => {
+        await rateLimiter?.acquire(estimatedTokens, options?.signal);
+        if (!useStreaming) {
+            const response = await axiosInstance.post(url, body, { timeout: config.timeout, signal: options?.signal });
+            return response.data;
+        }
+        const response = await axiosInstance.post(
+            url,
+            buildStreamingRequestBody(body, config.api_format),
+            { timeout: config.timeout, responseType: 'stream', signal: options?.signal }
+        );
+        const issueParser = createIssueStreamParser(emitStreamedIssue, logger);
+        return readChatCompletionStream(response.data, issueParser.push, logger);
+    };
+
+    if (diskCache) {
+        const cachedResponse = await diskCache.get(requestBody);
+        if (traceSession) {
+            runtimeTraceLogger.addLlmCacheLookup(traceSession.runId, { hit: !!cachedResponse });
+        }
+        if (cachedResponse) {
+            logger.debug(`AI 响应命中磁盘缓存（${request.files.length} 个文件）`);
+            cachedResponse.issues.forEach(emitStreamedIssue);
+            return mergeCachedIssues(requestHash, cachedResponse, false);
+        }
     }
 
     const maxRetries = config.retry_count ?? DEFAULT_MAX_RETRIES;
     const baseDelay = config.retry_delay ?? DEFAULT_RETRY_DELAY;
     let lastError: Error | null = null;
     let continuationRequestBody: typeof requestBody | null = null;
+    let currentMessages = openAIRequestBody?.messages ?? [];
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
         try {
             const currentRequestBody = continuationRequestBody || requestBody;
-            const response = await axiosInstance.post(
-                url,
-                currentRequestBody,
-                { timeout: config.timeout }
-            );
+            const estimatedTokens = openAIRequestBody
+                ? estimateMessagesTokens(currentMessages) + openAIRequestBody.max_tokens
+                : estimateFilesTokens(request.files);
+            const responseData = await postReviewRequest(currentRequestBody, estimatedTokens);
+            rateLimiter?.recordSuccess();
 
             if (config.api_format === 'custom') {
-                const parsedResponse = parseCustomResponse(response.data, logger);
+                const parsedResponse = parseCustomResponse(responseData, logger);
                 const mergedResponse = mergeCachedIssues(requestHash, parsedResponse, false);
-                reportLlmCall({ durationMs: Date.now() - callStartAt });
+                reportLlmCall({
+                    durationMs: Date.now() - callStartAt,
+                    estimatedInputTokens: estimateFilesTokens(request.files),
+                    estimatedOutputTokens: 0,
+                });
+                await diskCache?.set(requestBody, mergedResponse);
                 return mergedResponse;
             }
 
-            const parsedResult = parseOpenAIResponse(response.data, logger, config.max_tokens ?? DEFAULT_MAX_TOKENS);
+            let parsedResult: ReturnType<typeof parseOpenAIResponse>;
+            try {
+                parsedResult = parseOpenAIResponse(
+                    providerAdapter.toOpenAIResponse(responseData, logger),
+                    logger,
+                    config.max_tokens ?? DEFAULT_MAX_TOKENS
+                );
+            } catch (parseError) {
+                reportOutputParse({ partial: false, failed: true });
+                throw parseError;
+            }
+            reportOutputParse({ partial: parsedResult.isPartial, failed: false });
             const mergedResponse = mergeCachedIssues(requestHash, parsedResult.response, parsedResult.isPartial);
-            const durationMs = Date.now() - callStartAt;
 
             if (!parsedResult.isPartial) {
-                reportLlmCall({
-                    durationMs,
-                    prompt_tokens: parsedResult.usage?.prompt_tokens,
-                    completion_tokens: parsedResult.usage?.completion_tokens,
-                });
+                reportParsedLlmCall(parsedResult, currentMessages);
+                await diskCache?.set(requestBody, mergedResponse);
                 return mergedResponse;
             }
 
@@ -134,40 +260,38 @@ export async function callReviewAPI(
 
             if (attempt === maxRetries) {
                 logger.warn('续写重试次数已用尽，返回已解析的部分结果');
-                reportLlmCall({
-                    durationMs,
-                    prompt_tokens: parsedResult.usage?.prompt_tokens,
-                    completion_tokens: parsedResult.usage?.completion_tokens,
-                });
+                reportParsedLlmCall(parsedResult, currentMessages);
                 return mergedResponse;
             }
 
             const baseMessages = baseMessageCache.get(requestHash);
             if (!baseMessages) {
                 logger.warn('续写失败：未找到基础提示词，返回已解析的部分结果');
-                reportLlmCall({
-                    durationMs,
-                    prompt_tokens: parsedResult.usage?.prompt_tokens,
-                    completion_tokens: parsedResult.usage?.completion_tokens,
-                });
+                reportParsedLlmCall(parsedResult, currentMessages);
                 return mergedResponse;
             }
 
-            continuationRequestBody = buildContinuationOpenAIRequest(config, {
+            const continuationOpenAIBody = buildContinuationOpenAIRequest(config, {
                 baseMessages,
                 partialContent: parsedResult.cleanedContent,
                 cachedIssues: mergedResponse.issues,
             });
+            currentMessages = continuationOpenAIBody.messages;
+            continuationRequestBody = providerAdapter.buildRequestBody(continuationOpenAIBody, structuredOutput);
             continue;
         } catch (error) {
             lastError = error as Error;
 
+            if (options?.signal?.aborted || error instanceof CircuitOpenError) {
+                throw error;
+            }
+            const retryAfterMs = rateLimiter?.recordFailure(error) ?? null;
             if (attempt === maxRetries) {
                 break;
             }
 
             if (shouldRetry(error as AxiosError)) {
-                const delay = baseDelay * Math.pow(2, attempt);
+                const delay = retryAfterMs ?? baseDelay * Math.pow(2, attempt);
                 logger.warn(`AI API 调用失败，${delay}ms 后重试 (${attempt + 1}/${maxRetries})`);
                 await sleep(delay);
             } else {
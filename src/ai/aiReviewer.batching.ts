@@ -1,7 +1,8 @@
 /**
  * 审查单元与批次划分
  *
- * 将带内容的文件打成 ReviewUnit、按 snippet 或文件数切批、估算字符数等；依赖 types 与 snippets。
+ * 将带内容的文件打成 ReviewUnit（标注命中的审查配置并按配置分组）、按 snippet 或文件数切批、估算字符数等；
+ * 依赖 types、snippets、tokens 与 profiles。
  */
 
 import * as path from 'path';
@@ -17,6 +18,8 @@ import {
     DEFAULT_BATCH_SIZE,
 } from './aiReviewer.types';
 import { buildAstSnippetForSnippets } from './aiReviewer.snippets';
+import { estimateFilesTokens, getRequestTokenBudget } from './aiReviewer.tokens';
+import { groupUnitsByProfile, resolveReviewProfile } from './aiReviewer.profiles';
 
 /** 从配置读取 AST 片段预算，非法时回退默认值 */
 export function getAstSnippetBudget(config: AIReviewConfig | null): number {
@@ -76,29 +79,38 @@ export function chunkAstSnippets(
     return chunks.filter((chunk) => chunk.length > 0);
 }
 
-/** 按 snippet 或字符数权重将单元分组，每批权重不超过 budget；config 为 null 或 ast_chunk_weight_by 非 chars 时按片段数 */
+/**
+ * 按 snippet、字符数或 Token 权重将单元分组，每批权重不超过 budget；config 为 null 或未配置 ast_chunk_weight_by 时按片段数。
+ * 无论哪种权重，每批估算 Token 都不超过 getRequestTokenBudget（单个单元超限时独占一批，由二分降载兜底）。
+ */
 export function splitUnitsBySnippetBudget(
     units: ReviewUnit[],
     snippetBudget: number,
     config: AIReviewConfig | null = null
 ): ReviewUnit[][] {
     const weightBy = config?.ast_chunk_weight_by ?? DEFAULT_AST_CHUNK_WEIGHT_BY;
-    const useChars = weightBy === 'chars';
-    const budget = useChars ? getMaxRequestChars(config) : Math.max(1, snippetBudget);
+    const tokenBudget = getRequestTokenBudget(config);
+    const budget = weightBy === 'chars'
+        ? getMaxRequestChars(config)
+        : weightBy === 'tokens' ? tokenBudget : Math.max(1, snippetBudget);
     const batches: ReviewUnit[][] = [];
     let current: ReviewUnit[] = [];
     let currentWeight = 0;
+    let currentTokens = 0;
     for (const unit of units) {
-        const weight = useChars
+        const tokens = estimateFilesTokens([unit]);
+        const weight = weightBy === 'chars'
             ? Math.max(1, unit.content.length)
-            : Math.max(1, unit.snippetCount);
-        if (current.length > 0 && currentWeight + weight > budget) {
+            : weightBy === 'tokens' ? Math.max(1, tokens) : Math.max(1, unit.snippetCount);
+        if (current.length > 0 && (currentWeight + weight > budget || currentTokens + tokens > tokenBudget)) {
             batches.push(current);
             current = [];
             currentWeight = 0;
+            currentTokens = 0;
         }
         current.push(unit);
         currentWeight += weight;
+        currentTokens += tokens;
     }
     if (current.length > 0) batches.push(current);
     return batches;
@@ -135,7 +147,10 @@ export type BuildReviewUnitsOptions = {
     diffByFile?: Map<string, FileDiff>;
 };
 
-/** 将带内容的文件打成 ReviewUnit 数组；ast_snippet 模式按 chunk 拆成多单元，否则每文件一单元 */
+/**
+ * 将带内容的文件打成 ReviewUnit 数组；ast_snippet 模式按 chunk 拆成多单元，否则每文件一单元。
+ * 单元标注命中的 review_profiles 配置名，并按配置分组排列（组内保持原顺序），供切批时按组切分。
+ */
 export function buildReviewUnits(
     config: AIReviewConfig | null,
     validFiles: Array<{ path: string; content: string }>,
@@ -150,6 +165,7 @@ export function buildReviewUnits(
     for (const file of validFiles) {
         const normalizedPath = path.normalize(file.path);
         const astResult = options.astSnippetsByFile?.get(normalizedPath) ?? options.astSnippetsByFile?.get(file.path);
+        const profile = resolveReviewProfile(config?.review_profiles, file.path)?.name;
 
         if (useAstSnippetBatching && astResult?.snippets?.length) {
             const chunks = chunkAstSnippets(astResult.snippets, astSnippetBudget, astChunkStrategy);
@@ -162,6 +178,7 @@ export function buildReviewUnits(
                     content: buildAstSnippetForSnippets(file.path, chunk),
                     snippetCount: Math.max(1, chunk.length),
                     sourceType: 'ast',
+                    profile,
                 });
             }
             continue;
@@ -186,9 +203,10 @@ export function buildReviewUnits(
             content: file.content,
             snippetCount: Math.max(1, snippetCount),
             sourceType,
+            profile,
         });
     }
-    return units;
+    return groupUnitsByProfile(units).flat();
 }
 
 /** 按文件数切批时的默认批次大小（供主文件与 batching 模式选择使用） */
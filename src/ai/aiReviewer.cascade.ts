@@ -0,0 +1,253 @@
+/**
+ * 模型分级审查（cascade）：先用 triage_model 快速分诊，只把需要审查的单元交给主模型
+ *
+ * diff 命中风险特征（hasRiskChange，复用 run_on_save_risk_patterns）的单元直接升级，不经分诊；
+ * 其余单元按批发给分诊模型（每批不超过 TRIAGE_BATCH_SIZE 个单元与分诊模型的 Token 预算），判定 needs_review 的升级，判定为琐碎改动的跳过；
+ * 单个单元即超出预算时不发分诊请求，直接升级。
+ * 分诊请求失败、响应无法解析或漏判某个单元时一律升级，宁可多审不漏审。
+ * 分诊调用以 tier=triage 写入 addLlmCall，单元去向写入 addCascadeTriage，供运行汇总按层统计。
+ */
+
+import axios, { AxiosInstance, AxiosError } from 'axios';
+import * as path from 'path';
+import { z } from 'zod';
+import type { Logger } from '../utils/logger';
+import type { FileDiff } from '../utils/diffTypes';
+import type { RuntimeTraceLogger, RuntimeTraceSession } from '../utils/runtimeTraceLogger';
+import { DEFAULT_RUN_ON_SAVE_RISK_PATTERNS, hasRiskChange } from '../core/autoReviewGate';
+import type { AIReviewConfig, ReviewUnit } from './aiReviewer.types';
+import { DEFAULT_MAX_RETRIES, DEFAULT_RETRY_DELAY, OpenAIResponseSchema } from './aiReviewer.types';
+import { getLanguageFromExtension, type OpenAIRequestBody } from './aiReviewer.prompts';
+import { cleanJsonContent } from './aiReviewer.responseParser';
+import {
+    calculateCost,
+    estimateFilesTokens,
+    estimateMessagesTokens,
+    estimateTokens,
+    getRequestTokenBudget,
+    resolveModelProfile,
+} from './aiReviewer.tokens';
+import { getProviderAdapter } from './aiReviewer.providers';
+import { runWithRetry } from './aiRetryHandler';
+import type { AIRateLimiter } from './aiRateLimiter';
+
+/** 分诊响应默认 max_tokens：每个单元只需一个判定 */
+export const DEFAULT_TRIAGE_MAX_TOKENS = 1000;
+/** 每次分诊请求包含的单元数上限 */
+export const TRIAGE_BATCH_SIZE = 10;
+
+const TriageResponseSchema = z.object({
+    units: z.array(z.object({
+        index: z.number().int(),
+        needs_review: z.boolean(),
+        reason: z.string().optional(),
+    })),
+});
+
+const TRIAGE_SYSTEM_PROMPT = [
+    '你是代码审查分诊员，只判断每个代码变更单元是否需要资深审查，不做具体审查。',
+    '琐碎改动（格式、注释、重命名、日志文案、简单常量或类型标注调整）判为 false；',
+    '涉及逻辑分支、数据处理、并发、安全、错误处理、外部调用或无法确定时判为 true。',
+    '只返回 JSON：{"units": [{"index": 单元编号, "needs_review": true 或 false, "reason": "一句话理由"}]}，覆盖全部单元，不要输出其他内容。',
+].join('\n');
+
+/** 单次分级的单元去向统计 */
+export interface CascadeTriageResult {
+    /** 交给主模型审查的单元（保持原顺序） */
+    escalated: ReviewUnit[];
+    stats: {
+        units: number;
+        /** diff 命中风险特征而直接升级 */
+        escalatedByRisk: number;
+        /** 分诊判定需要审查而升级 */
+        escalatedByTriage: number;
+        /** 分诊失败或漏判而兜底升级 */
+        escalatedByFallback: number;
+        skipped: number;
+    };
+}
+
+/** triageReviewUnits 所需依赖，由 AIReviewer 注入 */
+export interface CascadeTriageDeps {
+    config: AIReviewConfig;
+    axiosInstance: AxiosInstance;
+    logger: Logger;
+    runtimeTraceLogger: RuntimeTraceLogger;
+    shouldRetry: (error: AxiosError) => boolean;
+    /** 跨批次、跨工作区根共享的限流器；未提供时不限流 */
+    rateLimiter?: AIRateLimiter;
+}
+
+/**
+ * 按单元数上限与分诊模型 Token 预算切分分诊批次；单个单元即超出预算的放入 oversized，由调用方直接升级。
+ */
+export const splitTriageBatches = (
+    units: ReviewUnit[],
+    tokenBudget: number
+): { batches: ReviewUnit[][]; oversized: ReviewUnit[] } => {
+    const batches: ReviewUnit[][] = [];
+    const oversized: ReviewUnit[] = [];
+    let current: ReviewUnit[] = [];
+    let currentTokens = 0;
+    for (const unit of units) {
+        const tokens = estimateFilesTokens([unit]);
+        if (tokens > tokenBudget) {
+            oversized.push(unit);
+            continue;
+        }
+        if (current.length >= TRIAGE_BATCH_SIZE || (current.length > 0 && currentTokens + tokens > tokenBudget)) {
+            batches.push(current);
+            current = [];
+            currentTokens = 0;
+        }
+        current.push(unit);
+        currentTokens += tokens;
+    }
+    if (current.length > 0) batches.push(current);
+    return { batches, oversized };
+};
+
+/** 构建 OpenAI 兼容格式的分诊请求体；单元按在本批中的下标编号 */
+export const buildTriageRequest = (config: AIReviewConfig, units: ReviewUnit[]): OpenAIRequestBody => {
+    const sections = units.map((unit, index) => {
+        const language = getLanguageFromExtension(path.extname(unit.path).replace(/^\./, ''));
+        return `### 单元 ${index}: ${unit.path}\n\`\`\`${language}\n${unit.content}\n\`\`\``;
+    });
+    return {
+        model: config.triage_model ?? '',
+        messages: [
+            { role: 'system', content: TRIAGE_SYSTEM_PROMPT },
+            { role: 'user', content: `共 ${units.length} 个单元：\n\n${sections.join('\n\n')}` },
+        ],
+        temperature: 0,
+        max_tokens: config.triage_max_tokens ?? DEFAULT_TRIAGE_MAX_TOKENS,
+    };
+};
+
+/**
+ * 解析分诊响应：needsReview 为判定需要审查的下标，unjudged 为响应未覆盖的下标（同样升级）。
+ * 响应不是合法 JSON 或结构不符时抛错，由调用方整批兜底升级。
+ */
+export const parseTriageResponse = (
+    content: string,
+    unitCount: number,
+    logger: Logger
+): { needsReview: Set<number>; unjudged: Set<number> } => {
+    const parsed = TriageResponseSchema.parse(JSON.parse(cleanJsonContent(content, logger)));
+    const verdicts = new Map(parsed.units.map(item => [item.index, item.needs_review]));
+    const needsReview = new Set<number>();
+    const unjudged = new Set<number>();
+    for (let index = 0; index < unitCount; index++) {
+        const verdict = verdicts.get(index);
+        if (verdict === undefined) unjudged.add(index);
+        else if (verdict) needsReview.add(index);
+    }
+    return { needsReview, unjudged };
+};
+
+/**
+ * 对审查单元分级：风险单元直接升级，其余按批分诊；取消（signal）时抛出，由 review 统一处理。
+ */
+export const triageReviewUnits = async (
+    deps: CascadeTriageDeps,
+    units: ReviewUnit[],
+    options: { diffByFile?: Map<string, FileDiff>; signal?: AbortSignal },
+    traceSession?: RuntimeTraceSession | null
+): Promise<CascadeTriageResult> => {
+    const { config, axiosInstance, logger, runtimeTraceLogger } = deps;
+    const riskPatterns = config.run_on_save_risk_patterns ?? DEFAULT_RUN_ON_SAVE_RISK_PATTERNS;
+    const stats: CascadeTriageResult['stats'] = {
+        units: units.length,
+        escalatedByRisk: 0,
+        escalatedByTriage: 0,
+        escalatedByFallback: 0,
+        skipped: 0,
+    };
+    const escalatedIds = new Set<string>();
+    const candidates: ReviewUnit[] = [];
+    for (const unit of units) {
+        const fileDiff = options.diffByFile?.get(path.normalize(unit.path)) ?? options.diffByFile?.get(unit.path);
+        if (hasRiskChange(fileDiff, riskPatterns)) {
+            escalatedIds.add(unit.unitId);
+            stats.escalatedByRisk++;
+        } else {
+            candidates.push(unit);
+        }
+    }
+
+    const providerAdapter = getProviderAdapter(config.api_format);
+    const modelProfile = resolveModelProfile(config, config.triage_model);
+    const { batches, oversized } = splitTriageBatches(candidates, getRequestTokenBudget(config, {
+        model: config.triage_model,
+        maxTokens: config.triage_max_tokens ?? DEFAULT_TRIAGE_MAX_TOKENS,
+    }));
+    if (oversized.length > 0) {
+        logger.debug(`模型分级：${oversized.length} 个单元超出分诊模型 Token 预算，直接交给主模型审查`);
+        oversized.forEach(unit => escalatedIds.add(unit.unitId));
+        stats.escalatedByFallback += oversized.length;
+    }
+    for (const batch of batches) {
+        const openAIRequestBody = buildTriageRequest(config, batch);
+        const callStartAt = Date.now();
+        let escalatedIndexes: Set<number>;
+        try {
+            const response = await runWithRetry(
+                () => axiosInstance.post(
+                    config.triageEndpoint ?? config.apiEndpoint,
+                    providerAdapter.buildRequestBody(openAIRequestBody),
+                    { timeout: config.timeout, signal: options.signal }
+                ),
+                {
+                    maxRetries: config.retry_count ?? DEFAULT_MAX_RETRIES,
+                    baseDelay: config.retry_delay ?? DEFAULT_RETRY_DELAY,
+                    shouldRetry: (error) => !options.signal?.aborted && axios.isAxiosError(error) && deps.shouldRetry(error),
+                    rateLimit: deps.rateLimiter && {
+                        limiter: deps.rateLimiter,
+                        estimatedTokens: estimateMessagesTokens(openAIRequestBody.messages) + openAIRequestBody.max_tokens,
+                        signal: options.signal,
+                    },
+                }
+            );
+            const data = OpenAIResponseSchema.parse(providerAdapter.toOpenAIResponse(response.data, logger));
+            const content = data.choices[0].message.content;
+            if (traceSession) {
+                const estimatedInput = estimateMessagesTokens(openAIRequestBody.messages);
+                const estimatedOutput = estimateTokens(content);
+                const usage = data.usage;
+                runtimeTraceLogger.addLlmCall(traceSession.runId, {
+                    tier: 'triage',
+                    durationMs: Date.now() - callStartAt,
+                    prompt_tokens: usage?.prompt_tokens,
+                    completion_tokens: usage?.completion_tokens,
+                    estimated_prompt_tokens: estimatedInput,
+                    estimated_completion_tokens: estimatedOutput,
+                    estimated_cost: calculateCost(modelProfile, { input: estimatedInput, output: estimatedOutput }),
+                    actual_cost: usage
+                        ? calculateCost(modelProfile, { input: usage.prompt_tokens ?? 0, output: usage.completion_tokens ?? 0 })
+                        : undefined,
+                });
+            }
+            const { needsReview, unjudged } = parseTriageResponse(content, batch.length, logger);
+            escalatedIndexes = new Set([...needsReview, ...unjudged]);
+            stats.escalatedByTriage += needsReview.size;
+            stats.escalatedByFallback += unjudged.size;
+            stats.skipped += batch.length - escalatedIndexes.size;
+        } catch (error) {
+            if (options.signal?.aborted) throw error;
+            logger.warn(`模型分级：分诊失败，本批 ${batch.length} 个单元直接交给主模型审查: ${error instanceof Error ? error.message : String(error)}`);
+            escalatedIndexes = new Set(batch.map((_, index) => index));
+            stats.escalatedByFallback += batch.length;
+        }
+        batch.forEach((unit, index) => {
+            if (escalatedIndexes.has(index)) escalatedIds.add(unit.unitId);
+        });
+    }
+
+    if (traceSession) {
+        runtimeTraceLogger.addCascadeTriage(traceSession.runId, stats);
+    }
+    logger.info(
+        `模型分级：${units.length} 个单元，升级 ${escalatedIds.size} 个（风险 ${stats.escalatedByRisk}、分诊 ${stats.escalatedByTriage}、兜底 ${stats.escalatedByFallback}），跳过 ${stats.skipped} 个`
+    );
+    return { escalated: units.filter(unit => escalatedIds.has(unit.unitId)), stats };
+};
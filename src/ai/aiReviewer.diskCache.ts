@@ -0,0 +1,133 @@
+/**
+ * AI 审查响应磁盘缓存（跨会话）
+ *
+ * 以 SHA-256(命名空间 + 提供方请求体) 为键，每条一个 <key>.json；请求体已包含模型、系统提示词、
+ * 温度与结构化输出参数，命名空间再纳入 api_format、端点与 rules 配置，任一变化即换键，旧条目按期限与容量淘汰。
+ * 仅缓存完整（非截断）响应；读写失败只记日志，不影响审查。
+ * 首次写入时在缓存目录放置忽略全部内容的 .gitignore，工作区缓存（.vscode/agentreview-cache）不会被提交。
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type { Logger } from '../utils/logger';
+import { AIReviewResponseSchema, type AIReviewResponse } from './aiReviewer.types';
+
+const CACHE_VERSION = 1;
+/** 每写入若干条后按期限与容量清理一次 */
+const PRUNE_EVERY_WRITES = 20;
+const GITIGNORE_CONTENT = '# AgentReview AI 响应缓存，自动生成\n*\n';
+
+/** 单个缓存文件结构 */
+type DiskCacheEntry = {
+    version: number;
+    createdAt: number;
+    response: AIReviewResponse;
+};
+
+export type AIResponseDiskCacheOptions = {
+    dir: string;
+    /** 参与键计算的附加指纹（api_format、端点、rules 配置等） */
+    namespace: string;
+    maxSizeBytes: number;
+    maxAgeMs: number;
+    logger?: Logger;
+};
+
+export type AIResponseDiskCache = {
+    /** 未命中、已过期或文件损坏时返回 null */
+    get: (requestBody: unknown) => Promise<AIReviewResponse | null>;
+    set: (requestBody: unknown, response: AIReviewResponse) => Promise<void>;
+    /** 删除过期条目，总大小超限时按最近使用时间从旧到新删除 */
+    prune: () => Promise<void>;
+};
+
+export const sha256 = (input: string): string => createHash('sha256').update(input, 'utf8').digest('hex');
+
+export const createAIResponseDiskCache = (options: AIResponseDiskCacheOptions): AIResponseDiskCache => {
+    const { dir, namespace, maxSizeBytes, maxAgeMs, logger } = options;
+    let writesSincePrune = 0;
+    let gitignoreEnsured = false;
+
+    const entryPath = (requestBody: unknown): string =>
+        path.join(dir, `${sha256(`${namespace}\n${JSON.stringify(requestBody)}`)}.json`);
+
+    const get = async (requestBody: unknown): Promise<AIReviewResponse | null> => {
+        const filePath = entryPath(requestBody);
+        let entry: DiskCacheEntry;
+        try {
+            entry = JSON.parse(await fs.promises.readFile(filePath, 'utf8')) as DiskCacheEntry;
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+                logger?.debug(`读取 AI 响应缓存失败: ${err instanceof Error ? err.message : String(err)}`);
+            }
+            return null;
+        }
+        const parsed = AIReviewResponseSchema.safeParse(entry?.response);
+        if (entry?.version !== CACHE_VERSION || !parsed.success || Date.now() - entry.createdAt > maxAgeMs) {
+            await fs.promises.unlink(filePath).catch(() => undefined);
+            return null;
+        }
+        // 更新访问时间，容量淘汰时优先保留最近命中的条目
+        const now = new Date();
+        await fs.promises.utimes(filePath, now, now).catch(() => undefined);
+        return parsed.data;
+    };
+
+    const set = async (requestBody: unknown, response: AIReviewResponse): Promise<void> => {
+        const entry: DiskCacheEntry = { version: CACHE_VERSION, createdAt: Date.now(), response };
+        try {
+            await fs.promises.mkdir(dir, { recursive: true });
+            if (!gitignoreEnsured) {
+                // wx：已有 .gitignore（含用户修改）时不覆盖
+                await fs.promises.writeFile(path.join(dir, '.gitignore'), GITIGNORE_CONTENT, { encoding: 'utf8', flag: 'wx' })
+                    .catch((err: NodeJS.ErrnoException) => {
+                        if (err.code !== 'EEXIST') throw err;
+                    });
+                gitignoreEnsured = true;
+            }
+            await fs.promises.writeFile(entryPath(requestBody), JSON.stringify(entry), 'utf8');
+        } catch (err) {
+            logger?.warn('写入 AI 响应缓存失败', err);
+            return;
+        }
+        writesSincePrune++;
+        if (writesSincePrune >= PRUNE_EVERY_WRITES) {
+            writesSincePrune = 0;
+            await prune();
+        }
+    };
+
+    const prune = async (): Promise<void> => {
+        let names: string[];
+        try {
+            names = (await fs.promises.readdir(dir)).filter(name => name.endsWith('.json'));
+        } catch {
+            return;
+        }
+        const expireBefore = Date.now() - maxAgeMs;
+        const files: Array<{ filePath: string; size: number; mtimeMs: number }> = [];
+        for (const name of names) {
+            const filePath = path.join(dir, name);
+            try {
+                const stat = await fs.promises.stat(filePath);
+                if (stat.mtimeMs < expireBefore) {
+                    await fs.promises.unlink(filePath);
+                } else {
+                    files.push({ filePath, size: stat.size, mtimeMs: stat.mtimeMs });
+                }
+            } catch {
+                // 并发清理或文件被占用时跳过
+            }
+        }
+        let totalSize = files.reduce((sum, file) => sum + file.size, 0);
+        files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+        for (const file of files) {
+            if (totalSize <= maxSizeBytes) break;
+            await fs.promises.unlink(file.filePath).catch(() => undefined);
+            totalSize -= file.size;
+        }
+    };
+
+    return { get, set, prune };
+};
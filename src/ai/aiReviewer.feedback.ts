@@ -0,0 +1,140 @@
+/**
+ * 忽略反馈学习：把开发者忽略（指纹）与放行（@ai-ignore）过的问题按规则与描述聚类，
+ * 取出现次数最多的几类作为「不要报告类似问题」追加到审查系统提示词，避免 AI 在其他文件重复同类挑剔。
+ *
+ * 聚类：同一规则内，描述去掉引号/反引号中的标识符与数字后分词，词集合 Jaccard 相似度达到阈值即归为一类。
+ * 只用 .vscode/agentreview-ignore.json 中的记录，不依赖网络；按存储文件 mtime 缓存聚类结果。
+ */
+
+import * as fs from 'fs';
+import type { Logger } from '../utils/logger';
+import { getIgnoreStorePath, loadIgnoreFeedbackItems } from '../config/ignoreStore';
+import { tokenizeForRetrieval } from './aiReviewer.knowledge';
+
+/** 默认最多注入的问题类型数 */
+export const DEFAULT_FEEDBACK_MAX_PATTERNS = 5;
+/** 两条描述归为同一类的最低词集合相似度 */
+const CLUSTER_SIMILARITY = 0.5;
+/** 提示词中单条描述与原因的字符上限 */
+const MAX_FEEDBACK_TEXT_CHARS = 120;
+/** 每类最多列出的放行原因数 */
+const MAX_REASONS_PER_PATTERN = 2;
+
+/** 一条开发者反馈：被忽略或放行的问题 */
+export interface FeedbackEntry {
+    rule: string;
+    message: string;
+    file: string;
+    /** 放行原因（仅 @ai-ignore 放行有） */
+    reason?: string;
+}
+
+/** 一类被反复忽略或放行的问题 */
+export interface FeedbackCluster {
+    rule: string;
+    /** 代表描述：该类中最早出现的一条 */
+    message: string;
+    count: number;
+    /** 涉及的不同文件数 */
+    files: number;
+    reasons: string[];
+}
+
+/** 去掉描述中因文件而异的部分（引号内标识符、数字），便于同类问题归并 */
+export const normalizeFeedbackMessage = (message: string): string =>
+    message
+        .replace(/`[^`]*`|'[^']*'|"[^"]*"|“[^”]*”|‘[^’]*’/g, ' ')
+        .replace(/\d+/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .toLowerCase();
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+    if (a.size === 0 && b.size === 0) return 1;
+    let intersection = 0;
+    for (const token of a) {
+        if (b.has(token)) intersection++;
+    }
+    return intersection / (a.size + b.size - intersection);
+};
+
+const truncate = (text: string): string =>
+    text.length > MAX_FEEDBACK_TEXT_CHARS ? `${text.slice(0, MAX_FEEDBACK_TEXT_CHARS)}…` : text;
+
+/**
+ * 按规则与描述相似度聚类，按出现次数、涉及文件数降序返回；AI 审查自身的失败/超时记录不参与。
+ */
+export const clusterFeedbackEntries = (entries: FeedbackEntry[]): FeedbackCluster[] => {
+    const clusters: Array<FeedbackCluster & { tokens: Set<string>; fileSet: Set<string>; order: number }> = [];
+    for (const entry of entries) {
+        const message = entry.message.trim();
+        if (!message || entry.rule.startsWith('ai_review_')) continue;
+        const tokens = new Set(tokenizeForRetrieval(normalizeFeedbackMessage(message)));
+        const cluster = clusters.find(item => item.rule === entry.rule && jaccard(item.tokens, tokens) >= CLUSTER_SIMILARITY);
+        const reason = entry.reason?.trim();
+        if (cluster) {
+            cluster.count++;
+            cluster.fileSet.add(entry.file);
+            if (reason && !cluster.reasons.includes(reason)) cluster.reasons.push(reason);
+            continue;
+        }
+        clusters.push({
+            rule: entry.rule,
+            message,
+            count: 1,
+            files: 0,
+            reasons: reason ? [reason] : [],
+            tokens,
+            fileSet: new Set([entry.file]),
+            order: clusters.length,
+        });
+    }
+    return clusters
+        .sort((a, b) => b.count - a.count || b.fileSet.size - a.fileSet.size || a.order - b.order)
+        .map(({ rule, message, count, fileSet, reasons }) => ({ rule, message, count, files: fileSet.size, reasons }));
+};
+
+/** 生成追加到系统提示词的反馈段落；无聚类或 maxPatterns 不大于 0 时为空 */
+export const buildFeedbackPrompt = (clusters: FeedbackCluster[], maxPatterns: number): string => {
+    const rows = clusters.slice(0, Math.max(0, maxPatterns)).map(cluster => {
+        const reasons = cluster.reasons.slice(0, MAX_REASONS_PER_PATTERN).map(truncate);
+        const detail = [
+            `已忽略或放行 ${cluster.count} 次`,
+            ...(reasons.length > 0 ? [`原因：${reasons.join('；')}`] : []),
+        ].join('，');
+        return `- [${cluster.rule}] ${truncate(cluster.message)}（${detail}）`;
+    });
+    if (rows.length === 0) return '';
+    return ['**本项目开发者已忽略或放行的问题类型（不要报告与下列相似的问题）：**', ...rows].join('\n');
+};
+
+/**
+ * 忽略反馈：按忽略存储文件的 mtime 缓存聚类结果，文件变化后重新聚类
+ */
+export class IgnoreFeedback {
+    private current: { storePath: string; mtimeMs: number; clusters: FeedbackCluster[] } | null = null;
+
+    constructor(private readonly logger: Logger) {}
+
+    /** 加载工作区的反馈聚类；无存储文件时返回空列表 */
+    load = async (workspaceRoot: string): Promise<FeedbackCluster[]> => {
+        const storePath = getIgnoreStorePath(workspaceRoot);
+        let mtimeMs: number;
+        try {
+            mtimeMs = (await fs.promises.stat(storePath)).mtimeMs;
+        } catch {
+            return [];
+        }
+        if (this.current?.storePath === storePath && this.current.mtimeMs === mtimeMs) {
+            return this.current.clusters;
+        }
+        const { ignored, allowed } = await loadIgnoreFeedbackItems(workspaceRoot);
+        const clusters = clusterFeedbackEntries([
+            ...ignored.map(item => ({ rule: item.rule, message: item.message ?? '', file: item.file })),
+            ...allowed.map(item => ({ rule: item.rule, message: item.message ?? '', file: item.file, reason: item.reason })),
+        ]);
+        this.current = { storePath, mtimeMs, clusters };
+        this.logger.debug(`[feedback] ${ignored.length} 条忽略、${allowed.length} 条放行归为 ${clusters.length} 类`);
+        return clusters;
+    };
+}
@@ -0,0 +1,130 @@
+/**
+ * AI 修复：截取问题片段、构建修复请求、解析替换代码
+ *
+ * 修复以「片段整体替换」的方式进行：优先取问题的 astRange，没有时取问题行前后少量行；
+ * 片段外再附带上下文供模型理解，但模型只返回片段的替换文本。
+ */
+
+import * as path from 'path';
+import { z } from 'zod';
+import type { Logger } from '../utils/logger';
+import type { ReviewIssue } from '../types/review';
+import type { AIReviewConfig } from './aiReviewer.types';
+import { DEFAULT_MAX_TOKENS, OpenAIResponseSchema, handleZodError } from './aiReviewer.types';
+import { getLanguageFromExtension, type OpenAIRequestBody } from './aiReviewer.prompts';
+import { cleanJsonContent } from './aiReviewer.responseParser';
+
+/** 无 astRange 时，问题行前后各取几行作为可替换片段 */
+export const FIX_FALLBACK_HALF_WINDOW = 2;
+/** 片段外前后各附带几行上下文 */
+export const FIX_CONTEXT_LINES = 20;
+
+export interface AIFixSnippet {
+    /** 片段起止行（1-based，含） */
+    startLine: number;
+    endLine: number;
+    code: string;
+    contextBefore: string;
+    contextAfter: string;
+}
+
+export interface AIFixRequest {
+    filePath: string;
+    issue: Pick<ReviewIssue, 'line' | 'rule' | 'message' | 'reason' | 'severity'>;
+    snippet: AIFixSnippet;
+}
+
+export interface AIFixResult {
+    /** 片段 startLine..endLine 的替换文本（不含末尾换行） */
+    replacement: string;
+    explanation?: string;
+}
+
+const AIFixResponseSchema = z.object({
+    replacement: z.string(),
+    explanation: z.string().optional(),
+});
+
+const FIX_SYSTEM_PROMPT = [
+    '你是资深工程师，负责根据代码审查问题修复代码。',
+    '只修改「待修复片段」，保持原有缩进、命名与代码风格，不做与问题无关的重构。',
+    '只返回 JSON：{"replacement": "替换后的完整片段代码", "explanation": "一句话说明修改"}，不要输出其他内容。',
+].join('\n');
+
+/**
+ * 从文件行中截取修复片段与上下文。
+ * @param lines - 文件内容按行拆分（0-based 索引）
+ */
+export const buildFixSnippet = (
+    lines: string[],
+    issue: Pick<ReviewIssue, 'line' | 'astRange'>,
+    contextLines = FIX_CONTEXT_LINES
+): AIFixSnippet => {
+    const lastLine = Math.max(1, lines.length);
+    const clamp = (line: number) => Math.min(Math.max(1, Math.floor(line)), lastLine);
+    const issueLine = clamp(issue.line);
+    const astCoversIssue = !!issue.astRange
+        && issue.astRange.startLine <= issueLine
+        && issue.astRange.endLine >= issueLine;
+    const startLine = astCoversIssue ? clamp(issue.astRange!.startLine) : clamp(issueLine - FIX_FALLBACK_HALF_WINDOW);
+    const endLine = astCoversIssue ? clamp(issue.astRange!.endLine) : clamp(issueLine + FIX_FALLBACK_HALF_WINDOW);
+    return {
+        startLine,
+        endLine,
+        code: lines.slice(startLine - 1, endLine).join('\n'),
+        contextBefore: lines.slice(Math.max(0, startLine - 1 - contextLines), startLine - 1).join('\n'),
+        contextAfter: lines.slice(endLine, endLine + contextLines).join('\n'),
+    };
+};
+
+/** 构建 OpenAI 兼容格式的修复请求体 */
+export const buildFixRequest = (config: AIReviewConfig, request: AIFixRequest): OpenAIRequestBody => {
+    const { issue, snippet } = request;
+    const language = getLanguageFromExtension(path.extname(request.filePath).replace(/^\./, ''));
+    const fence = (code: string) => `\`\`\`${language}\n${code}\n\`\`\``;
+    const userContent = [
+        `文件: ${request.filePath}`,
+        `问题（第 ${issue.line} 行，规则 ${issue.rule}，${issue.severity}）: ${issue.message}`,
+        ...(issue.reason && issue.reason !== issue.message ? [`原因: ${issue.reason}`] : []),
+        '',
+        ...(snippet.contextBefore ? ['片段前的上下文（只读）:', fence(snippet.contextBefore), ''] : []),
+        `待修复片段（第 ${snippet.startLine}-${snippet.endLine} 行）:`,
+        fence(snippet.code),
+        '',
+        ...(snippet.contextAfter ? ['片段后的上下文（只读）:', fence(snippet.contextAfter), ''] : []),
+        'replacement 必须是待修复片段的完整替换内容（可增减行数），不要包含上下文部分。',
+    ].join('\n');
+    return {
+        model: config.model ?? '',
+        messages: [
+            { role: 'system', content: FIX_SYSTEM_PROMPT },
+            { role: 'user', content: userContent },
+        ],
+        temperature: 0,
+        max_tokens: config.max_tokens ?? DEFAULT_MAX_TOKENS,
+    };
+};
+
+/**
+ * 解析修复响应：优先按 JSON 解析；模型只返回了代码块时退化为取代码块内容。
+ */
+export const parseFixResponse = (data: unknown, logger: Logger): AIFixResult => {
+    let content: string;
+    try {
+        content = OpenAIResponseSchema.parse(data).choices[0].message.content;
+    } catch (error) {
+        handleZodError(error, logger, 'AI 修复响应');
+    }
+    const cleaned = cleanJsonContent(content, logger);
+    try {
+        const parsed = AIFixResponseSchema.parse(JSON.parse(cleaned));
+        return { replacement: parsed.replacement.replace(/\r?\n$/, ''), explanation: parsed.explanation };
+    } catch {
+        const codeBlock = content.match(/```[\w-]*\n([\s\S]*?)```/);
+        if (codeBlock) {
+            logger.warn('AI 修复响应不是 JSON，已使用代码块内容作为替换');
+            return { replacement: codeBlock[1].replace(/\r?\n$/, '') };
+        }
+        throw new Error('AI 修复响应格式无效：缺少 replacement');
+    }
+};
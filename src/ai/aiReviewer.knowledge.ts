@@ -0,0 +1,292 @@
+/**
+ * 项目规范知识注入：把 knowledge.documents 指定的规范文档（CONTRIBUTING.md、docs/conventions/*.md、ADR 等）
+ * 按 Markdown 标题与段落切块，建立本地 BM25 词法索引；每个审查单元以当前审查代码为查询取最相关的几段，
+ * 作为「项目规范参考」追加到外部引用上下文中；整文件单元没有 "# 行 N" 标注，规范随单元单独携带，请求中放在代码块之后。
+ *
+ * 分词：英文标识符按驼峰/下划线拆分并小写，中文按相邻两字切分；不依赖向量模型与网络。
+ * 附加内容受 max_passages、max_chars 与单次请求 Token 预算约束，超出预算的单元不附加。
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+import type { Logger } from '../utils/logger';
+import type { AgentReviewConfig } from '../types/config';
+import type { ReviewUnit } from './aiReviewer.types';
+import { appendReferenceContext, extractCurrentReviewContent } from './aiReviewer.snippets';
+import { estimateFilesTokens } from './aiReviewer.tokens';
+
+export type KnowledgeConfig = NonNullable<AgentReviewConfig['knowledge']>;
+
+/** 每个审查单元默认最多附带的段落数 */
+export const DEFAULT_KNOWLEDGE_MAX_PASSAGES = 3;
+/** 每个审查单元附带规范的默认字符上限 */
+export const DEFAULT_KNOWLEDGE_MAX_CHARS = 2000;
+/** 单个段落的字符上限，超出的段落按该长度切开 */
+const MAX_PASSAGE_CHARS = 800;
+/** 最多索引的文档数，避免 ** 模式扫描整个仓库 */
+const MAX_KNOWLEDGE_DOCUMENTS = 200;
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules', 'dist', 'out']);
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+/** diff/AST 片段中的行号标注；带标注的内容按标注还原行号，可安全追加外部引用上下文 */
+const LINE_MARKER_PATTERN = /^# 行 \d+$/m;
+
+/** 代码与文档中常见但无区分度的词 */
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'be', 'by', 'do', 'for', 'if', 'in', 'is', 'it', 'of', 'on', 'or', 'to', 'the', 'this',
+    'that', 'with', 'from', 'import', 'export', 'const', 'let', 'var', 'return', 'function', 'new', 'true', 'false',
+    'null', 'undefined', 'else', 'default', 'async', 'await', 'type', 'interface',
+]);
+
+export interface KnowledgePassage {
+    /** 文档相对工作区根的路径（/ 分隔） */
+    source: string;
+    /** 段落所在的标题路径，如「命名 › 组件」；文档开头无标题时为空 */
+    heading: string;
+    text: string;
+}
+
+export interface KnowledgeMatch extends KnowledgePassage {
+    score: number;
+}
+
+/** 检索用分词：英文标识符拆分驼峰与下划线后小写，中文按相邻两字切分 */
+export const tokenizeForRetrieval = (text: string): string[] => {
+    const tokens: string[] = [];
+    for (const match of text.matchAll(/[A-Za-z][A-Za-z0-9]*|[\u4e00-\u9fff]+/g)) {
+        const word = match[0];
+        if (/^[\u4e00-\u9fff]/.test(word)) {
+            if (word.length === 1) {
+                tokens.push(word);
+            }
+            for (let i = 0; i < word.length - 1; i++) {
+                tokens.push(word.slice(i, i + 2));
+            }
+            continue;
+        }
+        const parts = word.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2').toLowerCase().split(' ');
+        for (const part of parts) {
+            if (part.length >= 2 && !STOP_WORDS.has(part)) tokens.push(part);
+        }
+        const whole = word.toLowerCase();
+        if (parts.length > 1 && !STOP_WORDS.has(whole)) tokens.push(whole);
+    }
+    return tokens;
+};
+
+/** 按 Markdown 标题与空行切块；代码块内的 # 不视为标题，过长段落按 MAX_PASSAGE_CHARS 切开 */
+export const chunkKnowledgeDocument = (source: string, content: string): KnowledgePassage[] => {
+    const passages: KnowledgePassage[] = [];
+    const headings: string[] = [];
+    let buffer: string[] = [];
+    let inFence = false;
+
+    const flushParagraph = (): void => {
+        const text = buffer.join('\n').trim();
+        buffer = [];
+        if (!text) return;
+        const heading = headings.filter(Boolean).join(' › ');
+        const last = passages[passages.length - 1];
+        if (last && last.source === source && last.heading === heading && last.text.length + text.length + 2 <= MAX_PASSAGE_CHARS) {
+            last.text = `${last.text}\n\n${text}`;
+            return;
+        }
+        for (let start = 0; start < text.length; start += MAX_PASSAGE_CHARS) {
+            passages.push({ source, heading, text: text.slice(start, start + MAX_PASSAGE_CHARS) });
+        }
+    };
+
+    for (const line of content.replace(/\r\n/g, '\n').split('\n')) {
+        if (/^\s*(```|~~~)/.test(line)) {
+            inFence = !inFence;
+        }
+        const headingMatch = inFence ? null : /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+        if (headingMatch) {
+            flushParagraph();
+            const level = headingMatch[1].length;
+            headings.length = level;
+            headings[level - 1] = headingMatch[2];
+            continue;
+        }
+        if (!inFence && !line.trim()) {
+            flushParagraph();
+            continue;
+        }
+        buffer.push(line);
+    }
+    flushParagraph();
+    return passages;
+};
+
+/**
+ * 段落的 BM25 词法索引
+ */
+export class KnowledgeIndex {
+    private readonly entries: Array<{ passage: KnowledgePassage; termFreq: Map<string, number>; length: number }>;
+    private readonly docFreq = new Map<string, number>();
+    private readonly avgLength: number;
+
+    constructor(passages: KnowledgePassage[]) {
+        this.entries = passages.map(passage => {
+            const termFreq = new Map<string, number>();
+            const tokens = tokenizeForRetrieval(`${passage.heading}\n${passage.text}`);
+            for (const token of tokens) termFreq.set(token, (termFreq.get(token) ?? 0) + 1);
+            for (const token of termFreq.keys()) this.docFreq.set(token, (this.docFreq.get(token) ?? 0) + 1);
+            return { passage, termFreq, length: tokens.length };
+        });
+        this.avgLength = this.entries.reduce((sum, entry) => sum + entry.length, 0) / Math.max(1, this.entries.length);
+    }
+
+    get size(): number {
+        return this.entries.length;
+    }
+
+    /** 取得分最高的 limit 个段落；查询词去重，避免代码中重复出现的标识符主导排序 */
+    search = (query: string, limit: number): KnowledgeMatch[] => {
+        const terms = [...new Set(tokenizeForRetrieval(query))].filter(term => this.docFreq.has(term));
+        if (terms.length === 0 || limit <= 0) return [];
+        const total = this.entries.length;
+        const matches: KnowledgeMatch[] = [];
+        for (const entry of this.entries) {
+            let score = 0;
+            for (const term of terms) {
+                const tf = entry.termFreq.get(term);
+                if (!tf) continue;
+                const df = this.docFreq.get(term) ?? 0;
+                const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+                score += idf * (tf * (BM25_K1 + 1))
+                    / (tf + BM25_K1 * (1 - BM25_B + BM25_B * entry.length / Math.max(1, this.avgLength)));
+            }
+            if (score > 0) matches.push({ ...entry.passage, score });
+        }
+        return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+    };
+}
+
+/** 展开文档 glob（相对工作区根），返回排序后的相对路径；无通配符的模式按文件路径直接匹配 */
+export const resolveKnowledgeDocuments = (workspaceRoot: string, patterns: string[]): string[] => {
+    const found = new Set<string>();
+    const walk = (relativeDir: string, pattern: string): void => {
+        let entries: fs.Dirent[];
+        try {
+            entries = fs.readdirSync(path.join(workspaceRoot, relativeDir), { withFileTypes: true });
+        } catch {
+            return;
+        }
+        for (const entry of entries) {
+            if (found.size >= MAX_KNOWLEDGE_DOCUMENTS) return;
+            const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+            if (entry.isDirectory()) {
+                if (!SKIPPED_DIRECTORIES.has(entry.name)) walk(relativePath, pattern);
+            } else if (entry.isFile() && minimatch(relativePath, pattern, { dot: true })) {
+                found.add(relativePath);
+            }
+        }
+    };
+    for (const raw of patterns) {
+        const pattern = raw.replace(/\\/g, '/').trim().replace(/^\.\//, '');
+        if (!pattern) continue;
+        const segments = pattern.split('/');
+        const globIndex = segments.findIndex(segment => /[*?[\]{}]/.test(segment));
+        if (globIndex === -1) {
+            if (fs.existsSync(path.join(workspaceRoot, pattern))) found.add(pattern);
+            continue;
+        }
+        walk(segments.slice(0, globIndex).join('/'), pattern);
+    }
+    return [...found].sort().slice(0, MAX_KNOWLEDGE_DOCUMENTS);
+};
+
+/**
+ * 知识库：按文档 mtime 缓存切块结果，文档集合或任一文档修改后重建索引
+ */
+export class KnowledgeBase {
+    private cache = new Map<string, { mtimeMs: number; passages: KnowledgePassage[] }>();
+    private current: { key: string; index: KnowledgeIndex } | null = null;
+
+    constructor(private readonly logger: Logger) {}
+
+    /** 加载 documents 对应的索引；文档不存在或读取失败时跳过该文档 */
+    load = (workspaceRoot: string, documents: string[]): KnowledgeIndex => {
+        const loaded: Array<{ source: string; mtimeMs: number; passages: KnowledgePassage[] }> = [];
+        for (const source of resolveKnowledgeDocuments(workspaceRoot, documents)) {
+            const filePath = path.join(workspaceRoot, source);
+            let mtimeMs: number;
+            try {
+                mtimeMs = fs.statSync(filePath).mtimeMs;
+            } catch {
+                continue;
+            }
+            const cached = this.cache.get(filePath);
+            if (cached && cached.mtimeMs === mtimeMs) {
+                loaded.push({ source, mtimeMs, passages: cached.passages });
+                continue;
+            }
+            try {
+                const passages = chunkKnowledgeDocument(source, fs.readFileSync(filePath, 'utf8'));
+                this.cache.set(filePath, { mtimeMs, passages });
+                loaded.push({ source, mtimeMs, passages });
+            } catch (error) {
+                this.logger.warn(`项目规范文档读取失败，已跳过: ${filePath}`, error);
+            }
+        }
+        const key = loaded.map(doc => `${doc.source}@${doc.mtimeMs}`).join('\n');
+        if (this.current?.key !== key) {
+            const index = new KnowledgeIndex(loaded.flatMap(doc => doc.passages));
+            this.current = { key, index };
+            if (loaded.length > 0) {
+                this.logger.info(`[knowledge] 已索引 ${loaded.length} 个规范文档，共 ${index.size} 个段落`);
+            }
+        }
+        return this.current.index;
+    };
+}
+
+/** 把命中段落拼成「项目规范参考」小节；按得分顺序放入，总长度不超过 maxChars，首段超长时截断 */
+export const buildKnowledgeReferenceContext = (matches: KnowledgeMatch[], maxChars: number): string => {
+    const blocks: string[] = [];
+    let used = 0;
+    for (const match of matches) {
+        const title = match.heading ? `${match.source} › ${match.heading}` : match.source;
+        const block = `### ${title}\n${match.text}`;
+        if (used + block.length <= maxChars) {
+            blocks.push(block);
+            used += block.length;
+        } else if (blocks.length === 0 && maxChars > title.length + 8) {
+            blocks.push(`${block.slice(0, maxChars - 1)}…`);
+            break;
+        }
+    }
+    return blocks.length > 0 ? `## 项目规范参考 (Project Conventions)\n${blocks.join('\n\n')}` : '';
+};
+
+/**
+ * 为每个审查单元检索规范段落：带 "# 行 N" 标注的 diff/AST 片段附加到外部引用上下文，
+ * 整文件单元放入 knowledgeContext（内容按行序编号，前置标题会使行号错位）；
+ * 附加后单元估算 Token 超过 tokenBudget 时保持原样。返回新单元数组与附加了规范的单元数。
+ */
+export const attachKnowledgeToUnits = (
+    units: ReviewUnit[],
+    index: KnowledgeIndex,
+    options: { maxPassages?: number; maxChars?: number; tokenBudget: number }
+): { units: ReviewUnit[]; attached: number } => {
+    const maxPassages = Math.max(0, Math.floor(options.maxPassages ?? DEFAULT_KNOWLEDGE_MAX_PASSAGES));
+    const maxChars = Math.max(0, Math.floor(options.maxChars ?? DEFAULT_KNOWLEDGE_MAX_CHARS));
+    let attached = 0;
+    const result = units.map(unit => {
+        const matches = index.search(`${unit.path}\n${extractCurrentReviewContent(unit.content)}`, maxPassages);
+        const section = buildKnowledgeReferenceContext(matches, maxChars);
+        if (!section) return unit;
+        const hasLineMarkers = LINE_MARKER_PATTERN.test(extractCurrentReviewContent(unit.content));
+        const content = hasLineMarkers
+            ? appendReferenceContext(unit.content, section)
+            : `${unit.content}\n\n${section}`;
+        if (estimateFilesTokens([{ path: unit.path, content }]) > options.tokenBudget) {
+            return unit;
+        }
+        attached++;
+        return hasLineMarkers ? { ...unit, content } : { ...unit, knowledgeContext: section };
+    });
+    return { units: result, attached };
+};
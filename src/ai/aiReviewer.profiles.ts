@@ -0,0 +1,73 @@
+/**
+ * 按路径生效的审查配置（ai_review.review_profiles）
+ *
+ * 每个配置以 glob 匹配文件（与 exclusions 同一匹配口径），按声明顺序取第一个命中的配置；
+ * 配置携带追加到系统提示词的审查侧重、严重程度下限与问题数上限。
+ * 审查单元按配置分组切批，同一批次只使用一种提示词。
+ */
+
+import { matchesPathPatterns } from '../shared/ruleChecks';
+import type { ReviewIssue } from '../types/review';
+import type { AIReviewConfig, AIReviewResponse, ReviewProfile, ReviewUnit } from './aiReviewer.types';
+
+const SEVERITY_RANK: Record<ReviewIssue['severity'], number> = { info: 0, warning: 1, error: 2 };
+
+/** 取文件命中的第一个审查配置；未配置 paths 的项不参与匹配 */
+export const resolveReviewProfile = (
+    profiles: AIReviewConfig['review_profiles'],
+    filePath: string
+): ReviewProfile | undefined =>
+    profiles?.find(profile => profile.paths?.length > 0 && matchesPathPatterns(filePath, profile.paths));
+
+/** 按配置名取审查配置 */
+export const getReviewProfileByName = (
+    profiles: AIReviewConfig['review_profiles'],
+    name: string | undefined
+): ReviewProfile | undefined =>
+    name === undefined ? undefined : profiles?.find(profile => profile.name === name);
+
+/** 按单元所属配置分组（保持各组首次出现的顺序与组内原顺序），未命中配置的单元为一组 */
+export const groupUnitsByProfile = (units: ReviewUnit[]): ReviewUnit[][] => {
+    const groups = new Map<string | undefined, ReviewUnit[]>();
+    for (const unit of units) {
+        const group = groups.get(unit.profile);
+        if (group) group.push(unit);
+        else groups.set(unit.profile, [unit]);
+    }
+    return [...groups.values()];
+};
+
+/** 丢弃低于配置严重程度下限的问题（按模型返回的原始 severity 判断） */
+export const applySeverityFloor = (
+    response: AIReviewResponse,
+    profile: ReviewProfile | undefined
+): AIReviewResponse => {
+    const floor = profile?.min_severity;
+    if (!floor) return response;
+    return { ...response, issues: response.issues.filter(issue => SEVERITY_RANK[issue.severity] >= SEVERITY_RANK[floor]) };
+};
+
+/**
+ * 按配置的 max_issues 截断问题：同一配置下按严重程度从高到低保留，其余问题保持原顺序。
+ */
+export const capIssuesByProfile = (
+    issues: ReviewIssue[],
+    profiles: AIReviewConfig['review_profiles']
+): ReviewIssue[] => {
+    if (!profiles?.some(profile => profile.max_issues !== undefined)) return issues;
+    const byProfile = new Map<ReviewProfile, ReviewIssue[]>();
+    for (const issue of issues) {
+        const profile = resolveReviewProfile(profiles, issue.file);
+        if (profile?.max_issues === undefined) continue;
+        byProfile.set(profile, [...(byProfile.get(profile) ?? []), issue]);
+    }
+    const dropped = new Set<ReviewIssue>();
+    for (const [profile, profileIssues] of byProfile) {
+        const limit = Math.max(0, Math.floor(profile.max_issues ?? 0));
+        [...profileIssues]
+            .sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity])
+            .slice(limit)
+            .forEach(issue => dropped.add(issue));
+    }
+    return issues.filter(issue => !dropped.has(issue));
+};
@@ -0,0 +1,96 @@
+/**
+ * 仓库级提示词模板：从 .agentreview/prompts/<name>.md 加载审查与续写模板
+ *
+ * review.md 可用占位符：{{intro}} {{files}} {{knownDiagnostics}} {{lineHint}} {{language}}；
+ * continuation.md 可用占位符：{{issueCount}} {{lastIssue}}。
+ * 模板须保留输出约定（review 含 {{files}} 与 issues 的 file/line/message/severity 字段，continuation 含 "issues"），
+ * 校验不通过或读取失败时记录警告并回退内置模板。生效模板内容的哈希写入运行汇总并参与磁盘缓存键。
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Logger } from '../utils/logger';
+import type { PromptTemplateName, PromptTemplateSet } from './aiReviewer.types';
+import { DEFAULT_CONTINUATION_TEMPLATE, DEFAULT_REVIEW_TEMPLATE } from './aiReviewer.prompts';
+import { sha256 } from './aiReviewer.diskCache';
+
+export const DEFAULT_PROMPT_TEMPLATE_DIR = '.agentreview/prompts';
+
+const DEFAULT_TEMPLATES: Record<PromptTemplateName, string> = {
+    review: DEFAULT_REVIEW_TEMPLATE,
+    continuation: DEFAULT_CONTINUATION_TEMPLATE,
+};
+
+/** 各模板必须包含的片段：缺少时模型输出无法按 AIReviewResponseSchema 解析 */
+const REQUIRED_FRAGMENTS: Record<PromptTemplateName, string[]> = {
+    review: ['{{files}}', '"issues"', '"file"', '"line"', '"message"', '"severity"'],
+    continuation: ['"issues"'],
+};
+
+/** 返回模板缺少的必需片段；为空表示通过校验 */
+export const validatePromptTemplate = (name: PromptTemplateName, template: string): string[] =>
+    REQUIRED_FRAGMENTS[name].filter(fragment => !template.replace(/\{\{\s*(\w+)\s*\}\}/g, '{{$1}}').includes(fragment));
+
+/** 由模板内容组装模板集，哈希取 SHA-256 前 12 位 */
+export const createPromptTemplateSet = (
+    templates: Record<PromptTemplateName, string>,
+    overrides: PromptTemplateName[] = []
+): PromptTemplateSet => ({
+    review: templates.review,
+    continuation: templates.continuation,
+    hash: sha256(`${templates.review}\n---\n${templates.continuation}`).slice(0, 12),
+    overrides,
+});
+
+/** 仅使用内置模板的模板集 */
+export const getDefaultPromptTemplateSet = (): PromptTemplateSet => createPromptTemplateSet(DEFAULT_TEMPLATES);
+
+/**
+ * 模板加载器：按文件 mtime 缓存，模板文件修改后下次审查自动重新加载
+ */
+export class PromptTemplateLoader {
+    private cache = new Map<string, { mtimeMs: number; template: string | null }>();
+
+    constructor(private readonly logger: Logger) {}
+
+    /** 加载目录下的模板；目录或文件不存在时使用内置模板 */
+    load = (templateDir: string): PromptTemplateSet => {
+        const templates = { ...DEFAULT_TEMPLATES };
+        const overrides: PromptTemplateName[] = [];
+        for (const name of Object.keys(DEFAULT_TEMPLATES) as PromptTemplateName[]) {
+            const template = this.loadFile(name, path.join(templateDir, `${name}.md`));
+            if (template !== null) {
+                templates[name] = template;
+                overrides.push(name);
+            }
+        }
+        return createPromptTemplateSet(templates, overrides);
+    };
+
+    private loadFile = (name: PromptTemplateName, filePath: string): string | null => {
+        let mtimeMs: number;
+        try {
+            mtimeMs = fs.statSync(filePath).mtimeMs;
+        } catch {
+            return null;
+        }
+        const cached = this.cache.get(filePath);
+        if (cached && cached.mtimeMs === mtimeMs) {
+            return cached.template;
+        }
+        let template: string | null = null;
+        try {
+            const content = fs.readFileSync(filePath, 'utf8').replace(/\r\n/g, '\n');
+            const missing = validatePromptTemplate(name, content);
+            if (missing.length > 0) {
+                this.logger.warn(`提示词模板 ${path.basename(filePath)} 缺少输出约定 ${missing.join(' ')}，已使用内置模板`);
+            } else {
+                template = content;
+            }
+        } catch (error) {
+            this.logger.warn(`提示词模板读取失败，已使用内置模板: ${filePath}`, error);
+        }
+        this.cache.set(filePath, { mtimeMs, template });
+        return template;
+    };
+}
@@ -1,11 +1,12 @@
 ﻿/**
  * 提示词与请求体构建
  *
- * OpenAI 兼容 / 自定义格式的请求体、已知问题白名单、续写请求。
+ * OpenAI 兼容 / 自定义格式的请求体、已知问题白名单、按路径审查配置与忽略反馈的提示词追加、续写请求。
+ * 审查与续写的用户提示词由模板渲染：内置 DEFAULT_*_TEMPLATE，可被 config.promptTemplates（仓库 .agentreview/prompts）覆盖。
  */
 
 import type { Logger } from '../utils/logger';
-import type { AIReviewConfig, AIReviewResponse } from './aiReviewer.types';
+import type { AIReviewConfig, AIReviewResponse, ReviewProfile } from './aiReviewer.types';
 import { DEFAULT_SYSTEM_PROMPT, DEFAULT_TEMPERATURE, DEFAULT_MAX_TOKENS } from './aiReviewer.types';
 
 const LANGUAGE_MAP: Record<string, string> = {
@@ -42,50 +43,26 @@ export function buildKnownDiagnosticsPrompt(
     ].join('\n');
 }
 
-export type OpenAIRequestBody = {
-    model: string;
-    messages: Array<{ role: string; content: string }>;
-    temperature: number;
-    max_tokens: number;
-};
-
-/** 构建 OpenAI 兼容格式的审查请求体 */
-export function buildOpenAIRequest(
-    config: AIReviewConfig,
-    request: { files: Array<{ path: string; content: string }> },
-    options: {
-        isDiffContent?: boolean;
-        diagnosticsByFile?: Map<string, Array<{ line: number; message: string }>>;
-        logger?: Logger;
-    } = {}
-): OpenAIRequestBody {
-    const systemContent = config.system_prompt || DEFAULT_SYSTEM_PROMPT;
-    const isDiffContent = options.isDiffContent === true;
-
-    const filesContent = request.files.map((file) => {
-        const ext = file.path.split('.').pop() || '';
-        const language = getLanguageFromExtension(ext);
-        if (file.content.length === 0) {
-            options.logger?.warn(`警告: 文件内容为空: ${file.path}`);
-        }
-        return `文件: ${file.path}\n\`\`\`${language}\n${file.content}\n\`\`\``;
-    }).join('\n\n');
-
-    const intro = isDiffContent
-        ? '请仅针对以下变更相关片段（diff/AST）进行代码审查（非整文件）。片段中已用“# 行 N”标注新文件行号。'
-        : '请仔细审查以下代码文件，进行全面的代码审查分析。';
-
-    const lineHint = isDiffContent
-        ? '返回的 line 必须使用上述“# 行 N”中标注的新文件行号（从 1 开始）。'
-        : '';
-
-    const knownIssuesPrompt = buildKnownDiagnosticsPrompt(options.diagnosticsByFile);
+/** 生成审查配置（review_profiles）追加到系统提示词的段落；无侧重与限制时为空 */
+export function buildReviewProfilePrompt(profile?: ReviewProfile): string {
+    if (!profile) return '';
+    const rows = [
+        ...(profile.prompt?.trim() ? [profile.prompt.trim()] : []),
+        ...(profile.min_severity && profile.min_severity !== 'info'
+            ? [`只报告 ${profile.min_severity === 'error' ? 'error' : 'error 与 warning'} 级别的问题。`]
+            : []),
+        ...(profile.max_issues !== undefined ? [`最多报告 ${profile.max_issues} 个问题，按风险从高到低排序。`] : []),
+    ];
+    if (rows.length === 0) return '';
+    return [`**本批审查侧重（${profile.name}）：**`, ...rows].join('\n');
+}
 
-    const userPrompt = `${intro}
+/** 内置审查模板（.agentreview/prompts/review.md 可覆盖） */
+export const DEFAULT_REVIEW_TEMPLATE = `{{intro}}
 
-${filesContent}
+{{files}}
 
-${knownIssuesPrompt}
+{{knownDiagnostics}}
 
 **审查要求：**
 1. 逐行分析代码，查找所有潜在问题
@@ -93,12 +70,13 @@ ${knownIssuesPrompt}
 3. 即使代码能正常运行，也要提供改进建议和最佳实践
 4. 对于每个问题，提供详细的问题描述和具体的修复建议
 5. 返回 snippet 字段（问题所在的原始代码片段，1-3 行，必须来自原文件并保持原样）
-6. 若输入中包含“外部引用上下文（仅供参考）”，请不要对该上下文已定义符号重复报“未定义”
-7. 确保问题描述清晰、具体，包含：
+6. 能用少量代码直接修复的问题，返回 suggestion 字段：start_line、end_line 为被替换代码的行号范围（与 line 同一口径），original 为该范围的原代码（保持原样），replacement 为替换后的完整代码；无法给出可靠修改时 suggestion 为 null
+7. 若输入中包含“外部引用上下文（仅供参考）”，请不要对该上下文已定义符号重复报“未定义”
+8. 确保问题描述清晰、具体，包含：
    - 问题是什么
    - 为什么这是问题
    - 如何修复（提供具体代码建议）
-${lineHint ? `\n**行号说明：**\n${lineHint}\n` : ''}
+{{lineHint}}
 
 **重要提示：**
 - 请务必返回完整且格式正确的 JSON，确保 JSON 字符串以闭合的大括号 } 结尾
@@ -115,7 +93,8 @@ ${lineHint ? `\n**行号说明：**\n${lineHint}\n` : ''}
       "column": 列号（从 1 开始）, 
       "snippet": "问题所在的原始代码片段（1-3 行，保持原样）",
       "message": "详细的问题描述和修复建议（具体、可操作，但保持简洁）",
-      "severity": "error|warning|info"
+      "severity": "error|warning|info",
+      "suggestion": { "start_line": 起始行号, "end_line": 结束行号, "original": "被替换的原代码", "replacement": "替换后的代码" } 或 null
     }
   ]
 }
@@ -127,6 +106,81 @@ ${lineHint ? `\n**行号说明：**\n${lineHint}\n` : ''}
 
 **最后提醒：** 请确保返回的 JSON 格式正确、完整，以闭合的大括号 } 结尾，并在 issues 数组中包含所有发现的问题和建议。`;
 
+/** 内置续写模板（.agentreview/prompts/continuation.md 可覆盖） */
+export const DEFAULT_CONTINUATION_TEMPLATE = `上一次响应被截断，请继续输出剩余的 issues。
+
+已解析问题数量: {{issueCount}}
+{{lastIssue}}
+
+**续写要求：**
+1. 只返回新增问题，避免重复之前已输出的问题
+2. 仍然严格返回完整 JSON 格式（只包含 issues 数组）
+3. 如果没有更多问题，请返回 {"issues": []}`;
+
+/**
+ * 渲染提示词模板：{{name}} 替换为 vars 中的值，未知占位符原样保留；替换结果不再二次展开，代码中的 {{...}} 不受影响
+ */
+export function renderPromptTemplate(template: string, vars: Record<string, string>): string {
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+        Object.prototype.hasOwnProperty.call(vars, name) ? vars[name] : placeholder);
+}
+
+export type OpenAIRequestBody = {
+    model: string;
+    messages: Array<{ role: string; content: string }>;
+    temperature: number;
+    max_tokens: number;
+};
+
+/** 构建 OpenAI 兼容格式的审查请求体 */
+export function buildOpenAIRequest(
+    config: AIReviewConfig,
+    request: { files: Array<{ path: string; content: string; knowledgeContext?: string }> },
+    options: {
+        isDiffContent?: boolean;
+        diagnosticsByFile?: Map<string, Array<{ line: number; message: string }>>;
+        profile?: ReviewProfile;
+        /** 忽略反馈段落（aiReviewer.feedback），追加在审查配置之后 */
+        feedbackPrompt?: string;
+        logger?: Logger;
+    } = {}
+): OpenAIRequestBody {
+    const systemContent = [
+        config.system_prompt || DEFAULT_SYSTEM_PROMPT,
+        buildReviewProfilePrompt(options.profile),
+        options.feedbackPrompt ?? '',
+    ].filter(Boolean).join('\n\n');
+    const isDiffContent = options.isDiffContent === true;
+
+    const filesContent = request.files.map((file) => {
+        const ext = file.path.split('.').pop() || '';
+        const language = getLanguageFromExtension(ext);
+        if (file.content.length === 0) {
+            options.logger?.warn(`警告: 文件内容为空: ${file.path}`);
+        }
+        const codeBlock = `文件: ${file.path}\n\`\`\`${language}\n${file.content}\n\`\`\``;
+        // 整文件的项目规范参考放在代码块之外，不影响按行序计算的行号
+        return file.knowledgeContext ? `${codeBlock}\n\n${file.knowledgeContext}` : codeBlock;
+    }).join('\n\n');
+
+    const intro = isDiffContent
+        ? '请仅针对以下变更相关片段（diff/AST）进行代码审查（非整文件）。片段中已用“# 行 N”标注新文件行号。'
+        : '请仔细审查以下代码文件，进行全面的代码审查分析。';
+
+    const lineHint = isDiffContent
+        ? '返回的 line 必须使用上述“# 行 N”中标注的新文件行号（从 1 开始）。'
+        : '';
+
+    const knownIssuesPrompt = buildKnownDiagnosticsPrompt(options.diagnosticsByFile);
+
+    const userPrompt = renderPromptTemplate(config.promptTemplates?.review ?? DEFAULT_REVIEW_TEMPLATE, {
+        intro,
+        files: filesContent,
+        knownDiagnostics: knownIssuesPrompt,
+        lineHint: lineHint ? `\n**行号说明：**\n${lineHint}\n` : '',
+        language: [...new Set(request.files.map(file => getLanguageFromExtension(file.path.split('.').pop() || '')))].join('、'),
+    });
+
     return {
         model: config.model || '',
         messages: [
@@ -152,15 +206,10 @@ export function buildContinuationOpenAIRequest(
         ? `最后一个问题: file=${lastIssue.file}, line=${lastIssue.line}, message=${lastIssue.message}`
         : '尚无完整问题被解析';
 
-    const continuationPrompt = `上一次响应被截断，请继续输出剩余的 issues。
-
-已解析问题数量: ${params.cachedIssues.length}
-${lastIssueHint}
-
-**续写要求：**
-1. 只返回新增问题，避免重复之前已输出的问题
-2. 仍然严格返回完整 JSON 格式（只包含 issues 数组）
-3. 如果没有更多问题，请返回 {"issues": []}`;
+    const continuationPrompt = renderPromptTemplate(config.promptTemplates?.continuation ?? DEFAULT_CONTINUATION_TEMPLATE, {
+        issueCount: String(params.cachedIssues.length),
+        lastIssue: lastIssueHint,
+    });
 
     return {
         model: config.model || '',
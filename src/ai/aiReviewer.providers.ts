@@ -0,0 +1,279 @@
+/**
+ * AI 服务提供方协议适配
+ *
+ * 审查、续写与修复的提示词统一按 OpenAI messages 构建（见 aiReviewer.prompts / aiReviewer.fix），
+ * 各提供方在此转换请求体、端点与认证头，并把响应还原为 OpenAI 兼容结构（choices[0].message.content + usage），
+ * 使 parseOpenAIResponse、续写与 Token 统计对所有提供方一致。
+ *
+ * - openai：{endpoint}/chat/completions，Authorization: Bearer
+ * - azure_openai：{endpoint}/openai/deployments/{model}/chat/completions?api-version=...，api-key 请求头；model 填部署名
+ * - anthropic：{endpoint}/v1/messages，x-api-key + anthropic-version 请求头，system 单独传
+ * - ollama：{endpoint}/api/chat（非流式），本地服务通常无需密钥
+ * - custom：端点原样使用，请求体仅透传 files（见 buildCustomRequest）
+ *
+ * 结构化输出（见 aiReviewer.structuredOutput）：openai/azure_openai 支持 json_schema 与工具调用，
+ * anthropic 仅工具调用，ollama 以 format 传 JSON Schema；工具参数在 toOpenAIResponse 中还原为 content。
+ */
+
+import { z } from 'zod';
+import type { Logger } from '../utils/logger';
+import type { AIReviewConfig } from './aiReviewer.types';
+import { handleZodError } from './aiReviewer.types';
+import type { OpenAIRequestBody } from './aiReviewer.prompts';
+import {
+    REVIEW_RESPONSE_JSON_SCHEMA,
+    REVIEW_RESPONSE_SCHEMA_NAME,
+    REVIEW_RESPONSE_SCHEMA_DESCRIPTION,
+    type StructuredOutputMode,
+} from './aiReviewer.structuredOutput';
+
+export type AIApiFormat = NonNullable<AIReviewConfig['api_format']>;
+
+/** Azure OpenAI 默认 api-version */
+export const DEFAULT_AZURE_API_VERSION = '2024-06-01';
+/** Anthropic Messages API 版本请求头 */
+export const ANTHROPIC_API_VERSION = '2023-06-01';
+
+/** OpenAI 兼容响应结构（供 parseOpenAIResponse / parseFixResponse 复用） */
+type OpenAICompatibleResponse = {
+    choices: Array<{ message: { content: string }; finish_reason?: string }>;
+    usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+};
+
+/** 单个提供方的协议适配 */
+export interface AIProviderAdapter {
+    /** 是否需要 API 密钥（决定未配置密钥时是否告警） */
+    requiresApiKey: boolean;
+    /** 由配置的 api_endpoint 推导实际请求 URL */
+    resolveEndpoint: (rawEndpoint: string, config: Pick<AIReviewConfig, 'model' | 'api_version'>) => string;
+    /** 认证相关请求头 */
+    buildAuthHeaders: (apiKey?: string) => Record<string, string>;
+    /** 支持的结构化输出方式，首项为 auto 时的首选；空数组表示不支持 */
+    structuredOutputModes: StructuredOutputMode[];
+    /** OpenAI messages 请求体 → 提供方请求体；structuredOutput 为 null 时按纯文本输出 */
+    buildRequestBody: (body: OpenAIRequestBody, structuredOutput?: StructuredOutputMode | null) => unknown;
+    /** 提供方响应 → OpenAI 兼容响应 */
+    toOpenAIResponse: (data: unknown, logger: Logger) => unknown;
+}
+
+const AnthropicResponseSchema = z.object({
+    content: z.array(z.object({ type: z.string(), text: z.string().optional(), input: z.unknown().optional() })),
+    stop_reason: z.string().nullable().optional(),
+    usage: z.object({
+        input_tokens: z.number().optional(),
+        output_tokens: z.number().optional(),
+    }).optional(),
+});
+
+const OllamaChatResponseSchema = z.object({
+    message: z.object({ content: z.string() }),
+    done_reason: z.string().optional(),
+    prompt_eval_count: z.number().optional(),
+    eval_count: z.number().optional(),
+});
+
+/** 端点未以 suffix 结尾时补全 */
+const appendPath = (endpoint: string, suffix: string): string =>
+    endpoint && !endpoint.endsWith(suffix) ? `${endpoint}${suffix}` : endpoint;
+
+const bearerAuth = (apiKey?: string): Record<string, string> =>
+    apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+const toUsage = (promptTokens?: number, completionTokens?: number): OpenAICompatibleResponse['usage'] =>
+    promptTokens === undefined && completionTokens === undefined
+        ? undefined
+        : {
+            prompt_tokens: promptTokens,
+            completion_tokens: completionTokens,
+            total_tokens: (promptTokens ?? 0) + (completionTokens ?? 0),
+        };
+
+/** OpenAI Chat Completions 的结构化输出参数 */
+const buildOpenAIStructuredOutput = (structuredOutput?: StructuredOutputMode | null): Record<string, unknown> => {
+    if (structuredOutput === 'json_schema') {
+        return {
+            response_format: {
+                type: 'json_schema',
+                json_schema: { name: REVIEW_RESPONSE_SCHEMA_NAME, strict: true, schema: REVIEW_RESPONSE_JSON_SCHEMA },
+            },
+        };
+    }
+    if (structuredOutput === 'tool') {
+        return {
+            tools: [{
+                type: 'function',
+                function: {
+                    name: REVIEW_RESPONSE_SCHEMA_NAME,
+                    description: REVIEW_RESPONSE_SCHEMA_DESCRIPTION,
+                    parameters: REVIEW_RESPONSE_JSON_SCHEMA,
+                    strict: true,
+                },
+            }],
+            tool_choice: { type: 'function', function: { name: REVIEW_RESPONSE_SCHEMA_NAME } },
+        };
+    }
+    return {};
+};
+
+/** 工具调用时 content 为空，取首个 tool_call 的 arguments 作为 content */
+const liftToolCallArguments = (data: unknown): unknown => {
+    const response = data as {
+        choices?: Array<{ message?: { content?: unknown; tool_calls?: Array<{ function?: { arguments?: unknown } }> } }>;
+    } | null;
+    const [firstChoice, ...restChoices] = response?.choices ?? [];
+    const message = firstChoice?.message;
+    const toolArguments = message?.tool_calls?.[0]?.function?.arguments;
+    if (!message || typeof toolArguments !== 'string' || (typeof message.content === 'string' && message.content.length > 0)) {
+        return data;
+    }
+    return {
+        ...response,
+        choices: [{ ...firstChoice, message: { ...message, content: toolArguments } }, ...restChoices],
+    };
+};
+
+const openAIAdapter: AIProviderAdapter = {
+    requiresApiKey: true,
+    resolveEndpoint: (rawEndpoint) => appendPath(rawEndpoint, '/chat/completions'),
+    buildAuthHeaders: bearerAuth,
+    structuredOutputModes: ['json_schema', 'tool'],
+    buildRequestBody: (body, structuredOutput) => ({ ...body, ...buildOpenAIStructuredOutput(structuredOutput) }),
+    toOpenAIResponse: liftToolCallArguments,
+};
+
+const customAdapter: AIProviderAdapter = {
+    ...openAIAdapter,
+    resolveEndpoint: (rawEndpoint) => rawEndpoint,
+    structuredOutputModes: [],
+};
+
+/**
+ * Azure：api_endpoint 可填资源地址（https://xxx.openai.azure.com）或完整部署地址；
+ * 资源地址时按 model（部署名）拼出部署路径，缺 api-version 查询参数时补上。
+ */
+const azureOpenAIAdapter: AIProviderAdapter = {
+    requiresApiKey: true,
+    resolveEndpoint: (rawEndpoint, config) => {
+        if (!rawEndpoint || rawEndpoint.includes('${')) {
+            return rawEndpoint;
+        }
+        const [base, query = ''] = rawEndpoint.split('?');
+        const deploymentPath = base.includes('/openai/deployments/')
+            ? appendPath(base, '/chat/completions')
+            : `${base}/openai/deployments/${encodeURIComponent(config.model ?? '')}/chat/completions`;
+        const params = new URLSearchParams(query);
+        if (!params.has('api-version')) {
+            params.set('api-version', config.api_version || DEFAULT_AZURE_API_VERSION);
+        }
+        return `${deploymentPath}?${params.toString()}`;
+    },
+    buildAuthHeaders: (apiKey): Record<string, string> => (apiKey ? { 'api-key': apiKey } : {}),
+    // json_schema 需 api-version 2024-08-01-preview 及以上
+    structuredOutputModes: ['json_schema', 'tool'],
+    // 部署名已在 URL 中，请求体无需 model
+    buildRequestBody: ({ model: _model, ...rest }, structuredOutput) => ({ ...rest, ...buildOpenAIStructuredOutput(structuredOutput) }),
+    toOpenAIResponse: liftToolCallArguments,
+};
+
+/**
+ * Anthropic Messages：system 消息合并为顶层 system 字段，temperature 上限为 1；
+ * 结构化输出通过强制调用工具实现，tool_use 的 input 即审查结果
+ */
+const anthropicAdapter: AIProviderAdapter = {
+    requiresApiKey: true,
+    resolveEndpoint: (rawEndpoint) =>
+        !rawEndpoint || rawEndpoint.endsWith('/messages')
+            ? rawEndpoint
+            : appendPath(rawEndpoint.replace(/\/v1$/, ''), '/v1/messages'),
+    buildAuthHeaders: (apiKey) => ({
+        ...(apiKey ? { 'x-api-key': apiKey } : {}),
+        'anthropic-version': ANTHROPIC_API_VERSION,
+    }),
+    structuredOutputModes: ['tool'],
+    buildRequestBody: (body, structuredOutput) => {
+        const system = body.messages.filter(message => message.role === 'system').map(message => message.content);
+        return {
+            model: body.model,
+            ...(system.length > 0 && { system: system.join('\n\n') }),
+            messages: body.messages
+                .filter(message => message.role !== 'system')
+                .map(message => ({ role: message.role === 'assistant' ? 'assistant' : 'user', content: message.content })),
+            max_tokens: body.max_tokens,
+            temperature: Math.min(Math.max(body.temperature, 0), 1),
+            ...(structuredOutput && {
+                tools: [{
+                    name: REVIEW_RESPONSE_SCHEMA_NAME,
+                    description: REVIEW_RESPONSE_SCHEMA_DESCRIPTION,
+                    input_schema: REVIEW_RESPONSE_JSON_SCHEMA,
+                }],
+                tool_choice: { type: 'tool', name: REVIEW_RESPONSE_SCHEMA_NAME },
+            }),
+        };
+    },
+    toOpenAIResponse: (data, logger) => {
+        let parsed: z.infer<typeof AnthropicResponseSchema>;
+        try {
+            parsed = AnthropicResponseSchema.parse(data);
+        } catch (error) {
+            handleZodError(error, logger, 'Anthropic 响应');
+        }
+        const toolUse = parsed.content.find(block => block.type === 'tool_use' && block.input !== undefined);
+        const content = toolUse
+            ? JSON.stringify(toolUse.input)
+            : parsed.content
+                .filter(block => block.type === 'text')
+                .map(block => block.text ?? '')
+                .join('');
+        const response: OpenAICompatibleResponse = {
+            choices: [{ message: { content }, finish_reason: parsed.stop_reason === 'max_tokens' ? 'length' : 'stop' }],
+            usage: toUsage(parsed.usage?.input_tokens, parsed.usage?.output_tokens),
+        };
+        return response;
+    },
+};
+
+/**
+ * Ollama /api/chat：非流式，max_tokens 映射为 options.num_predict；有密钥时（如经反向代理）按 Bearer 传递；
+ * 结构化输出以 format 传 JSON Schema
+ */
+const ollamaAdapter: AIProviderAdapter = {
+    requiresApiKey: false,
+    resolveEndpoint: (rawEndpoint) => appendPath(rawEndpoint, '/api/chat'),
+    buildAuthHeaders: bearerAuth,
+    structuredOutputModes: ['json_schema'],
+    buildRequestBody: (body, structuredOutput) => ({
+        model: body.model,
+        messages: body.messages,
+        stream: false,
+        ...(structuredOutput && { format: REVIEW_RESPONSE_JSON_SCHEMA }),
+        options: {
+            temperature: body.temperature,
+            num_predict: body.max_tokens,
+        },
+    }),
+    toOpenAIResponse: (data, logger) => {
+        let parsed: z.infer<typeof OllamaChatResponseSchema>;
+        try {
+            parsed = OllamaChatResponseSchema.parse(data);
+        } catch (error) {
+            handleZodError(error, logger, 'Ollama 响应');
+        }
+        const response: OpenAICompatibleResponse = {
+            choices: [{ message: { content: parsed.message.content }, finish_reason: parsed.done_reason === 'length' ? 'length' : 'stop' }],
+            usage: toUsage(parsed.prompt_eval_count, parsed.eval_count),
+        };
+        return response;
+    },
+};
+
+const PROVIDER_ADAPTERS: Record<AIApiFormat, AIProviderAdapter> = {
+    openai: openAIAdapter,
+    custom: customAdapter,
+    azure_openai: azureOpenAIAdapter,
+    anthropic: anthropicAdapter,
+    ollama: ollamaAdapter,
+};
+
+/** 按 api_format 取协议适配，未知值按 OpenAI 兼容处理 */
+export const getProviderAdapter = (apiFormat?: AIReviewConfig['api_format']): AIProviderAdapter =>
+    PROVIDER_ADAPTERS[apiFormat ?? 'openai'] ?? openAIAdapter;
@@ -40,13 +40,30 @@ export function buildAstSnippetForSnippets(
     return lines.join('\n');
 }
 
+const CURRENT_CONTENT_HEADER = '【当前审查代码】';
+const REFERENCE_CONTEXT_HEADER = '【外部引用上下文（仅供参考）】';
+
 /** 区分「当前审查代码」与「外部引用上下文」，降低“未定义”类误报 */
 export function buildStructuredReviewContent(currentContent: string, referenceContext: string): string {
     return [
-        '【当前审查代码】',
+        CURRENT_CONTENT_HEADER,
         currentContent,
         '',
-        '【外部引用上下文（仅供参考）】',
+        REFERENCE_CONTEXT_HEADER,
         referenceContext,
     ].join('\n');
 }
+
+/** 向审查内容追加一段外部引用上下文；内容尚未结构化时先按 buildStructuredReviewContent 包装 */
+export function appendReferenceContext(content: string, section: string): string {
+    return content.includes(`\n${REFERENCE_CONTEXT_HEADER}\n`)
+        ? `${content}\n\n${section}`
+        : buildStructuredReviewContent(content, section);
+}
+
+/** 取结构化内容中的「当前审查代码」部分；未结构化时原样返回 */
+export function extractCurrentReviewContent(content: string): string {
+    if (!content.startsWith(`${CURRENT_CONTENT_HEADER}\n`)) return content;
+    const end = content.indexOf(`\n${REFERENCE_CONTEXT_HEADER}\n`);
+    return content.slice(CURRENT_CONTENT_HEADER.length + 1, end === -1 ? undefined : end);
+}
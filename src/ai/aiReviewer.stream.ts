@@ -0,0 +1,197 @@
+/**
+ * AI 审查流式响应（SSE）
+ *
+ * ai_review.stream 开启且 api_format 为 OpenAI 兼容（openai / azure_openai）时，请求带 stream: true，
+ * 按 data: 行累积 choices[0].delta.content；"issues" 数组中每个对象一闭合即回调，面板无需等整批完成。
+ * 流结束后拼回 OpenAI 兼容响应交给 parseOpenAIResponse，截断续写、缓存合并与 Token 统计沿用非流式逻辑。
+ */
+
+import type { Logger } from '../utils/logger';
+import { AIReviewResponseSchema, type AIReviewConfig, type AIReviewResponse } from './aiReviewer.types';
+import type { OpenAIRequestBody } from './aiReviewer.prompts';
+import { fixJsonEscapeChars } from './aiReviewer.responseParser';
+
+export type StreamedIssue = AIReviewResponse['issues'][number];
+
+/** 流式读取结果：与非流式响应同构，供 parseOpenAIResponse 复用 */
+export type StreamedCompletion = {
+    choices: Array<{ message: { content: string }; finish_reason?: string }>;
+    usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+};
+
+/** OpenAI chat.completion.chunk 中用到的字段 */
+type ChatCompletionChunk = {
+    choices?: Array<{
+        delta?: { content?: string | null; tool_calls?: Array<{ function?: { arguments?: string } }> };
+        finish_reason?: string | null;
+    }>;
+    usage?: StreamedCompletion['usage'] | null;
+    error?: { message?: string };
+};
+
+const StreamedIssueSchema = AIReviewResponseSchema.shape.issues.element;
+
+/** 当前配置是否走 SSE 流式请求 */
+export const supportsStreaming = (config: Pick<AIReviewConfig, 'api_format' | 'stream'>): boolean => {
+    const apiFormat = config.api_format ?? 'openai';
+    return config.stream === true && (apiFormat === 'openai' || apiFormat === 'azure_openai');
+};
+
+/**
+ * 在提供方请求体上打开流式输出；openai 额外请求末尾 usage 块，
+ * Azure 较早的 api-version 不认 stream_options，流式时不统计 Token。
+ */
+export const buildStreamingRequestBody = (
+    requestBody: unknown,
+    apiFormat: AIReviewConfig['api_format']
+): Record<string, unknown> => ({
+    ...(requestBody as Partial<OpenAIRequestBody>),
+    stream: true,
+    ...((apiFormat ?? 'openai') === 'openai' && { stream_options: { include_usage: true } }),
+});
+
+/**
+ * 增量提取 "issues" 数组中已闭合的对象：与 extractPartialJson 相同的括号/字符串状态机，跨分片保留状态。
+ * 每个对象只回调一次；解析失败或不符合 Schema 的对象跳过，最终结果仍以整段响应解析为准。
+ */
+export const createIssueStreamParser = (
+    onIssue: (issue: StreamedIssue) => void,
+    logger?: Logger
+): { push: (text: string) => void } => {
+    let buffer = '';
+    let cursor = -1;
+    let braceCount = 0;
+    let inString = false;
+    let escapeNext = false;
+    let issueStart = -1;
+    let finished = false;
+
+    const emit = (issueStr: string): void => {
+        let raw: unknown;
+        try {
+            raw = JSON.parse(issueStr);
+        } catch {
+            try {
+                raw = JSON.parse(fixJsonEscapeChars(issueStr));
+            } catch (e) {
+                logger?.debug(`流式解析跳过无效的issue对象: ${e instanceof Error ? e.message : String(e)}`);
+                return;
+            }
+        }
+        const parsed = StreamedIssueSchema.safeParse(raw);
+        if (parsed.success) {
+            onIssue(parsed.data);
+        } else {
+            logger?.debug('流式解析跳过不符合结构的issue对象');
+        }
+    };
+
+    const push = (text: string): void => {
+        if (finished || !text) return;
+        buffer += text;
+        if (cursor < 0) {
+            const match = /"issues"\s*:\s*\[/.exec(buffer);
+            if (!match) return;
+            cursor = match.index + match[0].length;
+        }
+        for (; cursor < buffer.length; cursor++) {
+            const char = buffer[cursor];
+            if (escapeNext) {
+                escapeNext = false;
+                continue;
+            }
+            if (char === '\\') {
+                escapeNext = true;
+                continue;
+            }
+            if (char === '"') {
+                inString = !inString;
+                continue;
+            }
+            if (inString) continue;
+            if (char === '{') {
+                if (braceCount === 0) issueStart = cursor;
+                braceCount++;
+            } else if (char === '}') {
+                braceCount--;
+                if (braceCount === 0 && issueStart !== -1) {
+                    emit(buffer.substring(issueStart, cursor + 1));
+                    issueStart = -1;
+                }
+            } else if (char === ']' && braceCount === 0) {
+                finished = true;
+                return;
+            }
+        }
+    };
+
+    return { push };
+};
+
+/**
+ * 读取 SSE 响应体：逐行解析 data: 负载直到 [DONE]，content（或工具调用参数）增量交给 onContent。
+ * event:/id:/注释行与空行忽略；服务端在流中返回 error 时抛错，交由调用方按失败处理。
+ */
+export const readChatCompletionStream = async (
+    stream: AsyncIterable<Buffer | string>,
+    onContent: (delta: string) => void,
+    logger?: Logger
+): Promise<StreamedCompletion> => {
+    const decoder = new TextDecoder();
+    let pending = '';
+    let content = '';
+    let finishReason: string | undefined;
+    let usage: StreamedCompletion['usage'];
+    let done = false;
+
+    const handleLine = (rawLine: string): void => {
+        const line = rawLine.trim();
+        if (!line.startsWith('data:')) return;
+        const payload = line.slice('data:'.length).trim();
+        if (payload === '[DONE]') {
+            done = true;
+            return;
+        }
+        let chunk: ChatCompletionChunk;
+        try {
+            chunk = JSON.parse(payload) as ChatCompletionChunk;
+        } catch {
+            logger?.debug(`跳过无法解析的 SSE 数据行: ${payload.substring(0, 80)}`);
+            return;
+        }
+        if (chunk.error) {
+            throw new Error(`AI 流式响应错误: ${chunk.error.message ?? JSON.stringify(chunk.error)}`);
+        }
+        const choice = chunk.choices?.[0];
+        // 结构化输出为工具调用时，增量在 tool_calls[].function.arguments 中
+        const delta = choice?.delta?.content || choice?.delta?.tool_calls?.[0]?.function?.arguments;
+        if (typeof delta === 'string' && delta.length > 0) {
+            content += delta;
+            onContent(delta);
+        }
+        if (choice?.finish_reason) {
+            finishReason = choice.finish_reason;
+        }
+        if (chunk.usage) {
+            usage = chunk.usage;
+        }
+    };
+
+    for await (const chunk of stream) {
+        pending += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+        const lines = pending.split('\n');
+        pending = lines.pop() ?? '';
+        for (const line of lines) {
+            handleLine(line);
+        }
+        if (done) break;
+    }
+    if (!done) {
+        handleLine(pending + decoder.decode());
+    }
+
+    return {
+        choices: [{ message: { content }, finish_reason: finishReason }],
+        usage,
+    };
+};
@@ -0,0 +1,69 @@
+/**
+ * AI 审查结构化输出
+ *
+ * ai_review.structured_output 开启时，按提供方能力以 response_format: json_schema 或工具调用（function calling）
+ * 约束模型输出，Schema 由 AIReviewResponseSchema 推导；提供方不支持或关闭时沿用纯文本 JSON + responseParser 修复。
+ * 工具调用的参数在各提供方的 toOpenAIResponse 中还原为 message.content，解析路径不变。
+ */
+
+import { z } from 'zod';
+import { AIReviewResponseSchema, type AIReviewConfig } from './aiReviewer.types';
+
+/** 结构化输出方式：json_schema=响应格式约束，tool=强制调用单个工具 */
+export type StructuredOutputMode = 'json_schema' | 'tool';
+
+/** json_schema 名称与工具名 */
+export const REVIEW_RESPONSE_SCHEMA_NAME = 'report_review_issues';
+export const REVIEW_RESPONSE_SCHEMA_DESCRIPTION = '报告代码审查发现的问题列表，无问题时 issues 为空数组';
+
+/** OpenAI strict 模式不接受的关键字（取值约束仍由 AIReviewResponseSchema 在解析时校验） */
+const UNSUPPORTED_SCHEMA_KEYWORDS = new Set([
+    '$schema',
+    'default',
+    'minLength',
+    'maxLength',
+    'minimum',
+    'maximum',
+    'exclusiveMinimum',
+    'exclusiveMaximum',
+]);
+
+/** 转为 strict 兼容：去掉不支持的关键字，对象属性全部必填且不允许额外字段 */
+const toStrictSchema = (node: unknown): unknown => {
+    if (Array.isArray(node)) return node.map(toStrictSchema);
+    if (!node || typeof node !== 'object') return node;
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(node as Record<string, unknown>)) {
+        if (UNSUPPORTED_SCHEMA_KEYWORDS.has(key)) continue;
+        result[key] = key === 'properties'
+            ? Object.fromEntries(Object.entries(value as Record<string, unknown>).map(([name, schema]) => [name, toStrictSchema(schema)]))
+            : toStrictSchema(value);
+    }
+    if (result.type === 'object' && result.properties) {
+        result.required = Object.keys(result.properties as Record<string, unknown>);
+        result.additionalProperties = false;
+    }
+    return result;
+};
+
+/** 由 AIReviewResponseSchema 推导的审查响应 JSON Schema */
+export const REVIEW_RESPONSE_JSON_SCHEMA = toStrictSchema(
+    z.toJSONSchema(AIReviewResponseSchema, { io: 'input' })
+) as Record<string, unknown>;
+
+/**
+ * 按配置与提供方能力确定本次请求的结构化输出方式：
+ * off/未配置 → null；auto → 提供方首选；指定方式但提供方不支持时回退到提供方首选（均不支持则 null）。
+ */
+export const resolveStructuredOutputMode = (
+    setting: AIReviewConfig['structured_output'],
+    supportedModes: StructuredOutputMode[]
+): StructuredOutputMode | null => {
+    if (!setting || setting === 'off' || supportedModes.length === 0) {
+        return null;
+    }
+    if (setting !== 'auto' && supportedModes.includes(setting)) {
+        return setting;
+    }
+    return supportedModes[0];
+};
@@ -0,0 +1,88 @@
+/**
+ * Token 估算、模型上下文窗口与价格表
+ *
+ * 以启发式分词估算 Token：CJK 字符各记 1，英文单词约 4 字符 1 个，数字约 3 位 1 个，标点符号各记 1，
+ * 含换行的空白段记 1；比字符数更贴近 CJK 文本与代码的实际用量。
+ * 批次预算 = (上下文窗口 − max_tokens) × 安全系数 − 提示词模板开销；模型参数来自 ai_review.model_profiles，
+ * 未配置的模型按 DEFAULT_CONTEXT_WINDOW 计，未配置价格时不计成本。
+ */
+
+import type { AIReviewConfig, ModelProfile } from './aiReviewer.types';
+import { DEFAULT_MAX_TOKENS } from './aiReviewer.types';
+import { buildOpenAIRequest } from './aiReviewer.prompts';
+
+/** 未在 model_profiles 中配置上下文窗口时的默认值 */
+export const DEFAULT_CONTEXT_WINDOW = 32768;
+/** 估算误差的安全系数：批次只用上下文余量的这一比例 */
+const CONTEXT_SAFETY_RATIO = 0.9;
+/** 每个文件的分隔与代码块标记开销 */
+const FILE_OVERHEAD_TOKENS = 8;
+/** 每条消息的角色与分隔开销 */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+/** 预算下限，避免配置异常时无法送审 */
+const MIN_REQUEST_TOKEN_BUDGET = 256;
+
+/** CJK（含假名、韩文、全角）单字 | 英文单词 | 数字 | 含换行的空白段 | 单个标点 */
+const TOKEN_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]|[A-Za-z_]+|\d+|\s*\n\s*|[^\s\w]/g;
+
+/** 估算文本的 Token 数 */
+export const estimateTokens = (text: string): number => {
+    let tokens = 0;
+    for (const match of text.matchAll(TOKEN_PATTERN)) {
+        const part = match[0];
+        if (/^[A-Za-z_]/.test(part)) {
+            tokens += Math.ceil(part.length / 4);
+        } else if (/^\d/.test(part)) {
+            tokens += Math.ceil(part.length / 3);
+        } else {
+            tokens += 1;
+        }
+    }
+    return tokens;
+};
+
+/** 估算一批文件（路径 + 内容 + 分隔开销）的 Token 数 */
+export const estimateFilesTokens = (files: Array<{ path: string; content: string }>): number =>
+    files.reduce((sum, file) => sum + estimateTokens(file.path) + estimateTokens(file.content) + FILE_OVERHEAD_TOKENS, 0);
+
+/** 估算 chat 消息列表的输入 Token 数 */
+export const estimateMessagesTokens = (messages: Array<{ role: string; content: string }>): number =>
+    messages.reduce((sum, message) => sum + estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+
+/** 按模型名取 model_profiles 配置：先精确匹配，再取最长的前缀匹配（如 gpt-4o 覆盖 gpt-4o-2024-08-06） */
+export const resolveModelProfile = (
+    config: Pick<AIReviewConfig, 'model' | 'model_profiles'> | null,
+    model = config?.model ?? ''
+): ModelProfile => {
+    const profiles = config?.model_profiles ?? {};
+    if (profiles[model]) return profiles[model];
+    const prefix = Object.keys(profiles)
+        .filter(key => key.length > 0 && model.startsWith(key))
+        .sort((a, b) => b.length - a.length)[0];
+    return prefix ? profiles[prefix] : {};
+};
+
+/** 不含文件内容时系统提示词与审查模板的 Token 开销 */
+export const estimatePromptOverheadTokens = (config: AIReviewConfig): number =>
+    estimateMessagesTokens(buildOpenAIRequest(config, { files: [] }, { isDiffContent: true }).messages);
+
+/** 单次请求可用于文件内容的 Token 预算；model / maxTokens 用于分诊等使用其他模型与输出上限的请求 */
+export const getRequestTokenBudget = (
+    config: AIReviewConfig | null,
+    options: { model?: string; maxTokens?: number } = {}
+): number => {
+    if (!config) return DEFAULT_CONTEXT_WINDOW;
+    const contextWindow = resolveModelProfile(config, options.model ?? config.model).context_window ?? DEFAULT_CONTEXT_WINDOW;
+    const reservedOutput = options.maxTokens ?? (config.max_tokens || DEFAULT_MAX_TOKENS);
+    const budget = Math.floor((contextWindow - reservedOutput) * CONTEXT_SAFETY_RATIO) - estimatePromptOverheadTokens(config);
+    return Math.max(MIN_REQUEST_TOKEN_BUDGET, budget);
+};
+
+/** 按价格表计算成本（价格为每百万 Token）；模型未配置任何价格时返回 undefined */
+export const calculateCost = (
+    profile: ModelProfile,
+    tokens: { input: number; output: number }
+): number | undefined => {
+    if (profile.input_price_per_1m == null && profile.output_price_per_1m == null) return undefined;
+    return (tokens.input * (profile.input_price_per_1m ?? 0) + tokens.output * (profile.output_price_per_1m ?? 0)) / 1_000_000;
+};
@@ -1,7 +1,7 @@
 /**
  * API 响应 → ReviewIssue 转换
  *
- * 将 AI 返回的 issues 转为 ReviewIssue（含行列号校正、severity 映射）；依赖 types。
+ * 将 AI 返回的 issues 转为 ReviewIssue（含行列号校正、severity 映射、修改建议校验）；依赖 types。
  */
 
 import * as path from 'path';
@@ -131,6 +131,66 @@ export function resolveIssuePositionFromSnippet(
     return { line: firstCandidate.line, column: firstCandidate.column };
 }
 
+/** 修改建议可替换的最大行数，超出视为不适合直接应用 */
+const MAX_SUGGESTION_LINES = 30;
+
+/** 比较代码时忽略行首尾空白与空行 */
+const normalizeCodeForCompare = (text: string): string =>
+    normalizeLineEndings(text).split('\n').map(line => line.trim()).filter(Boolean).join('\n');
+
+/**
+ * 由送审内容还原「新文件行号 → 代码行」：diff/AST 片段按 "# 行 N" 标注逐行递增，遇到外部引用上下文即停止；
+ * 整文件内容按行序编号。
+ */
+export function buildReviewedLineMap(content: string, useDiffLineNumbers: boolean): Map<number, string> {
+    const lines = normalizeLineEndings(content).split('\n');
+    const lineMap = new Map<number, string>();
+    if (!useDiffLineNumbers) {
+        lines.forEach((text, index) => lineMap.set(index + 1, text));
+        return lineMap;
+    }
+    let nextLine: number | null = null;
+    for (const text of lines) {
+        if (text === '【外部引用上下文（仅供参考）】') break;
+        const marker = /^# 行 (\d+)$/.exec(text);
+        if (marker) {
+            nextLine = Number(marker[1]);
+        } else if (nextLine !== null) {
+            // 片段之间的分隔空行不覆盖其他片段已还原的代码行
+            if (!lineMap.get(nextLine)?.trim()) lineMap.set(nextLine, text);
+            nextLine++;
+        }
+    }
+    return lineMap;
+}
+
+/**
+ * 校验 AI 修改建议：范围须完整落在送审内容中且不超过 MAX_SUGGESTION_LINES 行，
+ * 范围原文须与 original 一致（未给 original 时须包含问题的 snippet），且 replacement 确有改动；不通过返回 undefined。
+ */
+export function validateSuggestion(
+    suggestion: AIReviewResponse['issues'][number]['suggestion'],
+    snippet: string | undefined,
+    lineMap: Map<number, string>
+): ReviewIssue['suggestion'] {
+    if (!suggestion) return undefined;
+    const { start_line: startLine, end_line: endLine, original, replacement } = suggestion;
+    if (endLine < startLine || endLine - startLine + 1 > MAX_SUGGESTION_LINES) return undefined;
+    const rangeLines: string[] = [];
+    for (let line = startLine; line <= endLine; line++) {
+        const text = lineMap.get(line);
+        if (text === undefined) return undefined;
+        rangeLines.push(text);
+    }
+    const rangeText = rangeLines.join('\n');
+    const normalizedRange = normalizeCodeForCompare(rangeText);
+    const expected = normalizeCodeForCompare(original ?? snippet ?? '');
+    if (!expected) return undefined;
+    const matches = original !== undefined ? normalizedRange === expected : normalizedRange.includes(expected);
+    if (!matches || normalizeCodeForCompare(replacement) === normalizedRange) return undefined;
+    return { startLine, endLine, original: rangeText, replacement: normalizeLineEndings(replacement) };
+}
+
 /** 按配置 action 映射 API severity 为展示用 severity */
 export function mapSeverity(
     severity: 'error' | 'warning' | 'info',
@@ -163,8 +223,17 @@ export function transformToReviewIssues(
         return options?.allowedLinesByFile?.get(normalizedPath) ?? options?.allowedLinesByFile?.get(filePath);
     };
 
+    const lineMapCache = new Map<string, Map<number, string>>();
+    const getLineMap = (content: string): Map<number, string> => {
+        const cached = lineMapCache.get(content);
+        if (cached) return cached;
+        const lineMap = buildReviewedLineMap(content, useDiffLineNumbers);
+        lineMapCache.set(content, lineMap);
+        return lineMap;
+    };
+
     const transformed: ReviewIssue[] = [];
-    for (const { file, line = 1, column = 1, snippet, message, severity } of response.issues) {
+    for (const { file, line = 1, column = 1, snippet, message, severity, suggestion } of response.issues) {
         const content = contentMap.get(file) ?? contentMap.get(path.normalize(file));
         const allowedLines = getAllowedLines(file);
         let resolvedLine = line;
@@ -193,6 +262,7 @@ export function transformToReviewIssues(
             continue;
         }
 
+        const validSuggestion = content ? validateSuggestion(suggestion, snippet, getLineMap(content)) : undefined;
         transformed.push({
             file,
             line: resolvedLine,
@@ -200,6 +270,7 @@ export function transformToReviewIssues(
             message,
             rule: 'ai_review',
             severity: mapSeverity(severity, action),
+            ...(validSuggestion ? { suggestion: validSuggestion } : {}),
         });
     }
     return transformed;
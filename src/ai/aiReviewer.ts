@@ -11,6 +11,7 @@ import type { FileDiff } from '../utils/diffTypes';
 import type { AffectedScopeResult } from '../utils/astScope';
 import * as lspContext from '../utils/lspContext';
 import { RuntimeTraceLogger, type RuntimeTraceSession } from '../utils/runtimeTraceLogger';
+import { getEffectiveWorkspaceRoot } from '../utils/workspaceRoot';
 
 import {
     type AIReviewConfig,
@@ -30,8 +31,11 @@ import {
     DEFAULT_SYSTEM_PROMPT,
     DEFAULT_BATCH_CONCURRENCY,
     DEFAULT_MAX_REQUEST_CHARS,
+    DEFAULT_DISK_CACHE_MAX_SIZE_MB,
+    DEFAULT_DISK_CACHE_MAX_AGE_DAYS,
 } from './aiReviewer.types';
 export type { AIReviewConfig, AIReviewRequest, AIReviewResponse } from './aiReviewer.types';
+export type { AIFixRequest, AIFixResult } from './aiReviewer.fix';
 
 import { buildDiffSnippetForFile, buildAstSnippetForFile, buildStructuredReviewContent } from './aiReviewer.snippets';
 import { getVueSfcRelatedBlocksForContext } from '../utils/vueSfcRelatedBlocks';
@@ -48,7 +52,7 @@ import {
     getMaxRequestChars,
     DEFAULT_BATCH_SIZE,
 } from './aiReviewer.batching';
-import type { ReviewUnit } from './aiReviewer.types';
+import type { PromptTemplateSet, ReviewProfile, ReviewUnit } from './aiReviewer.types';
 import {
     normalizeDiagnosticsMap,
     filterIssuesByAllowedLines,
@@ -60,12 +64,30 @@ import { transformToReviewIssues, actionToSeverity } from './aiReviewer.transfor
 import { callReviewAPI } from './aiReviewer.api';
 import { loadFilesWithContent } from './aiReviewer.contentLoader';
 import { calculateRequestHash, mergeCachedIssues } from './aiReviewer.cache';
+import { createAIResponseDiskCache, sha256, type AIResponseDiskCache } from './aiReviewer.diskCache';
+import { estimateFilesTokens, estimateMessagesTokens, getRequestTokenBudget } from './aiReviewer.tokens';
+import { buildFixRequest, parseFixResponse, type AIFixRequest, type AIFixResult } from './aiReviewer.fix';
+import { runWithRetry } from './aiRetryHandler';
+import {
+    AIRateLimiter,
+    CircuitOpenError,
+    DEFAULT_CIRCUIT_BREAKER_COOLDOWN_MS,
+    DEFAULT_CIRCUIT_BREAKER_THRESHOLD,
+} from './aiRateLimiter';
+import { getProviderAdapter } from './aiReviewer.providers';
+import { DEFAULT_TRIAGE_MAX_TOKENS, triageReviewUnits } from './aiReviewer.cascade';
+import { applySeverityFloor, capIssuesByProfile, getReviewProfileByName, groupUnitsByProfile } from './aiReviewer.profiles';
+import { DEFAULT_PROMPT_TEMPLATE_DIR, PromptTemplateLoader, getDefaultPromptTemplateSet } from './aiReviewer.promptTemplates';
+import { KnowledgeBase, attachKnowledgeToUnits } from './aiReviewer.knowledge';
+import { DEFAULT_FEEDBACK_MAX_PATTERNS, IgnoreFeedback, buildFeedbackPrompt } from './aiReviewer.feedback';
+import { DEFAULT_VERIFY_MIN_CONFIDENCE, needsVerification, verifyReviewIssues } from './aiReviewer.verifier';
+import type { StreamedIssue } from './aiReviewer.stream';
 
 /**
  * AI 审查器类
  *
  * 负责调用 AI API 进行代码审查
- * 支持 OpenAI 兼容格式和自定义格式
+ * 支持 OpenAI 兼容、Azure OpenAI、Anthropic Messages、Ollama 与自定义格式
  *
  * 使用示例：
  * const aiReviewer = new AIReviewer(configManager);
@@ -81,12 +103,22 @@ export class AIReviewer {
     private axiosInstance: AxiosInstance;
     private responseCache = new Map<string, { response: AIReviewResponse; isPartial: boolean }>();
     private baseMessageCache = new Map<string, Array<{ role: string; content: string }>>();
+    private diskCache: AIResponseDiskCache | null = null;
+    private diskCacheSettingsKey = '';
+    private promptTemplateLoader: PromptTemplateLoader;
+    private knowledgeBase: KnowledgeBase;
+    private ignoreFeedback: IgnoreFeedback;
+    private rateLimiter: AIRateLimiter;
 
     constructor(configManager: ConfigManager) {
         this.configManager = configManager;
         this.logger = new Logger('AIReviewer');
         this.fileScanner = new FileScanner();
         this.runtimeTraceLogger = RuntimeTraceLogger.getInstance();
+        this.promptTemplateLoader = new PromptTemplateLoader(this.logger);
+        this.knowledgeBase = new KnowledgeBase(this.logger);
+        this.ignoreFeedback = new IgnoreFeedback(this.logger);
+        this.rateLimiter = AIRateLimiter.getInstance();
 
         // 单独创建 axios 实例，统一配置
         this.axiosInstance = axios.create({
@@ -96,13 +128,14 @@ export class AIReviewer {
             }
         });
         
-        // 请求拦截器：添加认证信息
-        // Moonshot API 使用 Bearer Token 认证，格式：Authorization: Bearer <api_key>
+        // 请求拦截器：按 api_format 添加认证信息（Bearer / api-key / x-api-key，见 aiReviewer.providers）
         this.axiosInstance.interceptors.request.use(
             (config) => {
-                if (this.config?.apiKey) {
-                    // 参考：https://platform.moonshot.cn/docs/guide/start-using-kimi-api
-                    config.headers.Authorization = `Bearer ${this.config.apiKey}`;
+                if (this.config) {
+                    const authHeaders = getProviderAdapter(this.config.api_format).buildAuthHeaders(this.config.apiKey);
+                    for (const [name, value] of Object.entries(authHeaders)) {
+                        config.headers.set(name, value);
+                    }
                 }
                 return config;
             },
@@ -135,15 +168,28 @@ export class AIReviewer {
         }
 
         const rawEndpoint = (config.ai_review.api_endpoint || '').trim().replace(/\/+$/, '');
-        const apiEndpoint =
-            config.ai_review.api_format === 'custom'
-                ? rawEndpoint
-                : rawEndpoint && !rawEndpoint.endsWith('/chat/completions')
-                    ? `${rawEndpoint}/chat/completions`
-                    : rawEndpoint;
+        const apiFormat = config.ai_review.api_format || 'openai';
+        const providerAdapter = getProviderAdapter(apiFormat);
+        const apiEndpoint = providerAdapter.resolveEndpoint(rawEndpoint, {
+            model: config.ai_review.model,
+            api_version: config.ai_review.api_version,
+        });
+        const triageModel = config.ai_review.triage_model || undefined;
+        const triageEndpoint = this.resolveModelEndpoint(rawEndpoint, apiEndpoint, apiFormat, triageModel, {
+            mainModel: config.ai_review.model,
+            apiVersion: config.ai_review.api_version,
+            setting: 'triage_model',
+        });
+        const verifyModel = config.ai_review.verify_model || undefined;
+        const verifyEndpoint = this.resolveModelEndpoint(rawEndpoint, apiEndpoint, apiFormat, verifyModel, {
+            mainModel: config.ai_review.model,
+            apiVersion: config.ai_review.api_version,
+            setting: 'verify_model',
+        });
         this.config = {
             enabled: config.ai_review.enabled,
-            api_format: config.ai_review.api_format || 'openai',
+            api_format: apiFormat,
+            api_version: config.ai_review.api_version,
             apiEndpoint,
             apiKey: config.ai_review.api_key,
             model: config.ai_review.model ?? '',
@@ -151,6 +197,7 @@ export class AIReviewer {
             temperature: config.ai_review.temperature ?? DEFAULT_TEMPERATURE,
             max_tokens: config.ai_review.max_tokens || DEFAULT_MAX_TOKENS,
             system_prompt: config.ai_review.system_prompt || DEFAULT_SYSTEM_PROMPT,
+            review_profiles: config.ai_review.review_profiles,
             retry_count: config.ai_review.retry_count ?? DEFAULT_MAX_RETRIES,
             retry_delay: config.ai_review.retry_delay || DEFAULT_RETRY_DELAY,
             diff_only: config.ai_review.diff_only ?? true,
@@ -160,10 +207,42 @@ export class AIReviewer {
             ast_chunk_weight_by: config.ai_review.ast_chunk_weight_by ?? DEFAULT_AST_CHUNK_WEIGHT_BY,
             batch_concurrency: config.ai_review.batch_concurrency ?? DEFAULT_BATCH_CONCURRENCY,
             max_request_chars: config.ai_review.max_request_chars ?? DEFAULT_MAX_REQUEST_CHARS,
+            model_profiles: config.ai_review.model_profiles,
+            stream: config.ai_review.stream ?? false,
+            structured_output: config.ai_review.structured_output ?? 'off',
+            disk_cache: config.ai_review.disk_cache ?? true,
+            disk_cache_location: config.ai_review.disk_cache_location ?? 'global_storage',
+            disk_cache_max_size_mb: config.ai_review.disk_cache_max_size_mb ?? DEFAULT_DISK_CACHE_MAX_SIZE_MB,
+            disk_cache_max_age_days: config.ai_review.disk_cache_max_age_days ?? DEFAULT_DISK_CACHE_MAX_AGE_DAYS,
+            triage_model: triageEndpoint ? triageModel : undefined,
+            triageEndpoint,
+            triage_max_tokens: config.ai_review.triage_max_tokens ?? DEFAULT_TRIAGE_MAX_TOKENS,
+            verify_severities: config.ai_review.verify_severities,
+            verify_model: verifyEndpoint ? verifyModel : undefined,
+            verifyEndpoint,
+            verify_min_confidence: config.ai_review.verify_min_confidence ?? DEFAULT_VERIFY_MIN_CONFIDENCE,
+            feedback_from_ignores: config.ai_review.feedback_from_ignores ?? true,
+            feedback_max_patterns: config.ai_review.feedback_max_patterns ?? DEFAULT_FEEDBACK_MAX_PATTERNS,
+            rate_limit_rpm: config.ai_review.rate_limit_rpm ?? 0,
+            rate_limit_tpm: config.ai_review.rate_limit_tpm ?? 0,
+            circuit_breaker_threshold: config.ai_review.circuit_breaker_threshold ?? DEFAULT_CIRCUIT_BREAKER_THRESHOLD,
+            circuit_breaker_cooldown_ms: config.ai_review.circuit_breaker_cooldown_ms ?? DEFAULT_CIRCUIT_BREAKER_COOLDOWN_MS,
+            run_on_save_risk_patterns: config.ai_review.run_on_save_risk_patterns,
             action: config.ai_review.action
         };
 
         this.axiosInstance.defaults.timeout = this.config.timeout;
+        this.config.promptTemplates = this.loadPromptTemplates();
+        this.configureDiskCache(this.config, config.rules);
+        this.rateLimiter.configure(
+            {
+                requestsPerMinute: this.config.rate_limit_rpm,
+                tokensPerMinute: this.config.rate_limit_tpm,
+                circuitBreakerThreshold: this.config.circuit_breaker_threshold,
+                circuitBreakerCooldownMs: this.config.circuit_breaker_cooldown_ms,
+            },
+            `${this.config.api_format}|${this.config.apiEndpoint}|${this.config.apiKey}`
+        );
 
         const ep = this.config.apiEndpoint || '';
         const endpointResolved = !!ep && !ep.includes('${');
@@ -174,16 +253,44 @@ export class AIReviewer {
             this.logger.warn('⚠️ AI API端点未配置，AI审查将无法执行');
         }
         if (!this.config.apiKey) {
-            this.logger.warn('⚠️ AI API 密钥未配置，可能导致认证失败');
+            if (providerAdapter.requiresApiKey) {
+                this.logger.warn('⚠️ AI API 密钥未配置，可能导致认证失败');
+            }
         } else if (this.config.apiKey.startsWith('${') && this.config.apiKey.endsWith('}')) {
             this.logger.warn(`⚠️ AI API 密钥变量未解析: ${this.config.apiKey}`);
             this.logger.warn('请确保配置了 OPENAI_API_KEY 环境变量，或在项目根目录单独创建 .env 文件');
         }
     }
 
+    /**
+     * 为分诊/校验等单独指定的模型解析请求地址。Azure 按部署名路由：api_endpoint 为资源地址时按该模型拼出部署地址；
+     * 已是完整部署地址时无法切换部署，告警并返回 undefined（忽略该模型配置：分诊随之关闭，校验改用主模型），
+     * 避免按主部署计费却以为用了便宜模型。
+     */
+    private resolveModelEndpoint(
+        rawEndpoint: string,
+        mainEndpoint: string,
+        apiFormat: NonNullable<AIReviewConfig['api_format']>,
+        model: string | undefined,
+        options: { mainModel?: string; apiVersion?: string; setting: string }
+    ): string | undefined {
+        if (!model) {
+            return undefined;
+        }
+        const endpoint = getProviderAdapter(apiFormat).resolveEndpoint(rawEndpoint, { model, api_version: options.apiVersion });
+        if (apiFormat === 'azure_openai' && model !== options.mainModel && endpoint === mainEndpoint) {
+            this.logger.warn(`[azure_openai] api_endpoint 为完整部署地址，无法按 ${options.setting}=${model} 切换部署，已忽略该配置；请改填资源地址（https://xxx.openai.azure.com）`);
+            return undefined;
+        }
+        return endpoint;
+    }
+
     /**
      * 执行 AI 审查
      *
+     * onIssues：流式模式下每条问题经行号转换与过滤后即回调（可能重复回调同一批次，调用方自行去重）；
+     * signal：取消后不再发起新批次，进行中的批次返回已流式收到的问题。
+     *
      * @returns 审查问题列表
      */
     async review(
@@ -191,6 +298,8 @@ export class AIReviewer {
             diffByFile?: Map<string, FileDiff>;
             astSnippetsByFile?: Map<string, AffectedScopeResult>;
             diagnosticsByFile?: Map<string, Array<{ line: number; message: string; range?: { startLine: number; endLine: number } }>>;
+            onIssues?: (issues: ReviewIssue[]) => void;
+            signal?: AbortSignal;
         },
         traceSession?: RuntimeTraceSession | null
     ): Promise<ReviewIssue[]> {
@@ -206,6 +315,7 @@ export class AIReviewer {
         }
 
         this.resetReviewCache();
+        this.refreshPromptTemplates(traceSession);
 
         const useDiffMode = this.config?.diff_only !== false && diffByFile && diffByFile.size > 0;
         const useAstSnippets = !!astSnippetsByFile && astSnippetsByFile.size > 0;
@@ -417,10 +527,22 @@ export class AIReviewer {
                 return [];
             }
 
+            const unitsToReview = await this.selectUnitsForReview(reviewUnits, diffByFile, request.signal, traceSession);
+            if (unitsToReview.length === 0) {
+                if (!request.signal?.aborted) {
+                    this.logger.info('模型分级：所有单元均判定为无需审查');
+                }
+                return [];
+            }
+
+            // 分诊之后再附加项目规范，分诊请求不携带规范段落；附加后的内容参与切批预算
+            const unitsWithKnowledge = this.attachProjectKnowledge(unitsToReview);
+
+            // 按审查配置分组后再切批，同一批次只使用一种提示词
             const useAstSnippetBatching = useAstSnippets && this.config?.batching_mode === 'ast_snippet';
-            const batches = useAstSnippetBatching
-                ? splitUnitsBySnippetBudget(reviewUnits, getAstSnippetBudget(this.config), this.config)
-                : splitIntoBatches(reviewUnits, DEFAULT_BATCH_SIZE);
+            const batches = groupUnitsByProfile(unitsWithKnowledge).flatMap(group => useAstSnippetBatching
+                ? splitUnitsBySnippetBudget(group, getAstSnippetBudget(this.config), this.config)
+                : splitIntoBatches(group, DEFAULT_BATCH_SIZE));
 
             const issues = await this.processReviewUnitBatches(batches, {
                 useDiffContent,
@@ -428,8 +550,11 @@ export class AIReviewer {
                 diagnosticsByFile,
                 astSnippetsByFile: astSnippetsByFile ?? undefined,
                 contextLineRefsByFile,
+                feedbackPrompt: await this.loadFeedbackPrompt(),
+                onIssues: request.onIssues,
+                signal: request.signal,
             }, traceSession);
-            return issues;
+            return capIssuesByProfile(issues, this.config?.review_profiles);
         } catch (error) {
             return this.handleReviewError(error);
         }
@@ -475,6 +600,38 @@ export class AIReviewer {
             return '';
         }
     };
+
+    /**
+     * 为单个问题生成修复：发送问题、片段与上下文，返回片段的替换文本。
+     * 请求经 provider 适配器转换，支持除 custom 外的各 api_format；配置无效时抛错，由调用方提示用户。
+     */
+    async generateFix(request: AIFixRequest): Promise<AIFixResult> {
+        await this.ensureInitialized();
+        if (!this.isConfigValid() || !this.config) {
+            throw new Error('AI 未启用或配置不完整，无法生成修复');
+        }
+        if (this.config.api_format === 'custom') {
+            throw new Error('自定义 api_format 暂不支持 AI 修复，请改用 openai、anthropic、ollama 或 azure_openai 格式');
+        }
+        const config = this.config;
+        const providerAdapter = getProviderAdapter(config.api_format);
+        const fixRequestBody = buildFixRequest(config, request);
+        const requestBody = providerAdapter.buildRequestBody(fixRequestBody);
+        const response = await runWithRetry(
+            () => this.axiosInstance.post(config.apiEndpoint, requestBody, { timeout: config.timeout }),
+            {
+                maxRetries: config.retry_count ?? DEFAULT_MAX_RETRIES,
+                baseDelay: config.retry_delay ?? DEFAULT_RETRY_DELAY,
+                shouldRetry: (error) => axios.isAxiosError(error) && this.shouldRetry(error),
+                rateLimit: {
+                    limiter: this.rateLimiter,
+                    estimatedTokens: estimateMessagesTokens(fixRequestBody.messages) + fixRequestBody.max_tokens,
+                },
+            }
+        );
+        return parseFixResponse(providerAdapter.toOpenAIResponse(response.data, this.logger), this.logger);
+    }
+
     /** 验证输入请求，失败时由 handleZodError 抛出 */
     private validateRequest(request: AIReviewRequest): AIReviewRequest {
         try {
@@ -528,6 +685,9 @@ export class AIReviewer {
         const { apiKey } = this.config!;
         const normalizedKey = apiKey?.trim() || '';
         const isUnresolved = normalizedKey === '${OPENAI_API_KEY}' || normalizedKey.startsWith('${') || normalizedKey.includes('}');
+        if (!normalizedKey && !getProviderAdapter(this.config!.api_format).requiresApiKey) {
+            return;
+        }
         if (!normalizedKey || isUnresolved) {
             this.logger.warn('AI API密钥未配置或环境变量未解析');
             this.logger.warn('请确保设置了 OPENAI_API_KEY 环境变量，或在 .env 文件中配置');
@@ -557,6 +717,9 @@ export class AIReviewer {
             diagnosticsByFile: Map<string, Array<{ line: number; message: string; range?: { startLine: number; endLine: number } }>>;
             astSnippetsByFile?: Map<string, AffectedScopeResult>;
             contextLineRefsByFile?: Map<string, NonNullable<ReviewIssue['contextLineRefs']>>;
+            feedbackPrompt?: string;
+            onIssues?: (issues: ReviewIssue[]) => void;
+            signal?: AbortSignal;
         },
         traceSession?: RuntimeTraceSession | null
     ): Promise<ReviewIssue[]> => {
@@ -569,26 +732,40 @@ export class AIReviewer {
         const results: ReviewIssue[][] = new Array(batches.length);
         const processedUnitIds = new Set<string>();
         let nextBatchIndex = 0;
+        // 熔断后所有工作协程不再领取新批次，本次审查只报告一条熔断错误
+        let circuitError: CircuitOpenError | null = null;
 
         const workers = Array.from({ length: maxConcurrency }, async () => {
             while (true) {
+                if (options.signal?.aborted || circuitError) {
+                    break;
+                }
                 const currentIndex = nextBatchIndex;
                 nextBatchIndex++;
                 if (currentIndex >= batches.length) {
                     break;
                 }
-                results[currentIndex] = await this.processSingleReviewBatch(
-                    batches[currentIndex],
-                    currentIndex + 1,
-                    batches.length,
-                    processedUnitIds,
-                    options,
-                    traceSession
-                );
+                try {
+                    results[currentIndex] = await this.processSingleReviewBatch(
+                        batches[currentIndex],
+                        currentIndex + 1,
+                        batches.length,
+                        processedUnitIds,
+                        options,
+                        traceSession
+                    );
+                } catch (error) {
+                    if (!(error instanceof CircuitOpenError)) throw error;
+                    circuitError ??= error;
+                }
             }
         });
 
         await Promise.all(workers);
+        if (circuitError) {
+            this.logger.warn(`AI 服务已熔断，跳过剩余 ${Math.max(0, batches.length - nextBatchIndex)} 个批次`);
+            return [...results.flat(), ...this.handleReviewError(circuitError)];
+        }
         const flattened = results.flat();
         // 打点：整个并发池耗时、批次数、并发数
         return flattened;
@@ -605,6 +782,9 @@ export class AIReviewer {
             diagnosticsByFile: Map<string, Array<{ line: number; message: string; range?: { startLine: number; endLine: number } }>>;
             astSnippetsByFile?: Map<string, AffectedScopeResult>;
             contextLineRefsByFile?: Map<string, NonNullable<ReviewIssue['contextLineRefs']>>;
+            feedbackPrompt?: string;
+            onIssues?: (issues: ReviewIssue[]) => void;
+            signal?: AbortSignal;
         },
         traceSession?: RuntimeTraceSession | null
     ): Promise<ReviewIssue[]> => {
@@ -627,10 +807,33 @@ export class AIReviewer {
         const batchEstimatedChars = estimateRequestChars(
             batchUnits.map(unit => ({ path: unit.path, content: unit.content }))
         );
+        const streamedIssues: ReviewIssue[] = [];
+        let withheldStreamedIssues = false;
+        const batchOptions = {
+            ...options,
+            onIssues: (issues: ReviewIssue[]) => {
+                // 待自我校验的问题不流式推送，校验通过后再推送
+                const ready = issues.filter(issue => !needsVerification(this.config, issue));
+                withheldStreamedIssues ||= ready.length < issues.length;
+                if (ready.length === 0) return;
+                streamedIssues.push(...ready);
+                options.onIssues?.(ready);
+            },
+        };
         try {
-            const issues = await this.executeBatchWithFallback(batchUnits, options, true, traceSession);
-            return issues;
+            const issues = await this.executeBatchWithFallback(batchUnits, batchOptions, true, traceSession);
+            const verifiedIssues = await this.verifyBatchIssues(issues, batchUnits, options, traceSession);
+            if (withheldStreamedIssues) {
+                const confirmed = verifiedIssues.filter(issue => needsVerification(this.config, issue));
+                if (confirmed.length > 0) options.onIssues?.(confirmed);
+            }
+            return verifiedIssues;
         } catch (error) {
+            if (options.signal?.aborted) {
+                this.logger.info(`批次 ${batchIndex}/${totalBatches} 已取消，保留已流式返回的 ${streamedIssues.length} 条问题`);
+                return streamedIssues;
+            }
+            if (error instanceof CircuitOpenError) throw error;
             return this.handleReviewError(error);
         }
     };
@@ -643,6 +846,9 @@ export class AIReviewer {
             diagnosticsByFile: Map<string, Array<{ line: number; message: string; range?: { startLine: number; endLine: number } }>>;
             astSnippetsByFile?: Map<string, AffectedScopeResult>;
             contextLineRefsByFile?: Map<string, NonNullable<ReviewIssue['contextLineRefs']>>;
+            feedbackPrompt?: string;
+            onIssues?: (issues: ReviewIssue[]) => void;
+            signal?: AbortSignal;
         },
         allowSplit: boolean,
         traceSession?: RuntimeTraceSession | null
@@ -650,33 +856,39 @@ export class AIReviewer {
         const batchFiles = batchUnits.map(unit => ({
             path: unit.path,
             content: unit.content,
+            ...(unit.knowledgeContext ? { knowledgeContext: unit.knowledgeContext } : {}),
+        }));
+        // 预算按实际发送的内容（含代码块外的项目规范参考）估算
+        const requestFiles = batchFiles.map(file => ({
+            path: file.path,
+            content: file.knowledgeContext ? `${file.content}\n\n${file.knowledgeContext}` : file.content,
         }));
 
-        const estimatedChars = estimateRequestChars(batchFiles);
+        const estimatedTokens = estimateFilesTokens(requestFiles);
+        const tokenBudget = getRequestTokenBudget(this.config);
+        const estimatedChars = estimateRequestChars(requestFiles);
         const maxRequestChars = getMaxRequestChars(this.config);
-        if (allowSplit && batchFiles.length > 1 && estimatedChars > maxRequestChars) {
-            this.logger.warn(`[batch_guard] 批次预估长度 ${estimatedChars} 超过上限 ${maxRequestChars}，将二分降载`);
+        const overBudgetReason = estimatedTokens > tokenBudget
+            ? `批次预估 Token ${estimatedTokens} 超过预算 ${tokenBudget}`
+            : estimatedChars > maxRequestChars
+                ? `批次预估长度 ${estimatedChars} 超过上限 ${maxRequestChars}`
+                : null;
+        if (allowSplit && batchFiles.length > 1 && overBudgetReason) {
+            this.logger.warn(`[batch_guard] ${overBudgetReason}，将二分降载`);
             const [leftUnits, rightUnits] = splitUnitsInHalf(batchUnits);
             const leftIssues = await this.executeBatchWithFallback(leftUnits, options, false, traceSession);
             const rightIssues = await this.executeBatchWithFallback(rightUnits, options, false, traceSession);
             return [...leftIssues, ...rightIssues];
         }
 
-        try {
-            const diagnosticsForBatch = pickDiagnosticsForFiles(
-                options.diagnosticsByFile,
-                batchFiles.map(file => file.path)
-            );
-            const response = await this.callAPI(
-                { files: batchFiles },
-                {
-                    isDiffContent: options.useDiffContent,
-                    diagnosticsByFile: diagnosticsForBatch,
-                },
-                traceSession
-            );
+        const diagnosticsForBatch = pickDiagnosticsForFiles(
+            options.diagnosticsByFile,
+            batchFiles.map(file => file.path)
+        );
+        const profile = getReviewProfileByName(this.config?.review_profiles, batchUnits[0]?.profile);
+        const toBatchIssues = (response: AIReviewResponse): ReviewIssue[] => {
             const batchIssues = this.config
-                ? transformToReviewIssues(this.config, response, batchFiles, {
+                ? transformToReviewIssues(this.config, applySeverityFloor(response, profile), batchFiles, {
                     useDiffLineNumbers: options.useDiffContent,
                     allowedLinesByFile: options.allowedLinesByFile,
                 })
@@ -696,6 +908,28 @@ export class AIReviewer {
                     this.logger.debug(`[diagnostics] 本批无诊断数据，跳过重叠过滤 issuesBefore=${data.issuesBefore} diagnosticsFiles=${data.diagnosticsFiles}`);
                 },
             });
+        };
+        const onStreamedIssues = options.onIssues;
+
+        try {
+            const response = await this.callAPI(
+                { files: batchFiles },
+                {
+                    isDiffContent: options.useDiffContent,
+                    diagnosticsByFile: diagnosticsForBatch,
+                    onIssue: onStreamedIssues
+                        ? (issue) => {
+                            const issues = toBatchIssues({ issues: [issue] });
+                            if (issues.length > 0) onStreamedIssues(issues);
+                        }
+                        : undefined,
+                    signal: options.signal,
+                    profile,
+                    feedbackPrompt: options.feedbackPrompt,
+                },
+                traceSession
+            );
+            return toBatchIssues(response);
         } catch (error) {
             if (allowSplit && batchFiles.length > 1 && this.isContextTooLongError(error)) {
                 this.logger.warn('[batch_guard] 检测到上下文超限错误，批次将二分后重试一次');
@@ -732,6 +966,181 @@ export class AIReviewer {
         return [{ file: '', line: 1, column: 1, message: userMessage, rule, severity: actionToSeverity(action) }];
     }
 
+    /**
+     * 按配置创建磁盘缓存：目录或容量/期限变化时重建并清理一次；命名空间含 api_format、端点、提示词模板哈希与 rules 配置，
+     * 规则或模板变更后旧条目不再命中。无可用目录（未经扩展上下文初始化且选了 global_storage、或无工作区）时不缓存。
+     */
+    private configureDiskCache(config: AIReviewConfig, rules: unknown): void {
+        const baseDir = config.disk_cache_location === 'workspace'
+            ? getEffectiveWorkspaceRoot()?.uri.fsPath
+            : this.configManager.getGlobalStoragePath();
+        if (!config.disk_cache || !baseDir) {
+            this.diskCache = null;
+            this.diskCacheSettingsKey = '';
+            return;
+        }
+        const dir = config.disk_cache_location === 'workspace'
+            ? path.join(baseDir, '.vscode', 'agentreview-cache')
+            : path.join(baseDir, 'ai-response-cache');
+        const namespace = sha256(JSON.stringify({
+            api_format: config.api_format,
+            apiEndpoint: config.apiEndpoint,
+            promptTemplateHash: config.promptTemplates?.hash,
+            rules,
+        }));
+        const maxSizeMb = Math.max(1, config.disk_cache_max_size_mb ?? DEFAULT_DISK_CACHE_MAX_SIZE_MB);
+        const maxAgeDays = Math.max(1, config.disk_cache_max_age_days ?? DEFAULT_DISK_CACHE_MAX_AGE_DAYS);
+        const settingsKey = `${dir}|${namespace}|${maxSizeMb}|${maxAgeDays}`;
+        if (this.diskCache && settingsKey === this.diskCacheSettingsKey) {
+            return;
+        }
+        this.diskCacheSettingsKey = settingsKey;
+        this.diskCache = createAIResponseDiskCache({
+            dir,
+            namespace,
+            maxSizeBytes: maxSizeMb * 1024 * 1024,
+            maxAgeMs: maxAgeDays * 24 * 60 * 60 * 1000,
+            logger: this.logger,
+        });
+        void this.diskCache.prune();
+    }
+
+    /**
+     * 模型分级：配置 triage_model 时先分诊，只返回需要主模型审查的单元；未配置或 custom 格式时原样返回。
+     * 分诊期间取消时返回空列表，与批次取消一致不产生错误问题。
+     */
+    private selectUnitsForReview = async (
+        units: ReviewUnit[],
+        diffByFile: Map<string, FileDiff> | undefined,
+        signal: AbortSignal | undefined,
+        traceSession?: RuntimeTraceSession | null
+    ): Promise<ReviewUnit[]> => {
+        if (!this.config?.triage_model) {
+            return units;
+        }
+        if (this.config.api_format === 'custom') {
+            this.logger.warn('自定义 api_format 暂不支持模型分级，已跳过分诊');
+            return units;
+        }
+        try {
+            const { escalated } = await triageReviewUnits(
+                {
+                    config: this.config,
+                    axiosInstance: this.axiosInstance,
+                    logger: this.logger,
+                    runtimeTraceLogger: this.runtimeTraceLogger,
+                    shouldRetry: this.shouldRetry.bind(this),
+                    rateLimiter: this.rateLimiter,
+                },
+                units,
+                { diffByFile, signal },
+                traceSession
+            );
+            return escalated;
+        } catch (error) {
+            if (signal?.aborted) return [];
+            throw error;
+        }
+    };
+
+    /**
+     * 自我校验：配置 verify_severities 时把命中级别的问题交给模型复核，丢弃驳回与低置信的问题；
+     * 未配置、无候选或 custom 格式时原样返回，取消时抛出由批次统一处理。
+     */
+    private verifyBatchIssues = async (
+        issues: ReviewIssue[],
+        batchUnits: ReviewUnit[],
+        options: { useDiffContent: boolean; signal?: AbortSignal },
+        traceSession?: RuntimeTraceSession | null
+    ): Promise<ReviewIssue[]> => {
+        if (!this.config?.verify_severities?.length || !issues.some(issue => needsVerification(this.config, issue))) {
+            return issues;
+        }
+        if (this.config.api_format === 'custom') {
+            this.logger.warn('自定义 api_format 暂不支持自我校验，已跳过');
+            return issues;
+        }
+        const result = await verifyReviewIssues(
+            {
+                config: this.config,
+                axiosInstance: this.axiosInstance,
+                logger: this.logger,
+                runtimeTraceLogger: this.runtimeTraceLogger,
+                shouldRetry: this.shouldRetry.bind(this),
+                rateLimiter: this.rateLimiter,
+            },
+            issues,
+            { units: batchUnits, useDiffLineNumbers: options.useDiffContent, signal: options.signal },
+            traceSession
+        );
+        return result.issues;
+    };
+
+    /** 按 knowledge 配置为审查单元附加项目规范参考；未配置文档、无工作区或无命中时原样返回 */
+    private attachProjectKnowledge = (units: ReviewUnit[]): ReviewUnit[] => {
+        const knowledge = this.configManager.getConfig().knowledge;
+        const workspaceRoot = getEffectiveWorkspaceRoot()?.uri.fsPath;
+        if (!knowledge?.documents?.length || knowledge.enabled === false || !workspaceRoot) {
+            return units;
+        }
+        const index = this.knowledgeBase.load(workspaceRoot, knowledge.documents);
+        if (index.size === 0) {
+            return units;
+        }
+        const result = attachKnowledgeToUnits(units, index, {
+            maxPassages: knowledge.max_passages,
+            maxChars: knowledge.max_chars,
+            tokenBudget: getRequestTokenBudget(this.config),
+        });
+        this.logger.debug(`[knowledge] ${result.attached}/${units.length} 个审查单元附加了项目规范参考`);
+        return result.units;
+    };
+
+    /**
+     * 按忽略与放行记录生成「不要报告类似问题」提示段落；feedback_from_ignores=false、无工作区或无记录时为空。
+     * 读取失败不影响审查。
+     */
+    private loadFeedbackPrompt = async (): Promise<string> => {
+        const maxPatterns = this.config?.feedback_max_patterns ?? DEFAULT_FEEDBACK_MAX_PATTERNS;
+        const workspaceRoot = getEffectiveWorkspaceRoot()?.uri.fsPath;
+        if (this.config?.feedback_from_ignores === false || maxPatterns <= 0 || !workspaceRoot) {
+            return '';
+        }
+        try {
+            return buildFeedbackPrompt(await this.ignoreFeedback.load(workspaceRoot), maxPatterns);
+        } catch (error) {
+            this.logger.warn('加载忽略反馈失败，本次审查不附加', error);
+            return '';
+        }
+    };
+
+    /** 加载工作区 .agentreview/prompts 下的提示词模板；无工作区时使用内置模板 */
+    private loadPromptTemplates = (): PromptTemplateSet => {
+        const workspaceRoot = getEffectiveWorkspaceRoot()?.uri.fsPath;
+        return workspaceRoot
+            ? this.promptTemplateLoader.load(path.join(workspaceRoot, DEFAULT_PROMPT_TEMPLATE_DIR))
+            : getDefaultPromptTemplateSet();
+    };
+
+    /**
+     * 每次审查前重新加载模板（按 mtime 缓存），模板变化时同步更新磁盘缓存命名空间；生效模板写入运行汇总
+     */
+    private refreshPromptTemplates = (traceSession?: RuntimeTraceSession | null): void => {
+        if (!this.config) return;
+        const templates = this.loadPromptTemplates();
+        if (templates.hash !== this.config.promptTemplates?.hash) {
+            this.logger.info(`提示词模板已更新: ${templates.hash}${templates.overrides.length ? `（自定义 ${templates.overrides.join(', ')}）` : ''}`);
+            this.config.promptTemplates = templates;
+            this.configureDiskCache(this.config, this.configManager.getConfig().rules);
+        }
+        if (traceSession) {
+            this.runtimeTraceLogger.setRunPromptTemplate(traceSession.runId, {
+                hash: templates.hash,
+                overrides: templates.overrides,
+            });
+        }
+    };
+
     /** 重置审查缓存 */
     private resetReviewCache = (): void => {
         this.baseMessageCache.clear();
@@ -743,10 +1152,14 @@ export class AIReviewer {
      * @returns API 响应
      */
     private async callAPI(
-        request: { files: Array<{ path: string; content: string }> },
+        request: { files: Array<{ path: string; content: string; knowledgeContext?: string }> },
         options?: {
             isDiffContent?: boolean;
             diagnosticsByFile?: Map<string, Array<{ line: number; message: string }>>;
+            onIssue?: (issue: StreamedIssue) => void;
+            signal?: AbortSignal;
+            profile?: ReviewProfile;
+            feedbackPrompt?: string;
         },
         traceSession?: RuntimeTraceSession | null
     ): Promise<AIReviewResponse> {
@@ -762,6 +1175,8 @@ export class AIReviewer {
                 calculateRequestHash: (req) => calculateRequestHash(req),
                 mergeCachedIssues: (hash, resp, partial) => mergeCachedIssues(hash, resp, partial, this.responseCache),
                 baseMessageCache: this.baseMessageCache,
+                diskCache: this.diskCache,
+                rateLimiter: this.rateLimiter,
                 shouldRetry: this.shouldRetry.bind(this),
                 getRetryReason: this.getRetryReason,
                 sleep: this.sleep.bind(this),
@@ -8,27 +8,86 @@
 import { z } from 'zod';
 import type { Logger } from '../utils/logger';
 
+/** 单个模型的上下文窗口与价格（价格按每百万 Token，货币单位自定但需一致） */
+export interface ModelProfile {
+    context_window?: number;
+    input_price_per_1m?: number;
+    output_price_per_1m?: number;
+}
+
+/** 按路径生效的审查配置：paths 为 glob，按声明顺序取第一个命中的配置 */
+export interface ReviewProfile {
+    name: string;
+    paths: string[];
+    /** 追加到系统提示词的审查侧重 */
+    prompt?: string;
+    /** 低于该严重程度的问题不报告 */
+    min_severity?: 'error' | 'warning' | 'info';
+    /** 该配置下的文件本次审查最多保留的问题数 */
+    max_issues?: number;
+}
+
+/** 提示词模板名：review=审查请求，continuation=截断后的续写请求 */
+export type PromptTemplateName = 'review' | 'continuation';
+
+/** 生效的提示词模板（内置或仓库 .agentreview/prompts/<name>.md） */
+export interface PromptTemplateSet {
+    review: string;
+    continuation: string;
+    /** 生效模板内容的哈希，写入运行汇总并参与磁盘缓存键 */
+    hash: string;
+    /** 由仓库文件覆盖的模板 */
+    overrides: PromptTemplateName[];
+}
+
 /** AI审查配置：从 AgentReviewConfig 中提取的 AI 相关字段 */
 export interface AIReviewConfig {
     enabled: boolean;
-    api_format?: 'openai' | 'custom';
+    api_format?: 'openai' | 'custom' | 'anthropic' | 'ollama' | 'azure_openai';
+    api_version?: string;
     apiEndpoint: string;
+    /** 运行时按 triage_model 解析的请求地址（非配置项）；Azure 按部署名路由，不能复用主模型地址 */
+    triageEndpoint?: string;
+    /** 运行时按 verify_model 解析的请求地址（非配置项），未配置 verify_model 时使用 apiEndpoint */
+    verifyEndpoint?: string;
     apiKey?: string;
     model?: string;
     timeout: number;
     temperature?: number;
     max_tokens?: number;
     system_prompt?: string;
+    review_profiles?: ReviewProfile[];
+    /** 运行时从仓库加载的提示词模板（非配置项），未加载时使用内置模板 */
+    promptTemplates?: PromptTemplateSet;
     retry_count?: number;
     retry_delay?: number;
     diff_only?: boolean;
     batching_mode?: 'file_count' | 'ast_snippet';
     ast_snippet_budget?: number;
     ast_chunk_strategy?: 'even' | 'contiguous';
-    ast_chunk_weight_by?: 'snippet_count' | 'chars';
+    ast_chunk_weight_by?: 'snippet_count' | 'chars' | 'tokens';
     batch_concurrency?: number;
     max_request_chars?: number;
+    model_profiles?: Record<string, ModelProfile>;
+    stream?: boolean;
+    structured_output?: 'off' | 'auto' | 'json_schema' | 'tool';
+    disk_cache?: boolean;
+    disk_cache_location?: 'workspace' | 'global_storage';
+    disk_cache_max_size_mb?: number;
+    disk_cache_max_age_days?: number;
+    triage_model?: string;
+    triage_max_tokens?: number;
+    verify_severities?: Array<'error' | 'warning' | 'info'>;
+    verify_model?: string;
+    verify_min_confidence?: number;
+    feedback_from_ignores?: boolean;
+    feedback_max_patterns?: number;
+    rate_limit_rpm?: number;
+    rate_limit_tpm?: number;
+    circuit_breaker_threshold?: number;
+    circuit_breaker_cooldown_ms?: number;
     run_on_save?: boolean;
+    run_on_save_risk_patterns?: string[];
     run_on_save_force_review?: boolean;
     funnel_lint?: boolean;
     funnel_lint_severity?: 'error' | 'warning';
@@ -47,7 +106,18 @@ export const AIReviewRequestSchema = z.object({
     ).min(1, '至少需要一个文件')
 });
 
-/** 响应 Schema：issues 数组，每项含 file/line/column/snippet/message/severity */
+/**
+ * 问题附带的修改建议：用 replacement 替换新文件 start_line..end_line（含），original 为被替换的原代码。
+ * 结构不合法时按 null 处理，不影响问题本身的解析；内容校验见 transformToReviewIssues。
+ */
+export const AIReviewSuggestionSchema = z.object({
+    start_line: z.number().int().positive('行号必须是正整数'),
+    end_line: z.number().int().positive('行号必须是正整数'),
+    original: z.string().optional(),
+    replacement: z.string(),
+}).nullable().optional().catch(null);
+
+/** 响应 Schema：issues 数组，每项含 file/line/column/snippet/message/severity 与可选的 suggestion */
 export const AIReviewResponseSchema = z.object({
     issues: z.array(
         z.object({
@@ -58,7 +128,8 @@ export const AIReviewResponseSchema = z.object({
             message: z.string().min(1, '问题描述不能为空'),
             severity: z.enum(['error', 'warning', 'info'], {
                 message: '严重程度必须是 error、warning 或 info 之一'
-            })
+            }),
+            suggestion: AIReviewSuggestionSchema,
         })
     )
 });
@@ -92,6 +163,10 @@ export interface ReviewUnit {
     content: string;
     snippetCount: number;
     sourceType: ReviewUnitSourceType;
+    /** 命中的审查配置名（review_profiles），未命中时为空 */
+    profile?: string;
+    /** 整文件单元的项目规范参考：不拼入 content（以免改变行号），请求中放在代码块之后 */
+    knowledgeContext?: string;
 }
 
 /** 默认超时（毫秒） */
@@ -118,6 +193,10 @@ export const DEFAULT_AST_CHUNK_WEIGHT_BY: NonNullable<AIReviewConfig['ast_chunk_
 export const DEFAULT_BATCH_CONCURRENCY = 2;
 /** 单次请求最大字符数（超长时二分批次） */
 export const DEFAULT_MAX_REQUEST_CHARS = 50000;
+/** 磁盘缓存默认容量上限（MB） */
+export const DEFAULT_DISK_CACHE_MAX_SIZE_MB = 50;
+/** 磁盘缓存默认有效期（天） */
+export const DEFAULT_DISK_CACHE_MAX_AGE_DAYS = 7;
 
 /** 默认系统提示词（代码审查专家） */
 export const DEFAULT_SYSTEM_PROMPT = `你是一个经验丰富的代码审查专家。你的任务是深入分析代码，找出所有潜在问题，并提供详细的改进建议。
@@ -0,0 +1,232 @@
+/**
+ * 自我校验（verify）：把主模型给出的候选问题连同原代码行与上下文再发一次，逐条判定确认或驳回
+ *
+ * 只校验 severity 命中 verify_severities 的 AI 问题（通常为 error / warning），其余问题原样保留。
+ * 判定为 reject 或置信度低于 verify_min_confidence 的问题被丢弃；
+ * 校验请求失败、响应无法解析或漏判某条问题时保留该问题（计为未校验），宁可多报不漏报。
+ * 校验调用以 tier=verify 写入 addLlmCall，问题去向写入 addVerification，供运行汇总统计。
+ */
+
+import axios, { AxiosInstance, AxiosError } from 'axios';
+import * as path from 'path';
+import { z } from 'zod';
+import type { Logger } from '../utils/logger';
+import type { RuntimeTraceLogger, RuntimeTraceSession, VerificationStats } from '../utils/runtimeTraceLogger';
+import type { ReviewIssue } from '../types/review';
+import type { AIReviewConfig, ReviewUnit } from './aiReviewer.types';
+import { DEFAULT_MAX_RETRIES, DEFAULT_RETRY_DELAY, OpenAIResponseSchema } from './aiReviewer.types';
+import { getLanguageFromExtension, type OpenAIRequestBody } from './aiReviewer.prompts';
+import { cleanJsonContent } from './aiReviewer.responseParser';
+import { calculateCost, estimateMessagesTokens, estimateTokens, resolveModelProfile } from './aiReviewer.tokens';
+import { getProviderAdapter } from './aiReviewer.providers';
+import { buildReviewedLineMap } from './aiReviewer.transform';
+import { extractCurrentReviewContent } from './aiReviewer.snippets';
+import { runWithRetry } from './aiRetryHandler';
+import type { AIRateLimiter } from './aiRateLimiter';
+
+/** 低于该置信度的问题视为未确认而丢弃 */
+export const DEFAULT_VERIFY_MIN_CONFIDENCE = 0.6;
+/** 校验响应默认 max_tokens：每条问题只需一个判定 */
+export const DEFAULT_VERIFY_MAX_TOKENS = 1000;
+/** 每次校验请求包含的问题数上限 */
+export const VERIFY_BATCH_SIZE = 8;
+/** 问题行上下各附带的上下文行数 */
+const VERIFY_CONTEXT_LINES = 3;
+
+const VerificationResponseSchema = z.object({
+    verdicts: z.array(z.object({
+        index: z.number().int(),
+        verdict: z.enum(['confirm', 'reject']),
+        confidence: z.number().min(0).max(1),
+        reason: z.string().optional(),
+    })),
+});
+
+const VERIFY_SYSTEM_PROMPT = [
+    '你是严格的代码审查复核员，逐条核实其他审查者提出的问题是否真实存在于给出的代码中。',
+    '只有能从代码本身直接确认的问题才判为 confirm；推测性的、依赖未给出上下文的、风格偏好或与代码不符的问题判为 reject。',
+    'confidence 为你对判定的把握（0 到 1）。',
+    '只返回 JSON：{"verdicts": [{"index": 问题编号, "verdict": "confirm" 或 "reject", "confidence": 0.0-1.0, "reason": "一句话理由"}]}，覆盖全部问题，不要输出其他内容。',
+].join('\n');
+
+/** 待校验的候选问题及其代码上下文 */
+export interface VerificationItem {
+    issue: ReviewIssue;
+    /** 问题所在行的原代码；送审内容中找不到时为空串 */
+    code: string;
+    /** 问题行上下文，问题行以 ">" 标出 */
+    context: string;
+}
+
+/** verifyReviewIssues 所需依赖，由 AIReviewer 注入 */
+export interface VerificationDeps {
+    config: AIReviewConfig;
+    axiosInstance: AxiosInstance;
+    logger: Logger;
+    runtimeTraceLogger: RuntimeTraceLogger;
+    shouldRetry: (error: AxiosError) => boolean;
+    /** 跨批次、跨工作区根共享的限流器；未提供时不限流 */
+    rateLimiter?: AIRateLimiter;
+}
+
+/** 判断问题是否需要自我校验：仅 AI 审查问题且 severity 在 verify_severities 中 */
+export const needsVerification = (config: AIReviewConfig | null | undefined, issue: ReviewIssue): boolean =>
+    issue.rule === 'ai_review' && !!config?.verify_severities?.includes(issue.severity);
+
+/**
+ * 由本批送审内容为问题取原代码行与上下文：同一文件的多个审查单元合并还原行号。
+ */
+export const buildVerificationItems = (
+    issues: ReviewIssue[],
+    units: ReviewUnit[],
+    useDiffLineNumbers: boolean
+): VerificationItem[] => {
+    const lineMapByFile = new Map<string, Map<number, string>>();
+    for (const unit of units) {
+        const key = path.normalize(unit.path);
+        const lineMap = lineMapByFile.get(key) ?? new Map<number, string>();
+        const unitLineMap = buildReviewedLineMap(extractCurrentReviewContent(unit.content), useDiffLineNumbers);
+        for (const [line, text] of unitLineMap) {
+            if (!lineMap.get(line)?.trim()) lineMap.set(line, text);
+        }
+        lineMapByFile.set(key, lineMap);
+    }
+    return issues.map(issue => {
+        const lineMap = lineMapByFile.get(path.normalize(issue.file));
+        const contextLines: string[] = [];
+        for (let line = issue.line - VERIFY_CONTEXT_LINES; line <= issue.line + VERIFY_CONTEXT_LINES; line++) {
+            const text = lineMap?.get(line);
+            if (text !== undefined) contextLines.push(`${line === issue.line ? '>' : ' '} ${line} | ${text}`);
+        }
+        return { issue, code: lineMap?.get(issue.line) ?? '', context: contextLines.join('\n') };
+    });
+};
+
+/** 构建 OpenAI 兼容格式的校验请求体；问题按在本批中的下标编号 */
+export const buildVerificationRequest = (config: AIReviewConfig, items: VerificationItem[]): OpenAIRequestBody => {
+    const sections = items.map(({ issue, code, context }, index) => {
+        const language = getLanguageFromExtension(path.extname(issue.file).replace(/^\./, ''));
+        return [
+            `### 问题 ${index}: ${issue.file}:${issue.line} [${issue.severity}]`,
+            `描述：${issue.message}`,
+            `问题行：${code.trim() || '（送审内容中未找到该行）'}`,
+            `\`\`\`${language}\n${context}\n\`\`\``,
+        ].join('\n');
+    });
+    return {
+        model: config.verify_model || config.model || '',
+        messages: [
+            { role: 'system', content: VERIFY_SYSTEM_PROMPT },
+            { role: 'user', content: `共 ${items.length} 条问题：\n\n${sections.join('\n\n')}` },
+        ],
+        temperature: 0,
+        max_tokens: DEFAULT_VERIFY_MAX_TOKENS,
+    };
+};
+
+/**
+ * 解析校验响应为「下标 → 判定」；响应不是合法 JSON 或结构不符时抛错，由调用方整批保留。
+ */
+export const parseVerificationResponse = (
+    content: string,
+    logger: Logger
+): Map<number, { verdict: 'confirm' | 'reject'; confidence: number; reason?: string }> => {
+    const parsed = VerificationResponseSchema.parse(JSON.parse(cleanJsonContent(content, logger)));
+    return new Map(parsed.verdicts.map(({ index, ...verdict }) => [index, verdict]));
+};
+
+/**
+ * 校验候选问题：返回保留的问题（保持原顺序）与去向统计；取消（signal）时抛出，由调用方统一处理。
+ */
+export const verifyReviewIssues = async (
+    deps: VerificationDeps,
+    issues: ReviewIssue[],
+    options: { units: ReviewUnit[]; useDiffLineNumbers: boolean; signal?: AbortSignal },
+    traceSession?: RuntimeTraceSession | null
+): Promise<{ issues: ReviewIssue[]; stats: VerificationStats }> => {
+    const { config, axiosInstance, logger, runtimeTraceLogger } = deps;
+    const stats: VerificationStats = { candidates: 0, confirmed: 0, rejected: 0, lowConfidence: 0, unverified: 0 };
+    const candidates = issues.filter(issue => needsVerification(config, issue));
+    if (candidates.length === 0) {
+        return { issues, stats };
+    }
+    stats.candidates = candidates.length;
+    const minConfidence = config.verify_min_confidence ?? DEFAULT_VERIFY_MIN_CONFIDENCE;
+    const dropped = new Set<ReviewIssue>();
+
+    const providerAdapter = getProviderAdapter(config.api_format);
+    const modelProfile = resolveModelProfile(config, config.verify_model || config.model);
+    const items = buildVerificationItems(candidates, options.units, options.useDiffLineNumbers);
+    for (let start = 0; start < items.length; start += VERIFY_BATCH_SIZE) {
+        const batch = items.slice(start, start + VERIFY_BATCH_SIZE);
+        const openAIRequestBody = buildVerificationRequest(config, batch);
+        const callStartAt = Date.now();
+        try {
+            const response = await runWithRetry(
+                () => axiosInstance.post(
+                    config.verifyEndpoint ?? config.apiEndpoint,
+                    providerAdapter.buildRequestBody(openAIRequestBody),
+                    { timeout: config.timeout, signal: options.signal }
+                ),
+                {
+                    maxRetries: config.retry_count ?? DEFAULT_MAX_RETRIES,
+                    baseDelay: config.retry_delay ?? DEFAULT_RETRY_DELAY,
+                    shouldRetry: (error) => !options.signal?.aborted && axios.isAxiosError(error) && deps.shouldRetry(error),
+                    rateLimit: deps.rateLimiter && {
+                        limiter: deps.rateLimiter,
+                        estimatedTokens: estimateMessagesTokens(openAIRequestBody.messages) + openAIRequestBody.max_tokens,
+                        signal: options.signal,
+                    },
+                }
+            );
+            const data = OpenAIResponseSchema.parse(providerAdapter.toOpenAIResponse(response.data, logger));
+            const content = data.choices[0].message.content;
+            if (traceSession) {
+                const estimatedInput = estimateMessagesTokens(openAIRequestBody.messages);
+                const estimatedOutput = estimateTokens(content);
+                const usage = data.usage;
+                runtimeTraceLogger.addLlmCall(traceSession.runId, {
+                    tier: 'verify',
+                    durationMs: Date.now() - callStartAt,
+                    prompt_tokens: usage?.prompt_tokens,
+                    completion_tokens: usage?.completion_tokens,
+                    estimated_prompt_tokens: estimatedInput,
+                    estimated_completion_tokens: estimatedOutput,
+                    estimated_cost: calculateCost(modelProfile, { input: estimatedInput, output: estimatedOutput }),
+                    actual_cost: usage
+                        ? calculateCost(modelProfile, { input: usage.prompt_tokens ?? 0, output: usage.completion_tokens ?? 0 })
+                        : undefined,
+                });
+            }
+            const verdicts = parseVerificationResponse(content, logger);
+            batch.forEach(({ issue }, index) => {
+                const verdict = verdicts.get(index);
+                if (!verdict) {
+                    stats.unverified++;
+                } else if (verdict.verdict === 'reject') {
+                    stats.rejected++;
+                    dropped.add(issue);
+                    logger.debug(`[verify] 驳回 ${issue.file}:${issue.line} ${issue.message}${verdict.reason ? `（${verdict.reason}）` : ''}`);
+                } else if (verdict.confidence < minConfidence) {
+                    stats.lowConfidence++;
+                    dropped.add(issue);
+                    logger.debug(`[verify] 置信度 ${verdict.confidence} 低于 ${minConfidence}，丢弃 ${issue.file}:${issue.line} ${issue.message}`);
+                } else {
+                    stats.confirmed++;
+                }
+            });
+        } catch (error) {
+            if (options.signal?.aborted) throw error;
+            logger.warn(`自我校验：校验失败，本批 ${batch.length} 条问题原样保留: ${error instanceof Error ? error.message : String(error)}`);
+            stats.unverified += batch.length;
+        }
+    }
+
+    if (traceSession) {
+        runtimeTraceLogger.addVerification(traceSession.runId, stats);
+    }
+    logger.info(
+        `自我校验：${stats.candidates} 条候选，确认 ${stats.confirmed}，驳回 ${stats.rejected}，低置信 ${stats.lowConfidence}，未校验 ${stats.unverified}`
+    );
+    return { issues: issues.filter(issue => !dropped.has(issue)), stats };
+};
@@ -0,0 +1,300 @@
+#!/usr/bin/env node
+/**
+ * agentreview 命令行入口（package.json bin）
+ *
+ * 在 CI 等没有 VSCode 的环境中运行与插件相同的审查链路：
+ *   agentreview [staged|working|range <base>[..<head>]|branch <base>] [选项]
+ *
+ * - staged（默认）：审查暂存区变更
+ * - working：审查未暂存变更与未跟踪文件
+ * - range：审查提交区间 base..head（head 默认 HEAD，须为当前检出的提交，否则报错退出）
+ * - branch：审查当前分支相对 base 的 merge-base..HEAD，--by-commit 时逐提交审查
+ *
+ * 配置读取与插件一致：.agentreview.yaml + .env（ConfigManager.loadConfig），
+ * 另由宿主适配器提供 .vscode/settings.json 中的 agentreview.* 设置与可选的诊断文件。
+ *
+ * 退出码：0 审查通过；1 审查未通过（passed=false）；2 参数错误或运行失败。
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ReviewEngine } from '../core/reviewEngine';
+import type { ReviewResult } from '../types/review';
+import { installHostAdapter, loadDiagnosticsFile, loadWorkspaceSettings } from './hostAdapter';
+import { formatSarifReport } from '../utils/sarifExporter';
+import { formatJsonReport, formatTextReport, REPORT_FORMATS, type ReportFormat } from './reportFormatter';
+
+export const CLI_EXIT_PASSED = 0;
+export const CLI_EXIT_FAILED = 1;
+export const CLI_EXIT_ERROR = 2;
+
+export type CliMode = 'staged' | 'working' | 'range' | 'branch';
+
+export interface CliOptions {
+    mode: CliMode;
+    workspaceRoot: string;
+    format: ReportFormat;
+    baseRef?: string;
+    headRef?: string;
+    outputPath?: string;
+    diagnosticsPath?: string;
+    /** branch 模式：逐提交审查 */
+    byCommit: boolean;
+    verbose: boolean;
+}
+
+export const CLI_USAGE = [
+    '用法: agentreview [staged|working|range <base>[..<head>]|branch <base>] [选项]',
+    '',
+    '模式:',
+    '  staged                 审查暂存区变更（默认）',
+    '  working                审查未暂存变更与未跟踪文件',
+    '  range <base>[..<head>] 审查提交区间，head 默认 HEAD，须为当前检出的提交',
+    '  branch <base>          审查当前分支相对 base 的变更（merge-base..HEAD）',
+    '',
+    '选项:',
+    '  --workspace-root <dir> 仓库根目录，默认当前目录',
+    `  --format <fmt>         输出格式：${REPORT_FORMATS.join(' | ')}，默认 text`,
+    '  --output <file>        把报告写入文件（默认输出到 stdout）',
+    '  --diagnostics <file>   诊断 JSON：{ "文件路径": [{ line, column, message, severity, code }] }',
+    '  --by-commit            branch 模式下逐提交审查',
+    '  --verbose              输出插件内部日志到 stderr',
+    '  -h, --help             显示帮助',
+].join('\n');
+
+/**
+ * 解析命令行参数；参数错误时返回 { error }，请求帮助时返回 { help: true }。
+ */
+export const parseCliArgs = (
+    argv: string[],
+    cwd: string = process.cwd()
+): { options: CliOptions } | { error: string } | { help: true } => {
+    const positionals: string[] = [];
+    const flags: Record<string, string> = {};
+    let verbose = false;
+    let byCommit = false;
+    const valueFlags = ['--workspace-root', '--format', '--output', '--diagnostics'];
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '-h' || arg === '--help') {
+            return { help: true };
+        }
+        if (arg === '--verbose') {
+            verbose = true;
+            continue;
+        }
+        if (arg === '--by-commit') {
+            byCommit = true;
+            continue;
+        }
+        const eqIndex = arg.indexOf('=');
+        const flagName = eqIndex > 0 ? arg.slice(0, eqIndex) : arg;
+        if (valueFlags.includes(flagName)) {
+            const value = eqIndex > 0 ? arg.slice(eqIndex + 1) : argv[++i];
+            if (!value) {
+                return { error: `${flagName} 缺少参数值` };
+            }
+            flags[flagName] = value;
+            continue;
+        }
+        if (arg.startsWith('-')) {
+            return { error: `未知选项: ${arg}` };
+        }
+        positionals.push(arg);
+    }
+
+    const mode = (positionals[0] ?? 'staged') as CliMode;
+    if (!['staged', 'working', 'range', 'branch'].includes(mode)) {
+        return { error: `未知模式: ${positionals[0]}` };
+    }
+    const format = (flags['--format'] ?? 'text') as ReportFormat;
+    if (!REPORT_FORMATS.includes(format)) {
+        return { error: `不支持的输出格式: ${format}` };
+    }
+
+    let baseRef: string | undefined;
+    let headRef: string | undefined;
+    if (mode === 'range') {
+        const spec = positionals[1];
+        if (!spec) {
+            return { error: 'range 模式需要提供 <base>[..<head>]' };
+        }
+        const separatorIndex = spec.indexOf('..');
+        baseRef = separatorIndex >= 0 ? spec.slice(0, separatorIndex) : spec;
+        headRef = separatorIndex >= 0 ? spec.slice(separatorIndex + 2) || 'HEAD' : 'HEAD';
+        if (!baseRef) {
+            return { error: `无效的提交区间: ${spec}` };
+        }
+    } else if (mode === 'branch') {
+        baseRef = positionals[1];
+        if (!baseRef) {
+            return { error: 'branch 模式需要提供 <base>' };
+        }
+        if (positionals.length > 2) {
+            return { error: `多余的参数: ${positionals.slice(2).join(' ')}` };
+        }
+    } else if (positionals.length > 1) {
+        return { error: `多余的参数: ${positionals.slice(1).join(' ')}` };
+    }
+    if (byCommit && mode !== 'branch') {
+        return { error: '--by-commit 仅用于 branch 模式' };
+    }
+
+    return {
+        options: {
+            mode,
+            workspaceRoot: path.resolve(cwd, flags['--workspace-root'] ?? '.'),
+            format,
+            baseRef,
+            headRef,
+            outputPath: flags['--output'] ? path.resolve(cwd, flags['--output']) : undefined,
+            diagnosticsPath: flags['--diagnostics'] ? path.resolve(cwd, flags['--diagnostics']) : undefined,
+            byCommit,
+            verbose,
+        },
+    };
+};
+
+export type CliReviewEngine = Pick<
+    ReviewEngine,
+    | 'reviewStagedFilesWithContext'
+    | 'reviewWorkingChangesWithContext'
+    | 'reviewRefRangeWithContext'
+    | 'reviewBranchWithContext'
+>;
+
+export interface CliIo {
+    /** 报告输出（stdout 或 --output 文件） */
+    writeReport: (content: string) => Promise<void>;
+    /** 状态/提示输出（stderr） */
+    log: (line: string) => void;
+}
+
+/**
+ * 按模式执行审查，返回送审文件与结果。
+ */
+const runReviewByMode = async (
+    reviewEngine: CliReviewEngine,
+    options: CliOptions
+): Promise<{ result: ReviewResult; reviewedFiles: string[] }> => {
+    const workspaceRoot = options.workspaceRoot;
+    if (options.mode === 'working') {
+        const ctx = await reviewEngine.reviewWorkingChangesWithContext({ workspaceRoot });
+        return { result: ctx.result, reviewedFiles: ctx.changedFiles };
+    }
+    if (options.mode === 'range') {
+        const ctx = await reviewEngine.reviewRefRangeWithContext({
+            workspaceRoot,
+            baseRef: options.baseRef ?? 'HEAD',
+            headRef: options.headRef,
+        });
+        return { result: ctx.result, reviewedFiles: ctx.changedFiles };
+    }
+    if (options.mode === 'branch') {
+        const ctx = await reviewEngine.reviewBranchWithContext({
+            workspaceRoot,
+            baseRef: options.baseRef ?? 'main',
+            byCommit: options.byCommit,
+        });
+        return { result: ctx.result, reviewedFiles: ctx.changedFiles };
+    }
+    const ctx = await reviewEngine.reviewStagedFilesWithContext({ workspaceRoot });
+    return { result: ctx.result, reviewedFiles: ctx.stagedFiles };
+};
+
+/**
+ * 执行审查并输出报告，返回退出码。
+ */
+export const runCliReview = async (
+    reviewEngine: CliReviewEngine,
+    options: CliOptions,
+    io: CliIo
+): Promise<number> => {
+    const { result, reviewedFiles } = await runReviewByMode(reviewEngine, options);
+    const meta = {
+        mode: options.mode,
+        ...(options.mode === 'range' && { baseRef: options.baseRef, headRef: options.headRef }),
+        ...(options.mode === 'branch' && { baseRef: options.baseRef, byCommit: options.byCommit }),
+        reviewedFiles: reviewedFiles.length,
+    };
+    if (options.format === 'json') {
+        await io.writeReport(`${formatJsonReport(result, options.workspaceRoot, meta)}\n`);
+    } else if (options.format === 'sarif') {
+        await io.writeReport(`${formatSarifReport(result, options.workspaceRoot, { properties: meta })}\n`);
+    } else {
+        const lines = [
+            reviewedFiles.length === 0
+                ? `[AgentReview] 没有需要审查的变更（${options.mode}）`
+                : `[AgentReview] ${result.passed ? '审查通过' : '审查未通过'}（${options.mode}，${reviewedFiles.length} 个文件）`,
+            ...formatTextReport(result, options.workspaceRoot),
+        ];
+        await io.writeReport(`${lines.join('\n')}\n`);
+    }
+    if (options.outputPath) {
+        io.log(`[AgentReview] 报告已写入: ${options.outputPath}`);
+    }
+    return result.passed ? CLI_EXIT_PASSED : CLI_EXIT_FAILED;
+};
+
+/**
+ * 命令行入口：解析参数 → 注册宿主适配器 → 按需加载依赖 'vscode' 的模块并执行。
+ */
+const main = async (): Promise<number> => {
+    const log = (line: string) => process.stderr.write(`${line}\n`);
+    const parsed = parseCliArgs(process.argv.slice(2));
+    if ('help' in parsed) {
+        process.stdout.write(`${CLI_USAGE}\n`);
+        return CLI_EXIT_PASSED;
+    }
+    if ('error' in parsed) {
+        log(`[AgentReview] ${parsed.error}`);
+        log(CLI_USAGE);
+        return CLI_EXIT_ERROR;
+    }
+    const { options } = parsed;
+
+    installHostAdapter({
+        workspaceRoot: options.workspaceRoot,
+        settings: await loadWorkspaceSettings(options.workspaceRoot),
+        diagnosticsByFile: options.diagnosticsPath
+            ? await loadDiagnosticsFile(options.diagnosticsPath, options.workspaceRoot)
+            : undefined,
+        verbose: options.verbose,
+        write: log,
+    });
+
+    // 动态加载：确保这些模块 require('vscode') 时拿到的是宿主替身
+    const { ConfigManager } = await import('../config/configManager');
+    const { ReviewEngine } = await import('../core/reviewEngine');
+    const configManager = new ConfigManager();
+    try {
+        await configManager.initialize();
+        const reviewEngine = new ReviewEngine(configManager);
+        await reviewEngine.initialize();
+        return await runCliReview(reviewEngine, options, {
+            writeReport: async (content) => {
+                if (options.outputPath) {
+                    await fs.promises.mkdir(path.dirname(options.outputPath), { recursive: true });
+                    await fs.promises.writeFile(options.outputPath, content, 'utf8');
+                } else {
+                    process.stdout.write(content);
+                }
+            },
+            log,
+        });
+    } finally {
+        configManager.dispose();
+    }
+};
+
+if (require.main === module) {
+    main()
+        .then(code => {
+            process.exitCode = code;
+        })
+        .catch(error => {
+            process.stderr.write(`[AgentReview] 审查运行失败: ${error instanceof Error ? error.message : String(error)}\n`);
+            process.exitCode = CLI_EXIT_ERROR;
+        });
+}
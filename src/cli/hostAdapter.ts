@@ -0,0 +1,307 @@
+/**
+ * 无界面宿主适配器（host adapter）
+ *
+ * ReviewEngine / ConfigManager / FileScanner / AIReviewer 等模块直接 import 'vscode'，
+ * 而命令行（CI）与 git hook 运行时没有 VSCode 扩展宿主。
+ * 本模块在 Node 进程内注册一个最小化的 'vscode' 模块替身，只提供审查链路真正用到的 API：
+ * - workspace.workspaceFolders：固定为传入的仓库根目录（单根）
+ * - workspace.getConfiguration：由 settings 提供（通常读自 .vscode/settings.json 的 agentreview.* 键），
+ *   inspect 返回 workspaceValue，与 ConfigManager 的「Settings > YAML > 默认」优先级一致
+ * - languages.getDiagnostics：由 diagnosticsByFile 提供（如 CI 中预先导出的 lint 结果），默认为空
+ * - window.createOutputChannel：日志写到 stderr（仅 verbose 时），提示框降级为 stderr 输出
+ * - commands.executeCommand：LSP 相关命令不可用，返回 undefined
+ *
+ * 注意：必须在 require ReviewEngine 等模块之前调用 installHostAdapter。
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Module from 'module';
+
+/** 替身模块在 require.cache 中的虚拟文件名 */
+const VSCODE_SHIM_ID = path.join(__dirname, '__agentreview_headless_vscode__.js');
+
+/** 插件设置前缀：只从 settings.json 中挑出这些键 */
+const SETTINGS_PREFIX = 'agentreview.';
+
+/** 宿主诊断项（行列 1-based，与 ProjectDiagnosticItem 一致） */
+export type HostDiagnostic = {
+    line: number;
+    column?: number;
+    endLine?: number;
+    endColumn?: number;
+    message: string;
+    severity: 'error' | 'warning' | 'info' | 'hint';
+    code?: string;
+    source?: string;
+};
+
+export interface HostAdapterOptions {
+    /** 作为唯一工作区文件夹的仓库根目录 */
+    workspaceRoot: string;
+    /** 完整键名的设置值，如 { 'agentreview.ai.enabled': true } */
+    settings?: Record<string, unknown>;
+    /** 各文件诊断，键为文件绝对路径 */
+    diagnosticsByFile?: Map<string, HostDiagnostic[]>;
+    /** 为 true 时把插件内部日志输出到 stderr，便于排查问题 */
+    verbose?: boolean;
+    /** 输出函数，默认写 stderr；测试可替换 */
+    write?: (line: string) => void;
+}
+
+class HeadlessUri {
+    readonly scheme = 'file';
+    readonly path: string;
+    constructor(readonly fsPath: string) {
+        this.path = fsPath.replace(/\\/g, '/');
+    }
+    static file = (fsPath: string): HeadlessUri => new HeadlessUri(fsPath);
+    toString(): string {
+        return `file://${this.path}`;
+    }
+}
+
+const noopDisposable = { dispose: (): void => {} };
+
+/** 与 vscode.DiagnosticSeverity 数值保持一致 */
+const DIAGNOSTIC_SEVERITY = { Error: 0, Warning: 1, Information: 2, Hint: 3 } as const;
+
+const toSeverityNumber = (severity: HostDiagnostic['severity']): number => {
+    if (severity === 'error') return DIAGNOSTIC_SEVERITY.Error;
+    if (severity === 'warning') return DIAGNOSTIC_SEVERITY.Warning;
+    if (severity === 'info') return DIAGNOSTIC_SEVERITY.Information;
+    return DIAGNOSTIC_SEVERITY.Hint;
+};
+
+/** 把 1-based 的宿主诊断转为 vscode.Diagnostic 形状（0-based range） */
+const toVscodeDiagnostic = (item: HostDiagnostic) => {
+    const startLine = Math.max(0, item.line - 1);
+    const startCharacter = Math.max(0, (item.column ?? 1) - 1);
+    return {
+        range: {
+            start: { line: startLine, character: startCharacter },
+            end: {
+                line: Math.max(startLine, (item.endLine ?? item.line) - 1),
+                character: Math.max(0, (item.endColumn ?? item.column ?? 1) - 1),
+            },
+        },
+        message: item.message,
+        severity: toSeverityNumber(item.severity),
+        code: item.code,
+        source: item.source,
+    };
+};
+
+/**
+ * 去掉 JSONC 中的注释与尾逗号（settings.json 允许这两种写法），字符串内的内容保持不变。
+ */
+export const stripJsonComments = (text: string): string => {
+    let withoutComments = '';
+    let inString = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        const next = text[i + 1];
+        if (inString) {
+            withoutComments += char;
+            if (char === '\\') {
+                withoutComments += next ?? '';
+                i++;
+            } else if (char === '"') {
+                inString = false;
+            }
+            continue;
+        }
+        if (char === '"') {
+            inString = true;
+            withoutComments += char;
+        } else if (char === '/' && next === '/') {
+            while (i < text.length && text[i] !== '\n') i++;
+            withoutComments += '\n';
+        } else if (char === '/' && next === '*') {
+            i += 2;
+            while (i < text.length && !(text[i] === '*' && text[i + 1] === '/')) i++;
+            i++;
+        } else {
+            withoutComments += char;
+        }
+    }
+
+    // 第二遍：去掉 } 或 ] 前的尾逗号（同样跳过字符串）
+    let result = '';
+    inString = false;
+    for (let i = 0; i < withoutComments.length; i++) {
+        const char = withoutComments[i];
+        if (inString) {
+            result += char;
+            if (char === '\\') {
+                result += withoutComments[i + 1] ?? '';
+                i++;
+            } else if (char === '"') {
+                inString = false;
+            }
+            continue;
+        }
+        if (char === '"') {
+            inString = true;
+        } else if (char === ',') {
+            const rest = withoutComments.slice(i + 1).trimStart();
+            if (rest.startsWith('}') || rest.startsWith(']')) continue;
+        }
+        result += char;
+    }
+    return result;
+};
+
+/**
+ * 读取 <workspaceRoot>/.vscode/settings.json 中的 agentreview.* 设置；文件不存在或解析失败返回空对象。
+ */
+export const loadWorkspaceSettings = async (workspaceRoot: string): Promise<Record<string, unknown>> => {
+    const settingsPath = path.join(workspaceRoot, '.vscode', 'settings.json');
+    let content: string;
+    try {
+        content = await fs.promises.readFile(settingsPath, 'utf8');
+    } catch {
+        return {};
+    }
+    try {
+        const parsed = JSON.parse(stripJsonComments(content)) as Record<string, unknown>;
+        if (!parsed || typeof parsed !== 'object') return {};
+        return Object.fromEntries(Object.entries(parsed).filter(([key]) => key.startsWith(SETTINGS_PREFIX)));
+    } catch {
+        return {};
+    }
+};
+
+/**
+ * 读取诊断 JSON 文件：{ "<相对或绝对路径>": HostDiagnostic[] }，相对路径按 workspaceRoot 解析。
+ * @throws 文件不存在或格式不正确时抛出，由调用方报告
+ */
+export const loadDiagnosticsFile = async (
+    filePath: string,
+    workspaceRoot: string
+): Promise<Map<string, HostDiagnostic[]>> => {
+    const content = await fs.promises.readFile(filePath, 'utf8');
+    const parsed = JSON.parse(content) as Record<string, unknown>;
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error(`诊断文件格式不正确（应为 { 文件路径: 诊断数组 }）: ${filePath}`);
+    }
+    const map = new Map<string, HostDiagnostic[]>();
+    for (const [file, items] of Object.entries(parsed)) {
+        if (!Array.isArray(items)) continue;
+        const absPath = path.normalize(path.isAbsolute(file) ? file : path.join(workspaceRoot, file));
+        const valid = items.filter((item): item is HostDiagnostic =>
+            !!item
+            && typeof item === 'object'
+            && typeof (item as HostDiagnostic).line === 'number'
+            && typeof (item as HostDiagnostic).message === 'string'
+        ).map(item => ({ ...item, severity: item.severity ?? 'error' }));
+        map.set(absPath, valid);
+    }
+    return map;
+};
+
+/**
+ * 构造最小化的 vscode API 对象（仅覆盖审查链路用到的部分）。
+ */
+export const createHostVscodeApi = (options: HostAdapterOptions): Record<string, unknown> => {
+    const write = options.write ?? ((line: string) => process.stderr.write(`${line}\n`));
+    const verbose = options.verbose === true;
+    const settings = options.settings ?? {};
+    const diagnosticsByFile = options.diagnosticsByFile ?? new Map<string, HostDiagnostic[]>();
+    const rootUri = HeadlessUri.file(path.resolve(options.workspaceRoot));
+    const notify = (level: string) => async (message: string): Promise<undefined> => {
+        write(`[AgentReview] [${level}] ${message}`);
+        return undefined;
+    };
+    const fullKey = (section: string | undefined, key: string): string =>
+        section ? `${section}.${key}` : key;
+
+    return {
+        workspace: {
+            workspaceFolders: [{ uri: rootUri, name: path.basename(rootUri.fsPath), index: 0 }],
+            textDocuments: [],
+            getConfiguration: (section?: string) => ({
+                get: <T>(key: string, defaultValue?: T): T | undefined => {
+                    const name = fullKey(section, key);
+                    return name in settings ? settings[name] as T : defaultValue;
+                },
+                inspect: (key: string) => {
+                    const name = fullKey(section, key);
+                    return name in settings ? { key: name, workspaceValue: settings[name] } : undefined;
+                },
+                has: (key: string) => fullKey(section, key) in settings,
+            }),
+            createFileSystemWatcher: () => ({
+                onDidChange: () => noopDisposable,
+                onDidCreate: () => noopDisposable,
+                onDidDelete: () => noopDisposable,
+                dispose: () => {},
+            }),
+            onDidSaveTextDocument: () => noopDisposable,
+            onDidChangeTextDocument: () => noopDisposable,
+        },
+        window: {
+            createOutputChannel: () => ({
+                appendLine: (value: string) => {
+                    if (verbose) write(value);
+                },
+                append: (value: string) => {
+                    if (verbose) write(value);
+                },
+                clear: () => {},
+                show: () => {},
+                hide: () => {},
+                dispose: () => {},
+            }),
+            showInformationMessage: notify('INFO'),
+            showWarningMessage: notify('WARN'),
+            showErrorMessage: notify('ERROR'),
+        },
+        languages: {
+            getDiagnostics: (uri?: HeadlessUri) => {
+                if (!uri) {
+                    return Array.from(diagnosticsByFile.entries()).map(([file, items]) => [
+                        HeadlessUri.file(file),
+                        items.map(toVscodeDiagnostic),
+                    ]);
+                }
+                return (diagnosticsByFile.get(path.normalize(uri.fsPath)) ?? []).map(toVscodeDiagnostic);
+            },
+        },
+        commands: {
+            executeCommand: async () => undefined,
+            registerCommand: () => noopDisposable,
+        },
+        Uri: HeadlessUri,
+        RelativePattern: class {
+            constructor(public base: unknown, public pattern: string) {}
+        },
+        DiagnosticSeverity: DIAGNOSTIC_SEVERITY,
+        Position: class {
+            constructor(public line: number, public character: number) {}
+        },
+    };
+};
+
+let installed = false;
+
+/**
+ * 把宿主替身注册为 'vscode' 模块；重复调用时仅首次生效。
+ */
+export const installHostAdapter = (options: HostAdapterOptions): void => {
+    if (installed) return;
+    const moduleInternals = Module as unknown as {
+        _resolveFilename: (request: string, ...rest: unknown[]) => string;
+    };
+    const originalResolve = moduleInternals._resolveFilename;
+    moduleInternals._resolveFilename = function (request: string, ...rest: unknown[]): string {
+        if (request === 'vscode') return VSCODE_SHIM_ID;
+        return originalResolve.call(this, request, ...rest);
+    };
+    const shim = new Module(VSCODE_SHIM_ID);
+    shim.filename = VSCODE_SHIM_ID;
+    shim.loaded = true;
+    shim.exports = createHostVscodeApi(options);
+    require.cache[VSCODE_SHIM_ID] = shim;
+    installed = true;
+};
@@ -0,0 +1,76 @@
+/**
+ * 命令行/hook 审查结果输出格式
+ *
+ * - text：终端可读，error/warning 逐条列出（相对路径:行:列 [规则] 消息），info 只计数
+ * - json：机器可读，问题路径统一为相对 workspaceRoot 的正斜杠路径
+ * - sarif：SARIF 2.1.0，供代码扫描面板上传（见 utils/sarifExporter.ts）
+ */
+
+import * as path from 'path';
+import type { ReviewIssue, ReviewResult } from '../types/review';
+
+export type ReportFormat = 'text' | 'json' | 'sarif';
+
+export const REPORT_FORMATS: ReportFormat[] = ['text', 'json', 'sarif'];
+
+/** 供输出使用的相对路径（统一正斜杠）；不在 workspaceRoot 下时保留原路径 */
+export const toReportPath = (filePath: string, workspaceRoot: string): string => {
+    const relativePath = path.relative(workspaceRoot, filePath);
+    const usable = relativePath && !relativePath.startsWith('..') && !path.isAbsolute(relativePath)
+        ? relativePath
+        : filePath;
+    return usable.replace(/\\/g, '/');
+};
+
+const formatIssueLine = (issue: ReviewIssue, workspaceRoot: string): string =>
+    `  ${toReportPath(issue.file, workspaceRoot)}:${issue.line}:${issue.column} [${issue.rule}] ${issue.message}`;
+
+/**
+ * 把审查结果格式化为终端可读的多行文本。
+ */
+export const formatTextReport = (result: ReviewResult, workspaceRoot: string): string[] => {
+    const lines: string[] = [];
+    if (result.errors.length > 0) {
+        lines.push(`错误 (${result.errors.length}):`);
+        lines.push(...result.errors.map(issue => formatIssueLine(issue, workspaceRoot)));
+    }
+    if (result.warnings.length > 0) {
+        lines.push(`警告 (${result.warnings.length}):`);
+        lines.push(...result.warnings.map(issue => formatIssueLine(issue, workspaceRoot)));
+    }
+    if (result.info.length > 0) {
+        lines.push(`提示: ${result.info.length} 条（在 VSCode 审查面板中查看详情）`);
+    }
+    return lines;
+};
+
+/**
+ * 把审查结果序列化为 JSON 文本（带 2 空格缩进）。
+ * @param meta - 附加到顶层的元信息，如 mode、reviewedFiles
+ */
+export const formatJsonReport = (
+    result: ReviewResult,
+    workspaceRoot: string,
+    meta: Record<string, unknown> = {}
+): string => {
+    const toJsonIssue = (issue: ReviewIssue) => {
+        const { workspaceRoot: _root, ...rest } = issue;
+        return { ...rest, file: toReportPath(issue.file, workspaceRoot) };
+    };
+    return JSON.stringify(
+        {
+            ...meta,
+            passed: result.passed,
+            summary: {
+                errors: result.errors.length,
+                warnings: result.warnings.length,
+                info: result.info.length,
+            },
+            errors: result.errors.map(toJsonIssue),
+            warnings: result.warnings.map(toJsonIssue),
+            info: result.info.map(toJsonIssue),
+        },
+        null,
+        2
+    );
+};
@@ -2,17 +2,22 @@
  * 命令：agentreview.allowIssueIgnore - 放行当前问题（仅写入 @ai-ignore 注释，不写指纹）
  *
  * 行为：
- * 1. 从 reviewPanel 当前激活的问题读取 file/line
+ * 1. 从命令参数（树节点/CodeAction）或 reviewPanel 当前激活的问题读取 file/line
  * 2. 在目标行上方插入注释（保留原缩进）
  * 3. 后续审查由 ReviewEngine.filterIgnoredIssues 按 @ai-ignore 行号过滤（放行仅靠注释拦截）
+ * 4. 问题描述与放行原因记入 .vscode/agentreview-ignore.json 的 allowed，供 AI 审查归纳不必报告的问题类型
  *
  * Vue 文件：按插入行所在 SFC 块（template/script/style）自动选注释格式：template 用 HTML 注释，script 用双斜线，style 用块注释等；
  * 解析失败或行不在块内时回退为整文件 languageId（vue 仍用 HTML 注释）。
  */
 
+import * as path from 'path';
 import * as vscode from 'vscode';
 import type { CommandContext } from './commandContext';
+import { resolveCommandIssue, type IssueCommandTarget } from './issueCommandTarget';
+import { addAllowedIssue } from '../config/ignoreStore';
 import { getEffectiveLanguageIdForVueAtLine } from '../utils/vueSfcBlockAtLine';
+import { getEffectiveWorkspaceRoot } from '../utils/workspaceRoot';
 
 const commentPrefixByLanguage: Record<string, string> = {
     javascript: '//',
@@ -54,9 +59,9 @@ const buildIgnoreComment = (languageId: string, indent: string, reason: string):
 };
 
 export const registerAllowIssueIgnoreCommand = (deps: CommandContext): vscode.Disposable =>
-    vscode.commands.registerCommand('agentreview.allowIssueIgnore', async () => {
+    vscode.commands.registerCommand('agentreview.allowIssueIgnore', async (target?: IssueCommandTarget) => {
         const { reviewPanel } = deps;
-        const issue = reviewPanel?.getActiveIssueForActions();
+        const issue = resolveCommandIssue(deps, target);
         if (!issue) {
             vscode.window.showInformationMessage('请先在审查结果中选中一个问题，或悬停到问题行后再执行放行');
             return;
@@ -92,6 +97,17 @@ export const registerAllowIssueIgnoreCommand = (deps: CommandContext): vscode.Di
             return;
         }
         await document.save();
+        const workspaceRoot = issue.workspaceRoot || getEffectiveWorkspaceRoot()?.uri.fsPath;
+        if (workspaceRoot && issue.message) {
+            await addAllowedIssue(workspaceRoot, {
+                file: path.normalize(path.relative(workspaceRoot, issue.file)).replace(/\\/g, '/'),
+                line: issue.line,
+                rule: issue.rule,
+                message: issue.message,
+                severity: issue.severity,
+                reason: reason.trim(),
+            });
+        }
         await reviewPanel?.syncAfterIssueIgnore({
             filePath: issue.file,
             insertedLine: lineIndex + 1,
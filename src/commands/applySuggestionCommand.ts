@@ -0,0 +1,84 @@
+/**
+ * 命令：agentreview.applySuggestion - 直接应用 AI 审查随问题返回的修改建议，无需再次调用 AI
+ *
+ * 行为：
+ * 1. 取问题（hover / 树节点提示中的链接参数优先，否则 reviewPanel.getActiveIssueForActions()）
+ * 2. 按建议记录的原文在当前文件中定位：原行号处一致则直接使用，否则取离原行号最近的相同代码块
+ * 3. 以 WorkspaceEdit 替换并保存，复审修改后的范围（同 agentreview.fixIssue）
+ */
+
+import * as vscode from 'vscode';
+import type { CommandContext } from './commandContext';
+import { resolveCommandIssue, type IssueCommandTarget } from './issueCommandTarget';
+import type { ReviewIssue } from '../types/review';
+import { reviewFixedRange } from './fixIssueCommand';
+
+export const APPLY_SUGGESTION_COMMAND = 'agentreview.applySuggestion';
+
+/**
+ * 在文件行中定位建议的原文（逐行忽略首尾空白比较），返回 1-based 行范围；找不到返回 null。
+ */
+export const locateSuggestionRange = (
+    lines: string[],
+    suggestion: NonNullable<ReviewIssue['suggestion']>
+): { startLine: number; endLine: number } | null => {
+    const originalLines = suggestion.original.split('\n').map(line => line.trim());
+    const matchesAt = (startIndex: number): boolean =>
+        startIndex >= 0
+        && startIndex + originalLines.length <= lines.length
+        && originalLines.every((line, offset) => lines[startIndex + offset].trim() === line);
+    const preferred = suggestion.startLine - 1;
+    let best: number | null = null;
+    if (matchesAt(preferred)) {
+        best = preferred;
+    } else {
+        for (let index = 0; index + originalLines.length <= lines.length; index++) {
+            if (matchesAt(index) && (best === null || Math.abs(index - preferred) < Math.abs(best - preferred))) {
+                best = index;
+            }
+        }
+    }
+    return best === null ? null : { startLine: best + 1, endLine: best + originalLines.length };
+};
+
+export const registerApplySuggestionCommand = (deps: CommandContext): vscode.Disposable =>
+    vscode.commands.registerCommand(APPLY_SUGGESTION_COMMAND, async (target?: IssueCommandTarget) => {
+        const { logger } = deps;
+        const issue = resolveCommandIssue(deps, target);
+        const suggestion = issue?.suggestion;
+        if (!issue || !suggestion) {
+            vscode.window.showInformationMessage('该问题没有可直接应用的修改建议');
+            return;
+        }
+
+        let document: vscode.TextDocument;
+        try {
+            document = await vscode.workspace.openTextDocument(vscode.Uri.file(issue.file));
+        } catch {
+            vscode.window.showErrorMessage('无法读取文件内容，应用建议失败');
+            return;
+        }
+        const range = locateSuggestionRange(document.getText().split(/\r?\n/), suggestion);
+        if (!range) {
+            vscode.window.showWarningMessage('文件内容已变化，修改建议无法直接应用，可改用 AI 修复');
+            return;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(
+            document.uri,
+            new vscode.Range(range.startLine - 1, 0, range.endLine - 1, document.lineAt(range.endLine - 1).text.length),
+            suggestion.replacement
+        );
+        if (!(await vscode.workspace.applyEdit(edit))) {
+            vscode.window.showErrorMessage('应用修改建议失败');
+            return;
+        }
+        await document.save();
+        logger.info(`已应用修改建议: ${issue.file}:${range.startLine}-${range.endLine}`);
+
+        await reviewFixedRange(deps, issue, {
+            startLine: range.startLine,
+            endLine: range.startLine + suggestion.replacement.split('\n').length - 1,
+        });
+    });
@@ -0,0 +1,63 @@
+/**
+ * 命令：agentreview.explainIssue - 解释单个审查问题
+ *
+ * 以模态框展示问题的规则、严重程度、原因、AST 范围、状态与关联上下文位置，
+ * 供 CodeAction「解释」等入口使用（与悬停提示内容一致，但不依赖鼠标悬停）。
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import type { CommandContext } from './commandContext';
+import { resolveCommandIssue, type IssueCommandTarget } from './issueCommandTarget';
+import type { ReviewIssue } from '../types/review';
+
+const SEVERITY_LABEL: Record<ReviewIssue['severity'], string> = {
+    error: '错误',
+    warning: '警告',
+    info: '信息',
+};
+
+/**
+ * 构造问题解释的详情文本（多行）。
+ */
+export const buildIssueExplanation = (issue: ReviewIssue): string => {
+    const lines = [
+        `位置: ${path.basename(issue.file)} 第 ${issue.line} 行，第 ${issue.column} 列`,
+        `规则: ${issue.rule}（${SEVERITY_LABEL[issue.severity]}）`,
+    ];
+    if (issue.reason && issue.reason !== issue.message) {
+        lines.push(`原因: ${issue.reason}`);
+    }
+    if (issue.astRange) {
+        lines.push(`AST 范围: 第 ${issue.astRange.startLine}-${issue.astRange.endLine} 行`);
+    }
+    if (issue.ignored) {
+        lines.push(`状态: 已放行（@ai-ignore）${issue.ignoreReason ? `，原因: ${issue.ignoreReason}` : ''}`);
+    }
+    if (issue.stale) {
+        lines.push('状态: 已同步位置待复审，结论可能过期');
+    }
+    const refs = issue.contextLineRefs;
+    const formatRefs = (items: Array<{ file: string; line: number }>) =>
+        items.map(item => `${path.basename(item.file)}:${item.line}`).join('，');
+    if (refs?.definitions?.length) {
+        lines.push(`依赖定义: ${formatRefs(refs.definitions)}`);
+    }
+    if (refs?.usages?.length) {
+        lines.push(`调用方: ${formatRefs(refs.usages)}`);
+    }
+    return lines.join('\n');
+};
+
+export const registerExplainIssueCommand = (deps: CommandContext): vscode.Disposable =>
+    vscode.commands.registerCommand('agentreview.explainIssue', async (target?: IssueCommandTarget) => {
+        const issue = resolveCommandIssue(deps, target);
+        if (!issue) {
+            vscode.window.showInformationMessage('请先在审查结果中选中一个问题，或悬停到问题行后再查看解释');
+            return;
+        }
+        await vscode.window.showInformationMessage(issue.message, {
+            modal: true,
+            detail: buildIssueExplanation(issue),
+        });
+    });
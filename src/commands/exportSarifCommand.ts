@@ -0,0 +1,55 @@
+/**
+ * 命令：agentreview.exportSarif - 把当前面板的审查结果导出为 SARIF 2.1.0 文件
+ *
+ * 导出内容与面板一致（含 @ai-ignore 覆盖的问题，以 suppressions 标注）；
+ * 文件路径相对 Git 根目录（无 Git 根时取第一个工作区目录）。
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import type { CommandContext } from './commandContext';
+import { formatSarifReport } from '../utils/sarifExporter';
+
+export const registerExportSarifCommand = (
+    deps: CommandContext,
+    context: vscode.ExtensionContext
+): vscode.Disposable =>
+    vscode.commands.registerCommand('agentreview.exportSarif', async () => {
+        const { reviewPanel, logger } = deps;
+        const result = reviewPanel?.getCurrentResult();
+        if (!result) {
+            vscode.window.showWarningMessage('当前没有审查结果，请先执行代码审查');
+            return;
+        }
+
+        const workspaceRoot = deps.getGitRoot() ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        if (!workspaceRoot) {
+            vscode.window.showErrorMessage('未找到工作区，无法导出 SARIF');
+            return;
+        }
+
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(path.join(workspaceRoot, 'agentreview.sarif')),
+            filters: { SARIF: ['sarif', 'json'] },
+            saveLabel: '导出 SARIF',
+        });
+        if (!target) {
+            return;
+        }
+
+        try {
+            const toolVersion = context.extension?.packageJSON?.version as string | undefined;
+            const content = formatSarifReport(result, workspaceRoot, { toolVersion });
+            await fs.promises.writeFile(target.fsPath, `${content}\n`, 'utf8');
+            logger.info(`SARIF 已导出: ${target.fsPath}`);
+            const action = await vscode.window.showInformationMessage(`SARIF 已导出: ${target.fsPath}`, '打开文件');
+            if (action === '打开文件') {
+                const doc = await vscode.workspace.openTextDocument(target.fsPath);
+                await vscode.window.showTextDocument(doc, { preview: false });
+            }
+        } catch (error) {
+            logger.error('导出 SARIF 失败', error);
+            vscode.window.showErrorMessage('导出 SARIF 失败，请查看输出日志');
+        }
+    });
@@ -1,20 +1,194 @@
 /**
- * 命令：agentreview.fixIssue - 修复当前问题（占位）
+ * 命令：agentreview.fixIssue - 用 AI 生成修复补丁，预览确认后应用
  *
- * 从 reviewPanel.getActiveIssueForActions() 取 issue，无则提示，有则占位提示。
- * 后续可接入 AI 或 CodeLens。
+ * 行为：
+ * 1. 取问题（树节点/CodeAction 参数优先，否则 reviewPanel.getActiveIssueForActions()）
+ * 2. 截取 astRange 片段（无则问题行附近几行）及前后上下文，交给 AI 生成片段替换文本
+ *    （片段及上下文含阻断级密钥时 reviewEngine 拒绝上传，提示失败原因）
+ * 3. 在 vscode.diff 中预览「当前文件 ↔ 修复后文件」，用户确认后以 WorkspaceEdit 应用并保存
+ * 4. 用 reviewSavedFileWithScopeHints 复审修改后的范围，结果合入面板并提示问题是否已消除
  */
 
+import * as path from 'path';
 import * as vscode from 'vscode';
 import type { CommandContext } from './commandContext';
+import { resolveCommandIssue, type IssueCommandTarget } from './issueCommandTarget';
+import type { ReviewIssue, ReviewResult } from '../types/review';
+import { buildFixSnippet } from '../ai/aiReviewer.fix';
+import { normalizeMessageForCompare } from '../ai/aiReviewer.issueFilter';
 
-export const registerFixIssueCommand = (deps: CommandContext): vscode.Disposable =>
-    vscode.commands.registerCommand('agentreview.fixIssue', async () => {
-        const { reviewPanel } = deps;
-        const issue = reviewPanel?.getActiveIssueForActions();
+/** 修复预览的虚拟文档 scheme：内容由本模块的 TextDocumentContentProvider 提供 */
+export const FIX_PREVIEW_SCHEME = 'agentreview-fix';
+
+const APPLY_FIX_ACTION = '应用修复';
+
+/**
+ * 用替换文本覆盖 startLine..endLine（1-based，含），返回新的全文。
+ */
+export const applySnippetReplacement = (
+    text: string,
+    startLine: number,
+    endLine: number,
+    replacement: string
+): string => {
+    const eol = text.includes('\r\n') ? '\r\n' : '\n';
+    const lines = text.split(/\r?\n/);
+    const replacementLines = replacement.split(/\r?\n/);
+    return [...lines.slice(0, startLine - 1), ...replacementLines, ...lines.slice(endLine)].join(eol);
+};
+
+/**
+ * 复审结果中同一问题是否仍落在修改范围内：同文件、同规则，且指纹相同或消息归一化后相同。
+ * AI 问题的 rule 均为 ai_review，只比规则会把范围内无关的 AI 问题误判为未消除。
+ */
+export const isIssueStillPresent = (
+    result: ReviewResult,
+    issue: ReviewIssue,
+    range: { startLine: number; endLine: number }
+): boolean => {
+    const normalizedMessage = normalizeMessageForCompare(issue.message);
+    return [...result.errors, ...result.warnings, ...result.info].some(candidate =>
+        path.normalize(candidate.file) === path.normalize(issue.file)
+        && candidate.rule === issue.rule
+        && candidate.line >= range.startLine
+        && candidate.line <= range.endLine
+        && (
+            (!!issue.fingerprint && candidate.fingerprint === issue.fingerprint)
+            || normalizeMessageForCompare(candidate.message) === normalizedMessage
+        )
+    );
+};
+
+/**
+ * 复审修改后的范围，结果合入面板并提示问题是否已消除（AI 修复与应用修改建议共用）。
+ */
+export const reviewFixedRange = async (
+    deps: CommandContext,
+    issue: ReviewIssue,
+    fixedRange: { startLine: number; endLine: number }
+): Promise<void> => {
+    const { reviewEngine, reviewPanel, statusBar, logger } = deps;
+    if (!reviewEngine) {
+        return;
+    }
+    try {
+        const result = await reviewEngine.reviewSavedFileWithScopeHints(issue.file, [{ ...fixedRange, source: 'ast' }]);
+        const resolved = !isIssueStillPresent(result, issue, fixedRange);
+        const statusMessage = resolved ? '修复已应用，复审确认问题已消除' : '修复已应用，但复审仍发现该问题';
+        reviewPanel?.applyFileReviewPatch({
+            filePath: issue.file,
+            newResult: result,
+            replaceMode: 'stale_only',
+            status: 'completed',
+            statusMessage,
+            reviewedMode: 'diff',
+            reviewedRanges: [fixedRange],
+        });
+        statusBar?.updateWithResult(reviewPanel?.getCurrentResult() ?? result, statusMessage);
+        if (resolved) {
+            vscode.window.showInformationMessage(`✅ ${statusMessage}`);
+        } else {
+            vscode.window.showWarningMessage(statusMessage);
+        }
+    } catch (error) {
+        logger.error('修复后复审失败', error);
+        vscode.window.showWarningMessage('修复已应用，但复审失败，请手动重新审查');
+    }
+};
+
+export const registerFixIssueCommand = (deps: CommandContext): vscode.Disposable => {
+    const previewContents = new Map<string, string>();
+    const previewProvider = vscode.workspace.registerTextDocumentContentProvider(FIX_PREVIEW_SCHEME, {
+        provideTextDocumentContent: (uri: vscode.Uri) => previewContents.get(uri.path) ?? '',
+    });
+
+    const command = vscode.commands.registerCommand('agentreview.fixIssue', async (target?: IssueCommandTarget) => {
+        const { reviewEngine, logger } = deps;
+        const issue = resolveCommandIssue(deps, target);
         if (!issue) {
             vscode.window.showInformationMessage('请先在审查结果中选中一个问题，或悬停到问题行上再点击修复');
             return;
         }
-        vscode.window.showInformationMessage('修复功能占位，后续可接入 AI 或 CodeLens');
+        if (!reviewEngine) {
+            vscode.window.showErrorMessage('审查引擎未初始化');
+            return;
+        }
+
+        let document: vscode.TextDocument;
+        try {
+            document = await vscode.workspace.openTextDocument(vscode.Uri.file(issue.file));
+        } catch {
+            vscode.window.showErrorMessage('无法读取文件内容，修复失败');
+            return;
+        }
+        const originalText = document.getText();
+        const versionAtRequest = document.version;
+        const snippet = buildFixSnippet(originalText.split(/\r?\n/), issue);
+
+        let fix: { replacement: string; explanation?: string };
+        try {
+            fix = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: 'AI 生成修复中…' },
+                () => reviewEngine.generateIssueFix({ filePath: issue.file, issue, snippet })
+            );
+        } catch (error) {
+            logger.error('AI 生成修复失败', error);
+            vscode.window.showErrorMessage(`AI 生成修复失败：${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+        if (fix.replacement === snippet.code) {
+            vscode.window.showInformationMessage('AI 未给出改动，问题可能需要手动处理');
+            return;
+        }
+
+        const previewPath = `/${Date.now()}/${path.basename(issue.file)}`;
+        previewContents.set(
+            previewPath,
+            applySnippetReplacement(originalText, snippet.startLine, snippet.endLine, fix.replacement)
+        );
+        try {
+            await vscode.commands.executeCommand(
+                'vscode.diff',
+                document.uri,
+                vscode.Uri.from({ scheme: FIX_PREVIEW_SCHEME, path: previewPath }),
+                `AI 修复预览: ${path.basename(issue.file)}（第 ${snippet.startLine}-${snippet.endLine} 行）`,
+                { preview: true }
+            );
+            const choice = await vscode.window.showInformationMessage(
+                `应用 AI 修复？${fix.explanation ? `\n${fix.explanation}` : ''}`,
+                { modal: true },
+                APPLY_FIX_ACTION
+            );
+            if (choice !== APPLY_FIX_ACTION) {
+                return;
+            }
+        } finally {
+            previewContents.delete(previewPath);
+        }
+
+        if (document.version !== versionAtRequest) {
+            vscode.window.showWarningMessage('文件在生成修复期间已被修改，请重新执行修复');
+            return;
+        }
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(
+            document.uri,
+            new vscode.Range(snippet.startLine - 1, 0, snippet.endLine - 1, document.lineAt(snippet.endLine - 1).text.length),
+            fix.replacement
+        );
+        if (!(await vscode.workspace.applyEdit(edit))) {
+            vscode.window.showErrorMessage('应用修复失败');
+            return;
+        }
+        await document.save();
+        logger.info(`已应用 AI 修复: ${issue.file}:${snippet.startLine}-${snippet.endLine}`);
+
+        // 复审修改后的范围（替换文本行数可能与原片段不同）
+        await reviewFixedRange(deps, issue, {
+            startLine: snippet.startLine,
+            endLine: snippet.startLine + fix.replacement.split(/\r?\n/).length - 1,
+        });
     });
+
+    return vscode.Disposable.from(previewProvider, command);
+};
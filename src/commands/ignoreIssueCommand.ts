@@ -8,22 +8,14 @@
 import * as path from 'path';
 import * as vscode from 'vscode';
 import type { CommandContext } from './commandContext';
-import type { ReviewTreeItem } from '../ui/reviewPanel';
-import type { ReviewIssue } from '../types/review';
+import { resolveCommandIssue, type IssueCommandTarget } from './issueCommandTarget';
 import { computeIssueFingerprint } from '../utils/issueFingerprint';
 import { addIgnoredFingerprint } from '../config/ignoreStore';
 import { getEffectiveWorkspaceRoot } from '../utils/workspaceRoot';
 
-const getIssue = (deps: CommandContext, treeItem?: ReviewTreeItem): ReviewIssue | null => {
-    if (treeItem?.issue) {
-        return treeItem.issue;
-    }
-    return deps.reviewPanel?.getActiveIssueForActions() ?? null;
-};
-
 export const registerIgnoreIssueCommand = (deps: CommandContext): vscode.Disposable =>
-    vscode.commands.registerCommand('agentreview.ignoreIssue', async (treeItem?: ReviewTreeItem) => {
-        const issue = getIssue(deps, treeItem);
+    vscode.commands.registerCommand('agentreview.ignoreIssue', async (target?: IssueCommandTarget) => {
+        const issue = resolveCommandIssue(deps, target);
         if (!issue) {
             vscode.window.showInformationMessage('请先在审查结果中选中一个问题，或悬停到问题行后再执行忽略');
             return;
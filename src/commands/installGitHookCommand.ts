@@ -0,0 +1,57 @@
+/**
+ * 命令：agentreview.installGitHook - 安装 Git pre-commit hook
+ *
+ * 行为：
+ * 1. 定位 Git 根目录，运行器路径取扩展目录下的 out/hooks/preCommitRunner.js
+ * 2. 写入 pre-commit hook；提交时 hook 调用运行器执行 staged 审查，未通过则阻止提交
+ * 3. 已存在第三方 pre-commit hook 时先询问：确认后备份原 hook 并在审查前链式执行
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import type { CommandContext } from './commandContext';
+import { installPreCommitHook } from '../hooks/gitHookInstaller';
+
+/** 扩展目录下编译后的 headless 运行器路径 */
+export const getPreCommitRunnerPath = (extensionPath: string): string =>
+    path.join(extensionPath, 'out', 'hooks', 'preCommitRunner.js');
+
+export const registerInstallGitHookCommand = (
+    deps: CommandContext,
+    context: vscode.ExtensionContext
+): vscode.Disposable =>
+    vscode.commands.registerCommand('agentreview.installGitHook', async () => {
+        const { logger } = deps;
+        const gitRoot = deps.getGitRoot();
+        if (!gitRoot) {
+            vscode.window.showErrorMessage('未找到 Git 仓库，无法安装 pre-commit hook');
+            return;
+        }
+
+        try {
+            const runnerPath = getPreCommitRunnerPath(context.extensionPath);
+            let installed = await installPreCommitHook({ gitRoot, runnerPath });
+            if (installed.status === 'foreign_hook_exists') {
+                const overwrite = '备份并安装';
+                const choice = await vscode.window.showWarningMessage(
+                    `已存在其他 pre-commit hook：${installed.hookPath}。是否备份原 hook 并安装 AgentReview hook？原 hook 会在审查前继续执行。`,
+                    { modal: true },
+                    overwrite
+                );
+                if (choice !== overwrite) {
+                    return;
+                }
+                installed = await installPreCommitHook({ gitRoot, runnerPath, overwriteExisting: true });
+            }
+
+            logger.info('pre-commit hook 已安装', installed);
+            vscode.window.showInformationMessage(
+                installed.status === 'updated'
+                    ? `AgentReview pre-commit hook 已更新: ${installed.hookPath}`
+                    : `AgentReview pre-commit hook 已安装: ${installed.hookPath}`
+            );
+        } catch (error) {
+            logger.error('安装 pre-commit hook 失败', error);
+            vscode.window.showErrorMessage('安装 pre-commit hook 失败，请查看输出日志');
+        }
+    });
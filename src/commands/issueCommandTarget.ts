@@ -0,0 +1,18 @@
+/**
+ * 问题类命令（放行/忽略/修复/解释）的目标问题解析
+ *
+ * 命令参数可来自树节点内联按钮（ReviewTreeItem）或 CodeAction（{ issue }），二者都带 issue 字段；
+ * 无参数时回退到面板当前激活的问题（选中树节点或悬停过的问题）。
+ */
+
+import type { CommandContext } from './commandContext';
+import type { ReviewIssue } from '../types/review';
+
+export type IssueCommandTarget = { issue?: ReviewIssue };
+
+export const resolveCommandIssue = (deps: CommandContext, target?: IssueCommandTarget): ReviewIssue | null => {
+    if (target?.issue) {
+        return target.issue;
+    }
+    return deps.reviewPanel?.getActiveIssueForActions() ?? null;
+};
@@ -0,0 +1,42 @@
+/**
+ * run / runStaged 命令共用的流式审查会话：进度条取消转为 AbortSignal，
+ * 流式返回的 AI 问题追加到结果面板并在进度条上显示已返回条数。
+ */
+
+import type * as vscode from 'vscode';
+import type { ReviewIssue } from '../types/review';
+import type { ReviewPanel } from '../ui/reviewPanel';
+import type { ReviewStreamOptions } from '../core/reviewEngine.types';
+
+/** 取消后面板与状态栏的提示 */
+export const REVIEW_CANCELLED_MESSAGE = '已取消，保留已返回的问题';
+
+export type ReviewStreamSession = {
+    options: ReviewStreamOptions;
+    isCancelled: () => boolean;
+    /** 面板中是否已追加过流式问题（此时面板内容不再等同于审查前的历史结果） */
+    hasStreamedIssues: () => boolean;
+    dispose: () => void;
+};
+
+export const createReviewStreamSession = (
+    reviewPanel: Pick<ReviewPanel, 'appendStreamedIssues'>,
+    progress?: vscode.Progress<{ message?: string }>,
+    token?: vscode.CancellationToken
+): ReviewStreamSession => {
+    const controller = new AbortController();
+    const cancellation = token?.onCancellationRequested(() => controller.abort());
+    let streamedCount = 0;
+
+    const onAiIssues = (issues: ReviewIssue[]): void => {
+        streamedCount += reviewPanel.appendStreamedIssues(issues);
+        progress?.report({ message: `已返回 ${streamedCount} 条 AI 问题` });
+    };
+
+    return {
+        options: { onAiIssues, signal: controller.signal },
+        isCancelled: () => controller.signal.aborted,
+        hasStreamedIssues: () => streamedCount > 0,
+        dispose: () => cancellation?.dispose(),
+    };
+};
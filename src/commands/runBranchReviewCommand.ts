@@ -0,0 +1,101 @@
+/**
+ * 命令：agentreview.runBranch - 审查当前分支相对基准分支的变更
+ *
+ * 行为：
+ * 1. 输入基准分支/提交（默认上次输入的值，首次为 main），审查 merge-base..HEAD 的变更
+ * 2. 选择整体审查或逐提交审查（逐提交时每个提交只审它引入且保留到 HEAD 的行）
+ * 3. 结果走与其它审查相同的 diffByFile/AST 切片链路，只有分支改动的行会送规则与 AI
+ */
+
+import * as vscode from 'vscode';
+import type { CommandContext } from './commandContext';
+import { isSafeGitRef } from '../utils/fileScanner';
+
+/** 上次输入的基准 ref，存于 workspaceState */
+export const LAST_BRANCH_BASE_REF_STORAGE_KEY = 'agentReview.lastBranchBaseRef';
+
+type BranchModePickItem = vscode.QuickPickItem & { byCommit: boolean };
+
+export const registerRunBranchReviewCommand = (deps: CommandContext): vscode.Disposable =>
+    vscode.commands.registerCommand('agentreview.runBranch', async () => {
+        const { reviewEngine, reviewPanel, statusBar, logger, workspaceState } = deps;
+        if (!reviewEngine || !reviewPanel || !statusBar) {
+            vscode.window.showErrorMessage('组件未初始化');
+            return;
+        }
+
+        const lastBaseRef = workspaceState?.get<string>(LAST_BRANCH_BASE_REF_STORAGE_KEY) ?? 'main';
+        const baseRef = (await vscode.window.showInputBox({
+            title: 'AgentReview: 审查当前分支',
+            prompt: '输入基准分支或提交，将审查 merge-base..HEAD 的变更（如 main、origin/main）',
+            value: lastBaseRef,
+            validateInput: (value: string) =>
+                isSafeGitRef(value.trim()) ? null : '请输入合法的分支名、tag 或提交 sha',
+        }))?.trim();
+        if (!baseRef) {
+            return;
+        }
+
+        const modeItems: BranchModePickItem[] = [
+            { label: '整体审查', description: 'merge-base..HEAD 的全部变更一起审查', byCommit: false },
+            { label: '逐提交审查', description: '按提交分别审查各自引入的行', byCommit: true },
+        ];
+        const mode = await vscode.window.showQuickPick(modeItems, { placeHolder: '选择分支审查方式' });
+        if (!mode) {
+            return;
+        }
+        void workspaceState?.update(LAST_BRANCH_BASE_REF_STORAGE_KEY, baseRef);
+
+        try {
+            await vscode.window.withProgress(
+                { location: { viewId: 'agentReview.results' }, title: '审查中…' },
+                async () => {
+                    statusBar.updateStatus('reviewing');
+                    reviewPanel.setStatus('reviewing');
+                    reviewPanel.reveal();
+
+                    const { result, changedFiles, mergeBase, commits } = await reviewEngine.reviewBranchWithContext({
+                        workspaceRoot: deps.getGitRoot() ?? undefined,
+                        baseRef,
+                        byCommit: mode.byCommit,
+                    });
+                    const shortBase = mergeBase.slice(0, 8);
+                    reviewPanel.showReviewResult(
+                        result,
+                        'completed',
+                        '',
+                        changedFiles.length === 0 ? `当前分支相对 ${baseRef} 没有需要审查的变更` : ''
+                    );
+                    const subStatus = mode.byCommit
+                        ? `对比 ${baseRef}（merge-base ${shortBase}），逐提交审查 ${commits?.length ?? 0} 个提交`
+                        : `对比 ${baseRef}（merge-base ${shortBase}），${changedFiles.length} 个文件`;
+                    reviewPanel.setSubStatus(subStatus);
+                    statusBar.updateWithResult(result, subStatus);
+                    for (const entry of commits ?? []) {
+                        logger.info(`提交 ${entry.sha.slice(0, 8)} ${entry.subject}`, {
+                            files: entry.changedFiles.length,
+                            errors: entry.result.errors.length,
+                            warnings: entry.result.warnings.length,
+                            info: entry.result.info.length,
+                        });
+                    }
+
+                    if (result.passed) {
+                        vscode.window.showInformationMessage(`✅ 分支审查通过（${subStatus}）`);
+                    } else {
+                        vscode.window.showWarningMessage(
+                            `分支审查发现问题: ${result.errors.length}个错误, ${result.warnings.length}个警告`
+                        );
+                    }
+                }
+            );
+        } catch (error) {
+            logger.error('分支审查过程出错', error);
+            statusBar.updateStatus('error');
+            reviewPanel.setStatus('error');
+            const message = error instanceof Error && error.message.includes('merge-base')
+                ? `分支审查失败：${error.message}`
+                : '分支审查失败，请查看输出日志';
+            vscode.window.showErrorMessage(message);
+        }
+    });
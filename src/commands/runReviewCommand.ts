@@ -10,6 +10,7 @@ import type { ReviewResult } from '../types/review';
 import { IssueDeduplicator } from '../core/issueDeduplicator';
 import { getGitWorkspaceFolders, getWorkspaceFolders } from '../utils/workspaceRoot';
 import { runPendingReviewAcrossRoots } from '../core/multiRootCoordinator';
+import { createReviewStreamSession, REVIEW_CANCELLED_MESSAGE } from './reviewStreamSession';
 
 const createContentHash = (content: string): string =>
     createHash('sha1').update(content, 'utf8').digest('hex');
@@ -85,23 +86,32 @@ export const registerRunReviewCommand = (deps: CommandContext): vscode.Disposabl
         try {
             logger.info('开始执行审查流程');
             await vscode.window.withProgress(
-                { location: { viewId: 'agentReview.results' }, title: '审查中...' },
-                async () => {
+                { location: { viewId: 'agentReview.results' }, title: '审查中...', cancellable: true },
+                async (progress, token) => {
                     statusBar.updateStatus('reviewing');
                     reviewPanel.setStatus('reviewing');
                     reviewPanel.reveal();
 
+                    // 流式问题会追加进面板，历史结果需在审查开始前取
+                    const currentResult = reviewPanel.getCurrentResult();
+                    const streamSession = createReviewStreamSession(reviewPanel, progress, token);
                     const workspaceFolders = getWorkspaceFolders();
                     const multiRootMode = workspaceFolders.length > 1;
                     const gitWorkspaceRoots = getGitWorkspaceFolders().map(item => item.uri.fsPath);
-                    const { result, reason, pendingFiles } = multiRootMode
-                        ? await runPendingReviewAcrossRoots(reviewEngine, gitWorkspaceRoots, getBatchConcurrency())
-                        : await reviewEngine.reviewPendingChangesWithContext();
+                    const { result, reason, pendingFiles } = await (multiRootMode
+                        ? runPendingReviewAcrossRoots(reviewEngine, gitWorkspaceRoots, getBatchConcurrency(), streamSession.options)
+                        : reviewEngine.reviewPendingChangesWithContext(streamSession.options)
+                    ).finally(streamSession.dispose);
                     logger.info('审查流程执行完成');
 
                     const finalResult = reason === 'reviewed' ? dedupeReviewedResult(result) : result;
+                    if (streamSession.isCancelled()) {
+                        reviewPanel.showReviewResult(finalResult, 'completed', REVIEW_CANCELLED_MESSAGE);
+                        statusBar.updateWithResult(finalResult, REVIEW_CANCELLED_MESSAGE);
+                        vscode.window.showInformationMessage('审查已取消，已保留已返回的问题');
+                        return;
+                    }
                     const resultIssueCount = countIssues(finalResult);
-                    const currentResult = reviewPanel.getCurrentResult();
                     const currentIssueCount = currentResult ? countIssues(currentResult) : 0;
                     const preserveHistoricalOnEmpty =
                         reason === 'reviewed' && resultIssueCount === 0 && currentIssueCount > 0;
@@ -111,7 +121,11 @@ export const registerRunReviewCommand = (deps: CommandContext): vscode.Disposabl
                         statusBar.updateWithResult(finalResult);
                     } else if (preserveHistoricalOnEmpty) {
                         const message = '复审未命中，保留历史问题';
-                        reviewPanel.setSubStatus(message);
+                        if (streamSession.hasStreamedIssues()) {
+                            reviewPanel.showReviewResult(currentResult!, reviewPanel.getStatus(), message);
+                        } else {
+                            reviewPanel.setSubStatus(message);
+                        }
                         statusBar.updateWithResult(currentResult!, message);
                     } else {
                         reviewPanel.showReviewResult(
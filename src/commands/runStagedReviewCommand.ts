@@ -8,6 +8,7 @@ import * as vscode from 'vscode';
 import type { CommandContext } from './commandContext';
 import { getGitWorkspaceFolders, getWorkspaceFolders } from '../utils/workspaceRoot';
 import { runStagedReviewAcrossRoots } from '../core/multiRootCoordinator';
+import { createReviewStreamSession, REVIEW_CANCELLED_MESSAGE } from './reviewStreamSession';
 
 const createContentHash = (content: string): string =>
     createHash('sha1').update(content, 'utf8').digest('hex');
@@ -32,18 +33,25 @@ export const registerRunStagedReviewCommand = (deps: CommandContext): vscode.Dis
 
         try {
             await vscode.window.withProgress(
-                { location: { viewId: 'agentReview.results' }, title: '审查中…' },
-                async () => {
+                { location: { viewId: 'agentReview.results' }, title: '审查中…', cancellable: true },
+                async (progress, token) => {
                     statusBar.updateStatus('reviewing');
                     reviewPanel.setStatus('reviewing');
                     reviewPanel.reveal();
 
+                    const streamSession = createReviewStreamSession(reviewPanel, progress, token);
                     const workspaceFolders = getWorkspaceFolders();
                     const multiRootMode = workspaceFolders.length > 1;
                     const gitWorkspaceRoots = getGitWorkspaceFolders().map(item => item.uri.fsPath);
-                    const { result, stagedFiles } = multiRootMode
-                        ? await runStagedReviewAcrossRoots(reviewEngine, gitWorkspaceRoots, getBatchConcurrency())
-                        : await reviewEngine.reviewStagedFilesWithContext();
+                    const { result, stagedFiles } = await (multiRootMode
+                        ? runStagedReviewAcrossRoots(reviewEngine, gitWorkspaceRoots, getBatchConcurrency(), streamSession.options)
+                        : reviewEngine.reviewStagedFilesWithContext(streamSession.options)
+                    ).finally(streamSession.dispose);
+                    if (streamSession.isCancelled()) {
+                        reviewPanel.showReviewResult(result, 'completed', REVIEW_CANCELLED_MESSAGE);
+                        statusBar.updateWithResult(result, REVIEW_CANCELLED_MESSAGE);
+                        return;
+                    }
                     reviewPanel.showReviewResult(result, 'completed', '', '没有staged文件需要审查');
                     statusBar.updateWithResult(result);
                     if (stagedFiles.length > 0 && deps.persistLastReviewedHash) {
@@ -0,0 +1,38 @@
+/**
+ * 命令：agentreview.uninstallGitHook - 卸载 Git pre-commit hook
+ *
+ * 只删除由 AgentReview 安装（带标记）的 hook；安装时备份过的原 hook 会被还原。
+ */
+
+import * as vscode from 'vscode';
+import type { CommandContext } from './commandContext';
+import { uninstallPreCommitHook } from '../hooks/gitHookInstaller';
+
+export const registerUninstallGitHookCommand = (deps: CommandContext): vscode.Disposable =>
+    vscode.commands.registerCommand('agentreview.uninstallGitHook', async () => {
+        const { logger } = deps;
+        const gitRoot = deps.getGitRoot();
+        if (!gitRoot) {
+            vscode.window.showErrorMessage('未找到 Git 仓库，无法卸载 pre-commit hook');
+            return;
+        }
+
+        try {
+            const removed = await uninstallPreCommitHook(gitRoot);
+            logger.info('pre-commit hook 卸载结果', removed);
+            if (removed.status === 'not_installed') {
+                vscode.window.showInformationMessage('当前仓库未安装 pre-commit hook');
+            } else if (removed.status === 'foreign_hook') {
+                vscode.window.showWarningMessage(`现有 pre-commit hook 不是由 AgentReview 安装的，未做修改: ${removed.hookPath}`);
+            } else {
+                vscode.window.showInformationMessage(
+                    removed.restoredBackup
+                        ? 'AgentReview pre-commit hook 已卸载，原 pre-commit hook 已还原'
+                        : 'AgentReview pre-commit hook 已卸载'
+                );
+            }
+        } catch (error) {
+            logger.error('卸载 pre-commit hook 失败', error);
+            vscode.window.showErrorMessage('卸载 pre-commit hook 失败，请查看输出日志');
+        }
+    });
@@ -22,6 +22,15 @@
  *     no_todo: true
  *     no_debugger: true
  *     no_todo_pattern: "(TODO|FIXME|XXX)"  # 可选：自定义规则表达式模式
+ *     no_console: true              # 可选：AST 规则，另有 no_empty_catch / no_floating_promise / no_v_html
+ *     no_console_allow: ["error"]
+ *   custom_rules:                 # 可选：自定义正则规则，每条单独配置 action
+ *     - id: "no_console_log"
+ *       pattern: "console\\.log\\("
+ *       negative_pattern: "eslint-disable"
+ *       files: ["src/**"]
+ *       message: "禁止提交 {match}"
+ *       action: "warning"
  * ```
  */
 
@@ -52,6 +61,7 @@ export class ConfigManager implements vscode.Disposable {
     private configPath: string;                // 配置文件的完整路径
     private envPath: string;                   // .env 文件的完整路径
     private extensionPath: string | undefined;  // 扩展安装路径（用于单工作区时回退加载 .env）
+    private globalStoragePath: string | undefined;  // 扩展全局存储目录（AI 响应磁盘缓存等）
     private envVars: Map<string, string> = new Map();  // .env 文件加载的环境变量
     private watcherDisposable: ReturnType<typeof setupConfigWatcher> | undefined;  // 配置/.env 监听（含防抖）
 
@@ -77,16 +87,22 @@ export class ConfigManager implements vscode.Disposable {
 
     /**
      * 初始化配置管理器
-     * @param context - 扩展上下文，传入时用于单工作区下从扩展目录回退加载 .env
+     * @param context - 扩展上下文，传入时用于单工作区下从扩展目录回退加载 .env，并记录全局存储目录
      */
     async initialize(context?: vscode.ExtensionContext): Promise<void> {
         this.extensionPath = context?.extensionPath;
+        this.globalStoragePath = context?.globalStorageUri?.fsPath;
         await this.loadEnvFile();
         // 然后加载配置文件
         await this.loadConfig();
         this.setupFileWatcher();
     }
 
+    /** 扩展全局存储目录；未经扩展上下文初始化（如 CLI、测试）时为 undefined */
+    getGlobalStoragePath(): string | undefined {
+        return this.globalStoragePath;
+    }
+
     /**
      * 当配置文件或 .env 文件变更时，自动重新加载配置
      */
@@ -165,6 +181,7 @@ export class ConfigManager implements vscode.Disposable {
         const mappings: { key: string; configKey: string }[] = [
             { key: 'ai.enabled', configKey: 'enabled' },
             { key: 'ai.apiFormat', configKey: 'api_format' },
+            { key: 'ai.apiVersion', configKey: 'api_version' },
             { key: 'ai.apiEndpoint', configKey: 'api_endpoint' },
             { key: 'ai.apiKey', configKey: 'api_key' },
             { key: 'ai.model', configKey: 'model' },
@@ -172,6 +189,7 @@ export class ConfigManager implements vscode.Disposable {
             { key: 'ai.temperature', configKey: 'temperature' },
             { key: 'ai.maxTokens', configKey: 'max_tokens' },
             { key: 'ai.systemPrompt', configKey: 'system_prompt' },
+            { key: 'ai.reviewProfiles', configKey: 'review_profiles' },
             { key: 'ai.retryCount', configKey: 'retry_count' },
             { key: 'ai.retryDelay', configKey: 'retry_delay' },
             { key: 'ai.action', configKey: 'action' },
@@ -182,6 +200,24 @@ export class ConfigManager implements vscode.Disposable {
             { key: 'ai.astChunkWeightBy', configKey: 'ast_chunk_weight_by' },
             { key: 'ai.batchConcurrency', configKey: 'batch_concurrency' },
             { key: 'ai.maxRequestChars', configKey: 'max_request_chars' },
+            { key: 'ai.modelProfiles', configKey: 'model_profiles' },
+            { key: 'ai.stream', configKey: 'stream' },
+            { key: 'ai.structuredOutput', configKey: 'structured_output' },
+            { key: 'ai.diskCache', configKey: 'disk_cache' },
+            { key: 'ai.diskCacheLocation', configKey: 'disk_cache_location' },
+            { key: 'ai.diskCacheMaxSizeMb', configKey: 'disk_cache_max_size_mb' },
+            { key: 'ai.diskCacheMaxAgeDays', configKey: 'disk_cache_max_age_days' },
+            { key: 'ai.triageModel', configKey: 'triage_model' },
+            { key: 'ai.triageMaxTokens', configKey: 'triage_max_tokens' },
+            { key: 'ai.verifySeverities', configKey: 'verify_severities' },
+            { key: 'ai.verifyModel', configKey: 'verify_model' },
+            { key: 'ai.verifyMinConfidence', configKey: 'verify_min_confidence' },
+            { key: 'ai.feedbackFromIgnores', configKey: 'feedback_from_ignores' },
+            { key: 'ai.feedbackMaxPatterns', configKey: 'feedback_max_patterns' },
+            { key: 'ai.rateLimitRpm', configKey: 'rate_limit_rpm' },
+            { key: 'ai.rateLimitTpm', configKey: 'rate_limit_tpm' },
+            { key: 'ai.circuitBreakerThreshold', configKey: 'circuit_breaker_threshold' },
+            { key: 'ai.circuitBreakerCooldownMs', configKey: 'circuit_breaker_cooldown_ms' },
             { key: 'ai.runOnSave', configKey: 'run_on_save' },
             { key: 'ai.runOnSaveDebounceMs', configKey: 'run_on_save_debounce_ms' },
             { key: 'ai.runOnSaveMaxRunsPerMinute', configKey: 'run_on_save_max_runs_per_minute' },
@@ -330,6 +366,8 @@ export class ConfigManager implements vscode.Disposable {
                     action: actionValue,
                     ...(settingsAIConfig.api_format !== undefined && { api_format: settingsAIConfig.api_format }),
                     ...(existingAIConfig?.api_format !== undefined && settingsAIConfig.api_format === undefined && { api_format: existingAIConfig.api_format }),
+                    ...(settingsAIConfig.api_version !== undefined && { api_version: settingsAIConfig.api_version }),
+                    ...(existingAIConfig?.api_version !== undefined && settingsAIConfig.api_version === undefined && { api_version: existingAIConfig.api_version }),
                     ...(settingsAIConfig.api_key !== undefined && { api_key: settingsAIConfig.api_key }),
                     ...(existingAIConfig?.api_key !== undefined && settingsAIConfig.api_key === undefined && { api_key: existingAIConfig.api_key }),
                     ...(settingsAIConfig.model !== undefined && { model: settingsAIConfig.model }),
@@ -416,6 +454,49 @@ export class ConfigManager implements vscode.Disposable {
                     ast_chunk_weight_by: settingsAIConfig.ast_chunk_weight_by ?? existingAIConfig?.ast_chunk_weight_by ?? 'snippet_count',
                     batch_concurrency: settingsAIConfig.batch_concurrency ?? existingAIConfig?.batch_concurrency ?? 2,
                     max_request_chars: settingsAIConfig.max_request_chars ?? existingAIConfig?.max_request_chars ?? 50000,
+                    model_profiles: settingsAIConfig.model_profiles ?? existingAIConfig?.model_profiles,
+                    review_profiles: settingsAIConfig.review_profiles ?? existingAIConfig?.review_profiles,
+                    stream: settingsAIConfig.stream ?? existingAIConfig?.stream ?? false,
+                    structured_output: settingsAIConfig.structured_output ?? existingAIConfig?.structured_output ?? 'off',
+                    disk_cache: settingsAIConfig.disk_cache ?? existingAIConfig?.disk_cache ?? true,
+                    disk_cache_location:
+                        settingsAIConfig.disk_cache_location
+                        ?? existingAIConfig?.disk_cache_location
+                        ?? 'global_storage',
+                    disk_cache_max_size_mb:
+                        settingsAIConfig.disk_cache_max_size_mb
+                        ?? existingAIConfig?.disk_cache_max_size_mb
+                        ?? 50,
+                    disk_cache_max_age_days:
+                        settingsAIConfig.disk_cache_max_age_days
+                        ?? existingAIConfig?.disk_cache_max_age_days
+                        ?? 7,
+                    triage_model: settingsAIConfig.triage_model ?? existingAIConfig?.triage_model,
+                    triage_max_tokens: settingsAIConfig.triage_max_tokens ?? existingAIConfig?.triage_max_tokens ?? 1000,
+                    verify_severities: settingsAIConfig.verify_severities ?? existingAIConfig?.verify_severities,
+                    verify_model: settingsAIConfig.verify_model ?? existingAIConfig?.verify_model,
+                    verify_min_confidence:
+                        settingsAIConfig.verify_min_confidence
+                        ?? existingAIConfig?.verify_min_confidence
+                        ?? 0.6,
+                    feedback_from_ignores:
+                        settingsAIConfig.feedback_from_ignores
+                        ?? existingAIConfig?.feedback_from_ignores
+                        ?? true,
+                    feedback_max_patterns:
+                        settingsAIConfig.feedback_max_patterns
+                        ?? existingAIConfig?.feedback_max_patterns
+                        ?? 5,
+                    rate_limit_rpm: settingsAIConfig.rate_limit_rpm ?? existingAIConfig?.rate_limit_rpm ?? 0,
+                    rate_limit_tpm: settingsAIConfig.rate_limit_tpm ?? existingAIConfig?.rate_limit_tpm ?? 0,
+                    circuit_breaker_threshold:
+                        settingsAIConfig.circuit_breaker_threshold
+                        ?? existingAIConfig?.circuit_breaker_threshold
+                        ?? 5,
+                    circuit_breaker_cooldown_ms:
+                        settingsAIConfig.circuit_breaker_cooldown_ms
+                        ?? existingAIConfig?.circuit_breaker_cooldown_ms
+                        ?? 60000,
                 };
                 yamlConfig.ai_review = mergedAIConfig;
             }
@@ -613,6 +694,7 @@ export class ConfigManager implements vscode.Disposable {
      * 这是插件的默认配置，当用户没有配置文件或配置项缺失时使用
      *
      * - naming_convention: 启用，阻止提交，检查文件名空格
+     * - security: 启用，阻止提交，扫描密钥与凭据
      *
      * @returns 默认配置对象
      */
@@ -635,6 +717,11 @@ export class ConfigManager implements vscode.Disposable {
                     no_todo: true,
                     no_debugger: true,
                 },
+                security: {
+                    enabled: true,
+                    action: 'block_commit',
+                    scan_secrets: true,  // 默认扫描新增行中的密钥与凭据，命中阻断提交与 AI 上传
+                },
             },
             ast: {
                 enabled: true,
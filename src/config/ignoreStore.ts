@@ -1,9 +1,10 @@
 /**
- * 项目级忽略指纹存储（仅用于「忽略」操作，放行不写此处）
+ * 项目级忽略指纹存储（仅「忽略」操作写指纹，放行只记录问题描述与原因）
  *
  * 一律使用 version 2 格式：items 数组，每项含 fingerprint + 可读 meta（file、line、rule、message、severity 等），
  * 便于人工识别 .vscode/agentreview-ignore.json 中忽略了什么问题。
  * 审查过滤时 loadIgnoredFingerprints 返回 fingerprint 字符串数组供引擎使用。
+ * allowed 数组记录 @ai-ignore 放行的问题与原因，不参与过滤（放行仍靠注释拦截），仅供 AI 审查学习开发者不关心的问题类型。
  */
 
 import * as path from 'path';
@@ -34,10 +35,22 @@ export type IgnoreStoreItem = {
     ignoredAt?: string; // ISO 时间字符串，可选
 };
 
+/** 单条放行记录（无指纹，放行原因来自 @ai-ignore 注释） */
+export type AllowStoreItem = {
+    file: string;
+    line: number;
+    rule: string;
+    message?: string;
+    severity?: string;
+    reason: string;
+    allowedAt?: string; // ISO 时间字符串，可选
+};
+
 /** 存储文件完整结构 */
 type IgnoreStoreData = {
     version: number;
     items: IgnoreStoreItem[];
+    allowed?: AllowStoreItem[];
 };
 
 /** 存储文件路径：<workspaceRoot>/.vscode/agentreview-ignore.json */
@@ -48,13 +61,14 @@ export const getIgnoreStorePath = (workspaceRoot: string): string =>
 const loadRaw = async (storePath: string): Promise<IgnoreStoreData> => {
     try {
         const content = await fs.promises.readFile(storePath, 'utf8');
-        const data = JSON.parse(content) as { version?: number; items?: IgnoreStoreItem[] };
+        const data = JSON.parse(content) as { version?: number; items?: IgnoreStoreItem[]; allowed?: AllowStoreItem[] };
         if (!Array.isArray(data.items)) {
             return { version: STORE_VERSION, items: [] };
         }
         return {
             version: typeof data.version === 'number' ? data.version : STORE_VERSION,
             items: data.items,
+            ...(Array.isArray(data.allowed) ? { allowed: data.allowed } : {}),
         };
     } catch (err) {
         if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
@@ -64,6 +78,24 @@ const loadRaw = async (storePath: string): Promise<IgnoreStoreData> => {
     }
 };
 
+/** 以 version 2 格式写回存储文件；无放行记录时不写 allowed 字段 */
+const writeStore = async (storePath: string, data: IgnoreStoreData): Promise<void> => {
+    const toWrite: IgnoreStoreData = {
+        version: STORE_VERSION,
+        items: data.items,
+        ...(data.allowed?.length ? { allowed: data.allowed } : {}),
+    };
+    try {
+        await fs.promises.writeFile(
+            storePath,
+            JSON.stringify(toWrite, null, 2),
+            'utf8'
+        );
+    } catch (err) {
+        logger.warn('写入忽略指纹文件失败', err);
+    }
+};
+
 /**
  * 加载已忽略的指纹列表；供审查引擎过滤用。从 items 中取 fingerprint 组成数组。
  */
@@ -73,6 +105,16 @@ export const loadIgnoredFingerprints = async (workspaceRoot: string): Promise<st
     return data.items.map(item => item.fingerprint);
 };
 
+/**
+ * 加载忽略与放行记录（含可读 meta）；供 AI 审查从开发者反馈中归纳不必报告的问题类型。
+ */
+export const loadIgnoreFeedbackItems = async (
+    workspaceRoot: string
+): Promise<{ ignored: IgnoreStoreItem[]; allowed: AllowStoreItem[] }> => {
+    const data = await loadRaw(getIgnoreStorePath(workspaceRoot));
+    return { ignored: data.items, allowed: data.allowed ?? [] };
+};
+
 /**
  * 返回当前忽略表条数；供运行汇总统计用（如 run 日志中的 ignoreStoreCount）。
  */
@@ -117,14 +159,40 @@ export const addIgnoredFingerprint = async (
         ignoredAt: new Date().toISOString(),
     };
     data.items.push(newItem);
-    const toWrite: IgnoreStoreData = { version: STORE_VERSION, items: data.items };
+    await writeStore(storePath, data);
+};
+
+/**
+ * 记录一条放行（@ai-ignore）的问题与原因；同一位置、规则与描述的问题不重复记录。会确保 .vscode 目录存在。
+ */
+export const addAllowedIssue = async (
+    workspaceRoot: string,
+    meta: IgnoreItemMeta & { reason: string }
+): Promise<void> => {
+    const vscodeDir = path.join(workspaceRoot, '.vscode');
+    const storePath = getIgnoreStorePath(workspaceRoot);
     try {
-        await fs.promises.writeFile(
-            storePath,
-            JSON.stringify(toWrite, null, 2),
-            'utf8'
-        );
+        await fs.promises.mkdir(vscodeDir, { recursive: true });
     } catch (err) {
-        logger.warn('写入忽略指纹文件失败', err);
+        logger.warn('创建 .vscode 目录失败', err);
+        return;
+    }
+    const data = await loadRaw(storePath);
+    const allowed = data.allowed ?? [];
+    const exists = allowed.some(item =>
+        item.file === meta.file && item.line === meta.line && item.rule === meta.rule && item.message === meta.message
+    );
+    if (exists) {
+        return;
     }
+    allowed.push({
+        file: meta.file,
+        line: meta.line,
+        rule: meta.rule,
+        message: meta.message,
+        severity: meta.severity,
+        reason: meta.reason,
+        allowedAt: new Date().toISOString(),
+    });
+    await writeStore(storePath, { ...data, allowed });
 };
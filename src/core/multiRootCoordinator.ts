@@ -2,7 +2,7 @@
 import * as path from 'path';
 import type * as vscode from 'vscode';
 import type { ReviewResult } from '../types/review';
-import type { PendingReviewContext, StagedReviewContext } from './reviewEngine.types';
+import type { PendingReviewContext, StagedReviewContext, ReviewStreamOptions } from './reviewEngine.types';
 
 export const filterGitWorkspaceFolders = (
     folders: vscode.WorkspaceFolder[],
@@ -53,24 +53,25 @@ export const mergeReviewResults = (results: ReviewResult[]): ReviewResult => {
 };
 
 type PendingReviewRunner = {
-    reviewPendingChangesWithContext: (options?: { workspaceRoot?: string }) => Promise<PendingReviewContext>;
+    reviewPendingChangesWithContext: (options?: { workspaceRoot?: string } & ReviewStreamOptions) => Promise<PendingReviewContext>;
 };
 
 type StagedReviewRunner = {
-    reviewStagedFilesWithContext: (options?: { workspaceRoot?: string }) => Promise<StagedReviewContext>;
+    reviewStagedFilesWithContext: (options?: { workspaceRoot?: string } & ReviewStreamOptions) => Promise<StagedReviewContext>;
 };
 
 export const runPendingReviewAcrossRoots = async (
     reviewRunner: PendingReviewRunner,
     workspaceRoots: string[],
-    maxConcurrency: number
+    maxConcurrency: number,
+    streamOptions?: ReviewStreamOptions
 ): Promise<PendingReviewContext> => {
     if (workspaceRoots.length === 0) {
         return { result: createEmptyReviewResult(), pendingFiles: [], reason: 'no_pending_changes' };
     }
 
     const contexts = await runWithGlobalConcurrency(workspaceRoots, maxConcurrency, async (workspaceRoot) =>
-        reviewRunner.reviewPendingChangesWithContext({ workspaceRoot })
+        reviewRunner.reviewPendingChangesWithContext({ workspaceRoot, ...streamOptions })
     );
 
     return {
@@ -83,14 +84,15 @@ export const runPendingReviewAcrossRoots = async (
 export const runStagedReviewAcrossRoots = async (
     reviewRunner: StagedReviewRunner,
     workspaceRoots: string[],
-    maxConcurrency: number
+    maxConcurrency: number,
+    streamOptions?: ReviewStreamOptions
 ): Promise<StagedReviewContext> => {
     if (workspaceRoots.length === 0) {
         return { result: createEmptyReviewResult(), stagedFiles: [] };
     }
 
     const contexts = await runWithGlobalConcurrency(workspaceRoots, maxConcurrency, async (workspaceRoot) =>
-        reviewRunner.reviewStagedFilesWithContext({ workspaceRoot })
+        reviewRunner.reviewStagedFilesWithContext({ workspaceRoot, ...streamOptions })
     );
 
     return {
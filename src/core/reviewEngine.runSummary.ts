@@ -34,6 +34,10 @@ export const getGitUser = async (workspaceRoot: string): Promise<{ userName: str
     userEmail: await getGitConfig(workspaceRoot, 'user.email'),
 });
 
+/** 成本保留 6 位小数，避免浮点累加的长尾 */
+const roundCost = (cost: number | undefined): number | undefined =>
+    typeof cost === 'number' ? Math.round(cost * 1_000_000) / 1_000_000 : undefined;
+
 /**
  * 组装当次 run 的汇总 payload 与写日志用的日期戳（仅含 hms 与 durationMs，不含时间戳与 durationDisplay）。
  */
@@ -57,6 +61,12 @@ export const buildRunSummaryPayload = async (
     const ignoreStoreCount = workspaceRoot ? await getIgnoreStoreCount(workspaceRoot) : 0;
     const runtimeTraceLogger = RuntimeTraceLogger.getInstance();
     const aggregates = runtimeTraceLogger.getRunAggregates(session.runId);
+    const rulePluginStats = runtimeTraceLogger.getRulePluginStats(session.runId);
+    const llmOutputModeStats = runtimeTraceLogger.getLlmOutputModeStats(session.runId);
+    const cascadeStats = runtimeTraceLogger.getCascadeStats(session.runId);
+    const verificationStats = runtimeTraceLogger.getVerificationStats(session.runId);
+    const promptTemplate = runtimeTraceLogger.getRunPromptTemplate(session.runId);
+    const cacheLookups = (aggregates?.llmCacheHits ?? 0) + (aggregates?.llmCacheMisses ?? 0);
     const collectFingerprints = (issues: ReviewIssue[]): string[] =>
         [...new Set(issues.map(i => i.fingerprint).filter((f): f is string => !!f))];
     const payload: RunSummaryPayload = {
@@ -74,7 +84,20 @@ export const buildRunSummaryPayload = async (
         infoCount: result.info.length,
         inputTokensTotal: aggregates?.inputTokensTotal ?? 0,
         outputTokensTotal: aggregates?.outputTokensTotal ?? 0,
+        estimatedInputTokensTotal: aggregates?.estimatedInputTokensTotal ?? 0,
+        estimatedOutputTokensTotal: aggregates?.estimatedOutputTokensTotal ?? 0,
+        estimatedCost: roundCost(aggregates?.estimatedCost),
+        actualCost: roundCost(aggregates?.actualCost),
         llmTotalMs: aggregates?.llmTotalMs ?? 0,
+        llmCacheHits: cacheLookups > 0 ? aggregates?.llmCacheHits : undefined,
+        llmCacheMisses: cacheLookups > 0 ? aggregates?.llmCacheMisses : undefined,
+        rulePluginStats: rulePluginStats.length > 0 ? rulePluginStats : undefined,
+        llmOutputModeStats: llmOutputModeStats.length > 0 ? llmOutputModeStats : undefined,
+        promptTemplateHash: promptTemplate?.hash,
+        promptTemplateOverrides: promptTemplate?.overrides.length ? promptTemplate.overrides : undefined,
+        cascadeStats: cascadeStats ?? undefined,
+        verificationStats: verificationStats ?? undefined,
+        llmTierStats: cascadeStats || verificationStats ? runtimeTraceLogger.getLlmTierStats(session.runId) : undefined,
         ignoredByFingerprintCount: opts.ignoredByFingerprintCount,
         allowedByLineCount: opts.allowedByLineCount,
         ignoreStoreCount,
@@ -12,9 +12,14 @@
  */
 
 import * as path from 'path';
+import * as fs from 'fs';
 import * as vscode from 'vscode';
 import { RuleEngine } from './ruleEngine';
-import { AIReviewer } from '../ai/aiReviewer';
+import { SECRET_CHECK_IDS, toSecretRuleId } from '../shared/secretChecks';
+import { IMPORT_BOUNDARY_RULE_IDS } from '../shared/importBoundaryChecks';
+import { AST_RULE_IDS } from '../shared/astRuleChecks';
+import { RULE_PLUGIN_RULE_PREFIX } from './ruleEngine.plugins';
+import { AIReviewer, type AIFixRequest, type AIFixResult } from '../ai/aiReviewer';
 import { ConfigManager } from '../config/configManager';
 import { Logger } from '../utils/logger';
 import { FileScanner } from '../utils/fileScanner';
@@ -26,9 +31,10 @@ import { RuntimeTraceLogger, type RuntimeTraceSession, type RunSummaryPayload }
 import { computeIssueFingerprint } from '../utils/issueFingerprint';
 import { loadIgnoredFingerprints } from '../config/ignoreStore';
 import { formatTimeHms } from '../utils/runtimeLogExplainer';
-import type { ReviewRunOptions, ReviewContextOptions, ReviewedRange, SavedFileReviewContext, PendingReviewContext, StagedReviewContext, ProjectDiagnosticItem, ReviewScopeHint } from './reviewEngine.types';
+import type { ReviewRunOptions, ReviewContextOptions, ReviewStreamOptions, ReviewedRange, SavedFileReviewContext, PendingReviewContext, StagedReviewContext, ChangeSetReviewContext, RefRangeReviewOptions, BranchReviewOptions, BranchReviewContext, CommitReviewEntry, ProjectDiagnosticItem, ReviewScopeHint } from './reviewEngine.types';
 import { buildRunSummaryPayload } from './reviewEngine.runSummary';
 import { getEffectiveWorkspaceRoot, getWorkspaceFolderByFile } from '../utils/workspaceRoot';
+import { isReviewDiagnostic } from '../ui/reviewDiagnostics';
 
 export type { ReviewIssue, ReviewResult } from '../types/review';
 
@@ -74,6 +80,22 @@ export class ReviewEngine {
         }
     }
 
+    /**
+     * 为单个问题生成 AI 修复（片段替换文本），供 fixIssue 命令预览后应用。
+     * 与审查一致：片段及上下文含阻断级密钥时不上传。
+     * @throws 检测到阻断级密钥或 AI 调用失败时抛出
+     */
+    async generateIssueFix(request: AIFixRequest): Promise<AIFixResult> {
+        const { snippet } = request;
+        const payload = [snippet.contextBefore, snippet.code, snippet.contextAfter].join('\n');
+        const secretIssues = this.ruleEngine.checkSecretsInContent(request.filePath, payload);
+        if (secretIssues.length > 0 && this.configManager.getConfig().rules.security?.action === 'block_commit') {
+            this.logger.warn('修复片段中检测到阻断级密钥泄露问题，已跳过 AI 修复（内容不上传）');
+            throw new Error('修复片段或上下文中检测到密钥，内容不会发送给 AI，请先移除密钥');
+        }
+        return this.aiReviewer.generateFix(request);
+    }
+
     /**
      * 应用运行时日志配置并同步 Logger 是否输出到通道。
      */
@@ -145,7 +167,14 @@ export class ReviewEngine {
                 ['ai_review_error', config.ai_review?.action],
                 ['no_space_in_filename', config.rules.naming_convention?.action],
                 ['no_todo', config.rules.code_quality?.action],
-                ['no_debugger', config.rules.code_quality?.action],
+                ...AST_RULE_IDS.map(ruleId => [ruleId, config.rules.code_quality?.action] as const),
+                ...SECRET_CHECK_IDS.map(checkId => [toSecretRuleId(checkId), config.rules.security?.action] as const),
+                [IMPORT_BOUNDARY_RULE_IDS.layerBoundary, config.rules.business_logic?.action],
+                [IMPORT_BOUNDARY_RULE_IDS.forbidden, config.rules.business_logic?.action],
+                [IMPORT_BOUNDARY_RULE_IDS.deprecated, 'warning'],
+                ...Object.entries(config.rules.plugins?.rules ?? {})
+                    .map(([ruleId, ruleConfig]) => [`${RULE_PLUGIN_RULE_PREFIX}${ruleId}`, ruleConfig?.action ?? 'warning'] as const),
+                ...(config.rules.custom_rules ?? []).map(rule => [rule.id, rule.action] as const),
             ]);
 
             const useRuleDiff = config.rules.diff_only !== false && options?.diffByFile;
@@ -250,6 +279,18 @@ export class ReviewEngine {
                 aiConfig: config.ai_review,
             });
             const aiInputFiles = aiInputFilterResult.files;
+            // 流式问题先经忽略与增量过滤再回调；AI 阶段结束后不再回调，避免晚到的预览覆盖最终结果
+            let aiStreamOpen = true;
+            const onAiIssues = options?.onAiIssues;
+            const forwardStreamedAiIssues = onAiIssues
+                ? (issues: ReviewIssue[]): void => {
+                    void this.prepareStreamedAiIssues(issues, workspaceRoot, options?.diffByFile)
+                        .then(prepared => {
+                            if (aiStreamOpen && prepared.length > 0) onAiIssues(prepared);
+                        })
+                        .catch(error => this.logger.debug('流式 AI 问题预处理失败', error));
+                }
+                : undefined;
             const runAiReview = async (): Promise<ReviewIssue[]> => {
                 if (!config.ai_review?.enabled) {
                     return [];
@@ -266,6 +307,8 @@ export class ReviewEngine {
                         diffByFile: useAiDiff ? options!.diffByFile : undefined,
                         astSnippetsByFile,
                         diagnosticsByFile: this.pickDiagnosticsForFiles(diagnosticsByFile, aiInputFiles),
+                        onIssues: forwardStreamedAiIssues,
+                        signal: options?.signal,
                     };
                     return await this.aiReviewer.review(aiRequest, traceSession);
                 } catch (error) {
@@ -291,13 +334,29 @@ export class ReviewEngine {
             const skipOnBlocking = config.ai_review?.skip_on_blocking_errors !== false;
             const aiEnabled = config.ai_review?.enabled ?? false;
 
+            // 规则插件会执行仓库内代码，VSCode 未信任的工作区不加载
+            const allowPlugins = vscode.workspace.isTrusted !== false;
             const runRuleEngine = (): Promise<ReviewIssue[]> =>
                 this.ruleEngine.checkFiles(
                     filteredFiles,
                     useRuleDiff ? options?.diffByFile : undefined,
-                    traceSession
+                    traceSession,
+                    { workspaceRoot, allowPlugins }
+                );
+            const runProjectRuleChecks = async (): Promise<ReviewIssue[]> => {
+                const projectIssues = this.buildProjectRuleIssues(diagnosticsByFile);
+                // 项目规则代替内置规则，但 .agentreview.yaml 中的自定义、安全与模块引用规则仍需执行
+                if (!this.ruleEngine.hasProjectModeRules()) {
+                    return projectIssues;
+                }
+                const customIssues = await this.ruleEngine.checkFiles(
+                    filteredFiles,
+                    useRuleDiff ? options?.diffByFile : undefined,
+                    traceSession,
+                    { projectRuleMode: true, workspaceRoot, allowPlugins }
                 );
-            const runProjectRuleChecks = (): ReviewIssue[] => this.buildProjectRuleIssues(diagnosticsByFile);
+                return [...projectIssues, ...customIssues];
+            };
             const runRules = async (): Promise<ReviewIssue[]> => {
                 if (!config.rules.enabled) {
                     return [];
@@ -310,10 +369,22 @@ export class ReviewEngine {
             // 固定顺序：规则阶段 ->（先跳过判断）-> AI 阶段
             ruleIssues = await runRules();
             if (aiEnabled) {
-                if (skipOnBlocking && this.hasBlockingErrors(ruleIssues, ruleActionMap)) {
+                // 阻断级密钥问题不受 skip_on_blocking_errors 控制：含密钥的内容一律不上传
+                const secretRuleIds = new Set(SECRET_CHECK_IDS.map(toSecretRuleId));
+                const hasBlockingSecrets = this.hasBlockingErrors(
+                    ruleIssues.filter(issue => secretRuleIds.has(issue.rule)),
+                    ruleActionMap
+                );
+                if (hasBlockingSecrets) {
+                    this.logger.warn('检测到阻断级密钥泄露问题，已跳过 AI 审查（内容不上传）');
+                } else if (skipOnBlocking && this.hasBlockingErrors(ruleIssues, ruleActionMap)) {
                     this.logger.warn('检测到阻断级规则问题，已跳过 AI 审查');
                 } else {
-                    aiIssues = await runAiReview();
+                    try {
+                        aiIssues = await runAiReview();
+                    } finally {
+                        aiStreamOpen = false;
+                    }
                 }
             }
 
@@ -325,19 +396,7 @@ export class ReviewEngine {
                     }
                 }
             }
-            if (workspaceRoot) {
-                for (const issue of deduplicatedIssues) {
-                    if (issue.fingerprint) continue;
-                    const normalized = issue.file ? path.normalize(issue.file) : '';
-                    if (!normalized || normalized === '.' || normalized === '..') continue;
-                    try {
-                        const content = await this.fileScanner.readFile(issue.file);
-                        issue.fingerprint = computeIssueFingerprint(issue, content, workspaceRoot);
-                    } catch {
-                        // 文件读取失败则跳过该条指征，过滤时不会按指征去重
-                    }
-                }
-            }
+            await this.assignIssueFingerprints(deduplicatedIssues, workspaceRoot);
             const { issues: allIssues, ignoredByFingerprintCount, allowedByLineCount, ignoreAllowEvents } = await this.filterIgnoredIssues(deduplicatedIssues, workspaceRoot);
             this.attachAstRanges(allIssues, astSnippetsByFile);
             const incrementalOnly = this.filterIncrementalIssues(allIssues, options?.diffByFile);
@@ -378,6 +437,40 @@ export class ReviewEngine {
         }
     }
 
+    /** 为缺少指征的问题计算指征（需 workspaceRoot），供项目级忽略过滤 */
+    private assignIssueFingerprints = async (issues: ReviewIssue[], workspaceRoot: string): Promise<void> => {
+        if (!workspaceRoot) return;
+        for (const issue of issues) {
+            if (issue.fingerprint) continue;
+            const normalized = issue.file ? path.normalize(issue.file) : '';
+            if (!normalized || normalized === '.' || normalized === '..') continue;
+            try {
+                const content = await this.fileScanner.readFile(issue.file);
+                issue.fingerprint = computeIssueFingerprint(issue, content, workspaceRoot);
+            } catch {
+                // 文件读取失败则跳过该条指征，过滤时不会按指征去重
+            }
+        }
+    };
+
+    /**
+     * 流式返回的 AI 问题在推送前走与最终结果相同的归属、指征忽略、@ai-ignore 与增量过滤，
+     * 避免已忽略的问题在面板上闪现。
+     */
+    private prepareStreamedAiIssues = async (
+        issues: ReviewIssue[],
+        workspaceRoot: string,
+        diffByFile?: Map<string, FileDiff>
+    ): Promise<ReviewIssue[]> => {
+        const copies = issues.map(issue => ({
+            ...issue,
+            ...(workspaceRoot && !issue.workspaceRoot && { workspaceRoot }),
+        }));
+        await this.assignIssueFingerprints(copies, workspaceRoot);
+        const { issues: visible } = await this.filterIgnoredIssues(copies, workspaceRoot);
+        return this.filterIncrementalIssues(visible, diffByFile);
+    };
+
     /**
      * 判断问题列表中是否存在按规则需阻断提交的项（project_rule 看 error，其余看 ruleActionMap）。
      * @param issues - 问题列表
@@ -489,6 +582,7 @@ export class ReviewEngine {
 
     /**
      * 从 VSCode 语言服务收集各文件的诊断信息，并规范化为行号、严重程度等。
+     * 排除本扩展发布的审查诊断，避免上次结果变成 project rule 问题或 AI 的已知诊断。
      */
     private collectDiagnosticsByFile = (
         files: string[]
@@ -503,7 +597,8 @@ export class ReviewEngine {
             }
             for (const filePath of files) {
                 try {
-                    const diagnostics = diagnosticsGetter(vscode.Uri.file(filePath));
+                    const diagnostics = diagnosticsGetter(vscode.Uri.file(filePath))
+                        ?.filter(item => !isReviewDiagnostic(item));
                     if (!diagnostics || diagnostics.length === 0) {
                         continue;
                     }
@@ -1006,7 +1101,7 @@ export class ReviewEngine {
      *
      * @returns 审查结果对象
      */
-    async reviewPendingChangesWithContext(options?: ReviewContextOptions): Promise<PendingReviewContext> {
+    async reviewPendingChangesWithContext(options?: ReviewContextOptions & ReviewStreamOptions): Promise<PendingReviewContext> {
         const config = this.configManager.getConfig();
         this.applyRuntimeTraceConfig(config);
         const traceSession = this.runtimeTraceLogger.startRunSession('manual');
@@ -1027,7 +1122,13 @@ export class ReviewEngine {
             }
 
             return {
-                result: await this.review(pendingFiles, { diffByFile, traceSession, workspaceRoot }),
+                result: await this.review(pendingFiles, {
+                    diffByFile,
+                    traceSession,
+                    workspaceRoot,
+                    onAiIssues: options?.onAiIssues,
+                    signal: options?.signal,
+                }),
                 pendingFiles,
                 reason: 'reviewed',
             };
@@ -1132,7 +1233,7 @@ export class ReviewEngine {
         return ctx.result;
     }
 
-    async reviewStagedFilesWithContext(options?: ReviewContextOptions): Promise<StagedReviewContext> {
+    async reviewStagedFilesWithContext(options?: ReviewContextOptions & ReviewStreamOptions): Promise<StagedReviewContext> {
         const config = this.configManager.getConfig();
         this.applyRuntimeTraceConfig(config);
         const traceSession = this.runtimeTraceLogger.startRunSession('staged');
@@ -1152,13 +1253,128 @@ export class ReviewEngine {
                 diffByFile = await this.fileScanner.getStagedDiff(workspaceRoot, normalizedStaged);
             }
 
-            const result = await this.review(normalizedStaged, { diffByFile, traceSession, workspaceRoot });
+            const result = await this.review(normalizedStaged, {
+                diffByFile,
+                traceSession,
+                workspaceRoot,
+                onAiIssues: options?.onAiIssues,
+                signal: options?.signal,
+            });
             return { result, stagedFiles: normalizedStaged };
         } finally {
             this.runtimeTraceLogger.endRunSession(traceSession);
         }
     }
 
+    /**
+     * 审查工作区未暂存变更（git diff + untracked），供命令行 working 模式使用。
+     */
+    async reviewWorkingChangesWithContext(options?: ReviewContextOptions): Promise<ChangeSetReviewContext> {
+        const config = this.configManager.getConfig();
+        this.applyRuntimeTraceConfig(config);
+        const traceSession = this.runtimeTraceLogger.startRunSession('manual');
+
+        try {
+            const workspaceRoot = options?.workspaceRoot ?? getEffectiveWorkspaceRoot()?.uri.fsPath;
+            const workingDiffByFile = await this.fileScanner.getWorkingDiff(workspaceRoot);
+            return await this.reviewChangeSet(workingDiffByFile, config, traceSession, workspaceRoot);
+        } finally {
+            this.runtimeTraceLogger.endRunSession(traceSession);
+        }
+    }
+
+    /**
+     * 审查提交区间 baseRef..headRef 引入的变更（git diff base head），供 CI 使用。
+     * 规则与 AI 读取工作区文件内容，因此 headRef 必须是当前检出的提交。
+     * @throws ref 非法或 headRef 不是当前检出的提交时抛出
+     */
+    async reviewRefRangeWithContext(options: RefRangeReviewOptions): Promise<ChangeSetReviewContext> {
+        const config = this.configManager.getConfig();
+        this.applyRuntimeTraceConfig(config);
+        const traceSession = this.runtimeTraceLogger.startRunSession('manual');
+
+        try {
+            const workspaceRoot = options.workspaceRoot ?? getEffectiveWorkspaceRoot()?.uri.fsPath;
+            const rangeDiffByFile = await this.fileScanner.getRefRangeDiff(workspaceRoot, {
+                baseRef: options.baseRef,
+                headRef: options.headRef ?? 'HEAD',
+            });
+            return await this.reviewChangeSet(rangeDiffByFile, config, traceSession, workspaceRoot);
+        } finally {
+            this.runtimeTraceLogger.endRunSession(traceSession);
+        }
+    }
+
+    /**
+     * 审查当前分支相对 baseRef 引入的变更（merge-base..HEAD），用于提交合并请求前的整体审查。
+     * byCommit 为 true 时按提交拆分（每个提交只审它引入且保留到 HEAD 的行），各提交单独送审后合并结果。
+     * @throws baseRef 非法或无法解析 merge-base 时抛出
+     */
+    async reviewBranchWithContext(options: BranchReviewOptions): Promise<BranchReviewContext> {
+        const config = this.configManager.getConfig();
+        this.applyRuntimeTraceConfig(config);
+        const traceSession = this.runtimeTraceLogger.startRunSession('manual');
+
+        try {
+            const workspaceRoot = options.workspaceRoot ?? getEffectiveWorkspaceRoot()?.uri.fsPath;
+            if (!options.byCommit) {
+                const { mergeBase, diffByFile } = await this.fileScanner.getBranchDiff(workspaceRoot, options.baseRef);
+                const context = await this.reviewChangeSet(diffByFile, config, traceSession, workspaceRoot);
+                return { ...context, mergeBase };
+            }
+
+            const { mergeBase, commits } = await this.fileScanner.getBranchDiffByCommit(workspaceRoot, options.baseRef);
+            const entries: CommitReviewEntry[] = [];
+            for (const { commit, diffByFile } of commits) {
+                const context = await this.reviewChangeSet(diffByFile, config, traceSession, workspaceRoot);
+                if (context.changedFiles.length === 0) continue;
+                entries.push({ sha: commit.sha, subject: commit.subject, ...context });
+            }
+            const merged = entries.reduce<ReviewResult>(
+                (acc, entry) => ({
+                    passed: acc.passed && entry.result.passed,
+                    errors: [...acc.errors, ...entry.result.errors],
+                    warnings: [...acc.warnings, ...entry.result.warnings],
+                    info: [...acc.info, ...entry.result.info],
+                }),
+                this.createEmptyReviewResult()
+            );
+            const changedFiles = Array.from(new Set(entries.flatMap(entry => entry.changedFiles)));
+            return { result: merged, changedFiles, mergeBase, commits: entries };
+        } finally {
+            this.runtimeTraceLogger.endRunSession(traceSession);
+        }
+    }
+
+    /**
+     * 按已取得的 diff 审查变更集：删除的文件（磁盘上不存在）不送审；diff_only 关闭时整文件审查。
+     */
+    private reviewChangeSet = async (
+        diffByFileAll: Map<string, FileDiff>,
+        config: ReturnType<ConfigManager['getConfig']>,
+        traceSession: RuntimeTraceSession | null,
+        workspaceRoot: string | undefined
+    ): Promise<ChangeSetReviewContext> => {
+        const changedFiles = Array.from(diffByFileAll.keys())
+            .map(filePath => path.normalize(filePath))
+            .filter(filePath => fs.existsSync(filePath));
+        if (changedFiles.length === 0) {
+            return {
+                result: await this.completeEmptyRun(traceSession, config, 'manual', 'manual'),
+                changedFiles: [],
+            };
+        }
+        const useDiff = config.rules.diff_only !== false || config.ai_review?.diff_only !== false;
+        return {
+            result: await this.review(changedFiles, {
+                diffByFile: useDiff ? diffByFileAll : undefined,
+                traceSession,
+                workspaceRoot,
+            }),
+            changedFiles,
+        };
+    };
+
     /**
      *
      * 主要用于「保存触发审查」：
@@ -6,7 +6,7 @@
 
 import type { FileDiff } from '../utils/diffTypes';
 import type { AffectedScopeResult } from '../utils/astScope';
-import type { ReviewResult } from '../types/review';
+import type { ReviewIssue, ReviewResult } from '../types/review';
 import type { RuntimeTraceSession } from '../utils/runtimeTraceLogger';
 
 /** 审查范围提示：AST 或行号范围 */
@@ -16,8 +16,14 @@ export type ReviewScopeHint = {
     source: 'ast' | 'line';
 };
 
-/** 单次 review 调用可选参数：diff、trace 会话、AST 覆盖等 */
-export type ReviewRunOptions = {
+/** 流式审查参数：onAiIssues 接收已过滤忽略项的 AI 问题（审查结束前可能多次回调），signal 取消后保留已返回的问题 */
+export type ReviewStreamOptions = {
+    onAiIssues?: (issues: ReviewIssue[]) => void;
+    signal?: AbortSignal;
+};
+
+/** 单次 review 调用可选参数：diff、trace 会话、AST 覆盖、流式回调等 */
+export type ReviewRunOptions = ReviewStreamOptions & {
     diffByFile?: Map<string, FileDiff>;
     traceSession?: RuntimeTraceSession | null;
     astSnippetsByFileOverride?: Map<string, AffectedScopeResult>;
@@ -41,6 +47,39 @@ export type StagedReviewContext = {
     stagedFiles: string[];
 };
 
+/** 变更集审查上下文（working / 提交区间）：changedFiles 为实际送审的文件 */
+export type ChangeSetReviewContext = {
+    result: ReviewResult;
+    changedFiles: string[];
+};
+
+/** 提交区间审查参数：baseRef..headRef，headRef 默认 HEAD，且必须是当前检出的提交 */
+export type RefRangeReviewOptions = ReviewContextOptions & {
+    baseRef: string;
+    headRef?: string;
+};
+
+/** 分支审查参数：对比 baseRef 与 HEAD 的 merge-base；byCommit 为 true 时逐提交审查 */
+export type BranchReviewOptions = ReviewContextOptions & {
+    baseRef: string;
+    byCommit?: boolean;
+};
+
+/** 逐提交审查中单个提交的结果 */
+export type CommitReviewEntry = {
+    sha: string;
+    subject: string;
+    result: ReviewResult;
+    changedFiles: string[];
+};
+
+/** 分支审查上下文：result 为整体（逐提交模式下为各提交合并）结果 */
+export type BranchReviewContext = ChangeSetReviewContext & {
+    mergeBase: string;
+    /** 仅逐提交模式返回 */
+    commits?: CommitReviewEntry[];
+};
+
 /** 已复审行范围 */
 export type ReviewedRange = {
     startLine: number;
@@ -0,0 +1,102 @@
+/**
+ * 规则插件 Worker 脚本（worker_threads，eval 方式启动）
+ *
+ * 插件代码只在 Worker 内 require 与执行，宿主线程（扩展宿主、CLI、pre-commit 运行器）不加载仓库代码；
+ * 插件死循环或长时间同步阻塞时，宿主按超时 terminate 整个 Worker。
+ *
+ * 以源码字符串提供而非单独入口文件：tsc 产物与 vitest 直接运行 TS 源码时都能启动，无需额外的构建路径。
+ *
+ * 协议（workerData = { files, babelParserPath }）：
+ * - 启动后加载 files，回发 { type: 'loaded', ruleIds, warnings }
+ * - 收到 { id, ruleId, input } 执行对应规则，回发 { id, ok: true, issues } 或 { id, ok: false, message }
+ */
+
+export const RULE_PLUGIN_WORKER_SOURCE = String.raw`
+const { parentPort, workerData } = require('worker_threads');
+const path = require('path');
+
+const AST_EXTENSIONS = ['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs', '.mts', '.cts'];
+const rules = new Map();
+const warnings = [];
+
+const isRulePlugin = value =>
+    !!value && typeof value.id === 'string' && value.id.trim().length > 0 && typeof value.check === 'function';
+
+for (const filePath of workerData.files) {
+    const fileName = path.basename(filePath);
+    try {
+        const loaded = require(filePath);
+        const exported = loaded && loaded.default ? loaded.default : loaded;
+        const candidates = Array.isArray(exported)
+            ? exported
+            : exported && Array.isArray(exported.rules) ? exported.rules : [exported];
+        const valid = candidates.filter(isRulePlugin);
+        if (valid.length < candidates.length) {
+            warnings.push('规则插件 ' + fileName + ' 中有 ' + (candidates.length - valid.length) + ' 项缺少 id 或 check，已跳过');
+        }
+        for (const rule of valid) {
+            if (rules.has(rule.id)) {
+                warnings.push('规则插件 ' + rule.id + ' 重复定义，已忽略 ' + fileName + ' 中的定义');
+                continue;
+            }
+            rules.set(rule.id, rule);
+        }
+    } catch (error) {
+        warnings.push('规则插件加载失败，已跳过: ' + filePath + '（' + (error && error.message ? error.message : String(error)) + '）');
+    }
+}
+
+const createContext = input => {
+    let ast;
+    let parsed = false;
+    return {
+        filePath: input.filePath,
+        content: input.content,
+        fileDiff: input.fileDiff,
+        changedLines: input.changedLines,
+        get ast() {
+            if (!parsed) {
+                parsed = true;
+                ast = null;
+                if (AST_EXTENSIONS.includes(path.extname(input.filePath).toLowerCase())) {
+                    try {
+                        ast = require(workerData.babelParserPath).parse(input.content, {
+                            sourceType: 'module',
+                            plugins: ['typescript', 'jsx'],
+                            errorRecovery: true,
+                        });
+                    } catch {
+                        ast = null;
+                    }
+                }
+            }
+            return ast;
+        },
+    };
+};
+
+// 只回传可结构化克隆的字段，具体校验与补全由宿主完成
+const toTransferable = item => item && typeof item === 'object'
+    ? {
+        file: typeof item.file === 'string' ? item.file : undefined,
+        line: typeof item.line === 'number' ? item.line : undefined,
+        column: typeof item.column === 'number' ? item.column : undefined,
+        message: typeof item.message === 'string' ? item.message : undefined,
+        reason: typeof item.reason === 'string' ? item.reason : undefined,
+    }
+    : null;
+
+parentPort.on('message', async ({ id, ruleId, input }) => {
+    try {
+        const raw = await rules.get(ruleId).check(createContext(input));
+        if (!Array.isArray(raw)) {
+            throw new Error('规则插件 ' + ruleId + ' 未返回数组');
+        }
+        parentPort.postMessage({ id, ok: true, issues: raw.map(toTransferable) });
+    } catch (error) {
+        parentPort.postMessage({ id, ok: false, message: error && error.message ? error.message : String(error) });
+    }
+});
+
+parentPort.postMessage({ type: 'loaded', ruleIds: Array.from(rules.keys()), warnings });
+`;
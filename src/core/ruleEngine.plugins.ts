@@ -0,0 +1,269 @@
+/**
+ * 规则引擎：本地 JS 规则插件
+ *
+ * 从工作区的 .agentreview/rules/*.js（可由 rules.plugins.dir 覆盖）加载规则对象，
+ * 每条规则接收文件路径、内容、FileDiff 与按需解析的 Babel AST，返回问题列表。
+ *
+ * 插件模块示例：
+ * ```js
+ * module.exports = {
+ *     rules: [{
+ *         id: 'require-authorize',
+ *         check: ({ filePath, content, fileDiff, changedLines, ast }) => [
+ *             { line: 3, message: '导出的 API handler 未调用 authorize()' },
+ *         ],
+ *     }],
+ * };
+ * ```
+ *
+ * 隔离：插件在 worker_threads Worker 中加载与执行（见 ruleEngine.pluginWorker.ts），宿主线程不 require 仓库代码。
+ * 规则超时（含同步死循环）时终止 Worker，该规则在本次审查中不再执行，其余规则由重建的 Worker 继续；
+ * 单个插件加载失败、规则抛错或超时只记录日志与失败统计，不影响其它规则与本次审查。
+ * 问题的 rule 统一为 plugin/<id>，严重程度由 rules.plugins.rules.<id>.action 决定（默认 warning）。
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import type { ReviewIssue } from '../types/review';
+import type { FileDiff } from '../utils/diffTypes';
+import type { RulePluginsConfig } from '../types/config';
+import type { Logger } from '../utils/logger';
+import { getSeverity } from '../shared/ruleChecks';
+import { RULE_PLUGIN_WORKER_SOURCE } from './ruleEngine.pluginWorker';
+
+export const DEFAULT_RULE_PLUGIN_DIR = '.agentreview/rules';
+export const DEFAULT_RULE_PLUGIN_TIMEOUT_MS = 5000;
+/** 启动 Worker 并加载全部插件文件的超时，与单条规则的 timeout_ms 分开计算 */
+export const RULE_PLUGIN_LOAD_TIMEOUT_MS = 10_000;
+export const RULE_PLUGIN_RULE_PREFIX = 'plugin/';
+
+/** 传给插件规则的上下文 */
+export interface RulePluginContext {
+    filePath: string;
+    content: string;
+    fileDiff: FileDiff | null;
+    /** 变更行号（1-based）；无 diff（整文件审查）时为 undefined */
+    changedLines?: Set<number>;
+    /** Babel AST（JS/TS 文件首次访问时解析）；不支持的文件或解析失败为 null */
+    readonly ast: unknown;
+}
+
+/** 插件返回的问题：line 与 message 必填，其余缺省由引擎补全 */
+export type RulePluginIssue = Pick<ReviewIssue, 'line' | 'message'> & Partial<Pick<ReviewIssue, 'file' | 'column' | 'reason'>>;
+
+/** 插件导出的规则对象（在 Worker 中执行） */
+export interface RulePlugin {
+    id: string;
+    description?: string;
+    check: (context: RulePluginContext) => RulePluginIssue[] | Promise<RulePluginIssue[]>;
+}
+
+/** 单条规则单个文件的执行记录，供 RuntimeTraceLogger 聚合 */
+export type RulePluginTiming = { ruleId: string; durationMs: number; issueCount: number; failed: boolean };
+
+/** 单条规则单个文件的执行输入 */
+export type RulePluginInput = { filePath: string; content: string; fileDiff: FileDiff | null; changedLines?: Set<number> };
+
+type WorkerLoadedMessage = { type: 'loaded'; ruleIds: string[]; warnings: string[] };
+type WorkerResultMessage = { id: number; ok: true; issues: unknown[] } | { id: number; ok: false; message: string };
+type PendingCall = { resolve: (issues: unknown[]) => void; reject: (error: Error) => void };
+
+/** 解析插件目录：相对路径按工作区根解析 */
+export const resolveRulePluginDir = (workspaceRoot: string, config?: RulePluginsConfig): string =>
+    path.resolve(workspaceRoot, config?.dir || DEFAULT_RULE_PLUGIN_DIR);
+
+const listPluginFiles = (pluginDir: string): string[] => {
+    try {
+        return fs.readdirSync(pluginDir)
+            .filter(name => name.endsWith('.js'))
+            .sort()
+            .map(name => path.join(pluginDir, name));
+    } catch {
+        return [];
+    }
+};
+
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(message)), timeoutMs);
+        promise.then(
+            value => { clearTimeout(timer); resolve(value); },
+            error => { clearTimeout(timer); reject(error); }
+        );
+    });
+
+/** 把插件返回值规范为 ReviewIssue：丢弃缺 line/message 的项，rule 与严重程度由引擎决定 */
+const normalizePluginIssues = (
+    raw: unknown[],
+    ruleId: string,
+    filePath: string,
+    action: string
+): ReviewIssue[] =>
+    raw
+        .filter((item): item is RulePluginIssue =>
+            !!item
+            && typeof (item as RulePluginIssue).message === 'string'
+            && Number.isInteger((item as RulePluginIssue).line)
+            && (item as RulePluginIssue).line >= 1
+        )
+        .map(item => ({
+            file: item.file || filePath,
+            line: item.line,
+            column: Number.isInteger(item.column) && item.column! >= 1 ? item.column! : 1,
+            message: item.message,
+            reason: item.reason,
+            rule: `${RULE_PLUGIN_RULE_PREFIX}${ruleId}`,
+            severity: getSeverity(action),
+        }));
+
+/**
+ * 单次审查的插件执行会话：独占一个 Worker，按文件顺序逐条执行规则并计时。
+ * 规则超时后终止 Worker，下次调用时重建并重新加载插件；用完须调用 dispose。
+ */
+export class RulePluginSession {
+    private worker: Worker | null = null;
+    private loading: Promise<string[]> | null = null;
+    private readonly pending = new Map<number, PendingCall>();
+    private nextCallId = 1;
+    /** 本次审查中超时过的规则，不再执行，避免每个文件都等满超时 */
+    private readonly timedOutRules = new Set<string>();
+    private loadWarningsLogged = false;
+
+    constructor(
+        private readonly pluginDir: string,
+        private readonly config: RulePluginsConfig | undefined,
+        private readonly logger: Logger
+    ) {}
+
+    /**
+     * 对单个文件执行全部插件规则
+     * @param onTiming - 每条规则执行结束后回调，用于写入运行汇总
+     */
+    run = async (input: RulePluginInput, onTiming?: (timing: RulePluginTiming) => void): Promise<ReviewIssue[]> => {
+        const issues: ReviewIssue[] = [];
+        const timeoutMs = this.config?.timeout_ms ?? DEFAULT_RULE_PLUGIN_TIMEOUT_MS;
+        for (const ruleId of await this.load()) {
+            const ruleConfig = this.config?.rules?.[ruleId];
+            if (ruleConfig?.enabled === false || this.timedOutRules.has(ruleId)) {
+                continue;
+            }
+            const startedAt = Date.now();
+            let ruleIssues: ReviewIssue[] = [];
+            let failed = false;
+            try {
+                const raw = await this.call(ruleId, input, timeoutMs);
+                ruleIssues = normalizePluginIssues(raw, ruleId, input.filePath, ruleConfig?.action ?? 'warning');
+            } catch (error) {
+                failed = true;
+                this.logger.warn(`规则插件 ${ruleId} 执行失败，已跳过: ${input.filePath}`, error);
+            }
+            issues.push(...ruleIssues);
+            onTiming?.({ ruleId, durationMs: Date.now() - startedAt, issueCount: ruleIssues.length, failed });
+        }
+        return issues;
+    };
+
+    dispose = async (): Promise<void> => {
+        await this.terminate();
+    };
+
+    /** 启动 Worker 并加载插件，返回规则 id；目录为空、加载超时或 Worker 异常时返回空数组 */
+    private load = (): Promise<string[]> => {
+        if (this.loading) {
+            return this.loading;
+        }
+        const files = listPluginFiles(this.pluginDir);
+        if (files.length === 0) {
+            this.loading = Promise.resolve([]);
+            return this.loading;
+        }
+        const worker = new Worker(RULE_PLUGIN_WORKER_SOURCE, {
+            eval: true,
+            workerData: { files, babelParserPath: require.resolve('@babel/parser') },
+        });
+        this.worker = worker;
+        const loaded = new Promise<string[]>((resolve, reject) => {
+            worker.on('message', (message: WorkerLoadedMessage | WorkerResultMessage) => {
+                if ('type' in message) {
+                    this.logLoadWarnings(message.warnings);
+                    resolve(message.ruleIds);
+                    return;
+                }
+                const call = this.pending.get(message.id);
+                this.pending.delete(message.id);
+                if (message.ok) {
+                    call?.resolve(message.issues);
+                } else {
+                    call?.reject(new Error(message.message));
+                }
+            });
+            worker.on('error', error => this.handleWorkerExit(worker, error, reject));
+            worker.on('exit', code => this.handleWorkerExit(worker, new Error(`规则插件 Worker 已退出（code ${code}）`), reject));
+        });
+        this.loading = withTimeout(loaded, RULE_PLUGIN_LOAD_TIMEOUT_MS, `规则插件加载超时（>${RULE_PLUGIN_LOAD_TIMEOUT_MS}ms）`)
+            .catch(async error => {
+                this.logger.warn(`规则插件加载失败，本次审查不执行插件: ${this.pluginDir}`, error);
+                await this.terminate();
+                this.loading = Promise.resolve([]);
+                return [];
+            });
+        return this.loading;
+    };
+
+    private call = async (ruleId: string, input: RulePluginInput, timeoutMs: number): Promise<unknown[]> => {
+        // 前一条规则超时后 Worker 已终止，这里重建并重新加载
+        await this.load();
+        const worker = this.worker;
+        if (!worker) {
+            throw new Error('规则插件 Worker 未启动');
+        }
+        const id = this.nextCallId++;
+        const result = new Promise<unknown[]>((resolve, reject) => {
+            this.pending.set(id, { resolve, reject });
+            worker.postMessage({ id, ruleId, input });
+        });
+        return withTimeout(result, timeoutMs, `规则插件 ${ruleId} 执行超时（>${timeoutMs}ms），已终止插件 Worker`)
+            .catch(async error => {
+                if (this.pending.has(id)) {
+                    this.pending.delete(id);
+                    this.timedOutRules.add(ruleId);
+                    await this.terminate();
+                }
+                throw error;
+            });
+    };
+
+    /** Worker 异常退出：拒绝进行中的调用，下次 run 时重建 */
+    private handleWorkerExit = (worker: Worker, error: Error, rejectLoad: (error: Error) => void): void => {
+        rejectLoad(error);
+        if (this.worker !== worker) {
+            return;
+        }
+        this.worker = null;
+        this.loading = null;
+        for (const call of this.pending.values()) {
+            call.reject(error);
+        }
+        this.pending.clear();
+    };
+
+    private terminate = async (): Promise<void> => {
+        const worker = this.worker;
+        this.worker = null;
+        this.loading = null;
+        if (worker) {
+            await worker.terminate();
+        }
+    };
+
+    private logLoadWarnings = (warnings: string[]): void => {
+        if (this.loadWarningsLogged) {
+            return;
+        }
+        this.loadWarningsLogged = true;
+        for (const warning of warnings) {
+            this.logger.warn(warning);
+        }
+    };
+}
@@ -14,8 +14,17 @@
  * - no_todo: 检查代码中是否包含 TODO/FIXME/XXX 注释
  *   - 配置路径：rules.code_quality.no_todo
  *   - 可配置参数：no_todo_pattern（正则表达式模式，默认：'(TODO|FIXME|XXX)'）
- * - no_debugger: 检查代码中是否包含 debugger 语句
- *   - 配置路径：rules.code_quality.no_debugger
+ * - no_debugger / no_console / no_empty_catch / no_floating_promise / no_v_html: 基于 AST 的规则（见 shared/astRuleChecks）
+ *   - 配置路径：rules.code_quality.<规则 id>；仅报告与变更行相交的节点
+ *   - no_debugger 在不支持或解析失败的文件上回退为按行匹配
+ * - 自定义正则规则：rules.custom_rules（id/pattern/negative_pattern/files/message/action）
+ *   - 与 no_todo 一样，有 fileDiff 时仅扫描变更行；rule 即规则 id
+ * - secret_*: 密钥与凭据检测（AccessKey、私钥、JWT、连接串密码、高熵字符串）
+ *   - 配置路径：rules.security.scan_secrets；按检测项配置 checks 开关与 allowlist
+ * - import_*: 架构分层边界、禁止/弃用模块引用（仅检查变更行新增的 import）
+ *   - 配置路径：rules.business_logic.layer_boundaries / forbidden_imports / deprecated_imports
+ * - plugin/<id>: 本地 JS 规则插件（.agentreview/rules/*.js，见 ruleEngine.plugins.ts）
+ *   - 配置路径：rules.plugins；仅 checkFiles 执行（需要工作区根定位插件目录）
  * 
  * 规则检查流程：
  * 1. 读取文件内容
@@ -33,11 +42,37 @@ import { ConfigManager } from '../config/configManager';
 import { Logger } from '../utils/logger';
 import type { ReviewIssue } from '../types/review';
 import type { FileDiff } from '../utils/diffTypes';
-import { checkNoSpaceInFilename, checkNoTodo, checkNoDebugger } from '../shared/ruleChecks';
+import {
+    checkNoSpaceInFilename,
+    checkNoTodo,
+    checkNoDebugger,
+    checkCustomRules,
+    compileCustomRules,
+    type CompiledCustomRule,
+} from '../shared/ruleChecks';
+import { checkSecrets, compileSecretAllowlists } from '../shared/secretChecks';
+import { checkImportBoundaries } from '../shared/importBoundaryChecks';
+import { AST_RULE_IDS, checkAstRules, supportsAstRules } from '../shared/astRuleChecks';
+import { RulePluginSession, resolveRulePluginDir } from './ruleEngine.plugins';
+import type { CustomRuleConfig, SecretCheckId, SecurityRuleConfig } from '../types/config';
 import * as path from 'path';
 import * as fs from 'fs';
 import { RuntimeTraceLogger, type RuntimeTraceSession } from '../utils/runtimeTraceLogger';
 
+/** diff 中新文件侧的变更行号（1-based）；无 hunks 时返回 undefined 表示整文件 */
+const collectChangedLineNumbers = (fileDiff?: FileDiff | null): Set<number> | undefined => {
+    if (!fileDiff?.hunks?.length) {
+        return undefined;
+    }
+    const changedLineNumbers = new Set<number>();
+    for (const h of fileDiff.hunks) {
+        for (let k = 0; k < h.newCount; k++) {
+            changedLineNumbers.add(h.newStart + k);
+        }
+    }
+    return changedLineNumbers;
+};
+
 /**
  * 规则接口（未来扩展用）
  * 目前规则配置直接读取自配置文件，这个接口预留用于未来功能
@@ -62,6 +97,13 @@ export class RuleEngine {
     private logger: Logger;
     private runtimeTraceLogger: RuntimeTraceLogger;
     private rules: Rule[] = [];
+    // 自定义规则编译缓存：配置对象不变时复用，避免每个文件重复编译/重复告警
+    private compiledCustomRules: { source: CustomRuleConfig[] | undefined; rules: CompiledCustomRule[] } | null = null;
+    // 安全规则 allowlist 编译缓存，同上
+    private compiledSecretAllowlists: {
+        source: SecurityRuleConfig['allowlist'];
+        allowlists: Map<SecretCheckId, RegExp[]>;
+    } | null = null;
     // 大文件阈值：超过该大小的文件将被跳过，避免内存占用过高
     private static readonly MAX_FILE_SIZE_BYTES = 10 * 1024 * 1024;
     // 二进制检测读取的字节数（仅用于快速判断）
@@ -81,7 +123,7 @@ export class RuleEngine {
     /**
      * 检查单个文件
      *
-     * 当提供 fileDiff 时，no_todo 仅对变更行执行；文件名规则始终执行。
+     * 当提供 fileDiff 时，按行规则（no_todo、自定义、安全、模块引用）仅对变更行执行；文件名规则始终执行。
      *
      * @param filePath - 文件的完整路径
      * @param content - 文件的内容（字符串）
@@ -93,10 +135,81 @@ export class RuleEngine {
         return result.issues;
     }
 
+    /**
+     * 对即将发送给 AI 的文本（如修复片段及上下文）执行密钥检测；规则或密钥扫描未启用时返回空数组。
+     */
+    checkSecretsInContent(filePath: string, content: string): ReviewIssue[] {
+        const config = this.configManager.getConfig();
+        const security = config.rules.security;
+        if (!config.rules.enabled || !security || !this.isSecretScanEnabled()) {
+            return [];
+        }
+        return checkSecrets(filePath, content, {
+            action: security.action,
+            allowlists: this.getSecretAllowlists(),
+            checks: security.checks,
+            entropyMinLength: security.entropy_min_length,
+            entropyThreshold: security.entropy_threshold,
+        });
+    }
+
+    /**
+     * 项目规则模式下是否仍有需要执行的规则（自定义、安全、模块引用规则与插件不由项目 lint 代替）
+     */
+    hasProjectModeRules(): boolean {
+        return this.getCompiledCustomRules().length > 0
+            || this.isSecretScanEnabled()
+            || this.hasImportConstraints()
+            || this.configManager.getConfig().rules.plugins?.enabled === true;
+    }
+
+    private hasImportConstraints = (): boolean => {
+        const businessLogic = this.configManager.getConfig().rules.business_logic;
+        return !!businessLogic?.enabled && !!(
+            businessLogic.layer_boundaries?.length
+            || businessLogic.forbidden_imports?.length
+            || businessLogic.deprecated_imports?.length
+        );
+    };
+
+    private isSecretScanEnabled = (): boolean => {
+        const security = this.configManager.getConfig().rules.security;
+        return !!security?.enabled && security.scan_secrets !== false;
+    };
+
+    private getSecretAllowlists = (): Map<SecretCheckId, RegExp[]> => {
+        const source = this.configManager.getConfig().rules.security?.allowlist;
+        const cached = this.compiledSecretAllowlists;
+        if (cached && cached.source === source) {
+            return cached.allowlists;
+        }
+        const { allowlists, errors } = compileSecretAllowlists(source);
+        for (const error of errors) {
+            this.logger.warn(error);
+        }
+        this.compiledSecretAllowlists = { source, allowlists };
+        return allowlists;
+    };
+
+    private getCompiledCustomRules = (): CompiledCustomRule[] => {
+        const source = this.configManager.getConfig().rules.custom_rules;
+        const cached = this.compiledCustomRules;
+        if (cached && cached.source === source) {
+            return cached.rules;
+        }
+        const { rules, errors } = compileCustomRules(source);
+        for (const error of errors) {
+            this.logger.warn(error);
+        }
+        this.compiledCustomRules = { source, rules };
+        return rules;
+    };
+
     private checkFileWithMetrics = (
         filePath: string,
         content: string,
-        fileDiff?: FileDiff | null
+        fileDiff?: FileDiff | null,
+        projectRuleMode = false
     ): {
         issues: ReviewIssue[];
         candidateLines: number;
@@ -118,7 +231,11 @@ export class RuleEngine {
         }
 
         // 规则1：文件名（与行无关，始终检查）
-        if (config.rules.naming_convention?.enabled && config.rules.naming_convention.no_space_in_filename) {
+        if (
+            !projectRuleMode
+            && config.rules.naming_convention?.enabled
+            && config.rules.naming_convention.no_space_in_filename
+        ) {
             issues.push(
                 ...checkNoSpaceInFilename(filePath, content, {
                     action: config.rules.naming_convention.action,
@@ -126,34 +243,67 @@ export class RuleEngine {
             );
         }
 
-        // 规则2：code_quality；有 fileDiff 时仅扫描变更行
-        if (
-            config.rules.code_quality?.enabled
-            && (config.rules.code_quality.no_todo || config.rules.code_quality.no_debugger)
-        ) {
-            let changedLineNumbers: Set<number> | undefined;
+        // 按行规则（code_quality、自定义、安全、模块引用）；有 fileDiff 时仅扫描变更行
+        const astRuleIds = AST_RULE_IDS.filter(ruleId => config.rules.code_quality?.[ruleId] === true);
+        const runCodeQuality = !projectRuleMode
+            && !!config.rules.code_quality?.enabled
+            && (!!config.rules.code_quality.no_todo || astRuleIds.length > 0);
+        const customRules = this.getCompiledCustomRules();
+        const runSecretScan = this.isSecretScanEnabled();
+        const runImportChecks = this.hasImportConstraints();
+        if (runCodeQuality || customRules.length > 0 || runSecretScan || runImportChecks) {
+            const changedLineNumbers = collectChangedLineNumbers(fileDiff);
             candidateLines = content.split('\n').length;
-            if (fileDiff?.hunks?.length) {
-                changedLineNumbers = new Set<number>();
-                for (const h of fileDiff.hunks) {
-                    for (let k = 0; k < h.newCount; k++) {
-                        changedLineNumbers.add(h.newStart + k);
-                    }
-                }
-            }
             checkedLines = changedLineNumbers?.size ?? candidateLines;
-            if (config.rules.code_quality.no_todo) {
+            const codeQuality = config.rules.code_quality;
+            if (runCodeQuality && codeQuality?.no_todo) {
                 issues.push(
                     ...checkNoTodo(filePath, content, {
-                        action: config.rules.code_quality.action,
-                        pattern: config.rules.code_quality.no_todo_pattern as string | undefined,
+                        action: codeQuality.action,
+                        pattern: codeQuality.no_todo_pattern,
                     }, changedLineNumbers)
                 );
             }
-            if (config.rules.code_quality.no_debugger) {
+            if (runCodeQuality && codeQuality && astRuleIds.length > 0) {
+                // AST 规则：仅报告与变更行相交的节点；不支持或解析失败时 no_debugger 回退为按行匹配
+                const astIssues = supportsAstRules(filePath)
+                    ? checkAstRules(filePath, content, {
+                        action: codeQuality.action,
+                        rules: astRuleIds,
+                        consoleAllow: codeQuality.no_console_allow,
+                    }, changedLineNumbers)
+                    : null;
+                if (astIssues) {
+                    issues.push(...astIssues);
+                } else if (codeQuality.no_debugger) {
+                    issues.push(
+                        ...checkNoDebugger(filePath, content, {
+                            action: codeQuality.action,
+                        }, changedLineNumbers)
+                    );
+                }
+            }
+            if (customRules.length > 0) {
+                issues.push(...checkCustomRules(filePath, content, customRules, changedLineNumbers));
+            }
+            const security = config.rules.security;
+            if (runSecretScan && security) {
+                issues.push(
+                    ...checkSecrets(filePath, content, {
+                        action: security.action,
+                        allowlists: this.getSecretAllowlists(),
+                        checks: security.checks,
+                        entropyMinLength: security.entropy_min_length,
+                        entropyThreshold: security.entropy_threshold,
+                    }, changedLineNumbers)
+                );
+            }
+            const businessLogic = config.rules.business_logic;
+            if (runImportChecks && businessLogic) {
                 issues.push(
-                    ...checkNoDebugger(filePath, content, {
-                        action: config.rules.code_quality.action,
+                    ...checkImportBoundaries(filePath, content, {
+                        action: businessLogic.action,
+                        config: businessLogic,
                     }, changedLineNumbers)
                 );
             }
@@ -174,14 +324,25 @@ export class RuleEngine {
      *
      * @param files - 要检查的文件路径数组
      * @param diffByFile - 可选，每文件的 diff；有则仅扫描变更行
+     * @param options.projectRuleMode - 项目规则模式：文件名/code_quality 由项目 diagnostics 代替，仅跑自定义、安全、模块引用规则与插件
+     * @param options.workspaceRoot - 工作区根，用于定位规则插件目录；缺省时不执行插件
+     * @param options.allowPlugins - 为 false 时不执行插件（如 VSCode 未信任的工作区）
      * @returns 所有文件的问题列表（合并后的）
      */
     async checkFiles(
         files: string[],
         diffByFile?: Map<string, FileDiff> | null,
-        traceSession?: RuntimeTraceSession | null
+        traceSession?: RuntimeTraceSession | null,
+        options?: { projectRuleMode?: boolean; workspaceRoot?: string; allowPlugins?: boolean }
     ): Promise<ReviewIssue[]> {
         const issues: ReviewIssue[] = [];
+        const pluginsConfig = this.configManager.getConfig().rules.plugins;
+        const pluginSession = this.configManager.getConfig().rules.enabled
+            && pluginsConfig?.enabled === true
+            && options?.workspaceRoot
+            && options.allowPlugins !== false
+            ? new RulePluginSession(resolveRulePluginDir(options.workspaceRoot, pluginsConfig), pluginsConfig, this.logger)
+            : null;
         const scanStartAt = Date.now();
         let skippedMissing = 0;
         let skippedLarge = 0;
@@ -232,16 +393,22 @@ export class RuleEngine {
                 const content = await fs.promises.readFile(file, 'utf-8');
                 bytesRead += Buffer.byteLength(content, 'utf8');
                 const fileDiff = diffByFile?.get(file) ?? null;
-                const checkResult = this.checkFileWithMetrics(file, content, fileDiff);
+                const checkResult = this.checkFileWithMetrics(file, content, fileDiff, options?.projectRuleMode);
                 candidateLines += checkResult.candidateLines;
                 checkedLines += checkResult.checkedLines;
                 skippedUnchangedLines += checkResult.skippedUnchangedLines;
                 issues.push(...checkResult.issues);
+                if (pluginSession) {
+                    issues.push(...await pluginSession.run(
+                        { filePath: file, content, fileDiff, changedLines: collectChangedLineNumbers(fileDiff) },
+                        timing => traceSession && this.runtimeTraceLogger.addRulePluginCall(traceSession.runId, timing)
+                    ));
+                }
             } catch (error) {
                 this.logger.error(`检查文件失败: ${file}`, error);
             }
         }
-
+        await pluginSession?.dispose();
 
         return issues;
     }
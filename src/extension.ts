@@ -10,20 +10,31 @@ import { createHash } from 'crypto';
 import { ReviewEngine } from './core/reviewEngine';
 import { ConfigManager } from './config/configManager';
 import { ReviewPanel } from './ui/reviewPanel';
+import { ReviewCodeActionProvider } from './ui/reviewCodeActionProvider';
+import { isReviewDiagnostic } from './ui/reviewDiagnostics';
 import { StatusBar } from './ui/statusBar';
 import { Logger } from './utils/logger';
 import { FileScanner } from './utils/fileScanner';
 import type { FileDiff } from './types/diff';
 import { registerRunReviewCommand } from './commands/runReviewCommand';
 import { registerRunStagedReviewCommand } from './commands/runStagedReviewCommand';
+import { registerRunBranchReviewCommand } from './commands/runBranchReviewCommand';
 import { registerReviewCommand } from './commands/reviewCommand';
 import { registerShowReportCommand } from './commands/showReportCommand';
 import { registerRefreshCommand } from './commands/refreshCommand';
 import { registerAllowIssueIgnoreCommand } from './commands/allowIssueIgnoreCommand';
 import { registerIgnoreIssueCommand } from './commands/ignoreIssueCommand';
+import { registerFixIssueCommand } from './commands/fixIssueCommand';
+import { registerApplySuggestionCommand } from './commands/applySuggestionCommand';
+import { registerExplainIssueCommand } from './commands/explainIssueCommand';
 import { registerExplainRuntimeLogCommand } from './commands/explainRuntimeLogCommand';
+import { getPreCommitRunnerPath, registerInstallGitHookCommand } from './commands/installGitHookCommand';
+import { refreshPreCommitHook } from './hooks/gitHookInstaller';
+import { registerExportSarifCommand } from './commands/exportSarifCommand';
+import { registerUninstallGitHookCommand } from './commands/uninstallGitHookCommand';
 import type { CommandContext } from './commands/commandContext';
 import { RuntimeTraceLogger } from './utils/runtimeTraceLogger';
+import { AIRateLimiter } from './ai/aiRateLimiter';
 import { resolveRuntimeLogBaseDir } from './utils/runtimeLogPath';
 import {
     DEFAULT_RUN_ON_SAVE_RISK_PATTERNS,
@@ -185,11 +196,13 @@ const registerAutoReviewOnSave = (deps: CommandContext): AutoReviewController =>
         return 'hint';
     };
 
+    /** 保存漏斗使用的语言服务诊断，不含 AgentReview 自身发布的诊断 */
     const collectDiagnosticsForFile = (
         filePath: string
     ): Array<{ severity: AutoReviewDiagnosticSeverity }> =>
         vscode.languages
             .getDiagnostics(vscode.Uri.file(filePath))
+            .filter(item => !isReviewDiagnostic(item))
             .map(item => ({ severity: toDiagnosticSeverity(item.severity) }));
 
     const createContentHash = (content: string): string =>
@@ -294,7 +307,7 @@ const registerAutoReviewOnSave = (deps: CommandContext): AutoReviewController =>
     const hasErrorDiagnostics = (filePath: string): boolean =>
         vscode.languages
             .getDiagnostics(vscode.Uri.file(filePath))
-            .some(item => item.severity === vscode.DiagnosticSeverity.Error);
+            .some(item => !isReviewDiagnostic(item) && item.severity === vscode.DiagnosticSeverity.Error);
 
     /** 复审完成时的状态文案：保留历史问题时与“已最新保存”区分 */
     const getSaveReviewDoneMessage = (preserveStaleOnEmpty: boolean, forceReview: boolean): string => {
@@ -786,19 +799,43 @@ export const activate = async (context: vscode.ExtensionContext) => {
         context.subscriptions.push(
             registerRunReviewCommand(commandDeps),
             registerRunStagedReviewCommand(commandDeps),
+            registerRunBranchReviewCommand(commandDeps),
             registerReviewCommand(),
             registerShowReportCommand(commandDeps),
             registerRefreshCommand(),
             registerAllowIssueIgnoreCommand(commandDeps),
             registerIgnoreIssueCommand(commandDeps),
+            registerFixIssueCommand(commandDeps),
+            registerApplySuggestionCommand(commandDeps),
+            registerExplainIssueCommand(commandDeps),
+            vscode.languages.registerCodeActionsProvider(
+                { scheme: 'file' },
+                new ReviewCodeActionProvider(() => reviewPanel?.getCurrentResult() ?? null),
+                { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
+            ),
             registerExplainRuntimeLogCommand(commandDeps, context),
+            registerInstallGitHookCommand(commandDeps, context),
+            registerUninstallGitHookCommand(commandDeps),
+            registerExportSarifCommand(commandDeps, context),
             autoReviewController,
             reviewCurrentFileNowDisposable,
             reviewPanel,
             statusBar,
+            // 限流器由所有工作区根共享，等待配额与熔断状态显示在状态栏
+            AIRateLimiter.getInstance().onDidChangeState(state => statusBar?.updateRateLimitState(state)),
             configManager
         );
 
+        // 运行器路径含插件版本号，插件更新后把已安装的 hook 改写为当前路径
+        const gitRoot = getGitRoot();
+        if (gitRoot) {
+            void refreshPreCommitHook({ gitRoot, runnerPath: getPreCommitRunnerPath(context.extensionPath) })
+                .then(refreshed => {
+                    if (refreshed) logger.info('pre-commit hook 已更新为当前版本的审查运行器');
+                })
+                .catch(error => logger.debug('更新 pre-commit hook 失败', error));
+        }
+
         logger.info('AgentReview插件激活成功');
     } catch (error) {
         logger.error('插件激活失败', error);
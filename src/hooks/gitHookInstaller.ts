@@ -0,0 +1,188 @@
+/**
+ * Git pre-commit hook 安装/卸载
+ *
+ * 安装后的 hook 是一个 sh 脚本，提交时调用 headless 运行器（preCommitRunner）执行 staged 审查，
+ * 运行器退出码非 0 时 git 会中止提交，从而让 block_commit 规则在终端/其他 git 客户端中同样生效。
+ *
+ * 约定：
+ * - hook 目录通过 `git rev-parse --git-path hooks` 解析，兼容 core.hooksPath 与 worktree
+ * - 由本插件写入的 hook 带有 AGENTREVIEW_HOOK_MARKER 标记，卸载时只删除带标记的 hook
+ * - 已存在的非本插件 hook 不会被静默覆盖：需调用方显式允许，原 hook 会备份并在审查前先执行
+ * - 运行器路径含插件版本号，插件更新后由 refreshPreCommitHook 在激活时改写为当前路径
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+
+const execAsync = promisify(exec);
+
+/** 写入 hook 脚本的标记行，用于识别由 AgentReview 管理的 hook */
+export const AGENTREVIEW_HOOK_MARKER = '# agentreview-managed-hook';
+/** 覆盖第三方 hook 时原 hook 的备份文件名（与 pre-commit 同目录） */
+export const PRE_COMMIT_BACKUP_NAME = 'pre-commit.agentreview-backup';
+
+export type InstallHookStatus = 'installed' | 'updated' | 'foreign_hook_exists';
+export type UninstallHookStatus = 'removed' | 'not_installed' | 'foreign_hook';
+
+export interface InstallPreCommitHookOptions {
+    /** Git 仓库根目录 */
+    gitRoot: string;
+    /** 编译后的 preCommitRunner.js 绝对路径 */
+    runnerPath: string;
+    /** 已存在非本插件 hook 时是否备份后覆盖；默认 false（返回 foreign_hook_exists） */
+    overwriteExisting?: boolean;
+}
+
+export interface InstallPreCommitHookResult {
+    status: InstallHookStatus;
+    hookPath: string;
+    /** 覆盖第三方 hook 时的备份路径 */
+    backupPath?: string;
+}
+
+export interface UninstallPreCommitHookResult {
+    status: UninstallHookStatus;
+    hookPath: string;
+    /** 卸载时是否恢复了之前备份的第三方 hook */
+    restoredBackup: boolean;
+}
+
+/**
+ * 解析仓库实际使用的 hooks 目录（尊重 core.hooksPath；worktree 下指向公共 hooks 目录）。
+ */
+export const resolveHooksDir = async (gitRoot: string): Promise<string> => {
+    const { stdout } = await execAsync('git rev-parse --git-path hooks', { cwd: gitRoot });
+    const hooksDir = stdout.trim();
+    return path.isAbsolute(hooksDir) ? hooksDir : path.join(gitRoot, hooksDir);
+};
+
+/** sh 单引号转义：把 ' 替换为 '\'' */
+const shellQuote = (value: string): string => `'${value.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * 生成 pre-commit hook 脚本内容。
+ * - 若存在备份的原 hook，先执行它，失败则直接中止
+ * - 设置 AGENTREVIEW_SKIP_HOOK=1 可临时跳过审查（等价于 git commit --no-verify 但保留原 hook）
+ * - 找不到运行器时阻止提交并提示重新安装或跳过，避免提交前审查被静默关闭
+ * - 找不到 node 时仅提示并放行（GUI 类 git 客户端常无 node 的 PATH）
+ */
+export const buildPreCommitHookScript = (runnerPath: string): string => {
+    // Git for Windows 自带的 sh 也能识别正斜杠路径
+    const runner = shellQuote(runnerPath.replace(/\\/g, '/'));
+    return [
+        '#!/bin/sh',
+        AGENTREVIEW_HOOK_MARKER,
+        '# 由 AgentReview 安装：提交前对 staged 变更执行审查，未通过（passed=false）时阻止提交。',
+        '# 卸载请执行命令「AgentReview: 卸载 Git pre-commit Hook」。',
+        '',
+        'HOOK_DIR="$(cd "$(dirname "$0")" && pwd)"',
+        `if [ -x "$HOOK_DIR/${PRE_COMMIT_BACKUP_NAME}" ]; then`,
+        `    "$HOOK_DIR/${PRE_COMMIT_BACKUP_NAME}" "$@" || exit $?`,
+        'fi',
+        '',
+        'if [ -n "$AGENTREVIEW_SKIP_HOOK" ]; then',
+        '    exit 0',
+        'fi',
+        '',
+        `AGENTREVIEW_RUNNER=${runner}`,
+        'AGENTREVIEW_NODE="${AGENTREVIEW_NODE:-node}"',
+        'if [ ! -f "$AGENTREVIEW_RUNNER" ]; then',
+        '    echo "[AgentReview] 未找到审查运行器: $AGENTREVIEW_RUNNER（插件可能已更新或卸载），已阻止提交" >&2',
+        '    echo "[AgentReview] 请在 VSCode 中执行「AgentReview: 安装 Git pre-commit Hook」重新安装，或用 git commit --no-verify / AGENTREVIEW_SKIP_HOOK=1 跳过本次审查" >&2',
+        '    exit 1',
+        'fi',
+        'if ! command -v "$AGENTREVIEW_NODE" >/dev/null 2>&1; then',
+        '    echo "[AgentReview] 未找到 node（可通过 AGENTREVIEW_NODE 指定），已跳过提交前审查" >&2',
+        '    exit 0',
+        'fi',
+        '',
+        'exec "$AGENTREVIEW_NODE" "$AGENTREVIEW_RUNNER" --workspace-root "$(git rev-parse --show-toplevel)"',
+        '',
+    ].join('\n');
+};
+
+const readFileIfExists = async (filePath: string): Promise<string | null> => {
+    try {
+        return await fs.promises.readFile(filePath, 'utf8');
+    } catch {
+        return null;
+    }
+};
+
+/** 判断 hook 内容是否由 AgentReview 写入 */
+export const isAgentReviewHook = (content: string | null): boolean =>
+    !!content && content.includes(AGENTREVIEW_HOOK_MARKER);
+
+/**
+ * 安装（或更新）pre-commit hook。
+ * 已存在第三方 hook 且未允许覆盖时不做任何修改，返回 foreign_hook_exists 交给调用方确认。
+ */
+export const installPreCommitHook = async (
+    options: InstallPreCommitHookOptions
+): Promise<InstallPreCommitHookResult> => {
+    const hooksDir = await resolveHooksDir(options.gitRoot);
+    const hookPath = path.join(hooksDir, 'pre-commit');
+    const existing = await readFileIfExists(hookPath);
+    let status: InstallHookStatus = 'installed';
+    let backupPath: string | undefined;
+
+    if (existing !== null) {
+        if (isAgentReviewHook(existing)) {
+            status = 'updated';
+        } else if (!options.overwriteExisting) {
+            return { status: 'foreign_hook_exists', hookPath };
+        } else {
+            backupPath = path.join(hooksDir, PRE_COMMIT_BACKUP_NAME);
+            await fs.promises.rename(hookPath, backupPath);
+        }
+    }
+
+    await fs.promises.mkdir(hooksDir, { recursive: true });
+    await fs.promises.writeFile(hookPath, buildPreCommitHookScript(options.runnerPath), { encoding: 'utf8', mode: 0o755 });
+    // writeFile 的 mode 只在新建文件时生效，更新已有文件时需再 chmod 一次
+    await fs.promises.chmod(hookPath, 0o755);
+    return { status, hookPath, ...(backupPath && { backupPath }) };
+};
+
+/**
+ * 把已安装的 AgentReview hook 改写为指向当前运行器（插件更新后运行器路径变化）。
+ * 未安装、第三方 hook 或内容已是最新时不做修改。
+ * @returns 是否改写了 hook
+ */
+export const refreshPreCommitHook = async (options: Pick<InstallPreCommitHookOptions, 'gitRoot' | 'runnerPath'>): Promise<boolean> => {
+    const hooksDir = await resolveHooksDir(options.gitRoot);
+    const hookPath = path.join(hooksDir, 'pre-commit');
+    const existing = await readFileIfExists(hookPath);
+    const script = buildPreCommitHookScript(options.runnerPath);
+    if (!isAgentReviewHook(existing) || existing === script) {
+        return false;
+    }
+    await fs.promises.writeFile(hookPath, script, 'utf8');
+    await fs.promises.chmod(hookPath, 0o755);
+    return true;
+};
+
+/**
+ * 卸载 pre-commit hook：仅删除带标记的 hook；若有备份的原 hook 则还原。
+ */
+export const uninstallPreCommitHook = async (gitRoot: string): Promise<UninstallPreCommitHookResult> => {
+    const hooksDir = await resolveHooksDir(gitRoot);
+    const hookPath = path.join(hooksDir, 'pre-commit');
+    const existing = await readFileIfExists(hookPath);
+    if (existing === null) {
+        return { status: 'not_installed', hookPath, restoredBackup: false };
+    }
+    if (!isAgentReviewHook(existing)) {
+        return { status: 'foreign_hook', hookPath, restoredBackup: false };
+    }
+
+    await fs.promises.unlink(hookPath);
+    const backupPath = path.join(hooksDir, PRE_COMMIT_BACKUP_NAME);
+    if (fs.existsSync(backupPath)) {
+        await fs.promises.rename(backupPath, hookPath);
+        return { status: 'removed', hookPath, restoredBackup: true };
+    }
+    return { status: 'removed', hookPath, restoredBackup: false };
+};
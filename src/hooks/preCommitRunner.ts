@@ -0,0 +1,109 @@
+/**
+ * pre-commit headless 运行器
+ *
+ * 由 gitHookInstaller 写入的 pre-commit hook 调用：
+ *   node out/hooks/preCommitRunner.js --workspace-root <repo>
+ *
+ * 流程：注册宿主适配器（含 .vscode/settings.json 中的 agentreview.* 设置）
+ * → 加载 .agentreview.yaml/.env → ReviewEngine.reviewStagedFilesWithContext
+ * 退出码：
+ * - 0：审查通过（ReviewResult.passed 为 true，或没有 staged 文件）
+ * - 1：审查未通过，git 中止提交
+ * - 2：运行器自身出错（配置/依赖异常），同样阻止提交，可用 git commit --no-verify 跳过
+ */
+
+import * as path from 'path';
+import type { ReviewEngine } from '../core/reviewEngine';
+import { installHostAdapter, loadWorkspaceSettings } from '../cli/hostAdapter';
+import { formatTextReport } from '../cli/reportFormatter';
+
+export const PRE_COMMIT_EXIT_PASSED = 0;
+export const PRE_COMMIT_EXIT_BLOCKED = 1;
+export const PRE_COMMIT_EXIT_RUNNER_ERROR = 2;
+
+export interface PreCommitRunnerArgs {
+    workspaceRoot: string;
+    verbose: boolean;
+}
+
+/**
+ * 解析命令行参数：--workspace-root <dir>（默认当前目录）、--verbose。
+ */
+export const parsePreCommitArgs = (argv: string[], cwd: string = process.cwd()): PreCommitRunnerArgs => {
+    let workspaceRoot = cwd;
+    let verbose = false;
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--workspace-root' && argv[i + 1]) {
+            workspaceRoot = argv[++i];
+        } else if (arg.startsWith('--workspace-root=')) {
+            workspaceRoot = arg.slice('--workspace-root='.length);
+        } else if (arg === '--verbose') {
+            verbose = true;
+        }
+    }
+    return { workspaceRoot: path.resolve(cwd, workspaceRoot), verbose };
+};
+
+/**
+ * 执行 staged 审查并返回退出码；输出通过 write 回调，便于测试。
+ */
+export const runPreCommitReview = async (
+    reviewEngine: Pick<ReviewEngine, 'reviewStagedFilesWithContext'>,
+    workspaceRoot: string,
+    write: (line: string) => void
+): Promise<number> => {
+    const { result, stagedFiles } = await reviewEngine.reviewStagedFilesWithContext({ workspaceRoot });
+    if (stagedFiles.length === 0) {
+        return PRE_COMMIT_EXIT_PASSED;
+    }
+    const report = formatTextReport(result, workspaceRoot);
+    if (result.passed) {
+        write(`[AgentReview] 审查通过（${stagedFiles.length} 个 staged 文件）`);
+        report.forEach(write);
+        return PRE_COMMIT_EXIT_PASSED;
+    }
+    write(`[AgentReview] 审查未通过，已阻止提交（${stagedFiles.length} 个 staged 文件）`);
+    report.forEach(write);
+    write('[AgentReview] 修复后重新提交；如需临时跳过可使用 git commit --no-verify');
+    return PRE_COMMIT_EXIT_BLOCKED;
+};
+
+/**
+ * 运行器入口：先注册宿主适配器，再按需加载依赖 'vscode' 的模块。
+ */
+const main = async (): Promise<number> => {
+    const args = parsePreCommitArgs(process.argv.slice(2));
+    const write = (line: string) => process.stderr.write(`${line}\n`);
+    installHostAdapter({
+        workspaceRoot: args.workspaceRoot,
+        settings: await loadWorkspaceSettings(args.workspaceRoot),
+        verbose: args.verbose,
+        write,
+    });
+
+    // 动态加载：确保这些模块 require('vscode') 时拿到的是宿主替身
+    const { ConfigManager } = await import('../config/configManager');
+    const { ReviewEngine } = await import('../core/reviewEngine');
+    const configManager = new ConfigManager();
+    try {
+        await configManager.initialize();
+        const reviewEngine = new ReviewEngine(configManager);
+        await reviewEngine.initialize();
+        return await runPreCommitReview(reviewEngine, args.workspaceRoot, write);
+    } finally {
+        configManager.dispose();
+    }
+};
+
+if (require.main === module) {
+    main()
+        .then(code => {
+            process.exitCode = code;
+        })
+        .catch(error => {
+            process.stderr.write(`[AgentReview] 提交前审查运行失败: ${error instanceof Error ? error.message : String(error)}\n`);
+            process.stderr.write('[AgentReview] 如需临时跳过可使用 git commit --no-verify\n');
+            process.exitCode = PRE_COMMIT_EXIT_RUNNER_ERROR;
+        });
+}
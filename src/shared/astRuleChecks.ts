@@ -0,0 +1,340 @@
+/**
+ * 代码质量规则：基于 AST 的规则框架（无 VSCode 依赖）
+ *
+ * 供 core/ruleEngine 复用。JS/TS 整文件 Babel 解析，.vue 分别解析 script 块（Babel）与模板（compiler-sfc 模板 AST），
+ * 解析方式与 astScope 一致。每条规则声明关心的节点类型，框架遍历一次语法树按类型分发，
+ * 仅报告与变更行相交的节点。内置规则（rule 即规则 id）：
+ * - no_debugger：debugger 语句（字符串、注释中的 debugger 不再误报）
+ * - no_console：console.* 调用（可按方法放行）
+ * - no_empty_catch：空 catch 块（块内有注释视为有意忽略）
+ * - no_floating_promise：未 await / 未处理的 Promise（轻量版，见 noFloatingPromise）
+ * - no_v_html：Vue 模板中的 v-html
+ */
+
+import * as path from 'path';
+import { parse } from '@babel/parser';
+import { parse as parseSfc } from '@vue/compiler-sfc';
+import type { ReviewIssue } from '../types/review';
+import type { AstRuleId } from '../types/config';
+import { getSeverity } from './ruleChecks';
+
+export const AST_RULE_IDS: readonly AstRuleId[] = [
+    'no_debugger',
+    'no_console',
+    'no_empty_catch',
+    'no_floating_promise',
+    'no_v_html',
+];
+
+/** 规则执行选项 */
+export interface AstRuleOptions {
+    consoleAllow?: string[];
+}
+
+/** 规则检查时可用的上下文 */
+export interface AstRuleContext {
+    /** 节点起始行的源码（已 trim） */
+    lineText: (node: any) => string;
+    /** 节点源码 */
+    nodeText: (node: any) => string;
+}
+
+/**
+ * AST 规则定义
+ *
+ * target 区分脚本（Babel AST，node.type 为字符串）与 Vue 模板（compiler-sfc 模板 AST，node.type 为 NodeTypes 数值）；
+ * create 在每段脚本/模板遍历前调用一次（可预先收集整段信息），返回逐节点检查函数，返回消息即报告该节点。
+ */
+export interface AstRule {
+    id: AstRuleId;
+    target: 'script' | 'template';
+    nodeTypes: ReadonlyArray<string | number>;
+    create: (root: any, options: AstRuleOptions) => (node: any, context: AstRuleContext) => string | null;
+}
+
+const SCRIPT_EXTENSIONS = ['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs', '.mts', '.cts'];
+/** compiler-sfc 模板 AST 的 NodeTypes.ELEMENT / NodeTypes.DIRECTIVE */
+const TEMPLATE_ELEMENT = 1;
+const TEMPLATE_DIRECTIVE = 7;
+const PROMISE_COMBINATORS = new Set(['all', 'allSettled', 'race', 'any']);
+
+const getPropertyName = (node: any): string | null => {
+    if (!node) return null;
+    if (node.type === 'Identifier') return node.name;
+    if (node.type === 'StringLiteral') return node.value;
+    return null;
+};
+
+/** 成员表达式的属性名（a.b / a['b']）；计算属性非字面量时返回 null */
+const getMemberName = (member: any): string | null =>
+    member.computed && member.property?.type !== 'StringLiteral' ? null : getPropertyName(member.property);
+
+const noDebugger: AstRule = {
+    id: 'no_debugger',
+    target: 'script',
+    nodeTypes: ['DebuggerStatement'],
+    create: () => (node, context) => `发现 debugger 语句: ${context.lineText(node)}`,
+};
+
+const noConsole: AstRule = {
+    id: 'no_console',
+    target: 'script',
+    nodeTypes: ['CallExpression'],
+    create: (_root, options) => {
+        const allow = new Set(options.consoleAllow ?? []);
+        return (node) => {
+            const callee = node.callee;
+            if (callee?.type !== 'MemberExpression' || callee.object?.type !== 'Identifier' || callee.object.name !== 'console') {
+                return null;
+            }
+            const method = getMemberName(callee);
+            if (method && allow.has(method)) {
+                return null;
+            }
+            return `发现 console 调用: console.${method ?? '[]'}()`;
+        };
+    },
+};
+
+const noEmptyCatch: AstRule = {
+    id: 'no_empty_catch',
+    target: 'script',
+    nodeTypes: ['CatchClause'],
+    create: () => (node) => {
+        const body = node.body;
+        if (!body || body.body?.length > 0 || body.innerComments?.length > 0) {
+            return null;
+        }
+        return '空的 catch 块会吞掉异常，请处理或注释说明忽略原因';
+    },
+};
+
+/**
+ * 轻量版 floating promise：不做类型推断，只识别表达式语句中的
+ * 同文件声明的 async 函数/方法调用（foo()、this.foo()）、未带 reject 处理的 .then() / .finally() 链与 Promise.all 等组合器
+ */
+const noFloatingPromise: AstRule = {
+    id: 'no_floating_promise',
+    target: 'script',
+    nodeTypes: ['ExpressionStatement'],
+    create: (root) => {
+        const asyncFunctions = new Set<string>();
+        const asyncMethods = new Set<string>();
+        const isAsyncFunction = (node: any): boolean =>
+            !!node?.async && (node.type === 'ArrowFunctionExpression' || node.type === 'FunctionExpression');
+        walkScriptAst(root, (node) => {
+            if (node.type === 'FunctionDeclaration' && node.async && node.id?.name) {
+                asyncFunctions.add(node.id.name);
+            } else if (node.type === 'VariableDeclarator' && node.id?.type === 'Identifier' && isAsyncFunction(node.init)) {
+                asyncFunctions.add(node.id.name);
+            } else if ((node.type === 'ClassMethod' || node.type === 'ObjectMethod') && node.async) {
+                const name = getPropertyName(node.key);
+                if (name) asyncMethods.add(name);
+            } else if ((node.type === 'ClassProperty' || node.type === 'ObjectProperty') && isAsyncFunction(node.value)) {
+                const name = getPropertyName(node.key);
+                if (name) asyncMethods.add(name);
+            }
+        });
+
+        return (node, context) => {
+            const expression = node.expression;
+            if (expression?.type !== 'CallExpression') {
+                return null;
+            }
+            const callee = expression.callee;
+            let floating = false;
+            if (callee?.type === 'Identifier') {
+                floating = asyncFunctions.has(callee.name);
+            } else if (callee?.type === 'MemberExpression') {
+                const name = getMemberName(callee);
+                if (name === 'then') {
+                    floating = expression.arguments.length < 2;
+                } else if (name === 'finally') {
+                    floating = true;
+                } else if (callee.object?.type === 'Identifier' && callee.object.name === 'Promise') {
+                    floating = !!name && PROMISE_COMBINATORS.has(name);
+                } else if (callee.object?.type === 'ThisExpression') {
+                    floating = !!name && asyncMethods.has(name);
+                }
+            }
+            if (!floating) {
+                return null;
+            }
+            const text = context.nodeText(callee).replace(/\s+/g, ' ');
+            return `Promise 未被 await 或处理: ${text.length > 60 ? `${text.slice(0, 60)}...` : text}()`;
+        };
+    },
+};
+
+const noVHtml: AstRule = {
+    id: 'no_v_html',
+    target: 'template',
+    nodeTypes: [TEMPLATE_DIRECTIVE],
+    create: () => (node) => (node.name === 'html' ? '使用了 v-html，存在 XSS 风险，请确认内容已转义或改用文本插值' : null),
+};
+
+export const AST_RULES: readonly AstRule[] = [noDebugger, noConsole, noEmptyCatch, noFloatingPromise, noVHtml];
+
+/** 是否支持 AST 规则（与 astScope 一致：JS/TS 整文件，.vue 解析 script 块与模板） */
+export const supportsAstRules = (filePath: string): boolean => {
+    const ext = path.extname(filePath).toLowerCase();
+    return ext === '.vue' || SCRIPT_EXTENSIONS.includes(ext);
+};
+
+/** 遍历 Babel AST（跳过 loc 与注释） */
+const walkScriptAst = (node: any, visit: (node: any) => void): void => {
+    if (!node || typeof node !== 'object') {
+        return;
+    }
+    if (Array.isArray(node)) {
+        node.forEach(child => walkScriptAst(child, visit));
+        return;
+    }
+    if (typeof node.type === 'string') {
+        visit(node);
+    }
+    for (const key of Object.keys(node)) {
+        if (key === 'loc' || key === 'leadingComments' || key === 'trailingComments' || key === 'innerComments' || key === 'errors') {
+            continue;
+        }
+        const value = (node as Record<string, unknown>)[key];
+        if (value && typeof value === 'object') {
+            walkScriptAst(value, visit);
+        }
+    }
+};
+
+/** 遍历 Vue 模板 AST：元素的指令/属性与子节点 */
+const walkTemplateAst = (node: any, visit: (node: any) => void): void => {
+    if (!node || typeof node !== 'object') {
+        return;
+    }
+    visit(node);
+    if (node.type === TEMPLATE_ELEMENT && Array.isArray(node.props)) {
+        node.props.forEach((prop: any) => visit(prop));
+    }
+    if (Array.isArray(node.children)) {
+        node.children.forEach((child: any) => walkTemplateAst(child, visit));
+    }
+};
+
+type AstSegment = {
+    target: AstRule['target'];
+    root: any;
+    /** 段内源码，Babel 节点的 start/end 相对于它 */
+    code: string;
+    /** 段起始行 - 1（Vue script 块用）；模板 AST 行号已是源文件行号，为 0 */
+    lineOffset: number;
+};
+
+/** 解析文件为若干段；不支持的扩展名或任一段解析失败返回 null */
+const parseSegments = (filePath: string, content: string): AstSegment[] | null => {
+    const parseScript = (code: string): any =>
+        parse(code, { sourceType: 'module', plugins: ['typescript', 'jsx'], errorRecovery: true });
+    const ext = path.extname(filePath).toLowerCase();
+    try {
+        if (ext === '.vue') {
+            const { descriptor } = parseSfc(content, { filename: 'anonymous.vue' });
+            const segments: AstSegment[] = [descriptor.script, descriptor.scriptSetup]
+                .filter((block): block is NonNullable<typeof block> => !!block?.content)
+                .map(block => ({
+                    target: 'script',
+                    root: parseScript(block.content),
+                    code: block.content,
+                    lineOffset: block.loc.start.line - 1,
+                }));
+            const template = descriptor.template;
+            if (template?.ast && !template.src) {
+                segments.push({ target: 'template', root: template.ast, code: content, lineOffset: 0 });
+            }
+            return segments;
+        }
+        if (!SCRIPT_EXTENSIONS.includes(ext)) {
+            return null;
+        }
+        return [{ target: 'script', root: parseScript(content), code: content, lineOffset: 0 }];
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * 执行 AST 规则
+ * @param options.rules - 启用的规则 id
+ * @param changedLineNumbers - 若提供且非空，仅报告与这些行号（1-based）相交的节点；不传则检查全文件
+ * @returns 问题列表；不支持的文件或解析失败返回 null（调用方可回退为按行检查）
+ */
+export const checkAstRules = (
+    filePath: string,
+    content: string,
+    options: { action: string; rules: readonly AstRuleId[] } & AstRuleOptions,
+    changedLineNumbers?: Set<number>
+): ReviewIssue[] | null => {
+    const enabledRules = AST_RULES.filter(rule => options.rules.includes(rule.id));
+    const segments = enabledRules.length > 0 ? parseSegments(filePath, content) : null;
+    if (!segments) {
+        return null;
+    }
+    const lines = content.split('\n');
+    const intersectsChanges = (startLine: number, endLine: number): boolean => {
+        if (!changedLineNumbers || changedLineNumbers.size === 0) {
+            return true;
+        }
+        for (let line = startLine; line <= endLine; line++) {
+            if (changedLineNumbers.has(line)) return true;
+        }
+        return false;
+    };
+
+    const issues: ReviewIssue[] = [];
+    for (const segment of segments) {
+        const checkers = new Map<string | number, Array<{ id: AstRuleId; check: ReturnType<AstRule['create']> }>>();
+        for (const rule of enabledRules.filter(item => item.target === segment.target)) {
+            const check = rule.create(segment.root, options);
+            for (const nodeType of rule.nodeTypes) {
+                checkers.set(nodeType, [...(checkers.get(nodeType) ?? []), { id: rule.id, check }]);
+            }
+        }
+        if (checkers.size === 0) {
+            continue;
+        }
+        const context: AstRuleContext = {
+            lineText: (node) => (lines[(node?.loc?.start?.line ?? 1) + segment.lineOffset - 1] ?? '').trim(),
+            nodeText: (node) => segment.target === 'script'
+                ? segment.code.slice(node?.start ?? 0, node?.end ?? 0)
+                : node?.loc?.source ?? '',
+        };
+        const visit = (node: any): void => {
+            const nodeCheckers = checkers.get(node.type);
+            const loc = node.loc;
+            if (!nodeCheckers || !loc?.start?.line) {
+                return;
+            }
+            const startLine = loc.start.line + segment.lineOffset;
+            const endLine = (loc.end?.line ?? loc.start.line) + segment.lineOffset;
+            if (!intersectsChanges(startLine, endLine)) {
+                return;
+            }
+            for (const { id, check } of nodeCheckers) {
+                const message = check(node, context);
+                if (message) {
+                    issues.push({
+                        file: filePath,
+                        line: startLine,
+                        // Babel 列号 0-based，模板 AST 列号 1-based
+                        column: segment.target === 'script' ? loc.start.column + 1 : loc.start.column,
+                        message,
+                        rule: id,
+                        severity: getSeverity(options.action),
+                    });
+                }
+            }
+        };
+        if (segment.target === 'script') {
+            walkScriptAst(segment.root, visit);
+        } else {
+            walkTemplateAst(segment.root, visit);
+        }
+    }
+    return issues.sort((a, b) => a.line - b.line || a.column - b.column);
+};
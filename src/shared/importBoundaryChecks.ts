@@ -0,0 +1,119 @@
+/**
+ * 业务逻辑规则：架构分层边界与模块引用约束（无 VSCode 依赖）
+ *
+ * 供 core/ruleEngine 复用。引用来自 utils/importDeclarations（与 astScope 相同的 Babel 解析），
+ * 问题定位到 import 语句所在行列。检测项（rule）：
+ * - import_layer_boundary：from 匹配的文件引用了 disallow 匹配的目标（相对路径先解析为绝对路径再匹配）
+ * - import_forbidden：引用了禁止的模块
+ * - import_deprecated：引用了已弃用的模块（固定为 warning，不阻断提交）
+ */
+
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+import type { ReviewIssue } from '../types/review';
+import type { BusinessLogicRuleConfig } from '../types/config';
+import { extractImportDeclarations, type ImportDeclarationInfo } from '../utils/importDeclarations';
+import { getSeverity, matchesPathPatterns } from './ruleChecks';
+
+export const IMPORT_BOUNDARY_RULE_IDS = {
+    layerBoundary: 'import_layer_boundary',
+    forbidden: 'import_forbidden',
+    deprecated: 'import_deprecated',
+} as const;
+
+const toPatternList = (value: string[] | string | undefined): string[] =>
+    (Array.isArray(value) ? value : value ? [value] : []).filter(pattern => pattern.trim().length > 0);
+
+/**
+ * 模块名匹配：完全相同、子路径（lodash 匹配 lodash/fp），或含通配符时按 glob 匹配
+ */
+export const matchesModuleSpecifier = (source: string, module: string): boolean => {
+    if (source === module || source.startsWith(`${module}/`)) {
+        return true;
+    }
+    return /[*?[\]{]/.test(module) && minimatch(source, module, { dot: true });
+};
+
+/**
+ * 引用目标的候选路径：相对引用解析为绝对路径（含目录 index 形式），否则为原始模块名
+ */
+const resolveImportTargets = (filePath: string, source: string): string[] => {
+    if (!source.startsWith('.')) {
+        return [source];
+    }
+    const resolved = path.resolve(path.dirname(filePath), source).replace(/\\/g, '/');
+    return [resolved, `${resolved}/index`, source];
+};
+
+/**
+ * 检查模块引用约束
+ * @param changedLineNumbers - 若提供且非空，仅检查与这些行号（1-based）相交的 import 语句；不传则检查全文件
+ */
+export const checkImportBoundaries = (
+    filePath: string,
+    content: string,
+    options: { action: string; config: BusinessLogicRuleConfig },
+    changedLineNumbers?: Set<number>
+): ReviewIssue[] => {
+    const { config } = options;
+    const boundaries = (config.layer_boundaries ?? [])
+        .map(boundary => ({ ...boundary, from: toPatternList(boundary.from), disallow: toPatternList(boundary.disallow) }))
+        .filter(boundary => boundary.from.length > 0 && boundary.disallow.length > 0 && matchesPathPatterns(filePath, boundary.from));
+    const forbidden = (config.forbidden_imports ?? []).filter(item => !!item?.module);
+    const deprecated = (config.deprecated_imports ?? []).filter(item => !!item?.module);
+    if (boundaries.length === 0 && forbidden.length === 0 && deprecated.length === 0) {
+        return [];
+    }
+
+    const isChanged = (declaration: ImportDeclarationInfo): boolean => {
+        if (!changedLineNumbers || changedLineNumbers.size === 0) {
+            return true;
+        }
+        for (let line = declaration.line; line <= declaration.endLine; line++) {
+            if (changedLineNumbers.has(line)) return true;
+        }
+        return false;
+    };
+
+    const issues: ReviewIssue[] = [];
+    const pushIssue = (declaration: ImportDeclarationInfo, rule: string, message: string, severity: ReviewIssue['severity']) => {
+        issues.push({ file: filePath, line: declaration.line, column: declaration.column, message, rule, severity });
+    };
+
+    for (const declaration of extractImportDeclarations(filePath, content)) {
+        if (!isChanged(declaration)) {
+            continue;
+        }
+        const { source } = declaration;
+        const targets = resolveImportTargets(filePath, source);
+        const boundary = boundaries.find(item => targets.some(target => matchesPathPatterns(target, item.disallow)));
+        if (boundary) {
+            pushIssue(
+                declaration,
+                IMPORT_BOUNDARY_RULE_IDS.layerBoundary,
+                boundary.message ?? `分层越界: ${boundary.from.join(', ')} 不可引用 ${boundary.disallow.join(', ')}（引用了 ${source}）`,
+                getSeverity(options.action)
+            );
+        }
+        const forbiddenItem = forbidden.find(item => matchesModuleSpecifier(source, item.module));
+        if (forbiddenItem) {
+            pushIssue(
+                declaration,
+                IMPORT_BOUNDARY_RULE_IDS.forbidden,
+                forbiddenItem.message ?? `禁止引用模块: ${source}`,
+                getSeverity(options.action)
+            );
+        }
+        const deprecatedItem = deprecated.find(item => matchesModuleSpecifier(source, item.module));
+        if (deprecatedItem) {
+            pushIssue(
+                declaration,
+                IMPORT_BOUNDARY_RULE_IDS.deprecated,
+                deprecatedItem.message
+                    ?? `模块已弃用: ${source}${deprecatedItem.replacement ? `，请改用 ${deprecatedItem.replacement}` : ''}`,
+                'warning'
+            );
+        }
+    }
+    return issues;
+};
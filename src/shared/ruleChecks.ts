@@ -5,9 +5,12 @@
  */
 
 import * as path from 'path';
+import { minimatch } from 'minimatch';
 import type { ReviewIssue } from '../types/review';
+import type { CustomRuleConfig } from '../types/config';
 
-const getSeverity = (action: string): 'error' | 'warning' | 'info' => {
+/** 规则 action → 问题严重程度 */
+export const getSeverity = (action: string): 'error' | 'warning' | 'info' => {
     switch (action) {
         case 'block_commit':
             return 'error';
@@ -118,3 +121,162 @@ export const checkNoDebugger = (
     }
     return issues;
 };
+
+/** 内置规则及系统问题占用的 rule 名，自定义规则不可使用（否则会混用 action 判定） */
+export const RESERVED_RULE_IDS: ReadonlySet<string> = new Set([
+    'no_space_in_filename',
+    'no_todo',
+    'no_debugger',
+    'no_console',
+    'no_empty_catch',
+    'no_floating_promise',
+    'no_v_html',
+    'file_skipped',
+    'ai_review',
+    'ai_review_error',
+    'ai_review_timeout',
+    'import_layer_boundary',
+    'import_forbidden',
+    'import_deprecated',
+]);
+
+/** 预编译后的自定义规则 */
+export type CompiledCustomRule = {
+    id: string;
+    regex: RegExp;
+    negativeRegex?: RegExp;
+    files?: string[];
+    message?: string;
+    action: CustomRuleConfig['action'];
+};
+
+/**
+ * 编译 rules.custom_rules：跳过禁用项；id 缺失/重名/占用内置名、正则非法的规则不生效并记入 errors。
+ */
+export const compileCustomRules = (
+    configs: CustomRuleConfig[] | undefined
+): { rules: CompiledCustomRule[]; errors: string[] } => {
+    const rules: CompiledCustomRule[] = [];
+    const errors: string[] = [];
+    const seen = new Set<string>();
+    for (const config of configs ?? []) {
+        if (config?.enabled === false) {
+            continue;
+        }
+        const id = typeof config?.id === 'string' ? config.id.trim() : '';
+        if (!id) {
+            errors.push('自定义规则缺少 id，已跳过');
+            continue;
+        }
+        // secret_ 前缀留给安全规则组（secretChecks）
+        if (RESERVED_RULE_IDS.has(id) || id.startsWith('project_rule/') || id.startsWith('secret_')) {
+            errors.push(`自定义规则 ${id} 与内置规则重名，已跳过`);
+            continue;
+        }
+        if (seen.has(id)) {
+            errors.push(`自定义规则 ${id} 重复定义，仅保留第一条`);
+            continue;
+        }
+        if (!config.pattern) {
+            errors.push(`自定义规则 ${id} 缺少 pattern，已跳过`);
+            continue;
+        }
+        // 逐行单次匹配，去掉 g/y 以免 lastIndex 在行间残留
+        const flags = (config.flags ?? '').replace(/[gy]/g, '');
+        try {
+            rules.push({
+                id,
+                regex: new RegExp(config.pattern, flags),
+                negativeRegex: config.negative_pattern ? new RegExp(config.negative_pattern, flags) : undefined,
+                files: config.files?.length ? config.files : undefined,
+                message: config.message,
+                action: config.action,
+            });
+            seen.add(id);
+        } catch (error) {
+            errors.push(`自定义规则 ${id} 正则无效: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    return { rules, errors };
+};
+
+/**
+ * 判断路径是否匹配任一 glob（未配置视为匹配）；不含斜杠的模式按文件名匹配，
+ * 带目录的相对模式（如 src/api/*.ts）按任意目录后缀匹配，与 exclusions 的匹配口径一致。
+ */
+export const matchesPathPatterns = (filePath: string, patterns?: string[]): boolean => {
+    if (!patterns?.length) {
+        return true;
+    }
+    const normalizedPath = filePath.replace(/\\/g, '/');
+    return patterns.some(pattern => {
+        const normalizedPattern = pattern.replace(/\\/g, '/').trim();
+        if (!normalizedPattern) return false;
+        if (!normalizedPattern.includes('/')) {
+            return minimatch(normalizedPath, normalizedPattern, { dot: true, matchBase: true });
+        }
+        const anchored = normalizedPattern.startsWith('/') || normalizedPattern.startsWith('**/')
+            ? normalizedPattern
+            : `**/${normalizedPattern}`;
+        return minimatch(normalizedPath, anchored, { dot: true });
+    });
+};
+
+/** 按模板生成消息：{match} 命中文本、{line} 行内容、{file} 文件名、{1}..{9} 捕获组 */
+const renderCustomRuleMessage = (
+    rule: CompiledCustomRule,
+    match: RegExpMatchArray,
+    lineContent: string,
+    filePath: string
+): string => {
+    if (!rule.message) {
+        return `违反自定义规则 ${rule.id}: ${lineContent.trim()}`;
+    }
+    return rule.message.replace(/\{(match|line|file|[1-9])\}/g, (_placeholder, key: string) => {
+        if (key === 'match') return match[0];
+        if (key === 'line') return lineContent.trim();
+        if (key === 'file') return path.basename(filePath);
+        return match[Number(key)] ?? '';
+    });
+};
+
+/**
+ * 执行自定义正则规则（每条规则每行最多报一次）
+ * @param changedLineNumbers - 若提供且非空，仅检查这些行号（1-based）；不传则检查全文件
+ */
+export const checkCustomRules = (
+    filePath: string,
+    content: string,
+    rules: CompiledCustomRule[],
+    changedLineNumbers?: Set<number>
+): ReviewIssue[] => {
+    const issues: ReviewIssue[] = [];
+    const applicableRules = rules.filter(rule => matchesPathPatterns(filePath, rule.files));
+    if (applicableRules.length === 0) {
+        return issues;
+    }
+    const lines = content.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+        const lineNum = i + 1;
+        if (changedLineNumbers && changedLineNumbers.size > 0 && !changedLineNumbers.has(lineNum)) {
+            continue;
+        }
+        const lineContent = lines[i];
+        for (const rule of applicableRules) {
+            const match = lineContent.match(rule.regex);
+            if (!match || rule.negativeRegex?.test(lineContent)) {
+                continue;
+            }
+            issues.push({
+                file: filePath,
+                line: lineNum,
+                column: (match.index ?? 0) + 1,
+                message: renderCustomRuleMessage(rule, match, lineContent, filePath),
+                rule: rule.id,
+                severity: getSeverity(rule.action),
+            });
+        }
+    }
+    return issues;
+};
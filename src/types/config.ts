@@ -14,6 +14,89 @@ export interface RuleConfig {
     [key: string]: any;  // 允许添加其他规则特定的配置项
 }
 
+/** 代码质量规则组中基于 AST 的规则（rule 即规则 id） */
+export type AstRuleId = 'no_debugger' | 'no_console' | 'no_empty_catch' | 'no_floating_promise' | 'no_v_html';
+
+/**
+ * 代码质量规则组配置（rules.code_quality）
+ * no_debugger 等 AST 规则对 JS/TS/Vue 按语法树检查，仅报告与变更行相交的节点；解析失败时 no_debugger 回退为按行匹配
+ */
+export interface CodeQualityRuleConfig extends RuleConfig {
+    no_todo?: boolean;
+    no_todo_pattern?: string;            // TODO 匹配正则（默认 (TODO|FIXME|XXX)）
+    no_debugger?: boolean;
+    no_console?: boolean;
+    no_console_allow?: string[];         // no_console 放行的方法（如 ["warn", "error"]）
+    no_empty_catch?: boolean;            // 空 catch 块（含注释视为有意忽略，不报告）
+    no_floating_promise?: boolean;       // 未 await/未处理的 Promise（轻量版：仅识别同文件 async 函数、.then 链与 Promise.all 等）
+    no_v_html?: boolean;                 // Vue 模板中的 v-html
+}
+
+/** 安全规则组的检测项 */
+export type SecretCheckId = 'cloud_access_key' | 'private_key' | 'jwt' | 'connection_string' | 'high_entropy';
+
+/**
+ * 安全规则组配置（rules.security）
+ * 仅扫描新增/变更行；命中 block_commit 时阻断提交并跳过 AI 审查（不上传含密钥的内容）
+ */
+export interface SecurityRuleConfig extends RuleConfig {
+    scan_secrets?: boolean;      // 是否扫描密钥与凭据（默认 true）
+    checks?: Partial<Record<SecretCheckId, boolean>>;  // 按检测项开关，未配置视为开启
+    allowlist?: Partial<Record<SecretCheckId, string[]>>;  // 按检测项放行：命中文本或所在行匹配任一正则则不报告
+    entropy_min_length?: number; // 高熵检测：字符串字面量最短长度（默认 20）
+    entropy_threshold?: number;  // 高熵检测：香农熵阈值 bit/字符（默认 4.0）
+}
+
+/**
+ * 业务逻辑规则组配置（rules.business_logic）：架构分层边界与模块引用约束
+ * 仅检查变更行新增的 import/require；路径模式为 glob，相对模式按任意目录后缀匹配
+ */
+export interface BusinessLogicRuleConfig extends RuleConfig {
+    layer_boundaries?: Array<{
+        from: string[] | string;     // 受约束的文件（如 src/ui/**）
+        disallow: string[] | string; // 不可引用的目标（解析后的路径或原始模块名，如 src/core/internal/**）
+        message?: string;            // 自定义提示
+    }>;
+    forbidden_imports?: Array<{
+        module: string;              // 模块名或 glob（lodash 同时匹配 lodash/fp）
+        message?: string;
+    }>;
+    deprecated_imports?: Array<{
+        module: string;
+        replacement?: string;        // 推荐替代模块
+        message?: string;
+    }>;
+}
+
+/**
+ * 本地 JS 规则插件配置（rules.plugins）
+ * 插件为 dir 下的 *.js（CommonJS）模块，导出规则对象或 { rules: [...] }；会执行仓库内代码（在独立 Worker 中），需显式开启
+ */
+export interface RulePluginsConfig {
+    enabled?: boolean;           // 是否加载插件（默认 false）
+    dir?: string;                // 插件目录，相对工作区根（默认 .agentreview/rules）
+    timeout_ms?: number;         // 单个规则处理单个文件的超时（默认 5000ms），超时终止插件 Worker 并视为失败
+    rules?: Record<string, {     // 按插件规则 id 配置
+        enabled?: boolean;       // 默认 true
+        action?: 'block_commit' | 'warning' | 'log';  // 默认 warning
+    }>;
+}
+
+/**
+ * 自定义正则规则（rules.custom_rules 每一项）
+ * 逐行匹配 pattern，命中且未命中 negative_pattern 时报告问题；rule 字段即 id
+ */
+export interface CustomRuleConfig {
+    id: string;                  // 规则 id，作为问题的 rule；不可与内置规则重名
+    pattern: string;             // 命中即报告的正则
+    negative_pattern?: string;   // 同一行命中则不报告（排除误报）
+    flags?: string;              // 正则 flags（如 i），默认区分大小写
+    files?: string[];            // 生效文件 glob，未配置则对所有送审文件生效
+    message?: string;            // 消息模板，支持 {match}、{line}、{file}、{1}..{9} 占位符
+    action: 'block_commit' | 'warning' | 'log';  // 阻止提交/警告/仅记录
+    enabled?: boolean;           // 默认 true
+}
+
 /**
  * 配置文件的数据结构定义
  * 这个接口定义了配置文件的完整结构
@@ -25,14 +108,17 @@ export interface AgentReviewConfig {
         strict_mode: boolean;
         builtin_rules_enabled?: boolean;  // 是否启用内置规则引擎（默认false，避免与项目自有规则冲突）
         diff_only?: boolean;              // staged 审查时仅扫描变更行（默认 true）
-        code_quality?: RuleConfig;
-        security?: RuleConfig;
+        code_quality?: CodeQualityRuleConfig;
+        security?: SecurityRuleConfig;
         naming_convention?: RuleConfig;
-        business_logic?: RuleConfig;
+        business_logic?: BusinessLogicRuleConfig;
+        custom_rules?: CustomRuleConfig[];  // 自定义正则规则，diff_only 时仅扫描变更行
+        plugins?: RulePluginsConfig;        // 本地 JS 规则插件
     };
     ai_review?: {
         enabled: boolean;
-        api_format?: 'openai' | 'custom';  // API格式：OpenAI兼容或自定义
+        api_format?: 'openai' | 'custom' | 'anthropic' | 'ollama' | 'azure_openai';  // API格式：OpenAI兼容、自定义、Anthropic Messages、Ollama /api/chat、Azure OpenAI
+        api_version?: string;               // Azure OpenAI 的 api-version（默认 2024-06-01）
         api_endpoint: string;              // API端点URL
         api_key?: string;                  // API密钥（支持环境变量）
         model?: string;                     // 模型名称（需在设置或 .env 中配置，无默认值）
@@ -40,6 +126,13 @@ export interface AgentReviewConfig {
         temperature?: number;                // 温度参数（0-2）
         max_tokens?: number;                // 最大token数
         system_prompt?: string;             // 系统提示词
+        review_profiles?: Array<{           // 按路径生效的审查配置，按顺序取第一个命中项；同一批次不混用
+            name: string;                   // 配置名（运行日志与提示词中显示）
+            paths: string[];                // glob 列表，如 server/**/auth*、*.vue
+            prompt?: string;                // 追加到系统提示词的审查侧重
+            min_severity?: 'error' | 'warning' | 'info'; // 严重程度下限，低于该级别的问题不报告
+            max_issues?: number;            // 该配置下文件每次审查最多保留的问题数
+        }>;
         retry_count?: number;               // 重试次数
         retry_delay?: number;               // 重试延迟（毫秒）
         skip_on_blocking_errors?: boolean;  // 遇到阻止提交错误时跳过AI审查
@@ -47,9 +140,31 @@ export interface AgentReviewConfig {
         batching_mode?: 'file_count' | 'ast_snippet'; // 批次模式
         ast_snippet_budget?: number;        // AST 片段预算（每批次片段数量上限）
         ast_chunk_strategy?: 'even' | 'contiguous'; // 同一文件片段拆分策略
-        ast_chunk_weight_by?: 'snippet_count' | 'chars'; // 批预算权重：按片段数或按字符数，默认 snippet_count
+        ast_chunk_weight_by?: 'snippet_count' | 'chars' | 'tokens'; // 批预算权重：按片段数、字符数或估算 Token 数，默认 snippet_count（各方式均受 Token 预算约束）
         batch_concurrency?: number;         // 批次并发数
         max_request_chars?: number;         // 单次请求字符数上限
+        model_profiles?: Record<string, {   // 按模型名（精确或最长前缀匹配）配置上下文窗口与价格，用于 Token 预算与成本统计
+            context_window?: number;        // 上下文窗口 Token 数（未配置按 32768）
+            input_price_per_1m?: number;    // 每百万输入 Token 价格
+            output_price_per_1m?: number;   // 每百万输出 Token 价格
+        }>;
+        stream?: boolean;                   // 以 SSE 流式请求（仅 openai / azure_openai），问题逐条推送到面板（默认 false）
+        structured_output?: 'off' | 'auto' | 'json_schema' | 'tool'; // 结构化输出：auto 按提供方选 json_schema 或工具调用（默认 off）
+        disk_cache?: boolean;               // 跨会话磁盘缓存 AI 响应，按提示词、模型与规则配置哈希命中（默认 true）
+        disk_cache_location?: 'workspace' | 'global_storage'; // 缓存目录：工作区 .vscode/agentreview-cache 或扩展全局存储（默认 global_storage）
+        disk_cache_max_size_mb?: number;    // 磁盘缓存容量上限，超出按最近使用时间淘汰（默认 50）
+        disk_cache_max_age_days?: number;   // 磁盘缓存条目有效期（默认 7 天）
+        triage_model?: string;              // 分诊模型：配置后先由该模型筛出需审查的单元，仅这些单元与风险改动交给 model 审查（默认不启用）
+        triage_max_tokens?: number;         // 分诊请求的最大输出 Token（默认 1000）
+        verify_severities?: Array<'error' | 'warning' | 'info'>; // 自我校验：这些级别的问题再经模型复核，驳回或低置信的丢弃（默认空，不启用）
+        verify_model?: string;              // 自我校验使用的模型（默认同 model）
+        verify_min_confidence?: number;     // 自我校验最低置信度，低于此值的问题丢弃（默认 0.6）
+        feedback_from_ignores?: boolean;    // 把已忽略/放行的问题类型作为「不要报告」示例注入提示词（默认 true）
+        feedback_max_patterns?: number;     // 最多注入的忽略问题类型数（默认 5，0 为关闭）
+        rate_limit_rpm?: number;            // 所有批次与工作区共享的每分钟请求数上限（默认 0，不限）
+        rate_limit_tpm?: number;            // 所有批次与工作区共享的每分钟预估 Token 上限（默认 0，不限）
+        circuit_breaker_threshold?: number; // 连续失败多少次后熔断，本次审查快速失败（默认 5，0 为关闭）
+        circuit_breaker_cooldown_ms?: number; // 熔断冷却时间，期间不再请求 AI（默认 60000ms）
         run_on_save?: boolean;              // 保存文件时自动触发审查（默认 false）
         run_on_save_debounce_ms?: number;   // 保存自动审查防抖时间（默认 1200ms）
         run_on_save_max_runs_per_minute?: number; // 保存自动审查每分钟最大执行次数（默认 4）
@@ -81,6 +196,13 @@ export interface AgentReviewConfig {
         vue_include_related_blocks?: boolean;   // Vue：审 script 时带 template、审 template 时带 script（默认 true），不送 style
         vue_related_blocks_max_lines?: number;   // Vue 附带块最大行数，超出截断（默认 60）
     };
+    /** 项目规范知识注入：按审查单元检索规范文档段落，作为参考附加到 AI 审查内容 */
+    knowledge?: {
+        enabled?: boolean;          // 是否注入（默认 true，未配置 documents 时不生效）
+        documents?: string[];       // 规范文档 glob，相对工作区根，如 CONTRIBUTING.md、docs/conventions/*.md、docs/adr/**/*.md
+        max_passages?: number;      // 每个审查单元最多附带的段落数（默认 3）
+        max_chars?: number;         // 每个审查单元附带规范的字符上限（默认 2000），附加后超出请求 Token 预算的单元不附加
+    };
     /** 仅审查匹配这些模式的文件；未配置或为空则不过滤（即全部视为包含） */
     inclusions?: { files?: string[] };
     exclusions?: {
@@ -18,6 +18,8 @@ export interface ReviewIssue {
     rule: string;               // 触发的规则名称（如 'no_space_in_filename'）
     severity: 'error' | 'warning' | 'info';  // 严重程度
     astRange?: { startLine: number; endLine: number }; // AST 片段范围（1-based，可选）
+    /** AI 给出的可直接应用的修改：replacement 替换 startLine..endLine（1-based，含）；original 为送审时该范围的原文，应用前据此重新定位 */
+    suggestion?: { startLine: number; endLine: number; original: string; replacement: string };
     /** 送给 AI 的关联上下文行号（仅行号，供 hover 折叠展示：依定义、调用方、同一 SFC 块范围） */
     contextLineRefs?: {
         definitions?: Array<{ file: string; line: number }>;
@@ -0,0 +1,72 @@
+/**
+ * 审查问题快速修复（灯泡菜单）
+ *
+ * 对光标/选区所在行上的每个审查问题提供：应用修改建议（问题带 suggestion 时，设为首选）、放行（@ai-ignore）、
+ * 忽略（仅记录指纹）、AI 修复、解释。
+ * 每个 CodeAction 都把具体问题作为命令参数 { issue } 传入，同一行有多个问题时各自独立，
+ * 不依赖 getActiveIssueForActions（悬停/选中）状态。
+ */
+
+import * as vscode from 'vscode';
+import type { ReviewIssue, ReviewResult } from '../types/review';
+import { normalizePathForComparison } from './reviewPanel.helpers';
+import { isReviewDiagnostic } from './reviewDiagnostics';
+
+/** 标题中问题消息的最大长度，多问题同行时用于区分 */
+const MAX_TITLE_MESSAGE_LENGTH = 40;
+
+const shortenMessage = (message: string): string =>
+    message.length > MAX_TITLE_MESSAGE_LENGTH ? `${message.slice(0, MAX_TITLE_MESSAGE_LENGTH)}…` : message;
+
+export class ReviewCodeActionProvider implements vscode.CodeActionProvider {
+    constructor(private readonly getCurrentResult: () => ReviewResult | null) {}
+
+    provideCodeActions(
+        document: vscode.TextDocument,
+        range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const result = this.getCurrentResult();
+        if (!result) return [];
+        const docPath = normalizePathForComparison(document.uri.fsPath);
+        const startLine = range.start.line + 1;
+        const endLine = range.end.line + 1;
+        const issues = [...result.errors, ...result.warnings, ...result.info].filter(issue =>
+            normalizePathForComparison(issue.file) === docPath
+            && issue.line >= startLine
+            && issue.line <= endLine
+        );
+        return issues.flatMap(issue => this.buildActionsForIssue(issue, context));
+    }
+
+    private buildActionsForIssue(issue: ReviewIssue, context: vscode.CodeActionContext): vscode.CodeAction[] {
+        const label = `[${issue.rule}] ${shortenMessage(issue.message)}`;
+        const diagnostics = context.diagnostics.filter(diagnostic =>
+            isReviewDiagnostic(diagnostic)
+            && diagnostic.code === issue.rule
+            && diagnostic.range.start.line === issue.line - 1
+        );
+        const createAction = (title: string, command: string): vscode.CodeAction => {
+            const action = new vscode.CodeAction(`AgentReview: ${title} ${label}`, vscode.CodeActionKind.QuickFix);
+            action.command = { command, title, arguments: [{ issue }] };
+            if (diagnostics.length > 0) action.diagnostics = diagnostics;
+            return action;
+        };
+
+        const actions: vscode.CodeAction[] = [];
+        if (issue.suggestion) {
+            const applySuggestion = createAction('应用修改建议', 'agentreview.applySuggestion');
+            applySuggestion.isPreferred = true;
+            actions.push(applySuggestion);
+        }
+        actions.push(createAction('AI 修复', 'agentreview.fixIssue'));
+        if (!issue.ignored) {
+            actions.push(createAction('放行（@ai-ignore）', 'agentreview.allowIssueIgnore'));
+        }
+        if (issue.severity !== 'error') {
+            actions.push(createAction('忽略（仅记录指纹）', 'agentreview.ignoreIssue'));
+        }
+        actions.push(createAction('解释', 'agentreview.explainIssue'));
+        return actions;
+    }
+}
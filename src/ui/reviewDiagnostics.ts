@@ -0,0 +1,115 @@
+/**
+ * 审查问题 → VSCode 诊断（Problems 面板、波浪线、F8 跳转）
+ *
+ * 由 ReviewPanel 持有，每次面板结果变化后整体同步，因此本地行号重映射（rebaseLineMapping）、
+ * stale、@ai-ignore 放行等状态与面板保持一致：
+ * - severity：error/warning/info → Error/Warning/Information；已放行的问题降为 Hint（不进 Problems 列表，仅保留编辑器提示）
+ * - stale：消息追加「待复审」标记
+ * - code：规则名；relatedInformation：contextLineRefs（依赖定义、调用方、同一 SFC 关联块）
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import type { ReviewIssue, ReviewResult } from '../types/review';
+
+export const REVIEW_DIAGNOSTIC_SOURCE = 'AgentReview';
+export const REVIEW_DIAGNOSTIC_COLLECTION_NAME = 'agentreview';
+
+/**
+ * 是否为本扩展发布的审查诊断。读取语言服务诊断（保存漏斗、project rule、传给 AI 的已知诊断）时须排除，
+ * 否则上次审查结果会被当作外部诊断再次输入审查。
+ */
+export const isReviewDiagnostic = (diagnostic: Pick<vscode.Diagnostic, 'source'>): boolean =>
+    diagnostic.source === REVIEW_DIAGNOSTIC_SOURCE;
+
+const STALE_SUFFIX = '（位置已同步，待复审）';
+const IGNORED_PREFIX = '[已放行] ';
+
+/** 问题文件的绝对路径：多根聚合结果中 file 可能是相对 workspaceRoot 的路径 */
+const resolveIssueFilePath = (issue: ReviewIssue): string =>
+    !path.isAbsolute(issue.file) && issue.workspaceRoot
+        ? path.join(issue.workspaceRoot, issue.file)
+        : issue.file;
+
+const toDiagnosticSeverity = (issue: ReviewIssue): vscode.DiagnosticSeverity => {
+    if (issue.ignored) return vscode.DiagnosticSeverity.Hint;
+    if (issue.severity === 'error') return vscode.DiagnosticSeverity.Error;
+    if (issue.severity === 'warning') return vscode.DiagnosticSeverity.Warning;
+    return vscode.DiagnosticSeverity.Information;
+};
+
+/** 整行范围：结束列取极大值，由编辑器按实际行长截断 */
+const lineRange = (line1: number, column1 = 1): vscode.Range => {
+    const line = Math.max(0, Math.floor(line1) - 1);
+    return new vscode.Range(line, Math.max(0, Math.floor(column1) - 1), line, Number.MAX_SAFE_INTEGER);
+};
+
+const buildRelatedInformation = (issue: ReviewIssue, filePath: string): vscode.DiagnosticRelatedInformation[] => {
+    const refs = issue.contextLineRefs;
+    if (!refs) return [];
+    const related: vscode.DiagnosticRelatedInformation[] = [];
+    const push = (file: string, range: vscode.Range, message: string) => {
+        related.push(new vscode.DiagnosticRelatedInformation(new vscode.Location(vscode.Uri.file(file), range), message));
+    };
+    for (const ref of refs.definitions ?? []) push(ref.file, lineRange(ref.line), '依赖定义');
+    for (const ref of refs.usages ?? []) push(ref.file, lineRange(ref.line), '调用方');
+    const vueBlock = refs.vueRelatedBlock;
+    if (vueBlock?.template) {
+        push(filePath, new vscode.Range(vueBlock.template[0] - 1, 0, vueBlock.template[1] - 1, 0), '同一 SFC 的 template 块');
+    }
+    if (vueBlock?.script) {
+        push(filePath, new vscode.Range(vueBlock.script[0] - 1, 0, vueBlock.script[1] - 1, 0), '同一 SFC 的 script 块');
+    }
+    return related;
+};
+
+/**
+ * 把单个问题转换为诊断。
+ */
+export const buildIssueDiagnostic = (issue: ReviewIssue): vscode.Diagnostic => {
+    const filePath = resolveIssueFilePath(issue);
+    const message = `${issue.ignored ? IGNORED_PREFIX : ''}${issue.message}${issue.stale ? STALE_SUFFIX : ''}`;
+    const diagnostic = new vscode.Diagnostic(lineRange(issue.line, issue.column), message, toDiagnosticSeverity(issue));
+    diagnostic.source = REVIEW_DIAGNOSTIC_SOURCE;
+    diagnostic.code = issue.rule;
+    const related = buildRelatedInformation(issue, filePath);
+    if (related.length > 0) diagnostic.relatedInformation = related;
+    return diagnostic;
+};
+
+/**
+ * 按文件分组构造诊断（键为绝对路径）。
+ */
+export const buildDiagnosticsByFile = (result: ReviewResult | null): Map<string, vscode.Diagnostic[]> => {
+    const byFile = new Map<string, vscode.Diagnostic[]>();
+    if (!result) return byFile;
+    for (const issue of [...result.errors, ...result.warnings, ...result.info]) {
+        const filePath = resolveIssueFilePath(issue);
+        const diagnostics = byFile.get(filePath) ?? [];
+        diagnostics.push(buildIssueDiagnostic(issue));
+        byFile.set(filePath, diagnostics);
+    }
+    return byFile;
+};
+
+/**
+ * 持有 DiagnosticCollection，按面板结果整体替换诊断。
+ */
+export class ReviewDiagnostics {
+    private collection: vscode.DiagnosticCollection;
+
+    constructor() {
+        this.collection = vscode.languages.createDiagnosticCollection(REVIEW_DIAGNOSTIC_COLLECTION_NAME);
+    }
+
+    update(result: ReviewResult | null): void {
+        this.collection.clear();
+        for (const [filePath, diagnostics] of buildDiagnosticsByFile(result)) {
+            this.collection.set(vscode.Uri.file(filePath), diagnostics);
+        }
+    }
+
+    dispose(): void {
+        this.collection.dispose();
+    }
+}
@@ -181,6 +181,23 @@ export const isIssueCoveredByReviewedRanges = (issue: ReviewIssue, reviewedRange
     return reviewedRanges.some(range => issueStart <= range.endLine && issueEnd >= range.startLine);
 };
 
+/** 修改建议的 Markdown 展示（标题 + 代码块），代码块围栏长于替换代码中最长的反引号串；无建议时返回空串 */
+export const formatSuggestionMarkdown = (issue: ReviewIssue): string => {
+    const suggestion = issue.suggestion;
+    if (!suggestion) return '';
+    const longestFence = Math.max(2, ...(suggestion.replacement.match(/`+/g) ?? []).map(run => run.length));
+    const fence = '`'.repeat(longestFence + 1);
+    const language = path.extname(issue.file).slice(1);
+    const range = suggestion.startLine === suggestion.endLine
+        ? `第 ${suggestion.startLine} 行`
+        : `第 ${suggestion.startLine}-${suggestion.endLine} 行`;
+    return `**修改建议**（替换${range}）\n\n${fence}${language}\n${suggestion.replacement}\n${fence}`;
+};
+
+/** 带问题参数的「应用建议」命令链接，用于不经过 hover 设置激活问题的提示（如树节点 tooltip） */
+export const buildApplySuggestionCommandUri = (issue: ReviewIssue): string =>
+    `command:agentreview.applySuggestion?${encodeURIComponent(JSON.stringify([{ issue }]))}`;
+
 /** 判断两个问题是否为同一条（file/line/column/rule/severity 一致），供 Panel 与 Provider 复用 */
 export const isSameIssue = (a: ReviewIssue, b: ReviewIssue): boolean =>
     isSameFilePath(a.file, b.file) &&
@@ -3,6 +3,7 @@
  *
  * 1. ReviewPanel: 对外暴露 showReviewResult、applyFileReviewPatch、configureLocalRebase 等 API
  * 2. ReviewPanelProvider、ReviewTreeItem 由子模块实现，本文件仅 re-export 以保持对外 API 不变
+ * 3. 结果变化后同步到 Problems 面板（ReviewDiagnostics），与树视图展示一致
  *
  * - 根节点：显示审查状态和统计
  *     - 文件节点：按文件分组显示问题
@@ -28,9 +29,11 @@ import {
     isSameIssue,
     normalizePathForComparison,
     evaluateHighlightGuard,
+    formatSuggestionMarkdown,
     type IssuePositionConfidence,
 } from './reviewPanel.helpers';
 import { collectIgnoredLineMeta } from './reviewPanel.ignoreMeta';
+import { ReviewDiagnostics } from './reviewDiagnostics';
 import {
     rebaseIssuePositionByContentChanges,
     type RebasedIssuePosition,
@@ -73,6 +76,7 @@ export class ReviewPanel {
     private enableLocalRebase = true;
     private largeChangeLineThreshold = 40;
     private issueRebaseMeta = new WeakMap<ReviewIssue, IssueRebaseMeta>();
+    private diagnostics: ReviewDiagnostics;
 
     constructor(context: vscode.ExtensionContext) {
         this.provider = new ReviewPanelProvider(context);
@@ -80,6 +84,7 @@ export class ReviewPanel {
             treeDataProvider: this.provider,
             showCollapseAll: true
         });
+        this.diagnostics = new ReviewDiagnostics();
 
         this.highlightDecoration = createLineHighlightDecoration('editor.lineHighlightBackground', 'editor.lineHighlightBorder');
         this.errorHighlightDecoration = createLineHighlightDecoration('editorError.background', 'errorForeground');
@@ -158,6 +163,12 @@ export class ReviewPanel {
         }
     }
 
+    /** 结果变化后统一刷新：树视图徽标/描述 + Problems 面板诊断 */
+    private syncResultViews(): void {
+        this.syncTreeViewBadgeAndDescription();
+        this.diagnostics.update(this.provider.getCurrentResult());
+    }
+
     showReviewResult(
         result: ReviewResult,
         status: 'idle' | 'reviewing' | 'completed' | 'error' = 'completed',
@@ -170,13 +181,13 @@ export class ReviewPanel {
             statusMessage,
             emptyStateHint
         );
-        this.syncTreeViewBadgeAndDescription();
+        this.syncResultViews();
     }
 
     setStatus(status: 'idle' | 'reviewing' | 'completed' | 'error', statusMessage = ''): void {
         const currentResult = this.provider.getCurrentResult();
         this.provider.updateResult(currentResult, status, statusMessage);
-        this.syncTreeViewBadgeAndDescription();
+        this.syncResultViews();
     }
 
     getStatus(): 'idle' | 'reviewing' | 'completed' | 'error' {
@@ -190,7 +201,24 @@ export class ReviewPanel {
     setSubStatus(statusMessage?: string): void {
         const currentResult = this.provider.getCurrentResult();
         this.provider.updateResult(currentResult, this.provider.getStatus(), statusMessage);
-        this.syncTreeViewBadgeAndDescription();
+        this.syncResultViews();
+    }
+
+    /**
+     * 审查进行中追加流式返回的 AI 问题（与当前列表重复的跳过），保持当前状态；
+     * 审查完成后由 showReviewResult 以最终结果整体替换。返回实际追加条数。
+     */
+    appendStreamedIssues(issues: ReviewIssue[]): number {
+        const currentResult = this.provider.getCurrentResult();
+        const currentIssues = currentResult ? getAllIssuesFromResult(currentResult) : [];
+        const incoming = issues.filter(issue => !currentIssues.some(existing =>
+            isSameIssue(existing, issue) && existing.message === issue.message
+        ));
+        if (incoming.length === 0) return 0;
+        const nextResult = normalizeResultForDisplay(buildResultFromIssues([...currentIssues, ...incoming]));
+        this.provider.updateResult(nextResult, this.provider.getStatus());
+        this.syncResultViews();
+        return incoming.length;
     }
 
     clearFileStaleMarkers(filePath: string): void {
@@ -219,7 +247,7 @@ export class ReviewPanel {
             this.activeIssueForActions = { ...this.activeIssueForActions, stale: false };
         }
         this.provider.updateResult(nextResult, this.provider.getStatus());
-        this.syncTreeViewBadgeAndDescription();
+        this.syncResultViews();
     }
 
     clearIssuesForFile(filePath: string): void {
@@ -231,7 +259,7 @@ export class ReviewPanel {
         if (filtered.length === allIssues.length) return;
         const nextResult = normalizeResultForDisplay(buildResultFromIssues(filtered));
         this.provider.updateResult(nextResult, this.provider.getStatus());
-        this.syncTreeViewBadgeAndDescription();
+        this.syncResultViews();
     }
 
     configureLocalRebase(options: { enabled?: boolean; largeChangeLineThreshold?: number }): void {
@@ -338,7 +366,7 @@ export class ReviewPanel {
             params.statusMessage,
             params.emptyStateHint
         );
-        this.syncTreeViewBadgeAndDescription();
+        this.syncResultViews();
     }
 
     async syncAfterIssueIgnore(params: { filePath: string; insertedLine: number }): Promise<void> {
@@ -375,12 +403,12 @@ export class ReviewPanel {
         };
         this.clearHighlight();
         this.provider.updateResult(nextResult, this.provider.getStatus());
-        this.syncTreeViewBadgeAndDescription();
+        this.syncResultViews();
     }
 
     reveal(): void {
         this.provider.refresh();
-        this.syncTreeViewBadgeAndDescription();
+        this.syncResultViews();
     }
 
     private setIssueMeta(issue: ReviewIssue, meta: IssueRebaseMeta): void {
@@ -559,7 +587,7 @@ export class ReviewPanel {
             info: mapIssues(currentResult.info),
         };
         this.provider.updateResult(nextResult, this.provider.getStatus(), '已同步位置（待复审）');
-        this.syncTreeViewBadgeAndDescription();
+        this.syncResultViews();
     };
 
     private highlightIssue = async (issue: ReviewIssue, options?: { reveal?: boolean }): Promise<void> => {
@@ -751,11 +779,19 @@ export class ReviewPanel {
                 md.appendMarkdown('\n</details>');
             }
         }
+        if (issue.suggestion) {
+            md.appendMarkdown('\n\n');
+            md.appendMarkdown(formatSuggestionMarkdown(issue));
+        }
         md.appendMarkdown('\n\n');
         md.appendMarkdown('[放行](command:agentreview.allowIssueIgnore)');
         if (issue.severity !== 'error') {
             md.appendMarkdown(' | [忽略](command:agentreview.ignoreIssue)');
         }
+        if (issue.suggestion) {
+            md.appendMarkdown(' | [应用建议](command:agentreview.applySuggestion)');
+        }
+        md.appendMarkdown(' | [AI 修复](command:agentreview.fixIssue)');
         return md;
     };
 
@@ -773,7 +809,7 @@ export class ReviewPanel {
                 if (node) void this.treeView.reveal(node);
             }, 0);
         }
-        this.syncTreeViewBadgeAndDescription();
+        this.syncResultViews();
     }
 
     dispose(): void {
@@ -784,6 +820,7 @@ export class ReviewPanel {
         this.infoHighlightDecoration.dispose();
         this.astHighlightDecoration.dispose();
         this.hoverProvider.dispose();
+        this.diagnostics.dispose();
         this.documentChangeDisposable.dispose();
         this.selectionDisposable.dispose();
         this.treeViewVisibilityDisposable.dispose();
@@ -7,6 +7,7 @@
 
 import * as vscode from 'vscode';
 import type { ReviewIssue } from '../types/review';
+import { buildApplySuggestionCommandUri, formatSuggestionMarkdown } from './reviewPanel.helpers';
 
 export class ReviewTreeItem extends vscode.TreeItem {
     constructor(
@@ -28,7 +29,17 @@ export class ReviewTreeItem extends vscode.TreeItem {
 
         if (issue) {
             const parts = [issue.reason ? `\n原因: ${issue.reason}` : '', issue.ignored ? '\n状态: 已放行（@ai-ignore）' : '', issue.ignoreReason ? `\n放行原因: ${issue.ignoreReason}` : '', issue.stale ? '\n状态: 已同步位置（待复审）' : ''];
-            this.tooltip = `${issue.message}\n规则: ${issue.rule}${parts.join('')}`;
+            const tooltipText = `${issue.message}\n规则: ${issue.rule}${parts.join('')}`;
+            if (issue.suggestion) {
+                // 带修改建议时用 Markdown 提示，附建议代码与「应用建议」链接
+                const tooltip = new vscode.MarkdownString();
+                tooltip.isTrusted = true;
+                tooltip.appendText(tooltipText);
+                tooltip.appendMarkdown(`\n\n${formatSuggestionMarkdown(issue)}\n\n[应用建议](${buildApplySuggestionCommandUri(issue)})`);
+                this.tooltip = tooltip;
+            } else {
+                this.tooltip = tooltipText;
+            }
             const pos = `行 ${issue.line}, 列 ${issue.column}`;
             this.description = issue.ignored ? `已放行 · ${pos}` : issue.stale ? `待复审 · ${pos}` : pos;
 
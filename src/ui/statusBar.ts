@@ -7,6 +7,7 @@
  * 1. 显示审查状态：就绪、审查中、错误、警告等
  * 2. 显示审查结果统计：错误数量、警告数量、信息数量
  * 3. 提供快速访问：点击状态栏项可打开审查报告
+ * 4. 显示 AI 调用限流与熔断状态：在审查状态后追加「限流中 / AI 已熔断」，提示中给出原因与恢复时间
  * 
  * 状态类型：
  * - ready: 就绪状态，显示检查图标
@@ -26,6 +27,14 @@
 import * as vscode from 'vscode';
 import { Logger } from '../utils/logger';
 import { ReviewResult } from '../core/reviewEngine';
+import type { RateLimiterState } from '../ai/aiRateLimiter';
+import { formatTimeHms } from '../utils/runtimeLogExplainer';
+
+const RATE_LIMIT_REASON_LABELS: Record<NonNullable<RateLimiterState['reason']>, string> = {
+    rpm: '每分钟请求数已达上限',
+    tpm: '每分钟 Token 已达上限',
+    retry_after: '服务端要求稍后重试（Retry-After）',
+};
 
 /**
  * 状态栏管理类
@@ -40,6 +49,11 @@ export class StatusBar {
     private logger: Logger;
     /** 最近一次的子状态文案（例如“排队中/限频中/已丢弃过期结果”） */
     private subStatusMessage = '';
+    /** 审查状态对应的文案与提示（不含限流状态） */
+    private baseText = '';
+    private baseTooltip = '';
+    /** 最近一次的 AI 限流/熔断状态 */
+    private rateLimitState: RateLimiterState | null = null;
 
     /**
      * 构造函数
@@ -141,8 +155,37 @@ export class StatusBar {
         if (this.subStatusMessage) {
             this.statusBarItem.tooltip = `${this.statusBarItem.tooltip}\n${this.subStatusMessage}`;
         }
-        
-        // 显示状态栏项
+        this.baseText = this.statusBarItem.text;
+        this.baseTooltip = String(this.statusBarItem.tooltip ?? '');
+        this.render();
+    }
+
+    /**
+     * 更新 AI 调用限流与熔断状态：ready 时恢复审查状态原样显示，
+     * throttled / open 时在文案后追加标记，提示中给出原因、排队数与预计恢复时间。
+     */
+    updateRateLimitState(state: RateLimiterState): void {
+        this.rateLimitState = state;
+        this.render();
+    }
+
+    /** 按审查状态与限流状态渲染并显示状态栏项 */
+    private render(): void {
+        const state = this.rateLimitState;
+        let text = this.baseText;
+        let tooltip = this.baseTooltip;
+        if (state?.status === 'throttled') {
+            text += ' $(watch) 限流中';
+            const reason = state.reason ? RATE_LIMIT_REASON_LABELS[state.reason] : '等待调用配额';
+            const resume = state.resumeAt ? `，预计 ${formatTimeHms(state.resumeAt)} 恢复` : '';
+            tooltip += `\nAI 限流：${reason}，${state.waiting} 个请求排队${resume}`;
+        } else if (state?.status === 'open') {
+            text += ' $(debug-disconnect) AI 已熔断';
+            const resume = state.resumeAt ? `，预计 ${formatTimeHms(state.resumeAt)} 恢复调用` : '';
+            tooltip += `\nAI 服务连续失败 ${state.consecutiveFailures} 次已熔断${resume}`;
+        }
+        this.statusBarItem.text = text;
+        this.statusBarItem.tooltip = tooltip;
         this.statusBarItem.show();
     }
 
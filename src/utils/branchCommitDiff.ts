@@ -0,0 +1,84 @@
+/**
+ * 逐提交审查辅助：把分支 HEAD 版本的每一行归属到引入它的提交
+ *
+ * 原理：对 merge-base..HEAD 执行 `git blame --porcelain`，
+ * 早于 merge-base 的行会被标记为 boundary（不属于本分支），其余行归属到分支上的某个提交。
+ * 按提交分组后为每个提交构造只含「该提交引入且保留到 HEAD 的行」的 FileDiff，
+ * 这样逐提交审查时行号始终以 HEAD（工作区）为准，与规则/AI 读取的文件内容一致。
+ */
+
+import type { FileDiff } from '../types/diff';
+
+/** blame 结果中的单行：HEAD 中的行号（1-based）→ 引入该行的提交与内容 */
+export type BlameLine = {
+    sha: string;
+    content: string;
+};
+
+const PORCELAIN_HEADER = /^([0-9a-f]{40}) \d+ (\d+)(?: \d+)?$/;
+
+/**
+ * 解析 `git blame --porcelain` 输出，返回「行号 → 提交」映射；boundary 提交的行（早于区间起点）被排除。
+ */
+export const parseBlamePorcelain = (output: string): Map<number, BlameLine> => {
+    const lines = new Map<number, BlameLine>();
+    const boundaryShas = new Set<string>();
+    let currentSha: string | null = null;
+    let currentLine = 0;
+
+    for (const raw of output.split(/\r?\n/)) {
+        if (raw.startsWith('\t')) {
+            if (currentSha) {
+                lines.set(currentLine, { sha: currentSha, content: raw.slice(1) });
+            }
+            continue;
+        }
+        const header = raw.match(PORCELAIN_HEADER);
+        if (header) {
+            currentSha = header[1];
+            currentLine = parseInt(header[2], 10);
+            continue;
+        }
+        if (raw === 'boundary' && currentSha) {
+            boundaryShas.add(currentSha);
+        }
+    }
+
+    for (const [lineNumber, entry] of lines) {
+        if (boundaryShas.has(entry.sha)) {
+            lines.delete(lineNumber);
+        }
+    }
+    return lines;
+};
+
+/**
+ * 把一组行号（含内容）构造成 FileDiff：连续行合并为一个 hunk，所有行视为新增。
+ * @param flags - 沿用整段分支 diff 的 formatOnly/commentOnly 判定
+ */
+export const buildFileDiffFromLines = (
+    filePath: string,
+    lineEntries: Array<{ line: number; content: string }>,
+    flags: Pick<FileDiff, 'formatOnly' | 'commentOnly'> = {}
+): FileDiff => {
+    const sorted = [...lineEntries].sort((a, b) => a.line - b.line);
+    const hunks: FileDiff['hunks'] = [];
+    for (const entry of sorted) {
+        const last = hunks[hunks.length - 1];
+        if (last && last.newStart + last.newCount === entry.line) {
+            last.newCount++;
+            last.lines.push(entry.content);
+        } else {
+            hunks.push({ newStart: entry.line, newCount: 1, lines: [entry.content] });
+        }
+    }
+    return {
+        path: filePath,
+        hunks,
+        formatOnly: flags.formatOnly ?? false,
+        commentOnly: flags.commentOnly ?? false,
+        addedLines: sorted.length,
+        deletedLines: 0,
+        addedContentLines: sorted.map(entry => entry.content),
+    };
+};
@@ -27,10 +27,45 @@ import { Logger } from './logger';
 import { parseUnifiedDiff } from './diffParser';
 import type { FileDiff } from './diffTypes';
 import { getEffectiveWorkspaceRoot } from './workspaceRoot';
+import { buildFileDiffFromLines, parseBlamePorcelain } from './branchCommitDiff';
 
 // 将 exec 转换为 Promise 形式，方便使用 async/await
 const execAsync = promisify(exec);
 const EMPTY_TREE_HASH = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+/** diff 获取模式，见 getDiffByMode */
+type DiffMode = 'staged' | 'working' | 'pending' | 'range' | 'branch';
+
+/** 提交区间：baseRef..headRef */
+export type GitRefRange = {
+    baseRef: string;
+    headRef: string;
+};
+
+/** 分支相对基准新增的单个提交 */
+export type BranchCommit = {
+    sha: string;
+    subject: string;
+};
+
+/** 分支 diff：merge-base 与 merge-base..HEAD 的每文件 diff */
+export type BranchDiff = {
+    mergeBase: string;
+    diffByFile: Map<string, FileDiff>;
+};
+
+/** 逐提交 diff：每个提交只包含它引入且保留到 HEAD 的行 */
+export type BranchCommitDiff = {
+    commit: BranchCommit;
+    diffByFile: Map<string, FileDiff>;
+};
+
+/**
+ * 校验 git ref 是否只包含安全字符（分支名、tag、sha、HEAD~1、origin/main 等），
+ * ref 会拼接进 shell 命令，不允许空格、引号、分号等。
+ */
+export const isSafeGitRef = (ref: string): boolean =>
+    /^[A-Za-z0-9._\/~^@{}-]+$/.test(ref) && !ref.startsWith('-') && !ref.includes('..');
 const COMMENT_ONLY_IGNORE_REGEX = [
     '^[[:space:]]*//',
     '^[[:space:]]*#',
@@ -162,15 +197,202 @@ export class FileScanner {
         return this.getDiffByMode('pending', workspaceRoot, files);
     }
 
+    /**
+     * 获取两个提交之间的 diff（git diff <baseRef> <headRef>），用于 CI/命令行按提交区间审查。
+     *
+     * 规则与 AI 读取的是工作区文件内容，因此 headRef 必须指向当前检出的提交（默认 HEAD），否则 diff 行号会与内容错位。
+     * @throws ref 含非法字符时抛出，避免拼接进 shell 命令；headRef 不是当前检出的提交时抛出
+     */
+    async getRefRangeDiff(
+        workspaceRoot: string | undefined,
+        range: GitRefRange,
+        files?: string[]
+    ): Promise<Map<string, FileDiff>> {
+        for (const ref of [range.baseRef, range.headRef]) {
+            if (!isSafeGitRef(ref)) {
+                throw new Error(`非法的 git ref: ${ref}`);
+            }
+        }
+        await this.assertRefIsHead(workspaceRoot, range.headRef);
+        return this.getDiffByMode('range', workspaceRoot, files, range);
+    }
+
+    /**
+     * 确认 ref 与 HEAD 指向同一提交。
+     * @throws ref 无法解析或不是当前检出的提交时抛出
+     */
+    private async assertRefIsHead(workspaceRoot: string | undefined, ref: string): Promise<void> {
+        const resolvedWorkspaceRoot = this.resolveWorkspaceRoot(workspaceRoot);
+        if (ref === 'HEAD' || !resolvedWorkspaceRoot) {
+            return;
+        }
+        const revParse = async (target: string): Promise<string> => {
+            const { stdout } = await execAsync(`git rev-parse --verify --quiet ${target}^{commit}`, {
+                cwd: resolvedWorkspaceRoot,
+                encoding: 'utf-8',
+            });
+            return stdout.trim();
+        };
+        let refSha: string;
+        let headSha: string;
+        try {
+            [refSha, headSha] = await Promise.all([revParse(ref), revParse('HEAD')]);
+        } catch (error) {
+            this.logger.warn(`解析 git ref 失败: ${ref}`, error);
+            throw new Error(`无法解析 git ref: ${ref}`);
+        }
+        if (!refSha || refSha !== headSha) {
+            throw new Error(`${ref} 不是当前检出的提交：区间审查读取工作区文件，请先检出 ${ref} 或省略 ..<head>`);
+        }
+    }
+
+    /**
+     * 解析 baseRef 与 HEAD 的 merge-base（分支从基准分叉的提交）。
+     * @throws ref 非法或无共同祖先时抛出
+     */
+    async resolveMergeBase(workspaceRoot: string | undefined, baseRef: string): Promise<string> {
+        if (!isSafeGitRef(baseRef)) {
+            throw new Error(`非法的 git ref: ${baseRef}`);
+        }
+        const resolvedWorkspaceRoot = this.resolveWorkspaceRoot(workspaceRoot);
+        if (!resolvedWorkspaceRoot) {
+            throw new Error('未找到工作区，无法解析 merge-base');
+        }
+        try {
+            const { stdout } = await execAsync(`git merge-base ${baseRef} HEAD`, {
+                cwd: resolvedWorkspaceRoot,
+                encoding: 'utf-8',
+            });
+            const mergeBase = stdout.trim();
+            if (!mergeBase) {
+                throw new Error('empty merge-base');
+            }
+            return mergeBase;
+        } catch (error) {
+            this.logger.warn(`解析 merge-base 失败: ${baseRef}`, error);
+            throw new Error(`无法解析 ${baseRef} 与 HEAD 的 merge-base`);
+        }
+    }
+
+    /**
+     * 获取当前分支相对 baseRef 引入的全部变更：git diff $(git merge-base baseRef HEAD) HEAD。
+     * 与 range 模式的区别：以分叉点为基准，基准分支在分叉后的新提交不会混入 diff。
+     */
+    async getBranchDiff(workspaceRoot: string | undefined, baseRef: string, files?: string[]): Promise<BranchDiff> {
+        const mergeBase = await this.resolveMergeBase(workspaceRoot, baseRef);
+        const diffByFile = await this.getDiffByMode('branch', workspaceRoot, files, {
+            baseRef: mergeBase,
+            headRef: 'HEAD',
+        });
+        return { mergeBase, diffByFile };
+    }
+
+    /**
+     * 列出 mergeBase..HEAD 的提交（从旧到新）。
+     */
+    async getBranchCommits(workspaceRoot: string | undefined, mergeBase: string): Promise<BranchCommit[]> {
+        const resolvedWorkspaceRoot = this.resolveWorkspaceRoot(workspaceRoot);
+        if (!resolvedWorkspaceRoot || !isSafeGitRef(mergeBase)) {
+            return [];
+        }
+        try {
+            const { stdout } = await execAsync(`git log --reverse --format=%H%x09%s ${mergeBase}..HEAD`, {
+                cwd: resolvedWorkspaceRoot,
+                encoding: 'utf-8',
+                maxBuffer: 10 * 1024 * 1024,
+            });
+            return stdout
+                .split('\n')
+                .map(line => line.trim())
+                .filter(line => line.length > 0)
+                .map(line => {
+                    const tabIndex = line.indexOf('\t');
+                    return tabIndex >= 0
+                        ? { sha: line.slice(0, tabIndex), subject: line.slice(tabIndex + 1) }
+                        : { sha: line, subject: '' };
+                });
+        } catch (error) {
+            this.logger.error('获取分支提交列表失败', error);
+            return [];
+        }
+    }
+
+    /**
+     * 逐提交拆分分支 diff：对分支 diff 中每个文件执行 git blame mergeBase..HEAD，
+     * 把 HEAD 中属于本分支的行按引入提交分组。行号以 HEAD 为准，后续提交改写过的行归属到改写它的提交。
+     * 没有保留到 HEAD 的行的提交（如纯删除）不会出现在结果中。
+     */
+    async getBranchDiffByCommit(
+        workspaceRoot: string | undefined,
+        baseRef: string
+    ): Promise<{ mergeBase: string; commits: BranchCommitDiff[] }> {
+        const resolvedWorkspaceRoot = this.resolveWorkspaceRoot(workspaceRoot);
+        const { mergeBase, diffByFile } = await this.getBranchDiff(resolvedWorkspaceRoot, baseRef);
+        const commits = await this.getBranchCommits(resolvedWorkspaceRoot, mergeBase);
+        if (!resolvedWorkspaceRoot || commits.length === 0 || diffByFile.size === 0) {
+            return { mergeBase, commits: [] };
+        }
+
+        const linesByCommit = new Map<string, Map<string, Array<{ line: number; content: string }>>>();
+        for (const filePath of diffByFile.keys()) {
+            const relativePath = path.relative(resolvedWorkspaceRoot, filePath).replace(/\\/g, '/');
+            let blameOutput = '';
+            try {
+                const { stdout } = await execAsync(
+                    `git blame --porcelain ${mergeBase}..HEAD -- "${relativePath}"`,
+                    { cwd: resolvedWorkspaceRoot, encoding: 'utf-8', maxBuffer: 10 * 1024 * 1024 }
+                );
+                blameOutput = stdout;
+            } catch {
+                // 文件在 HEAD 中已删除等情况：没有可归属的行，跳过
+                continue;
+            }
+            for (const [lineNumber, entry] of parseBlamePorcelain(blameOutput)) {
+                const byFile = linesByCommit.get(entry.sha) ?? new Map<string, Array<{ line: number; content: string }>>();
+                const entries = byFile.get(filePath) ?? [];
+                entries.push({ line: lineNumber, content: entry.content });
+                byFile.set(filePath, entries);
+                linesByCommit.set(entry.sha, byFile);
+            }
+        }
+
+        const result: BranchCommitDiff[] = [];
+        for (const commit of commits) {
+            const byFile = linesByCommit.get(commit.sha);
+            if (!byFile) continue;
+            const commitDiffByFile = new Map<string, FileDiff>();
+            for (const [filePath, entries] of byFile) {
+                const branchFileDiff = diffByFile.get(filePath);
+                commitDiffByFile.set(
+                    filePath,
+                    buildFileDiffFromLines(filePath, entries, {
+                        formatOnly: branchFileDiff?.formatOnly,
+                        commentOnly: branchFileDiff?.commentOnly,
+                    })
+                );
+            }
+            result.push({ commit, diffByFile: commitDiffByFile });
+        }
+        return { mergeBase, commits: result };
+    }
+
     /**
      * 按模式获取 diff：
      * - staged: git diff --cached
      * - working: git diff
+     * - pending: git diff HEAD（无提交时对比空树）
+     * - range: git diff <baseRef> <headRef>
+     * - branch: git diff <merge-base> HEAD（merge-base 由 getBranchDiff 解析后传入）
      *
-     * 两种模式都会执行「原始 diff + 语义 diff（忽略空白）」双通道比较。
+     * 各模式都会执行「原始 diff + 语义 diff（忽略空白）」双通道比较。
      * 输出 formatOnly 标记，供 ReviewEngine 在发 AI 前做降噪过滤。
      */
-    private async getDiffByMode(mode: 'staged' | 'working' | 'pending', workspaceRoot: string | undefined, files?: string[]): Promise<Map<string, FileDiff>> {
+    private async getDiffByMode(
+        mode: DiffMode,
+        workspaceRoot: string | undefined,
+        files?: string[],
+        range?: GitRefRange
+    ): Promise<Map<string, FileDiff>> {
         const resolvedWorkspaceRoot = this.resolveWorkspaceRoot(workspaceRoot);
         if (!resolvedWorkspaceRoot) {
             this.logger.warn(`未找到工作区，无法获取 ${mode} diff`);
@@ -200,7 +422,9 @@ export class FileScanner {
                 ? 'git diff --cached'
                 : mode === 'working'
                     ? 'git diff'
-                    : `git diff ${pendingBaseRef}`;
+                    : (mode === 'range' || mode === 'branch') && range
+                        ? `git diff ${range.baseRef} ${range.headRef}`
+                        : `git diff ${pendingBaseRef}`;
             const rawDiffCmd = `${diffBase} -U3 --no-color${fileArgs}`;
             const rawDiffResult = await execAsync(rawDiffCmd, {
                 cwd: resolvedWorkspaceRoot,
@@ -0,0 +1,142 @@
+import * as path from 'path';
+import { parse } from '@babel/parser';
+import { parse as parseSfc } from '@vue/compiler-sfc';
+
+/**
+ * 源码中的一条模块引用
+ *
+ * line/column 为源文件位置（1-based），endLine 为语句结束行；
+ * kind 区分静态 import、re-export、动态 import()、require() 与 TS import = require()。
+ */
+export interface ImportDeclarationInfo {
+    source: string;
+    line: number;
+    column: number;
+    endLine: number;
+    kind: 'import' | 'export' | 'dynamic_import' | 'require' | 'import_equals';
+}
+
+const SCRIPT_EXTENSIONS = ['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs', '.mts', '.cts'];
+
+/** 是否支持提取模块引用（与 astScope 一致：JS/TS 整文件 Babel 解析，.vue 解析 script 块） */
+export const supportsImportExtraction = (filePath: string): boolean => {
+    const ext = path.extname(filePath).toLowerCase();
+    return ext === '.vue' || SCRIPT_EXTENSIONS.includes(ext);
+};
+
+/** 取字符串字面量值（含无插值的模板字符串），否则 null */
+const readStringLiteral = (node: any): string | null => {
+    if (node?.type === 'StringLiteral') {
+        return node.value;
+    }
+    if (node?.type === 'TemplateLiteral' && node.expressions?.length === 0 && node.quasis?.length === 1) {
+        return node.quasis[0].value?.cooked ?? null;
+    }
+    return null;
+};
+
+/**
+ * 解析一段脚本并收集模块引用；lineOffset 为该段在源文件中的起始行 - 1（Vue script 块用）。
+ * 解析失败返回空数组（与 astScope 一致，按 errorRecovery 尽量解析）。
+ */
+const collectFromScript = (code: string, lineOffset: number): ImportDeclarationInfo[] => {
+    let ast: any;
+    try {
+        ast = parse(code, {
+            sourceType: 'module',
+            plugins: ['typescript', 'jsx'],
+            errorRecovery: true,
+        });
+    } catch {
+        return [];
+    }
+
+    const imports: ImportDeclarationInfo[] = [];
+    const push = (node: any, source: string | null, kind: ImportDeclarationInfo['kind']): void => {
+        const loc = node?.loc;
+        if (source === null || !loc?.start?.line) {
+            return;
+        }
+        imports.push({
+            source,
+            line: loc.start.line + lineOffset,
+            column: loc.start.column + 1,
+            endLine: (loc.end?.line ?? loc.start.line) + lineOffset,
+            kind,
+        });
+    };
+
+    const visit = (node: any): void => {
+        if (!node || typeof node !== 'object') {
+            return;
+        }
+        if (Array.isArray(node)) {
+            node.forEach(child => visit(child));
+            return;
+        }
+        switch (node.type) {
+            case 'ImportDeclaration':
+                push(node, readStringLiteral(node.source), 'import');
+                break;
+            case 'ExportNamedDeclaration':
+            case 'ExportAllDeclaration':
+                if (node.source) {
+                    push(node, readStringLiteral(node.source), 'export');
+                }
+                break;
+            case 'TSImportEqualsDeclaration':
+                if (node.moduleReference?.type === 'TSExternalModuleReference') {
+                    push(node, readStringLiteral(node.moduleReference.expression), 'import_equals');
+                }
+                break;
+            case 'ImportExpression':
+                push(node, readStringLiteral(node.source), 'dynamic_import');
+                break;
+            case 'CallExpression':
+                if (node.callee?.type === 'Import') {
+                    push(node, readStringLiteral(node.arguments?.[0]), 'dynamic_import');
+                } else if (node.callee?.type === 'Identifier' && node.callee.name === 'require' && node.arguments?.length === 1) {
+                    push(node, readStringLiteral(node.arguments[0]), 'require');
+                }
+                break;
+            default:
+                break;
+        }
+        // 递归子属性（跳过 loc 与注释，避免无谓遍历）
+        for (const key of Object.keys(node)) {
+            if (key === 'loc' || key === 'leadingComments' || key === 'trailingComments' || key === 'innerComments') {
+                continue;
+            }
+            const value = (node as Record<string, unknown>)[key];
+            if (value && typeof value === 'object') {
+                visit(value);
+            }
+        }
+    };
+    visit(ast);
+    return imports;
+};
+
+/**
+ * 提取文件中的模块引用（import / export from / import() / require() / import = require()）。
+ * 不支持的扩展名或解析失败返回空数组；结果按行号排序。
+ */
+export const extractImportDeclarations = (filePath: string, content: string): ImportDeclarationInfo[] => {
+    const ext = path.extname(filePath).toLowerCase();
+    if (ext === '.vue') {
+        let descriptor: ReturnType<typeof parseSfc>['descriptor'];
+        try {
+            descriptor = parseSfc(content, { filename: 'anonymous.vue' }).descriptor;
+        } catch {
+            return [];
+        }
+        return [descriptor.script, descriptor.scriptSetup]
+            .filter((block): block is NonNullable<typeof block> => !!block?.content)
+            .flatMap(block => collectFromScript(block.content, block.loc.start.line - 1))
+            .sort((a, b) => a.line - b.line || a.column - b.column);
+    }
+    if (!SCRIPT_EXTENSIONS.includes(ext)) {
+        return [];
+    }
+    return collectFromScript(content, 0).sort((a, b) => a.line - b.line || a.column - b.column);
+};
@@ -62,7 +62,46 @@ export const formatRunSummaryPayload = (p: RunSummaryPayload): string => {
     if (p.inputTokensTotal != null || p.outputTokensTotal != null) {
         lines.push(`Token: 输入=${safe(p.inputTokensTotal)} 输出=${safe(p.outputTokensTotal)}`);
     }
+    if (p.estimatedInputTokensTotal != null || p.estimatedOutputTokensTotal != null) {
+        lines.push(`Token(估算): 输入=${safe(p.estimatedInputTokensTotal)} 输出=${safe(p.estimatedOutputTokensTotal)}`);
+    }
+    if (p.estimatedCost != null || p.actualCost != null) {
+        lines.push(`成本: 估算=${safe(p.estimatedCost)} 实际=${safe(p.actualCost)}`);
+    }
     if (p.llmTotalMs != null) lines.push(`LLM 总耗时(ms): ${p.llmTotalMs}`);
+    if (p.llmCacheHits != null || p.llmCacheMisses != null) {
+        lines.push(`AI 磁盘缓存: 命中=${safe(p.llmCacheHits)} 未命中=${safe(p.llmCacheMisses)}`);
+    }
+    if (p.llmOutputModeStats?.length) {
+        lines.push('AI 输出方式:');
+        for (const stat of p.llmOutputModeStats) {
+            lines.push(`  ${stat.mode}: 响应=${stat.responses} 截断=${stat.partial} 解析失败=${stat.parseFailures}`);
+        }
+    }
+    if (p.promptTemplateHash) {
+        const source = p.promptTemplateOverrides?.length ? `自定义 ${p.promptTemplateOverrides.join(', ')}` : '内置';
+        lines.push(`提示词模板: ${p.promptTemplateHash}（${source}）`);
+    }
+    if (p.cascadeStats) {
+        const c = p.cascadeStats;
+        lines.push(`模型分级: 单元=${c.units} 升级=${c.escalated}（风险=${c.escalatedByRisk} 分诊=${c.escalatedByTriage} 兜底=${c.escalatedByFallback}） 跳过=${c.skipped}`);
+    }
+    if (p.verificationStats) {
+        const v = p.verificationStats;
+        lines.push(`自我校验: 候选=${v.candidates} 确认=${v.confirmed} 驳回=${v.rejected} 低置信=${v.lowConfidence} 未校验=${v.unverified}`);
+    }
+    if (p.llmTierStats?.length) {
+        lines.push('分层 Token:');
+        for (const stat of p.llmTierStats) {
+            lines.push(`  ${stat.tier}: 调用=${stat.calls} 输入=${stat.inputTokens} 输出=${stat.outputTokens} 估算输入=${stat.estimatedInputTokens} 估算输出=${stat.estimatedOutputTokens}`);
+        }
+    }
+    if (p.rulePluginStats?.length) {
+        lines.push('规则插件耗时:');
+        for (const stat of p.rulePluginStats) {
+            lines.push(`  ${stat.ruleId}: ${stat.totalMs}ms / ${stat.calls} 次，问题=${stat.issues}${stat.failures ? ` 失败=${stat.failures}` : ''}`);
+        }
+    }
     lines.push(`忽略: 按指纹=${p.ignoredByFingerprintCount} 按行=${p.allowedByLineCount}`);
     if (p.ignoreStoreCount != null) lines.push(`忽略表条数: ${p.ignoreStoreCount}`);
     if (p.ignoreAllowEvents?.length) {
@@ -34,7 +34,16 @@ export interface RunSummaryPayload {
     infoCount: number;
     inputTokensTotal?: number;
     outputTokensTotal?: number;
+    /** 本地估算的输入/输出 Token（服务端未返回 usage 时仍可参考） */
+    estimatedInputTokensTotal?: number;
+    estimatedOutputTokensTotal?: number;
+    /** 按 model_profiles 价格计算：estimatedCost 基于估算 Token，actualCost 基于服务端 usage；未配置价格时不写 */
+    estimatedCost?: number;
+    actualCost?: number;
     llmTotalMs?: number;
+    /** AI 响应磁盘缓存命中 / 未命中的请求数（未启用磁盘缓存时不写） */
+    llmCacheHits?: number;
+    llmCacheMisses?: number;
     ignoredByFingerprintCount: number;
     allowedByLineCount: number;
     ignoreStoreCount?: number;
@@ -43,6 +52,19 @@ export interface RunSummaryPayload {
     infoFingerprints?: string[];
     status: 'success' | 'failed';
     errorClass?: string;
+    /** 规则插件耗时：按规则聚合调用次数、总耗时、产出问题数与失败（抛错/超时）次数 */
+    rulePluginStats?: RulePluginStat[];
+    /** AI 响应解析：按输出方式（文本 / json_schema / 工具调用）聚合响应数、截断数与解析失败数 */
+    llmOutputModeStats?: LlmOutputModeStat[];
+    /** 生效提示词模板的哈希与由仓库 .agentreview/prompts 覆盖的模板名 */
+    promptTemplateHash?: string;
+    promptTemplateOverrides?: string[];
+    /** 模型分级（配置 triage_model 时）：单元升级与跳过数 */
+    cascadeStats?: CascadeStats;
+    /** 自我校验（配置 verify_severities 时）：候选问题的确认、驳回与低置信过滤数 */
+    verificationStats?: VerificationStats;
+    /** 模型分级或自我校验时按层（分诊 / 主审查 / 校验）拆分的调用数与 Token；均未启用时不写 */
+    llmTierStats?: LlmTierStat[];
     /** 放行/忽略事件：按发生顺序，每条带时分秒 HH:mm:ss（日期由文件名 YYYYMMDD.jsonl 体现） */
     ignoreAllowEvents?: Array<{
         type: 'ignored_by_fingerprint' | 'allowed_by_line';
@@ -53,6 +75,59 @@ export interface RunSummaryPayload {
     }>;
 }
 
+/** 单个规则插件在一次 run 内的聚合统计 */
+export interface RulePluginStat {
+    ruleId: string;
+    calls: number;
+    totalMs: number;
+    issues: number;
+    failures: number;
+}
+
+/** AI 响应的输出方式：text=纯文本 JSON，json_schema / tool 见 ai_review.structured_output */
+export type LlmOutputMode = 'text' | 'json_schema' | 'tool';
+
+/** 单种输出方式在一次 run 内的解析统计 */
+export interface LlmOutputModeStat {
+    mode: LlmOutputMode;
+    responses: number;
+    partial: number;
+    parseFailures: number;
+}
+
+/** 模型分级中一次 run 的单元去向：升级按原因拆分，其余为跳过 */
+export interface CascadeStats {
+    units: number;
+    escalated: number;
+    escalatedByRisk: number;
+    escalatedByTriage: number;
+    /** 分诊失败或漏判而兜底升级 */
+    escalatedByFallback: number;
+    skipped: number;
+}
+
+/** 自我校验中一次 run 的候选问题去向：驳回与低置信的问题被丢弃，未校验（请求失败或漏判）的问题保留 */
+export interface VerificationStats {
+    candidates: number;
+    confirmed: number;
+    rejected: number;
+    lowConfidence: number;
+    unverified: number;
+}
+
+/** LLM 调用所属层：triage=分诊模型，review=主审查模型，verify=自我校验 */
+export type LlmTier = 'triage' | 'review' | 'verify';
+
+/** 单层在一次 run 内的调用数与 Token（服务端 usage 与本地估算） */
+export interface LlmTierStat {
+    tier: LlmTier;
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    estimatedInputTokens: number;
+    estimatedOutputTokens: number;
+}
+
 interface RuntimeLogConfig {
     enabled: boolean;
     retentionDays: number;
@@ -67,6 +142,12 @@ interface RunAggregates {
     llmTotalMs: number;
     inputTokens: number;
     outputTokens: number;
+    cacheHits: number;
+    cacheMisses: number;
+    estimatedInputTokens: number;
+    estimatedOutputTokens: number;
+    estimatedCost?: number;
+    actualCost?: number;
 }
 
 export class RuntimeTraceLogger {
@@ -77,6 +158,12 @@ export class RuntimeTraceLogger {
     private writeQueue: Promise<void> = Promise.resolve();
     private sessions = new Map<string, RuntimeTraceSession>();
     private runAggregates = new Map<string, RunAggregates>();
+    private rulePluginStats = new Map<string, Map<string, RulePluginStat>>();
+    private llmOutputModeStats = new Map<string, Map<LlmOutputMode, LlmOutputModeStat>>();
+    private llmTierStats = new Map<string, Map<LlmTier, LlmTierStat>>();
+    private cascadeStats = new Map<string, CascadeStats>();
+    private verificationStats = new Map<string, VerificationStats>();
+    private promptTemplates = new Map<string, { hash: string; overrides: string[] }>();
 
     static getInstance = (): RuntimeTraceLogger => {
         if (!RuntimeTraceLogger.instance) {
@@ -119,7 +206,15 @@ export class RuntimeTraceLogger {
         const startedAt = Date.now();
         const session: RuntimeTraceSession = { runId, trigger, startedAt };
         this.sessions.set(runId, session);
-        this.runAggregates.set(runId, { llmTotalMs: 0, inputTokens: 0, outputTokens: 0 });
+        this.runAggregates.set(runId, {
+            llmTotalMs: 0,
+            inputTokens: 0,
+            outputTokens: 0,
+            cacheHits: 0,
+            cacheMisses: 0,
+            estimatedInputTokens: 0,
+            estimatedOutputTokens: 0,
+        });
         return session;
     };
 
@@ -127,28 +222,184 @@ export class RuntimeTraceLogger {
         if (!session) return;
         this.sessions.delete(session.runId);
         this.runAggregates.delete(session.runId);
+        this.rulePluginStats.delete(session.runId);
+        this.llmOutputModeStats.delete(session.runId);
+        this.llmTierStats.delete(session.runId);
+        this.cascadeStats.delete(session.runId);
+        this.verificationStats.delete(session.runId);
+        this.promptTemplates.delete(session.runId);
     };
 
-    /** 单次 LLM 调用结束后调用，用于按 run 聚合耗时与 Token，供 writeRunSummary 写入 */
+    /** 单次 LLM 调用结束后调用，用于按 run 聚合耗时、Token 与成本，供 writeRunSummary 写入；tier 缺省为 review */
     addLlmCall = (
         runId: string,
-        opts: { durationMs?: number; prompt_tokens?: number; completion_tokens?: number }
+        opts: {
+            tier?: LlmTier;
+            durationMs?: number;
+            prompt_tokens?: number;
+            completion_tokens?: number;
+            estimated_prompt_tokens?: number;
+            estimated_completion_tokens?: number;
+            estimated_cost?: number;
+            actual_cost?: number;
+        }
     ): void => {
         const agg = this.runAggregates.get(runId);
         if (!agg) return;
         if (typeof opts.durationMs === 'number') agg.llmTotalMs += opts.durationMs;
         if (typeof opts.prompt_tokens === 'number') agg.inputTokens += opts.prompt_tokens;
         if (typeof opts.completion_tokens === 'number') agg.outputTokens += opts.completion_tokens;
+        if (typeof opts.estimated_prompt_tokens === 'number') agg.estimatedInputTokens += opts.estimated_prompt_tokens;
+        if (typeof opts.estimated_completion_tokens === 'number') agg.estimatedOutputTokens += opts.estimated_completion_tokens;
+        if (typeof opts.estimated_cost === 'number') agg.estimatedCost = (agg.estimatedCost ?? 0) + opts.estimated_cost;
+        if (typeof opts.actual_cost === 'number') agg.actualCost = (agg.actualCost ?? 0) + opts.actual_cost;
+        const tier = opts.tier ?? 'review';
+        let byTier = this.llmTierStats.get(runId);
+        if (!byTier) {
+            byTier = new Map();
+            this.llmTierStats.set(runId, byTier);
+        }
+        const stat = byTier.get(tier)
+            ?? { tier, calls: 0, inputTokens: 0, outputTokens: 0, estimatedInputTokens: 0, estimatedOutputTokens: 0 };
+        stat.calls += 1;
+        stat.inputTokens += opts.prompt_tokens ?? 0;
+        stat.outputTokens += opts.completion_tokens ?? 0;
+        stat.estimatedInputTokens += opts.estimated_prompt_tokens ?? 0;
+        stat.estimatedOutputTokens += opts.estimated_completion_tokens ?? 0;
+        byTier.set(tier, stat);
     };
 
+    /** 模型分级完成后调用，按 run 累加单元升级与跳过数 */
+    addCascadeTriage = (
+        runId: string,
+        opts: Omit<CascadeStats, 'escalated'>
+    ): void => {
+        if (!this.sessions.has(runId)) return;
+        const stat = this.cascadeStats.get(runId)
+            ?? { units: 0, escalated: 0, escalatedByRisk: 0, escalatedByTriage: 0, escalatedByFallback: 0, skipped: 0 };
+        stat.units += opts.units;
+        stat.escalatedByRisk += opts.escalatedByRisk;
+        stat.escalatedByTriage += opts.escalatedByTriage;
+        stat.escalatedByFallback += opts.escalatedByFallback;
+        stat.escalated = stat.escalatedByRisk + stat.escalatedByTriage + stat.escalatedByFallback;
+        stat.skipped += opts.skipped;
+        this.cascadeStats.set(runId, stat);
+    };
+
+    /** 每批自我校验完成后调用，按 run 累加候选问题去向 */
+    addVerification = (runId: string, opts: VerificationStats): void => {
+        if (!this.sessions.has(runId)) return;
+        const stat = this.verificationStats.get(runId)
+            ?? { candidates: 0, confirmed: 0, rejected: 0, lowConfidence: 0, unverified: 0 };
+        stat.candidates += opts.candidates;
+        stat.confirmed += opts.confirmed;
+        stat.rejected += opts.rejected;
+        stat.lowConfidence += opts.lowConfidence;
+        stat.unverified += opts.unverified;
+        this.verificationStats.set(runId, stat);
+    };
+
+    /** AI 审查开始前调用，记录本 run 生效的提示词模板 */
+    setRunPromptTemplate = (runId: string, opts: { hash: string; overrides: string[] }): void => {
+        if (!this.sessions.has(runId)) return;
+        this.promptTemplates.set(runId, { hash: opts.hash, overrides: [...opts.overrides] });
+    };
+
+    /** 供 ReviewEngine 在写汇总前读取本 run 的提示词模板；未调用 AI 时为 null */
+    getRunPromptTemplate = (runId: string): { hash: string; overrides: string[] } | null =>
+        this.promptTemplates.get(runId) ?? null;
+
+    /** 供 ReviewEngine 在写汇总前读取本 run 的模型分级统计；未分级时为 null */
+    getCascadeStats = (runId: string): CascadeStats | null => this.cascadeStats.get(runId) ?? null;
+
+    /** 供 ReviewEngine 在写汇总前读取本 run 的自我校验统计；未校验时为 null */
+    getVerificationStats = (runId: string): VerificationStats | null => this.verificationStats.get(runId) ?? null;
+
+    /** 供 ReviewEngine 在写汇总前读取本 run 按层拆分的 LLM 统计（按分诊、审查、校验顺序） */
+    getLlmTierStats = (runId: string): LlmTierStat[] => {
+        const byTier = this.llmTierStats.get(runId);
+        return (['triage', 'review', 'verify'] as const)
+            .map(tier => byTier?.get(tier))
+            .filter((stat): stat is LlmTierStat => !!stat);
+    };
+
+    /** 每次查询 AI 响应磁盘缓存后调用，按 run 聚合命中与未命中次数 */
+    addLlmCacheLookup = (runId: string, opts: { hit: boolean }): void => {
+        const agg = this.runAggregates.get(runId);
+        if (!agg) return;
+        if (opts.hit) agg.cacheHits += 1;
+        else agg.cacheMisses += 1;
+    };
+
+    /** 单个规则插件对单个文件执行结束后调用，按 run + 规则聚合耗时，供 writeRunSummary 写入 */
+    addRulePluginCall = (
+        runId: string,
+        opts: { ruleId: string; durationMs: number; issueCount: number; failed: boolean }
+    ): void => {
+        if (!this.sessions.has(runId)) return;
+        let byRule = this.rulePluginStats.get(runId);
+        if (!byRule) {
+            byRule = new Map();
+            this.rulePluginStats.set(runId, byRule);
+        }
+        const stat = byRule.get(opts.ruleId) ?? { ruleId: opts.ruleId, calls: 0, totalMs: 0, issues: 0, failures: 0 };
+        stat.calls += 1;
+        stat.totalMs += opts.durationMs;
+        stat.issues += opts.issueCount;
+        if (opts.failed) stat.failures += 1;
+        byRule.set(opts.ruleId, stat);
+    };
+
+    /** 每次解析 AI 响应后调用（含解析失败），按 run + 输出方式聚合，供比较各方式的解析失败率 */
+    addLlmOutputParse = (
+        runId: string,
+        opts: { mode: LlmOutputMode; partial: boolean; failed: boolean }
+    ): void => {
+        if (!this.sessions.has(runId)) return;
+        let byMode = this.llmOutputModeStats.get(runId);
+        if (!byMode) {
+            byMode = new Map();
+            this.llmOutputModeStats.set(runId, byMode);
+        }
+        const stat = byMode.get(opts.mode) ?? { mode: opts.mode, responses: 0, partial: 0, parseFailures: 0 };
+        stat.responses += 1;
+        if (opts.partial) stat.partial += 1;
+        if (opts.failed) stat.parseFailures += 1;
+        byMode.set(opts.mode, stat);
+    };
+
+    /** 供 ReviewEngine 在写汇总前读取本 run 的 AI 输出方式统计 */
+    getLlmOutputModeStats = (runId: string): LlmOutputModeStat[] =>
+        [...(this.llmOutputModeStats.get(runId)?.values() ?? [])];
+
+    /** 供 ReviewEngine 在写汇总前读取本 run 的规则插件统计（按总耗时降序） */
+    getRulePluginStats = (runId: string): RulePluginStat[] =>
+        [...(this.rulePluginStats.get(runId)?.values() ?? [])].sort((a, b) => b.totalMs - a.totalMs);
+
     /** 供 ReviewEngine 在写汇总前读取本 run 的 LLM 聚合 */
-    getRunAggregates = (runId: string): { llmTotalMs: number; inputTokensTotal: number; outputTokensTotal: number } | null => {
+    getRunAggregates = (runId: string): {
+        llmTotalMs: number;
+        inputTokensTotal: number;
+        outputTokensTotal: number;
+        llmCacheHits: number;
+        llmCacheMisses: number;
+        estimatedInputTokensTotal: number;
+        estimatedOutputTokensTotal: number;
+        estimatedCost?: number;
+        actualCost?: number;
+    } | null => {
         const agg = this.runAggregates.get(runId);
         if (!agg) return null;
         return {
             llmTotalMs: agg.llmTotalMs,
             inputTokensTotal: agg.inputTokens,
             outputTokensTotal: agg.outputTokens,
+            llmCacheHits: agg.cacheHits,
+            llmCacheMisses: agg.cacheMisses,
+            estimatedInputTokensTotal: agg.estimatedInputTokens,
+            estimatedOutputTokensTotal: agg.estimatedOutputTokens,
+            estimatedCost: agg.estimatedCost,
+            actualCost: agg.actualCost,
         };
     };
 
@@ -169,6 +420,12 @@ export class RuntimeTraceLogger {
         await this.writeQueue;
         this.sessions.clear();
         this.runAggregates.clear();
+        this.rulePluginStats.clear();
+        this.llmOutputModeStats.clear();
+        this.llmTierStats.clear();
+        this.cascadeStats.clear();
+        this.verificationStats.clear();
+        this.promptTemplates.clear();
     };
 
     flush = async (): Promise<void> => {
@@ -0,0 +1,229 @@
+/**
+ * SARIF 2.1.0 导出
+ *
+ * 把 ReviewResult 转为 SARIF 日志，供代码扫描面板（如 GitHub code scanning）上传或 SARIF 查看器打开。
+ * 映射关系：
+ * - ReviewIssue.rule → tool.driver.rules 中的规则描述，结果通过 ruleId/ruleIndex 引用
+ * - severity → level（error/warning/info → error/warning/note）
+ * - fingerprint → partialFingerprints（抗行号偏移的去重依据）
+ * - line/column + astRange → region + contextRegion；contextLineRefs → relatedLocations
+ * - ignored（@ai-ignore 覆盖）→ suppressions，stale → properties.stale
+ *
+ * 文件路径统一写成相对 workspaceRoot 的正斜杠 URI，并通过 %SRCROOT% 基准还原为绝对路径。
+ */
+
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import type { ReviewIssue, ReviewResult } from '../types/review';
+
+export const SARIF_VERSION = '2.1.0';
+export const SARIF_SCHEMA_URI = 'https://json.schemastore.org/sarif-2.1.0.json';
+/** partialFingerprints 的键名；指纹算法变化时应升级版本后缀 */
+export const SARIF_FINGERPRINT_KEY = 'agentReviewFingerprint/v1';
+const SRCROOT_BASE_ID = '%SRCROOT%';
+
+export type SarifLevel = 'error' | 'warning' | 'note';
+
+export interface SarifRegion {
+    startLine: number;
+    startColumn?: number;
+    endLine?: number;
+}
+
+export interface SarifLocation {
+    id?: number;
+    physicalLocation: {
+        artifactLocation: { uri: string; uriBaseId?: string };
+        region?: SarifRegion;
+        contextRegion?: SarifRegion;
+    };
+    message?: { text: string };
+}
+
+export interface SarifResult {
+    ruleId: string;
+    ruleIndex: number;
+    level: SarifLevel;
+    message: { text: string };
+    locations: SarifLocation[];
+    relatedLocations?: SarifLocation[];
+    partialFingerprints?: Record<string, string>;
+    suppressions?: Array<{ kind: 'inSource'; justification?: string }>;
+    properties?: Record<string, unknown>;
+}
+
+export interface SarifReportingDescriptor {
+    id: string;
+    name: string;
+    shortDescription: { text: string };
+    defaultConfiguration: { level: SarifLevel };
+}
+
+export interface SarifLog {
+    $schema: string;
+    version: typeof SARIF_VERSION;
+    runs: Array<{
+        tool: {
+            driver: {
+                name: string;
+                version?: string;
+                informationUri?: string;
+                rules: SarifReportingDescriptor[];
+            };
+        };
+        originalUriBaseIds?: Record<string, { uri: string }>;
+        results: SarifResult[];
+        properties?: Record<string, unknown>;
+    }>;
+}
+
+export interface SarifExportOptions {
+    /** 工具版本（插件 package.json 的 version） */
+    toolVersion?: string;
+    /** 附加到 run.properties 的元信息，如 mode、baseRef */
+    properties?: Record<string, unknown>;
+}
+
+const LEVEL_BY_SEVERITY: Record<ReviewIssue['severity'], SarifLevel> = {
+    error: 'error',
+    warning: 'warning',
+    info: 'note',
+};
+
+const LEVEL_RANK: Record<SarifLevel, number> = { note: 0, warning: 1, error: 2 };
+
+/** 相对 workspaceRoot 的正斜杠 URI；不在 workspaceRoot 下时返回绝对 file URI */
+const toArtifactLocation = (
+    filePath: string,
+    workspaceRoot: string
+): SarifLocation['physicalLocation']['artifactLocation'] => {
+    const relativePath = path.relative(workspaceRoot, filePath);
+    if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+        return { uri: pathToFileURL(filePath).href };
+    }
+    return {
+        uri: relativePath.split(path.sep).map(encodeURIComponent).join('/'),
+        uriBaseId: SRCROOT_BASE_ID,
+    };
+};
+
+const buildRelatedLocations = (issue: ReviewIssue, workspaceRoot: string): SarifLocation[] => {
+    const refs = issue.contextLineRefs;
+    if (!refs) {
+        return [];
+    }
+    const related: SarifLocation[] = [];
+    const push = (file: string, region: SarifRegion, text: string) => {
+        related.push({
+            id: related.length,
+            physicalLocation: { artifactLocation: toArtifactLocation(file, workspaceRoot), region },
+            message: { text },
+        });
+    };
+    for (const ref of refs.definitions ?? []) {
+        push(ref.file, { startLine: ref.line }, '定义');
+    }
+    for (const ref of refs.usages ?? []) {
+        push(ref.file, { startLine: ref.line }, '调用方');
+    }
+    const vueBlock = refs.vueRelatedBlock;
+    if (vueBlock?.template) {
+        push(issue.file, { startLine: vueBlock.template[0], endLine: vueBlock.template[1] }, '关联 <template> 块');
+    }
+    if (vueBlock?.script) {
+        push(issue.file, { startLine: vueBlock.script[0], endLine: vueBlock.script[1] }, '关联 <script> 块');
+    }
+    return related;
+};
+
+/**
+ * 把审查结果转换为 SARIF 2.1.0 日志对象。
+ */
+export const buildSarifLog = (
+    result: ReviewResult,
+    workspaceRoot: string,
+    options: SarifExportOptions = {}
+): SarifLog => {
+    const rules: SarifReportingDescriptor[] = [];
+    const ruleIndexById = new Map<string, number>();
+    const results: SarifResult[] = [];
+
+    for (const issue of [...result.errors, ...result.warnings, ...result.info]) {
+        const level = LEVEL_BY_SEVERITY[issue.severity];
+        let ruleIndex = ruleIndexById.get(issue.rule);
+        if (ruleIndex === undefined) {
+            ruleIndex = rules.length;
+            ruleIndexById.set(issue.rule, ruleIndex);
+            rules.push({
+                id: issue.rule,
+                name: issue.rule,
+                shortDescription: { text: issue.rule },
+                defaultConfiguration: { level },
+            });
+        } else if (LEVEL_RANK[level] > LEVEL_RANK[rules[ruleIndex].defaultConfiguration.level]) {
+            // 同一规则出现多种严重程度时取最高者作为默认级别
+            rules[ruleIndex].defaultConfiguration.level = level;
+        }
+
+        const region: SarifRegion = { startLine: Math.max(1, issue.line), startColumn: Math.max(1, issue.column) };
+        const relatedLocations = buildRelatedLocations(issue, workspaceRoot);
+        const properties: Record<string, unknown> = {
+            ...(issue.reason && { reason: issue.reason }),
+            ...(issue.stale && { stale: true }),
+        };
+        results.push({
+            ruleId: issue.rule,
+            ruleIndex,
+            level,
+            message: { text: issue.message },
+            locations: [
+                {
+                    physicalLocation: {
+                        artifactLocation: toArtifactLocation(issue.file, workspaceRoot),
+                        region,
+                        ...(issue.astRange && {
+                            contextRegion: { startLine: issue.astRange.startLine, endLine: issue.astRange.endLine },
+                        }),
+                    },
+                },
+            ],
+            ...(relatedLocations.length > 0 && { relatedLocations }),
+            ...(issue.fingerprint && { partialFingerprints: { [SARIF_FINGERPRINT_KEY]: issue.fingerprint } }),
+            ...(issue.ignored && {
+                suppressions: [{ kind: 'inSource' as const, ...(issue.ignoreReason && { justification: issue.ignoreReason }) }],
+            }),
+            ...(Object.keys(properties).length > 0 && { properties }),
+        });
+    }
+
+    const rootUri = pathToFileURL(path.resolve(workspaceRoot)).href;
+    return {
+        $schema: SARIF_SCHEMA_URI,
+        version: SARIF_VERSION,
+        runs: [
+            {
+                tool: {
+                    driver: {
+                        name: 'AgentReview',
+                        ...(options.toolVersion && { version: options.toolVersion }),
+                        rules,
+                    },
+                },
+                originalUriBaseIds: {
+                    [SRCROOT_BASE_ID]: { uri: rootUri.endsWith('/') ? rootUri : `${rootUri}/` },
+                },
+                results,
+                properties: { ...options.properties, passed: result.passed },
+            },
+        ],
+    };
+};
+
+/**
+ * 序列化为 SARIF JSON 文本（带 2 空格缩进）。
+ */
+export const formatSarifReport = (
+    result: ReviewResult,
+    workspaceRoot: string,
+    options: SarifExportOptions = {}
+): string => JSON.stringify(buildSarifLog(result, workspaceRoot, options), null, 2);